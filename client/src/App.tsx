@@ -8,6 +8,11 @@ import { ChatInterface } from './components/ChatInterface';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorAlert } from './components/ErrorAlert';
 import { UserQueryPanel } from './components/UserQueryPanel';
+import { AnalysisHistoryPanel } from './components/AnalysisHistoryPanel';
+import { SearchPanel } from './components/SearchPanel';
+import { ReportVersionsPanel } from './components/ReportVersionsPanel';
+import { ModelComparisonView } from './components/ModelComparisonView';
+import { ClaimSelector } from './components/ClaimSelector';
 
 import { 
   ReportType, 
@@ -16,15 +21,40 @@ import {
   AIProvider, 
   AIModelConfig, 
   ConfigurableParams,
-  CurrentSiftQueryDetails
+  CurrentSiftQueryDetails,
+  QueryImage,
+  QueryImageDraft,
+  ComparisonRun,
+  ClaimCandidate,
+  ReportTypeInfo
 } from './types';
 // Prompts are now handled by the backend
-import { initiateSiftAnalysis, fetchModelConfigurations, sendChatMessage, cancelStream } from './services/apiClient';
+import { initiateSiftAnalysis, initiateConsensusAnalysis, initiateSectionRegeneration, saveSectionRegenerationVersion, extractClaims, shortenCommunityNote, sendChatMessage, followSiftStream, cancelStream, fetchAnalysisWithHistory, extractUrlContent, ExtractedUrlData, urlContextFromExtraction } from './services/apiClient';
+import { chatMessagesFromAnalysis, originalQueryFromAnalysis } from './services/analysisHistory';
+import { mergeGroundingSources } from './services/groundingSources';
+import { queryImageRequest, queryImagesOf, withImageUploadIds } from './services/queryImages';
+import { imageForensicsContext } from './services/imageForensics';
+import { buildConversationBundle, conversationBundleFilename, parseConversationBundle } from './services/conversationBundle';
+import { downloadBlob } from './services/reportExport';
+import { modelConfigParamsFor } from './services/modelComparison';
+import { loadModelCatalog } from './services/modelCatalog';
+import { FALLBACK_REPORT_TYPES, findReportType, loadReportTypes } from './services/reportTypes';
+import { claimCandidatesFrom, selectedClaimTexts } from './services/claimSelection';
+import { regeneratedSectionBody, replaceReportSection, reportSectionBody, undoSectionRevision } from './services/sectionRegeneration';
+import {
+  ParameterPreset,
+  buildParameterPresetsExport,
+  loadParameterPresets,
+  mergeParameterPresets,
+  parameterPresetsFilename,
+  parseParameterPresetsExport,
+  saveParameterPresets,
+} from './services/parameterPresets';
 
 // Helper function to update the last AI message that is currently loading
 const updateLastLoadingAiMessage = (
   messages: ChatMessage[],
-  updates: Partial<Omit<ChatMessage, 'id' | 'sender' | 'timestamp' | 'originalQuery' | 'originalQueryReportType' | 'modelId' | 'imagePreviewUrl' | 'groundingSources' >>
+  updates: Partial<Omit<ChatMessage, 'id' | 'sender' | 'timestamp' | 'originalQuery' | 'originalQueryReportType' | 'modelId' | 'imagePreviewUrl' >>
   // Be specific about what fields can be updated by typical SSE events.
   // 'text', 'isLoading', 'isError' are common.
 ): ChatMessage[] => {
@@ -53,12 +83,22 @@ const updateLastLoadingAiMessage = (
   }
 };
 
+// Helper function to update one model's run in a side-by-side comparison
+const updateComparisonRun = (
+  runs: ComparisonRun[] | null,
+  modelId: string,
+  updates: (run: ComparisonRun) => Partial<ComparisonRun>
+): ComparisonRun[] | null => runs && runs.map(run => (run.modelId === modelId ? { ...run, ...updates(run) } : run));
+
 const App: React.FC = () => {
   const [currentStreamUrl, setCurrentStreamUrl] = useState<string | null>(null);
   const [currentStreamId, setCurrentStreamId] = useState<string | null>(null);
   const [userInputText, setUserInputText] = useState<string>('');
-  const [userImageFile, setUserImageFile] = useState<File | null>(null);
+  const [userImages, setUserImages] = useState<QueryImageDraft[]>([]);
+  const [includeImageForensics, setIncludeImageForensics] = useState(true);
+  const [extractedUrl, setExtractedUrl] = useState<ExtractedUrlData | null>(null);
   const [reportType, setReportType] = useState<ReportType>(ReportType.FULL_CHECK);
+  const [reportTypes, setReportTypes] = useState<ReportTypeInfo[]>(FALLBACK_REPORT_TYPES);
   
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -71,25 +111,63 @@ const App: React.FC = () => {
   const [isChatActive, setIsChatActive] = useState<boolean>(false);
   const [currentSiftQueryDetails, setCurrentSiftQueryDetails] = useState<CurrentSiftQueryDetails | null>(null);
   const [originalQueryForRestart, setOriginalQueryForRestart] = useState<OriginalQueryInfo | null>(null);
+  const [publicImageUrls, setPublicImageUrls] = useState<Record<string, string>>({}); // Hosted copies for reverse image search, by upload id
   const [currentAnalysisId, setCurrentAnalysisId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [isSearchOpen, setIsSearchOpen] = useState<boolean>(false);
+  const [isVersionsOpen, setIsVersionsOpen] = useState<boolean>(false);
+  // Newest report version stored for the current analysis; reloads the versions panel when it changes
+  const [latestReportVersion, setLatestReportVersion] = useState<number | null>(null);
   
   // Model Configuration States
   const [availableModels, setAvailableModels] = useState<AIModelConfig[]>([]);
   const [modelsLoading, setModelsLoading] = useState<boolean>(true);
   const [modelsError, setModelsError] = useState<string | null>(null);
+  // Problems loading the model catalogs that still left models to choose from
+  const [modelCatalogWarnings, setModelCatalogWarnings] = useState<string[]>([]);
   
   // Model Selection States
   const [selectedProviderKey, setSelectedProviderKey] = useState<AIProvider>(AIProvider.GOOGLE_GEMINI);
   const [selectedModelId, setSelectedModelId] = useState<string>('');
   const [modelConfigParams, setModelConfigParams] = useState<ConfigurableParams>({});
 
+  // Side-by-side comparison: extra models to run, and one run per model once started
+  const [comparisonModelIds, setComparisonModelIds] = useState<string[]>([]);
+  const [comparisonRuns, setComparisonRuns] = useState<ComparisonRun[] | null>(null);
+
+  // Optional claim decomposition before the report: the extracted claims under review
+  const [pickClaimsFirst, setPickClaimsFirst] = useState(false);
+  const [claimCandidates, setClaimCandidates] = useState<ClaimCandidate[] | null>(null);
+  const [isExtractingClaims, setIsExtractingClaims] = useState(false);
+
+  // Named model settings, kept in this browser
+  const [parameterPresets, setParameterPresets] = useState<ParameterPreset[]>(() => loadParameterPresets());
+
   // Gemini Preprocessing state (enableGeminiPreprocessing, geminiPreprocessingOutputText) removed as backend handles this.
 
 
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const restoredModelConfigParamsRef = useRef<ConfigurableParams | null>(null);
+  const comparisonControllersRef = useRef<AbortController[]>([]);
+  // The analysis most recently asked to open; responses for earlier clicks, or
+  // for an open superseded by a new or cleared chat, are ignored
+  const openingAnalysisIdRef = useRef<string | null>(null);
+  // At most one section regenerates at a time
+  const sectionStreamRef = useRef<{ controller: AbortController; streamId?: string; restorePreviousBody: () => void } | null>(null);
   // const abortControllerRef = useRef<AbortController | null>(null); // Will be removed or managed by SSE handler
   const abortControllerRef = useRef<AbortController | null>(null); // Keeping for handleStopGeneration, but not used in handleStartChat's core API call path
 
+  // Fetch the report types the server's agents offer on component mount
+  useEffect(() => {
+    loadReportTypes().then(({ reportTypes: loadedReportTypes, issues, serverError }) => {
+      if (serverError) console.warn('Report types unavailable, offering the full check only:', serverError);
+      issues.forEach(issue => console.warn('Report type left out:', issue));
+      setReportTypes(loadedReportTypes);
+      setReportType(current => (findReportType(loadedReportTypes, current) ? current : loadedReportTypes[0].id));
+    });
+  }, []);
+
   // Fetch model configurations on component mount
   useEffect(() => {
     const loadModelConfigurations = async () => {
@@ -97,14 +175,24 @@ const App: React.FC = () => {
         setModelsLoading(true);
         setModelsError(null);
         
-        const models = await fetchModelConfigurations();
+        const { models, issues, serverError } = await loadModelCatalog();
         setAvailableModels(models);
+        if (models.length === 0) {
+          throw new Error(serverError || 'Neither the server nor the bundled catalog has a valid model.');
+        }
+        setModelCatalogWarnings([
+          ...(serverError ? [`The server's model list is unavailable, so the bundled catalog is shown: ${serverError}`] : []),
+          ...issues,
+        ]);
+        issues.forEach(issue => console.warn('Model catalog:', issue));
         
         // Set default selections if models are available
         if (models.length > 0) {
-          // Try to find a Google Gemini model first, then fallback to first available
-          const geminiModel = models.find(m => m.provider === AIProvider.GOOGLE_GEMINI);
-          const defaultModel = geminiModel || models[0];
+          // Prefer models the server offers; try a Google Gemini model first, then fallback to first available
+          const serverModels = models.filter(m => m.origin !== 'bundled');
+          const candidates = serverModels.length > 0 ? serverModels : models;
+          const geminiModel = candidates.find(m => m.provider === AIProvider.GOOGLE_GEMINI);
+          const defaultModel = geminiModel || candidates[0];
           
           setSelectedProviderKey(defaultModel.provider);
           setSelectedModelId(defaultModel.id);
@@ -137,14 +225,26 @@ const App: React.FC = () => {
   useEffect(() => {
     const currentModelConfig = getSelectedModelConfig();
     if (currentModelConfig) {
+      // An imported conversation switches model and brings its own settings.
+      const restoredParams = restoredModelConfigParamsRef.current;
+      restoredModelConfigParamsRef.current = null;
       const initialParams: ConfigurableParams = {};
       currentModelConfig.parameters.forEach(param => {
-        initialParams[param.key] = param.defaultValue;
+        initialParams[param.key] = restoredParams?.[param.key] ?? param.defaultValue;
       });
       setModelConfigParams(initialParams);
     }
   }, [selectedModelId, selectedProviderKey, getSelectedModelConfig]);
 
+  useEffect(() => {
+    saveParameterPresets(parameterPresets);
+  }, [parameterPresets]);
+
+  // Claims extracted from an earlier version of the text no longer apply.
+  useEffect(() => {
+    setClaimCandidates(null);
+  }, [userInputText, extractedUrl]);
+
   // Effect to clear global error when provider changes - this can remain if setError is still used for other errors.
   useEffect(() => {
     setError(null);
@@ -176,7 +276,7 @@ const App: React.FC = () => {
      handleClearChatAndReset(false);
   };
 
-  const handleModelConfigChange = (key: string, value: number | string) => {
+  const handleModelConfigChange = (key: string, value: number | string | boolean) => {
     setModelConfigParams(prev => ({ ...prev, [key]: value }));
   };
   
@@ -209,32 +309,54 @@ const App: React.FC = () => {
   const handleStartChat = async (isRestart: boolean = false, restartQuery?: OriginalQueryInfo) => {
     setIsLoading(true);
     setError(null);
+    openingAnalysisIdRef.current = null;
     // Clear previous pre-processing output if any, as a new SIFT analysis will start.
     // setGeminiPreprocessingOutputText(null); // Removed, backend handles preprocessing
 
     // Determine the query details to use, prioritizing restartQuery if provided.
-    const queryToUse = isRestart && restartQuery ? restartQuery : {
-      text: userInputText,
-      // For a new chat, image details are derived from userImageFile.
+    const urlContext = extractedUrl ? urlContextFromExtraction(extractedUrl) : undefined;
+    // The chat keeps its own preview URLs; the form's previews are revoked when the drafts are cleared.
+    const queryImages: QueryImage[] = isRestart ? [] : userImages.map(draft => ({
+      previewUrl: URL.createObjectURL(draft.file),
+      mimeType: draft.file.type,
+      name: draft.file.name,
+      caption: draft.caption.trim() || undefined,
+    }));
+    const primaryImage = queryImages[0];
+    const queryToUse: OriginalQueryInfo = isRestart && restartQuery ? restartQuery : {
+      // A URL analysis without a question is stored and shown under the article's URL.
+      text: userInputText.trim() || urlContext?.url || userInputText,
+      // For a new chat, image details are derived from userImages; the first image is the primary one.
       // For a restart, they should be in restartQuery if an image was part of the original query.
-      imageMimeType: userImageFile?.type,
-      // imageBase64 is not directly prepared here for new chats; userImageFile is preferred.
+      imageMimeType: primaryImage?.mimeType,
+      // imageBase64 is not directly prepared here for new chats; the image files are preferred.
       // If restarting, restartQuery.imageBase64 should be used if present.
       imageBase64: (isRestart && restartQuery?.imageBase64) ? restartQuery.imageBase64 : null,
       reportType: reportType,
-      userImagePreviewUrl: userImageFile ? URL.createObjectURL(userImageFile) : (isRestart && restartQuery?.userImagePreviewUrl ? restartQuery.userImagePreviewUrl : undefined),
+      userImagePreviewUrl: primaryImage ? primaryImage.previewUrl : (isRestart && restartQuery?.userImagePreviewUrl ? restartQuery.userImagePreviewUrl : undefined),
+      urlContext,
+      images: queryImages.length > 0 ? queryImages : undefined,
+      imageForensics: includeImageForensics
+        ? imageForensicsContext(userImages.map(draft => ({ caption: draft.caption, report: draft.forensics })))
+        : undefined,
+      selectedClaims: pickClaimsFirst && claimCandidates ? selectedClaimTexts(claimCandidates) : undefined,
     };
 
     // Validate that there's content to analyze.
-    if (!queryToUse.text?.trim() && !userImageFile && !queryToUse.imageBase64) {
+    if (!queryToUse.text?.trim() && queryImagesOf(queryToUse).length === 0 && !queryToUse.urlContext) {
       setError("Please provide text or an image to analyze.");
       setIsLoading(false);
       return;
     }
 
+    if (!isRestart && activeComparisonModelIds.length > 0) {
+      await handleStartComparison(queryToUse);
+      return;
+    }
+
     // Create and set the user's message in the chat.
     const userMessageId = uuidv4();
-    const userMessageText = queryToUse.text || (userImageFile || queryToUse.userImagePreviewUrl || queryToUse.imageBase64 ? "Image for analysis:" : "Empty query");
+    const userMessageText = queryToUse.text || (queryImagesOf(queryToUse).length > 0 ? "Image for analysis:" : "Empty query");
     
     const userDisplayMessage: ChatMessage = {
       id: userMessageId,
@@ -248,6 +370,10 @@ const App: React.FC = () => {
         imageBase64: queryToUse.imageBase64, // Important for restarts if no File object is available
         reportType: queryToUse.reportType,
         userImagePreviewUrl: queryToUse.userImagePreviewUrl,
+        urlContext: queryToUse.urlContext,
+        images: queryToUse.images,
+        imageForensics: queryToUse.imageForensics,
+        selectedClaims: queryToUse.selectedClaims,
       }
     };
     setChatMessages([userDisplayMessage]); // Initialize chat with the user's message.
@@ -257,17 +383,23 @@ const App: React.FC = () => {
     setCurrentSiftQueryDetails({
       userInputText: queryToUse.text || '',
       userImagePreviewUrl: queryToUse.userImagePreviewUrl, // May be undefined
+      images: queryToUse.images,
       reportType: queryToUse.reportType,
+      selectedClaims: queryToUse.selectedClaims,
     });
 
     // Save the complete query information for a potential restart.
-    // This ensures that even if `userImageFile` is cleared, `imageBase64` is retained for restart if it was part of the query.
+    // This ensures that even if `userImages` is cleared, `imageBase64` is retained for restart if it was part of the query.
     setOriginalQueryForRestart({
         text: queryToUse.text,
         imageMimeType: queryToUse.imageMimeType,
         imageBase64: queryToUse.imageBase64,
         reportType: queryToUse.reportType,
         userImagePreviewUrl: queryToUse.userImagePreviewUrl,
+        urlContext: queryToUse.urlContext,
+        images: queryToUse.images,
+        imageForensics: queryToUse.imageForensics,
+        selectedClaims: queryToUse.selectedClaims,
     });
 
     // Add a placeholder message for the AI's response.
@@ -287,26 +419,37 @@ const App: React.FC = () => {
     ]);
 
     try {
-      // `userImageFile` is of type `File | null`. Pass it directly.
-      // `initiateSiftAnalysis` expects `userImageFile?: File`.
-      // If `isRestart` is true and `userImageFile` is null (e.g., after a page refresh),
-      // but `queryToUse.imageBase64` exists, the current `initiateSiftAnalysis` signature
-      // does not directly support passing base64. This refactor adheres to passing `userImageFile`.
-      // The backend would need to handle `queryToUse.text` which might implicitly refer to an image,
-      // or the `initiateSiftAnalysis` API and backend would need changes to accept base64.
-      // For now, we pass the current `userImageFile` state (which could be null).
+      // A new chat sends the image drafts in their current order, each with its caption.
+      // A restart re-sends the original query's images from their durable copies
+      // (server upload ids or base64), so it works after the drafts are gone.
+      const imageRequest = isRestart
+        ? await queryImageRequest(queryToUse)
+        : { userImages: userImages.map(draft => ({ file: draft.file, caption: draft.caption.trim() || undefined })) };
 
       const textToAnalyze = queryToUse.text || ''; // Ensure text is at least an empty string.
-      const imageFileToPass = userImageFile; // This is `File | null`. API expects `File | undefined`. Null should be fine.
 
-      const streamUrl = await initiateSiftAnalysis({
+      const { streamUrl, imageUploadIds } = await initiateSiftAnalysis({
         userInputText: textToAnalyze,
-        userImageFile: imageFileToPass || undefined,
+        ...imageRequest,
         reportType: queryToUse.reportType,
         selectedModelId: selectedModelId,
-        modelConfigParams: modelConfigParams
+        modelConfigParams: modelConfigParams,
+        urlContext: queryToUse.urlContext,
+        imageForensics: queryToUse.imageForensics,
+        selectedClaims: queryToUse.selectedClaims,
+        // A restart is stored as a new version of the analysis it restarts
+        restartOfAnalysisId: isRestart ? currentAnalysisId ?? undefined : undefined,
       });
       setCurrentStreamUrl(streamUrl); // Store the stream URL from the API response.
+
+      // Remember where the server stored the images so a later restart can refer to them.
+      if (imageUploadIds.some(Boolean)) {
+        setOriginalQueryForRestart(prev => (prev ? withImageUploadIds(prev, imageUploadIds) : prev));
+        setCurrentSiftQueryDetails(prev => (prev ? withImageUploadIds(prev, imageUploadIds) : prev));
+        setChatMessages(prev => prev.map(m =>
+          m.id === userMessageId && m.originalQuery ? { ...m, originalQuery: withImageUploadIds(m.originalQuery, imageUploadIds) } : m
+        ));
+      }
       
       // Extract stream ID from URL for cancellation purposes
       const urlParts = streamUrl.split('/');
@@ -328,7 +471,183 @@ const App: React.FC = () => {
     // abortControllerRef is no longer managed directly within this core path.
   };
 
-  const handleSendChatMessage = async (messageText: string) => {
+  // Extracts the claims in the text (or article) for the user to review before the report.
+  const handleExtractClaims = async () => {
+    const urlContext = extractedUrl ? urlContextFromExtraction(extractedUrl) : undefined;
+    if (!userInputText.trim() && !urlContext) {
+      setError('Claims can only be extracted from text or an article.');
+      return;
+    }
+    setError(null);
+    setIsExtractingClaims(true);
+    try {
+      const claims = await extractClaims({
+        userInputText: userInputText.trim() || undefined,
+        selectedModelId,
+        modelConfigParams,
+        urlContext,
+      });
+      setClaimCandidates(claimCandidatesFrom(claims));
+    } catch (extractError) {
+      console.error('extractClaims API call failed:', extractError);
+      setError(extractError instanceof Error ? extractError.message : 'Failed to extract claims.');
+    } finally {
+      setIsExtractingClaims(false);
+    }
+  };
+
+  // Follows one comparison run's report stream; each run appends to its own column.
+  const followComparisonStream = (modelId: string, streamUrl: string, signal: AbortSignal) => {
+    const updateRun = (updates: (run: ComparisonRun) => Partial<ComparisonRun>) =>
+      setComparisonRuns(prev => updateComparisonRun(prev, modelId, updates));
+
+    followSiftStream(streamUrl, {
+      open: () => updateRun(() => ({ isReconnecting: false })),
+      reconnecting: () => updateRun(() => ({ isReconnecting: true })),
+      delta: ({ text }) => updateRun(run => ({ text: run.text + text })),
+      text_chunk: ({ text }) => updateRun(() => ({ text })),
+      sources: ({ sources }) => updateRun(run => ({ groundingSources: mergeGroundingSources(run.groundingSources, sources) })),
+      analysis_id: ({ analysisId }) => updateRun(() => ({ analysisId })),
+      error: ({ errorType, message }) => {
+        console.error(`SSE: Comparison stream error for ${modelId} (${errorType}):`, message);
+        const errorText = errorType === 'NetworkError'
+          ? `The connection to the report stream was lost: ${message}`
+          : message;
+        updateRun(() => ({ text: errorText, isLoading: false, isError: true, isReconnecting: false }));
+      },
+      complete: () => updateRun(() => ({ isLoading: false, isReconnecting: false })),
+    }, signal);
+  };
+
+  // Sends the same query to the selected model and every comparison model in parallel.
+  const handleStartComparison = async (query: OriginalQueryInfo) => {
+    const models = [selectedModelId, ...activeComparisonModelIds]
+      .map(id => availableModels.find(m => m.id === id))
+      .filter((model): model is AIModelConfig => !!model);
+
+    setIsChatActive(true);
+    setCurrentSiftQueryDetails({
+      userInputText: query.text || '',
+      userImagePreviewUrl: query.userImagePreviewUrl,
+      images: query.images,
+      reportType: query.reportType,
+      selectedClaims: query.selectedClaims,
+    });
+    // Save the complete query for a restart, as handleStartChat does.
+    setOriginalQueryForRestart({ ...query });
+    setComparisonRuns(models.map(model => ({ modelId: model.id, modelName: model.name, text: '', isLoading: true })));
+    comparisonControllersRef.current = models.map(() => new AbortController());
+    const imageDrafts = userImages.map(draft => ({ file: draft.file, caption: draft.caption.trim() || undefined }));
+
+    await Promise.all(models.map(async (model, index) => {
+      try {
+        const { streamUrl, imageUploadIds } = await initiateSiftAnalysis({
+          userInputText: query.text || '',
+          userImages: imageDrafts,
+          reportType: query.reportType,
+          selectedModelId: model.id,
+          modelConfigParams: model.id === selectedModelId ? modelConfigParams : modelConfigParamsFor(model, modelConfigParams),
+          urlContext: query.urlContext,
+          imageForensics: query.imageForensics,
+          selectedClaims: query.selectedClaims,
+        });
+        if (index === 0 && imageUploadIds.some(Boolean)) {
+          setOriginalQueryForRestart(prev => (prev ? withImageUploadIds(prev, imageUploadIds) : prev));
+          setCurrentSiftQueryDetails(prev => (prev ? withImageUploadIds(prev, imageUploadIds) : prev));
+        }
+        setComparisonRuns(prev => updateComparisonRun(prev, model.id, () => ({ streamId: streamUrl.split('/').pop() })));
+        followComparisonStream(model.id, streamUrl, comparisonControllersRef.current[index].signal);
+      } catch (apiError) {
+        console.error(`initiateSiftAnalysis failed for ${model.id}:`, apiError);
+        const errorText = apiError instanceof Error ? apiError.message : 'Failed to initiate SIFT analysis.';
+        setComparisonRuns(prev => updateComparisonRun(prev, model.id, () => ({ text: errorText, isLoading: false, isError: true })));
+      }
+    }));
+    setIsLoading(false);
+  };
+
+  const handleStopComparison = async () => {
+    const runningStreamIds = (comparisonRuns ?? []).filter(run => run.isLoading && run.streamId).map(run => run.streamId!);
+    comparisonControllersRef.current.forEach(controller => controller.abort());
+    comparisonControllersRef.current = [];
+    setComparisonRuns(prev => prev && prev.map(run =>
+      run.isLoading ? { ...run, text: run.text + "\n\nGeneration stopped by user.", isLoading: false, isReconnecting: false } : run
+    ));
+    await Promise.all(runningStreamIds.map(streamId =>
+      cancelStream(streamId).catch(error => console.error('Failed to send cancellation request:', error))
+    ));
+  };
+
+  // Merges the completed comparison reports into one Full Check written by the
+  // chosen model. The result is its own stored analysis and opens as a normal chat.
+  const handleBuildConsensus = async (modelId: string) => {
+    const model = availableModels.find(m => m.id === modelId);
+    const analysisIds = (comparisonRuns ?? [])
+      .filter(run => !run.isLoading && !run.isError && run.analysisId)
+      .map(run => run.analysisId!);
+    if (!model || analysisIds.length < 2 || !currentSiftQueryDetails) return;
+
+    setError(null);
+    setIsLoading(true);
+    comparisonControllersRef.current.forEach(controller => controller.abort());
+    comparisonControllersRef.current = [];
+    setComparisonRuns(null);
+    setCurrentAnalysisId(null);
+    // A restart re-runs one query with one model, which would overwrite the merged
+    // report, so consensus threads cannot be restarted.
+    const sourceQuery = originalQueryForRestart;
+    setOriginalQueryForRestart(null);
+    setCurrentSiftQueryDetails(prev => (prev ? { ...prev, reportType: ReportType.FULL_CHECK } : prev));
+
+    const aiMessageId = uuidv4();
+    setChatMessages([
+      {
+        id: uuidv4(),
+        sender: 'user',
+        text: currentSiftQueryDetails.userInputText || 'Image for analysis:',
+        timestamp: new Date(),
+        imagePreviewUrl: currentSiftQueryDetails.userImagePreviewUrl,
+        originalQuery: {
+          text: currentSiftQueryDetails.userInputText,
+          reportType: ReportType.FULL_CHECK,
+          userImagePreviewUrl: currentSiftQueryDetails.userImagePreviewUrl,
+          images: currentSiftQueryDetails.images,
+          // The other inputs the source runs used
+          urlContext: sourceQuery?.urlContext,
+          imageForensics: sourceQuery?.imageForensics,
+          selectedClaims: currentSiftQueryDetails.selectedClaims,
+        },
+      },
+      {
+        id: aiMessageId,
+        sender: 'ai',
+        text: '',
+        isLoading: true,
+        timestamp: new Date(),
+        modelId,
+        isInitialSIFTReport: true,
+        originalQueryReportType: ReportType.FULL_CHECK,
+      },
+    ]);
+
+    try {
+      const streamUrl = await initiateConsensusAnalysis({
+        analysisIds,
+        selectedModelId: modelId,
+        modelConfigParams: modelId === selectedModelId ? modelConfigParams : modelConfigParamsFor(model, modelConfigParams),
+      });
+      setCurrentStreamId(streamUrl.split('/').pop() || null);
+      setCurrentStreamUrl(streamUrl);
+    } catch (apiError) {
+      console.error('initiateConsensusAnalysis API call failed:', apiError);
+      const errorText = apiError instanceof Error ? apiError.message : 'Failed to start the consensus report.';
+      setError(errorText);
+      setChatMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, text: errorText, isLoading: false, isError: true } : m));
+      setIsLoading(false);
+    }
+  };
+
+  const handleSendChatMessage = async (messageText: string, command?: 'another round' | 'read the room') => {
     if (!isChatActive || isLoading) return;
     setError(null);
     setIsLoading(true);
@@ -361,35 +680,50 @@ const App: React.FC = () => {
         chatHistory,
         selectedModelId,
         modelConfigParams,
-        // onMessage callback - update the AI message with new content
-        (content: string) => {
-          setChatMessages(prev => 
-            updateLastLoadingAiMessage(prev, { 
-              text: (prev.find(m => m.id === aiMessageId)?.text || '') + content 
-            })
-          );
-        },
-        // onError callback
-        (error: any) => {
-          console.error("Chat API error:", error);
-          const errorText = error.message || String(error);
-          setChatMessages(prev => prev.map(m => 
-            m.id === aiMessageId ? { ...m, text: errorText, isLoading: false, isError: true } : m
-          ));
-          setError(errorText);
-        },
-        // onComplete callback
-        () => {
-          setChatMessages(prev => prev.map(m => 
-            m.id === aiMessageId ? { ...m, isLoading: false } : m
-          ));
-          setIsLoading(false);
+        {
+          // Append each delta to the AI message
+          delta: ({ text }) => {
+            setChatMessages(prev =>
+              updateLastLoadingAiMessage(prev, {
+                text: (prev.find(m => m.id === aiMessageId)?.text || '') + text
+              })
+            );
+          },
+          text_chunk: ({ text }) => {
+            setChatMessages(prev => updateLastLoadingAiMessage(prev, { text }));
+          },
+          sources: ({ sources }) => {
+            setChatMessages(prev => prev.map(m =>
+              m.id === aiMessageId ? { ...m, groundingSources: mergeGroundingSources(m.groundingSources, sources) } : m
+            ));
+          },
+          analysis_id: ({ analysisId }) => {
+            setCurrentAnalysisId(analysisId);
+          },
+          report_version: ({ versionNumber }) => {
+            updateChatMessage(aiMessageId, () => ({ reportVersion: versionNumber }));
+            setLatestReportVersion(versionNumber);
+          },
+          error: ({ message }) => {
+            console.error("Chat API error:", message);
+            setChatMessages(prev => prev.map(m =>
+              m.id === aiMessageId ? { ...m, text: message, isLoading: false, isError: true } : m
+            ));
+            setError(message);
+          },
+          complete: () => {
+            setChatMessages(prev => prev.map(m =>
+              m.id === aiMessageId ? { ...m, isLoading: false } : m
+            ));
+            setIsLoading(false);
+          },
         },
         // Optional parameters
         undefined, // preprocessingOutputText
         undefined, // systemInstructionOverride
         signal,    // abort signal
-        currentAnalysisId || undefined // analysis_id for persistence
+        currentAnalysisId || undefined, // analysis_id for persistence
+        command === 'another round' // stores the answer as a new report version
       );
 
 
@@ -484,7 +818,9 @@ const App: React.FC = () => {
       }
     }
 
-    // Cancel on client side
+    // Cancel on client side; clearing the stream URL stops following the initial report stream
+    setCurrentStreamUrl(null);
+    setCurrentStreamId(null);
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
@@ -525,6 +861,124 @@ const App: React.FC = () => {
     }
   };
 
+  const updateChatMessage = (messageId: string, updates: (message: ChatMessage) => Partial<ChatMessage>) =>
+    setChatMessages(prev => prev.map(m => (m.id === messageId ? { ...m, ...updates(m) } : m)));
+
+  // Streams a new body for one section of a report and splices it into the same
+  // message as it arrives. The replaced body is kept on the message for undo;
+  // if the stream fails or is stopped, the old body is put back.
+  const handleRegenerateSection = async (messageId: string, rawTitle: string) => {
+    const message = chatMessages.find(m => m.id === messageId);
+    const previousBody = message ? reportSectionBody(message.text, rawTitle) : null;
+    if (!message || previousBody === null || sectionStreamRef.current || isLoading) return;
+
+    const controller = new AbortController();
+    let streamedText = '';
+    const restorePreviousBody = () => updateChatMessage(messageId, m => ({
+      text: replaceReportSection(m.text, rawTitle, previousBody),
+      regeneratingSection: undefined,
+    }));
+    sectionStreamRef.current = { controller, restorePreviousBody };
+    const endSectionStream = () => {
+      if (sectionStreamRef.current?.controller === controller) sectionStreamRef.current = null;
+    };
+
+    setError(null);
+    updateChatMessage(messageId, () => ({ regeneratingSection: rawTitle }));
+    try {
+      const streamUrl = await initiateSectionRegeneration({
+        reportText: message.text,
+        sectionHeading: rawTitle,
+        userQuery: chatMessages.find(m => m.sender === 'user' && m.originalQuery)?.originalQuery?.text,
+        selectedModelId,
+        modelConfigParams,
+      });
+      const streamId = streamUrl.split('/').pop();
+      if (controller.signal.aborted) {
+        if (streamId) cancelStream(streamId).catch(error => console.error('Failed to send cancellation request:', error));
+        return;
+      }
+      sectionStreamRef.current = { controller, restorePreviousBody, streamId };
+
+      followSiftStream(streamUrl, {
+        delta: ({ text }) => {
+          streamedText += text;
+          const body = regeneratedSectionBody(streamedText);
+          updateChatMessage(messageId, m => ({ text: replaceReportSection(m.text, rawTitle, body || previousBody) }));
+        },
+        sources: ({ sources }) => updateChatMessage(messageId, m => ({
+          groundingSources: mergeGroundingSources(m.groundingSources, sources),
+        })),
+        error: ({ errorType, message: errorMessage }) => {
+          console.error(`SSE: Section stream error (${errorType}):`, errorMessage);
+          setError(`Could not regenerate "${rawTitle.replace(/^#+\s*/, '')}": ${errorMessage}`);
+          restorePreviousBody();
+          endSectionStream();
+        },
+        complete: () => {
+          const body = regeneratedSectionBody(streamedText);
+          if (body) {
+            updateChatMessage(messageId, m => ({
+              text: replaceReportSection(m.text, rawTitle, body),
+              regeneratingSection: undefined,
+              sectionRevisions: [...(m.sectionRevisions ?? []), { rawTitle, content: previousBody }],
+            }));
+            storeSectionVersion(messageId, replaceReportSection(message.text, rawTitle, body), 'section');
+          } else {
+            setError(`The model returned an empty "${rawTitle.replace(/^#+\s*/, '')}" section; the previous version was kept.`);
+            restorePreviousBody();
+          }
+          endSectionStream();
+        },
+      }, controller.signal);
+    } catch (apiError) {
+      console.error('initiateSectionRegeneration API call failed:', apiError);
+      setError(apiError instanceof Error ? apiError.message : 'Failed to regenerate the section.');
+      restorePreviousBody();
+      endSectionStream();
+    }
+  };
+
+  const handleStopSectionRegeneration = async () => {
+    const sectionStream = sectionStreamRef.current;
+    if (!sectionStream) return;
+    sectionStreamRef.current = null;
+    sectionStream.controller.abort();
+    sectionStream.restorePreviousBody();
+    if (sectionStream.streamId) {
+      await cancelStream(sectionStream.streamId).catch(error => console.error('Failed to send cancellation request:', error));
+    }
+  };
+
+  // The stored report is what history, the PDF export and the versions panel reopen,
+  // so both a regeneration and its undo are stored as new versions.
+  const storeSectionVersion = (messageId: string, reportText: string, kind: 'section' | 'section_undo') => {
+    if (!currentAnalysisId) return;
+    saveSectionRegenerationVersion(currentAnalysisId, { reportText, modelId: selectedModelId, kind })
+      .then(versionNumber => {
+        updateChatMessage(messageId, () => ({ reportVersion: versionNumber }));
+        setLatestReportVersion(versionNumber);
+      })
+      .catch(saveError => console.error('Failed to store the report version:', saveError));
+  };
+
+  const handleUndoSectionRegeneration = (messageId: string, rawTitle: string) => {
+    const message = chatMessages.find(m => m.id === messageId);
+    if (!message) return;
+    const { text, revisions } = undoSectionRevision(message.text, message.sectionRevisions ?? [], rawTitle);
+    if (revisions.length === (message.sectionRevisions ?? []).length) return; // Nothing to undo
+    updateChatMessage(messageId, () => ({ text, sectionRevisions: revisions }));
+    storeSectionVersion(messageId, text, 'section_undo');
+  };
+
+  // Edits to a Community Note stay in this conversation; the stored report keeps the model's note.
+  const handleUpdateCommunityNote = (messageId: string, text: string) => {
+    updateChatMessage(messageId, () => ({ text }));
+  };
+
+  const handleShortenCommunityNote = (noteText: string, maxChars: number) =>
+    shortenCommunityNote({ noteText, maxChars, selectedModelId, modelConfigParams });
+
   const handleClearChatAndReset = (resetInputFields = true) => {
     setChatMessages([]);
     // setCurrentChat(null); // Removed
@@ -532,16 +986,28 @@ const App: React.FC = () => {
     setCurrentStreamUrl(null); // Reset the stream URL
     setCurrentStreamId(null); // Reset the stream ID
     setCurrentAnalysisId(null); // Reset analysis ID
+    openingAnalysisIdRef.current = null;
+    setLatestReportVersion(null);
+    setIsVersionsOpen(false);
     setIsChatActive(false);
     setIsLoading(false);
     setError(null);
     if (resetInputFields) {
         setUserInputText('');
-        setUserImageFile(null);
+        userImages.forEach(image => URL.revokeObjectURL(image.previewUrl));
+        setUserImages([]);
+        setExtractedUrl(null);
         // reportType can remain as user's last selection
     }
     setOriginalQueryForRestart(null);
     setCurrentSiftQueryDetails(null);
+    setPublicImageUrls({});
+    comparisonControllersRef.current.forEach(controller => controller.abort());
+    comparisonControllersRef.current = [];
+    setComparisonRuns(null);
+    setClaimCandidates(null);
+    sectionStreamRef.current?.controller.abort();
+    sectionStreamRef.current = null;
     // setGeminiPreprocessingOutputText(null); // Removed
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -549,7 +1015,165 @@ const App: React.FC = () => {
     }
   };
 
+  // Reopen a stored analysis: rehydrate its thread and keep chatting against its id.
+  const handleOpenAnalysis = async (analysisId: string) => {
+    if (isLoading) return;
+    setError(null);
+    openingAnalysisIdRef.current = analysisId;
+    try {
+      const data = await fetchAnalysisWithHistory(analysisId);
+      if (openingAnalysisIdRef.current !== analysisId) return;
+      const restoredQuery = originalQueryFromAnalysis(data.analysis);
+
+      handleClearChatAndReset(false);
+      setChatMessages(chatMessagesFromAnalysis(data, uuidv4));
+      setCurrentAnalysisId(data.analysis.id);
+      setIsChatActive(true);
+      setCurrentSiftQueryDetails({
+        userInputText: restoredQuery.text || '',
+        userImagePreviewUrl: restoredQuery.userImagePreviewUrl,
+        images: restoredQuery.images,
+        reportType: restoredQuery.reportType,
+        selectedClaims: restoredQuery.selectedClaims,
+      });
+      // Consensus reports are not restarted (see handleBuildConsensus)
+      setOriginalQueryForRestart(data.analysis.consensus_source_ids?.length ? null : restoredQuery);
+
+      // Continue with the model that produced the analysis when it is still available.
+      const storedModel = availableModels.find(m => m.id === data.analysis.model_used);
+      if (storedModel) {
+        setSelectedProviderKey(storedModel.provider);
+        setSelectedModelId(storedModel.id);
+      }
+    } catch (loadError) {
+      if (openingAnalysisIdRef.current !== analysisId) return;
+      console.error('Failed to open analysis:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to open analysis.');
+    }
+  };
+
+  // Start a new "Analyze URL" query for a page found by search. Extraction is
+  // served from the server's cache, so this also restores the full content.
+  const handleAttachUrl = async (url: string) => {
+    if (isLoading) return;
+    setError(null);
+    try {
+      const data = await extractUrlContent({ url, timeout: 15 });
+      if (isChatActive) handleClearChatAndReset(false);
+      setExtractedUrl(data);
+    } catch (attachError) {
+      console.error('Failed to attach URL:', attachError);
+      setError(attachError instanceof Error ? attachError.message : 'Failed to load URL content.');
+    }
+  };
+
+  // Switches model without the model-change effect resetting the given settings to defaults.
+  const selectModelWithParams = (model: AIModelConfig, params: ConfigurableParams) => {
+    if (model.id !== selectedModelId || model.provider !== selectedProviderKey) {
+      restoredModelConfigParamsRef.current = params;
+    }
+    setSelectedProviderKey(model.provider);
+    setSelectedModelId(model.id);
+    setModelConfigParams(params);
+  };
+
+  const handleApplyPreset = (preset: ParameterPreset) => {
+    const model = availableModels.find(m => m.id === preset.modelId);
+    if (!model) {
+      setError(`The preset "${preset.name}" uses ${preset.modelId}, which the server does not offer.`);
+      return;
+    }
+    setError(null);
+    selectModelWithParams(model, modelConfigParamsFor(model, preset.params));
+  };
+
+  const handleSavePreset = (name: string) => {
+    if (!selectedModelId) return;
+    setParameterPresets(prev => mergeParameterPresets(prev, [{
+      id: uuidv4(),
+      name,
+      modelId: selectedModelId,
+      provider: selectedProviderKey,
+      params: modelConfigParams,
+      createdAt: new Date().toISOString(),
+    }]));
+  };
+
+  const handleDeletePreset = (presetId: string) => {
+    setParameterPresets(prev => prev.filter(preset => preset.id !== presetId));
+  };
+
+  const handleImportPresets = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseParameterPresetsExport(await file.text());
+      setParameterPresets(prev => mergeParameterPresets(prev, imported));
+    } catch (importError) {
+      console.error('Failed to import parameter presets:', importError);
+      setError(importError instanceof Error ? importError.message : 'Failed to import parameter presets.');
+    }
+  };
+
+  const handleExportPresets = () => {
+    const exported = buildParameterPresetsExport(parameterPresets);
+    downloadBlob(
+      new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json;charset=utf-8;' }),
+      parameterPresetsFilename(exported)
+    );
+  };
+
+  const handleExportConversation = async () => {
+    if (!originalQueryForRestart || isLoading) return;
+    try {
+      const bundle = await buildConversationBundle({
+        originalQuery: originalQueryForRestart,
+        messages: chatMessages,
+        modelId: selectedModelId,
+        provider: selectedProviderKey,
+        modelConfigParams,
+      });
+      downloadBlob(
+        new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json;charset=utf-8;' }),
+        conversationBundleFilename(bundle)
+      );
+    } catch (exportError) {
+      console.error('Failed to export conversation:', exportError);
+      setError('Failed to export conversation.');
+    }
+  };
+
+  // Open a conversation bundle exported from this or another instance. Imported
+  // chats are not tied to a stored analysis; follow-ups send the full history.
+  const handleImportConversation = async (file: File) => {
+    if (isLoading) return;
+    setError(null);
+    try {
+      const imported = parseConversationBundle(await file.text());
+
+      handleClearChatAndReset(false);
+      setChatMessages(imported.messages);
+      setIsChatActive(true);
+      setCurrentSiftQueryDetails({
+        userInputText: imported.originalQuery.text || '',
+        userImagePreviewUrl: imported.originalQuery.userImagePreviewUrl,
+        images: imported.originalQuery.images,
+        reportType: imported.originalQuery.reportType,
+      });
+      setOriginalQueryForRestart(imported.originalQuery);
+
+      // Continue with the bundle's model and settings when this instance offers that model.
+      const bundledModel = availableModels.find(m => m.id === imported.modelId);
+      if (bundledModel) {
+        selectModelWithParams(bundledModel, modelConfigParamsFor(bundledModel, imported.modelConfigParams));
+      }
+    } catch (importError) {
+      console.error('Failed to import conversation:', importError);
+      setError(importError instanceof Error ? importError.message : 'Failed to import conversation.');
+    }
+  };
+
   const selectedModelDetails = getSelectedModelConfig();
+  const activeComparisonModelIds = comparisonModelIds.filter(id => id !== selectedModelId && availableModels.some(m => m.id === id));
   const modelSupportsVision = selectedModelDetails?.supportsVision ?? false;
 
   // Removed checkAPIKeysAndSetError function (lines 601-627)
@@ -557,135 +1181,84 @@ const App: React.FC = () => {
   // API key validation is now handled by the backend.
   // The frontend might only display errors reported by the backend regarding API keys.
 
-  // Effect for handling Server-Sent Events (SSE)
+  // Effect for following the initial SIFT report stream.
+  // followSiftStream resumes from the last event id after a dropped connection,
+  // so chunks keep appending to the same AI message.
   useEffect(() => {
-    let eventSource: EventSource | null = null;
-
-    if (currentStreamUrl && currentStreamUrl.trim() !== '') {
-      console.log('SSE: Connecting to', currentStreamUrl);
-      eventSource = new EventSource(currentStreamUrl);
-
-      eventSource.onopen = () => {
-        console.log('SSE: Connection established');
-      };
-
-      eventSource.onmessage = (event) => {
-        console.log('SSE: Received message:', event.data);
-        try {
-          const parsedData = JSON.parse(event.data);
-
-          setChatMessages(prevMsgs => {
-            const currentLastLoadingMessage = prevMsgs.slice().reverse().find(m => m.sender === 'ai' && m.isLoading);
-            if (!currentLastLoadingMessage) {
-                 console.warn('SSE onmessage: No loading AI message found to update with data:', parsedData);
-                 return prevMsgs;
-            }
-
-            let newText = currentLastLoadingMessage.text || '';
-            if (parsedData.delta && typeof parsedData.delta === 'string') {
-              newText += parsedData.delta;
-            } else if (parsedData.text_chunk && typeof parsedData.text_chunk === 'string') {
-              newText = parsedData.text_chunk; // Replace as per original instruction
-            }
-            return updateLastLoadingAiMessage(prevMsgs, { text: newText });
-          });
-        } catch (e) {
-          console.error('SSE: Failed to parse message data or update chat:', e, event.data);
-        }
-      };
+    if (!currentStreamUrl || currentStreamUrl.trim() === '') return;
 
-      eventSource.onerror = (errorEvent) => {
-        console.error('SSE: Connection error:', errorEvent);
+    const controller = new AbortController();
+    let hasReconnected = false;
 
-        setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, {
-          text: "An error occurred while streaming the response. Please try again.",
-          isLoading: false,
-          isError: true,
-        }));
+    const endStream = () => {
+      setIsLoading(false);
+      setCurrentStreamUrl(null);
+      setCurrentStreamId(null);
+    };
 
-        setError("SSE connection failed. Check the console for more details.");
-        if (eventSource) {
-          eventSource.close();
+    followSiftStream(currentStreamUrl, {
+      open: () => {
+        if (hasReconnected) {
+          hasReconnected = false;
+          setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, { isReconnecting: false }));
         }
-        setCurrentStreamUrl(null); // Prevent reconnection attempts
-      };
-
-      eventSource.addEventListener('error', (event) => {
-        // This is for custom 'error' type events from the backend, distinct from eventSource.onerror
-        console.error('SSE: Received custom backend error event:', event);
-
-        let backendErrorMessage = "An error occurred on the backend.";
-        // Standard EventSource events don't have a 'data' field directly on the event object for 'error' type listeners.
-        // However, if the server sends a custom event *named* 'error' with data, it will be a MessageEvent.
-        if (event instanceof MessageEvent && event.data) {
-          try {
-            const parsedData = JSON.parse(event.data);
-            backendErrorMessage = parsedData.message || parsedData.error || backendErrorMessage;
-          } catch (e) {
-            console.error('SSE: Failed to parse custom backend error event data:', e, event.data);
-            // Use the default backendErrorMessage if parsing fails
-          }
-        } else {
-          // If it's not a MessageEvent or has no data, it might be a generic error event
-          // that somehow got routed here. We'll use a generic message.
-          console.warn('SSE: Custom backend error event did not contain parsable data. Event:', event);
-        }
-
+      },
+      reconnecting: (attempt, delayMs) => {
+        console.warn(`SSE: Reconnecting in ${delayMs}ms (attempt ${attempt})`);
+        hasReconnected = true;
+        setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, { isReconnecting: true }));
+      },
+      delta: ({ text }) => {
+        setChatMessages(prevMsgs => {
+          const loadingMessage = prevMsgs.slice().reverse().find(m => m.sender === 'ai' && m.isLoading);
+          return updateLastLoadingAiMessage(prevMsgs, { text: (loadingMessage?.text || '') + text });
+        });
+      },
+      text_chunk: ({ text }) => {
+        setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, { text }));
+      },
+      sources: ({ sources }) => {
+        setChatMessages(prevMsgs => {
+          const loadingMessage = prevMsgs.slice().reverse().find(m => m.sender === 'ai' && m.isLoading);
+          return updateLastLoadingAiMessage(prevMsgs, {
+            groundingSources: mergeGroundingSources(loadingMessage?.groundingSources, sources),
+          });
+        });
+      },
+      analysis_id: ({ analysisId }) => {
+        setCurrentAnalysisId(analysisId);
+      },
+      report_version: ({ versionNumber }) => {
+        setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, { reportVersion: versionNumber }));
+        setLatestReportVersion(versionNumber);
+      },
+      error: ({ errorType, message }) => {
+        console.error(`SSE: Stream error (${errorType}):`, message);
+        const errorText = errorType === 'NetworkError'
+          ? `The connection to the report stream was lost: ${message}`
+          : message;
         setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, {
-          text: backendErrorMessage,
+          text: errorText,
           isLoading: false,
           isError: true,
+          isReconnecting: false,
         }));
-
-        setError(backendErrorMessage); // Set global error state
-        setIsLoading(false); // Set global loading to false
-
-        if (eventSource) {
-          eventSource.close();
-        }
-        setCurrentStreamUrl(null);
-      });
-
-      eventSource.addEventListener('analysis_id', (event) => {
-        console.log('SSE: Received analysis_id event:', event);
-        
-        if (event instanceof MessageEvent && event.data) {
-          try {
-            const parsedData = JSON.parse(event.data);
-            if (parsedData.analysis_id) {
-              console.log('SSE: Setting analysis_id:', parsedData.analysis_id);
-              setCurrentAnalysisId(parsedData.analysis_id);
-            }
-          } catch (e) {
-            console.error('SSE: Failed to parse analysis_id event data:', e, event.data);
-          }
-        }
-      });
-
-      eventSource.addEventListener('complete', (event) => {
-        console.log('SSE: Received stream complete event:', event);
-        // Optionally, parse event.data if the backend sends any final message or metadata with 'complete'.
-        // For now, we assume 'complete' is just a signal to finalize.
-
-        setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, { isLoading: false }));
-
-        setIsLoading(false); // Set global loading to false
-
-        if (eventSource) {
-          eventSource.close();
-        }
-        setCurrentStreamUrl(null); // Clean up URL
-        setCurrentStreamId(null); // Clean up stream ID
-      });
-    }
+        setError(errorText);
+        endStream();
+      },
+      complete: () => {
+        setChatMessages(prevMsgs => updateLastLoadingAiMessage(prevMsgs, { isLoading: false, isReconnecting: false }));
+        endStream();
+      },
+    }, controller.signal);
 
     return () => {
-      if (eventSource) {
-        console.log('SSE: Closing connection');
-        eventSource.close();
-      }
+      controller.abort();
     };
-  }, [currentStreamUrl, setChatMessages, setError, setIsLoading, setCurrentStreamUrl, chatMessages]);
+  }, [currentStreamUrl]);
+
+  // Reverse search links the model writes into a report are pointed at the first query image.
+  const primaryImageUploadId = originalQueryForRestart ? queryImagesOf(originalQueryForRestart)[0]?.uploadId : undefined;
 
   return (
     <div className="flex flex-col md:flex-row h-screen max-h-screen bg-slate-900 text-slate-100">
@@ -701,17 +1274,103 @@ const App: React.FC = () => {
         isChatActive={isChatActive}
         modelsLoading={modelsLoading}
         modelsError={modelsError}
+        modelCatalogWarnings={modelCatalogWarnings}
+        comparisonModelIds={activeComparisonModelIds}
+        onComparisonModelIdsChange={setComparisonModelIds}
+        parameterPresets={parameterPresets}
+        onApplyPreset={handleApplyPreset}
+        onSavePreset={handleSavePreset}
+        onDeletePreset={handleDeletePreset}
+        onImportPresets={handleImportPresets}
+        onExportPresets={handleExportPresets}
         // enableGeminiPreprocessing prop removed
         // onToggleGeminiPreprocessing prop removed
       />
 
+      {isSearchOpen && (
+        <SearchPanel
+          onOpenAnalysis={handleOpenAnalysis}
+          onAttachUrl={handleAttachUrl}
+          currentAnalysisId={currentAnalysisId}
+          disabled={isLoading}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <AnalysisHistoryPanel
+          currentAnalysisId={currentAnalysisId}
+          onOpenAnalysis={handleOpenAnalysis}
+          refreshKey={currentAnalysisId}
+          disabled={isLoading}
+        />
+      )}
+
       {/* Main Content Area */}
       <main className="flex-grow flex flex-col p-3 md:p-6 overflow-hidden h-full">
         <header className="mb-4 flex-shrink-0">
-          <h1 className="text-2xl md:text-3xl font-bold text-sky-400 flex items-center">
-            <span className="mr-2 text-3xl md:text-4xl">🔍</span>
-            SIFT Toolbox Report Builder
-          </h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl md:text-3xl font-bold text-sky-400 flex items-center">
+              <span className="mr-2 text-3xl md:text-4xl">🔍</span>
+              SIFT Toolbox Report Builder
+            </h1>
+            <div className="flex items-center gap-2">
+              {isChatActive && !comparisonRuns && (
+                <button
+                  onClick={handleExportConversation}
+                  disabled={isLoading}
+                  className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-md border border-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Download the whole conversation as a JSON bundle that can be imported elsewhere"
+                >
+                  Export Chat
+                </button>
+              )}
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isLoading}
+                className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-md border border-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Open a conversation bundle exported from SIFT Toolbox"
+              >
+                Import Chat
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ''; // Allow re-importing the same file
+                  if (file) handleImportConversation(file);
+                }}
+              />
+              {currentAnalysisId && !comparisonRuns && (
+                <button
+                  onClick={() => setIsVersionsOpen(open => !open)}
+                  className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-md border border-slate-600 transition-colors"
+                  aria-pressed={isVersionsOpen}
+                  aria-label={isVersionsOpen ? 'Hide report versions' : 'Compare stored versions of this report'}
+                >
+                  {isVersionsOpen ? 'Hide Versions' : 'Versions'}
+                </button>
+              )}
+              <button
+                onClick={() => setIsSearchOpen(open => !open)}
+                className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-md border border-slate-600 transition-colors"
+                aria-pressed={isSearchOpen}
+                aria-label={isSearchOpen ? 'Hide search' : 'Search past reports and URLs'}
+              >
+                {isSearchOpen ? 'Hide Search' : 'Search'}
+              </button>
+              <button
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-md border border-slate-600 transition-colors"
+                aria-pressed={isHistoryOpen}
+                aria-label={isHistoryOpen ? 'Hide analysis history' : 'Show analysis history'}
+              >
+                {isHistoryOpen ? 'Hide History' : 'History'}
+              </button>
+            </div>
+          </div>
            <p className="text-sm text-slate-400">
             Provider: <span className="font-semibold text-indigo-400">{selectedProviderKey.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}</span>
             {/* The 'enableGeminiPreprocessing' display logic removed */}
@@ -726,20 +1385,41 @@ const App: React.FC = () => {
             <InputForm
               userInputText={userInputText}
               setUserInputText={setUserInputText}
-              userImageFile={userImageFile}
-              setUserImageFile={setUserImageFile}
+              userImages={userImages}
+              setUserImages={setUserImages}
+              includeImageForensics={includeImageForensics}
+              setIncludeImageForensics={setIncludeImageForensics}
               reportType={reportType}
               setReportType={setReportType}
+              reportTypes={reportTypes}
+              pickClaimsFirst={pickClaimsFirst}
+              setPickClaimsFirst={setPickClaimsFirst}
+              isExtractingClaims={isExtractingClaims}
               onStartChat={() => {
                 // Client-side key check (checkAPIKeysAndSetError) removed.
                 // Backend will validate keys.
-                handleStartChat();
+                if (pickClaimsFirst) {
+                  handleExtractClaims();
+                } else {
+                  handleStartChat();
+                }
               }}
               isLoading={isLoading}
               isChatActive={isChatActive}
               onStopGeneration={handleStopGeneration} // This will need to interact with the SSE stream
               selectedModelSupportsVision={modelSupportsVision}
+              extractedUrl={extractedUrl}
+              setExtractedUrl={setExtractedUrl}
             />
+            {pickClaimsFirst && claimCandidates && (
+              <ClaimSelector
+                claims={claimCandidates}
+                onChange={setClaimCandidates}
+                onConfirm={() => handleStartChat()}
+                onCancel={() => setClaimCandidates(null)}
+                isLoading={isLoading}
+              />
+            )}
             {isLoading && <LoadingSpinner reportType={reportType} onTimeout={handleStopGeneration} />}
           </div>
         ) : (
@@ -748,19 +1428,41 @@ const App: React.FC = () => {
               <UserQueryPanel
                 userInputText={currentSiftQueryDetails.userInputText}
                 userImagePreviewUrl={currentSiftQueryDetails.userImagePreviewUrl}
+                images={currentSiftQueryDetails.images}
                 reportType={currentSiftQueryDetails.reportType}
+                reportTypes={reportTypes}
+                selectedClaims={currentSiftQueryDetails.selectedClaims}
+                publicImageUrls={publicImageUrls}
+                onImagePublished={(uploadId, url) => setPublicImageUrls(prev => ({ ...prev, [uploadId]: url }))}
               />
             )}
             <div className="flex-grow pl-0 md:pl-4 min-w-0"> {/* Ensure chat interface takes remaining space and can shrink */}
-              <ChatInterface
-                ref={chatContainerRef}
-                messages={chatMessages}
-                onSendMessage={handleSendChatMessage} // Follow-up messages will also use the new backend/SSE logic
-                isLoading={isLoading} // Reflects loading state from initiateSiftAnalysis and SSE stream
-                onStopGeneration={handleStopGeneration} // Should signal backend to stop SSE stream
-                onRestartGeneration={handleRestartGeneration}
-                canRestart={originalQueryForRestart !== null && !isLoading}
-              />
+              {comparisonRuns ? (
+                <ModelComparisonView
+                  runs={comparisonRuns}
+                  onStop={handleStopComparison}
+                  availableModels={availableModels}
+                  defaultConsensusModelId={selectedModelId}
+                  onBuildConsensus={handleBuildConsensus}
+                />
+              ) : (
+                <ChatInterface
+                  ref={chatContainerRef}
+                  messages={chatMessages}
+                  onSendMessage={handleSendChatMessage} // Follow-up messages will also use the new backend/SSE logic
+                  isLoading={isLoading} // Reflects loading state from initiateSiftAnalysis and SSE stream
+                  onStopGeneration={handleStopGeneration} // Should signal backend to stop SSE stream
+                  onRestartGeneration={handleRestartGeneration}
+                  canRestart={originalQueryForRestart !== null && !isLoading}
+                  analysisId={currentAnalysisId}
+                  reverseSearchImageUrl={primaryImageUploadId ? publicImageUrls[primaryImageUploadId] : undefined}
+                  onRegenerateSection={handleRegenerateSection}
+                  onStopSectionRegeneration={handleStopSectionRegeneration}
+                  onUndoSectionRegeneration={handleUndoSectionRegeneration}
+                  onUpdateCommunityNote={handleUpdateCommunityNote}
+                  onShortenCommunityNote={handleShortenCommunityNote}
+                />
+              )}
             </div>
           </div>
         )}
@@ -770,6 +1472,14 @@ const App: React.FC = () => {
           {/* Removed display of client-side API key status */}
         </footer>
       </main>
+
+      {isVersionsOpen && currentAnalysisId && !comparisonRuns && (
+        <ReportVersionsPanel
+          analysisId={currentAnalysisId}
+          refreshKey={latestReportVersion}
+          onClose={() => setIsVersionsOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { fetchAnalyses, AnalysisSummary } from '../services/apiClient';
+import { reportTypeFromStored } from '../services/analysisHistory';
+
+interface AnalysisHistoryPanelProps {
+  currentAnalysisId: string | null;
+  onOpenAnalysis: (analysisId: string) => void;
+  refreshKey?: string | null; // Changing this value triggers a reload (e.g. a new analysis id)
+  disabled?: boolean;
+}
+
+const QUERY_SNIPPET_LENGTH = 90;
+
+const querySnippet = (query: string | null, hasImage: boolean): string => {
+  const text = (query || '').trim();
+  if (!text) return hasImage ? '(Image-only query)' : '(Empty query)';
+  return text.length > QUERY_SNIPPET_LENGTH ? `${text.slice(0, QUERY_SNIPPET_LENGTH - 3)}...` : text;
+};
+
+export const AnalysisHistoryPanel: React.FC<AnalysisHistoryPanelProps> = ({
+  currentAnalysisId,
+  onOpenAnalysis,
+  refreshKey,
+  disabled = false,
+}) => {
+  const [analyses, setAnalyses] = useState<AnalysisSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalyses = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await fetchAnalyses(50);
+      setAnalyses(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analysis history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAnalyses();
+  }, [loadAnalyses, refreshKey]);
+
+  return (
+    <aside className="w-64 md:w-72 bg-slate-800/70 p-4 shadow-lg flex-shrink-0 h-full overflow-y-auto border-r border-slate-700 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700/50">
+      <div className="flex items-center justify-between sticky top-0 bg-slate-800/80 backdrop-blur-sm py-3 -mt-4 -mx-4 px-4 border-b border-slate-700 z-10 mb-4">
+        <h2 className="text-lg font-semibold text-sky-400">History</h2>
+        <button
+          onClick={loadAnalyses}
+          disabled={isLoading}
+          className="text-xs text-slate-400 hover:text-sky-400 transition-colors disabled:opacity-50"
+          aria-label="Refresh analysis history"
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-700 rounded-md p-3 mb-3">
+          <p className="text-sm text-red-400 font-medium">Failed to load history</p>
+          <p className="text-xs text-red-300 mt-1">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && !error && analyses.length === 0 && (
+        <p className="text-sm text-slate-400 italic">No saved analyses yet.</p>
+      )}
+
+      <ul className="space-y-2">
+        {analyses.map((analysis) => {
+          const isCurrent = analysis.id === currentAnalysisId;
+          return (
+            <li key={analysis.id}>
+              <button
+                onClick={() => onOpenAnalysis(analysis.id)}
+                disabled={disabled || isCurrent}
+                className={`w-full text-left p-2 rounded-md border transition-colors disabled:cursor-not-allowed ${
+                  isCurrent
+                    ? 'bg-indigo-900/40 border-indigo-500'
+                    : 'bg-slate-700/60 border-slate-600 hover:bg-slate-700 hover:border-sky-500 disabled:opacity-60'
+                }`}
+                title={analysis.user_query || undefined}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-medium text-sky-300">
+                    {reportTypeFromStored(analysis.report_type)}
+                    {!!analysis.consensus_source_ids?.length && (
+                      <span className="ml-1.5 px-1.5 py-0.5 bg-indigo-800/70 text-indigo-200 rounded">
+                        Consensus of {analysis.consensus_source_ids.length} runs
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-slate-500">{new Date(analysis.created_at).toLocaleDateString()}</span>
+                </div>
+                <p className="text-sm text-slate-200 leading-snug">
+                  {analysis.has_image && <span className="mr-1" aria-label="Includes image">🖼️</span>}
+                  {querySnippet(analysis.user_query, analysis.has_image)}
+                </p>
+                <div className="flex items-center justify-between mt-1 text-xs text-slate-500">
+                  <span className="truncate max-w-[70%]">{analysis.model_used?.split('/').pop() || 'Unknown model'}</span>
+                  <span>{analysis.message_count} msgs</span>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
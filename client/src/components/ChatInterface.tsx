@@ -6,26 +6,49 @@ import { ChatInputArea } from './ChatInputArea';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
-  onSendMessage: (messageText: string) => void;
+  onSendMessage: (messageText: string, command?: 'another round' | 'read the room') => void;
   isLoading: boolean;
   onStopGeneration?: () => void;
   onRestartGeneration?: () => void; // New prop for restarting
   canRestart?: boolean; // New prop to enable/disable restart button
+  analysisId?: string | null; // Persisted analysis, enables server-side exports
+  reverseSearchImageUrl?: string; // Hosted copy of the primary query image, for reverse search links in reports
+  onRegenerateSection?: (messageId: string, rawTitle: string) => void;
+  onStopSectionRegeneration?: () => void;
+  onUndoSectionRegeneration?: (messageId: string, rawTitle: string) => void;
+  onUpdateCommunityNote?: (messageId: string, text: string) => void;
+  onShortenCommunityNote?: (noteText: string, maxChars: number) => Promise<string>;
 }
 
-export const ChatInterface = forwardRef<HTMLDivElement, ChatInterfaceProps>(({ messages, onSendMessage, isLoading, onStopGeneration, onRestartGeneration, canRestart }, ref) => {
+export const ChatInterface = forwardRef<HTMLDivElement, ChatInterfaceProps>(({ messages, onSendMessage, isLoading, onStopGeneration, onRestartGeneration, canRestart, analysisId, reverseSearchImageUrl, onRegenerateSection, onStopSectionRegeneration, onUndoSectionRegeneration, onUpdateCommunityNote, onShortenCommunityNote }, ref) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // The query that started this analysis; report exports embed its image.
+  const originalQuery = messages.find(msg => msg.sender === 'user' && msg.originalQuery)?.originalQuery;
+  // One section regenerates at a time, and not while a reply is streaming.
+  const canRegenerateSections = !isLoading && !messages.some(msg => msg.regeneratingSection);
+
   return (
     <div className="flex flex-col h-full bg-slate-800 shadow-2xl rounded-xl overflow-hidden">
       {/* Chat Messages Area */}
       <div ref={ref} className="flex-grow overflow-y-auto p-4 sm:p-6 space-y-4 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700">
         {messages.map((msg) => (
-          <ChatMessageItem key={msg.id} message={msg} />
+          <ChatMessageItem
+            key={msg.id}
+            message={msg}
+            analysisId={analysisId}
+            originalQuery={msg.isInitialSIFTReport ? originalQuery : undefined}
+            reverseSearchImageUrl={reverseSearchImageUrl}
+            onRegenerateSection={onRegenerateSection && canRegenerateSections ? (rawTitle) => onRegenerateSection(msg.id, rawTitle) : undefined}
+            onStopSectionRegeneration={onStopSectionRegeneration}
+            onUndoSectionRegeneration={onUndoSectionRegeneration && canRegenerateSections ? (rawTitle) => onUndoSectionRegeneration(msg.id, rawTitle) : undefined}
+            onSaveCommunityNote={onUpdateCommunityNote && !isLoading ? (noteText) => onUpdateCommunityNote(msg.id, noteText) : undefined}
+            onShortenCommunityNote={onShortenCommunityNote}
+          />
         ))}
         <div ref={messagesEndRef} /> {/* For auto-scrolling */}
       </div>
@@ -1,79 +1,91 @@
 
-import React from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ChatMessage, ParsedReportSection } from '../types';
+import { ChatMessage, ParsedReportSection, ReportType } from '../types';
 import { SIFT_ICON } from '../constants'; 
+import { parseReportIntoSections, parseSectionSegments } from '../services/reportParser';
+import { rewriteReverseSearchLinks } from '../services/reverseImageSearch';
+import { ClaimTable } from './ClaimTable';
+import { SourceList } from './SourceList';
+import { CommunityNoteEditor } from './CommunityNoteEditor';
+import { citationMarkdownComponents } from './CitationMarker';
+import { normalizeSourceUri } from '../services/groundingSources';
+import { Citation, buildReferenceList, linkInlineCitations } from '../services/citations';
+import { exportAnalysisPdf } from '../services/apiClient';
+import {
+  ReportExportFormat,
+  buildDocxExport,
+  buildHtmlExport,
+  buildMarkdownExport,
+  buildReportExportMetadata,
+  downloadBlob,
+  queryImagesForExport,
+  reportExportFilename,
+} from '../services/reportExport';
 
 interface ChatMessageItemProps {
   message: ChatMessage;
+  analysisId?: string | null;
+  originalQuery?: ChatMessage['originalQuery']; // Query behind an initial report, for embedding its images in exports
+  reverseSearchImageUrl?: string; // Hosted copy of the query image; reverse search links in Potential Leads are pointed at it
+  onRegenerateSection?: (rawTitle: string) => void; // Omitted while sections cannot be regenerated
+  onStopSectionRegeneration?: () => void;
+  onUndoSectionRegeneration?: (rawTitle: string) => void;
+  onSaveCommunityNote?: (text: string) => void; // Omitted while the note cannot be edited
+  onShortenCommunityNote?: (noteText: string, maxChars: number) => Promise<string>;
 }
 
-// Parser for SIFT Full Check report
-const parseReportIntoSections = (markdownText: string): ParsedReportSection[] => {
-  const sections: ParsedReportSection[] = [];
-  let remainingText = markdownText;
+const CITATION_TARGET_HIGHLIGHT_CLASS = 'bg-sky-900/60';
+const CITATION_TARGET_HIGHLIGHT_MS = 1500;
 
-  // 1. Extract Preamble (Generated date, AI-Generated warning)
-  const preambleRegex = /^(Generated .*?\nAI-Generated: .*?\n)/s;
-  const preambleMatch = remainingText.match(preambleRegex);
-  if (preambleMatch) {
-    sections.push({ 
-      title: "Report Information", 
-      rawTitle: "Report Information", 
-      content: preambleMatch[0].trim(), 
-      level: 0 
-    });
-    remainingText = remainingText.substring(preambleMatch[0].length).trim();
-  }
+const SECTION_ACTION_CLASS = 'px-2 py-0.5 text-xs text-slate-300 bg-slate-700/70 hover:bg-slate-600 rounded-md transition-colors';
 
-  const sectionSplitRegex = /(?=^###? .*$)/gm;
-  
-  const parts = remainingText.split(sectionSplitRegex).filter(part => part.trim() !== '');
+const EXPORT_MENU_ITEM_CLASS = 'block w-full text-left px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-600 focus:outline-none focus:bg-slate-600 disabled:opacity-60 disabled:cursor-wait';
 
-  for (const part of parts) {
-    const headerMatch = part.match(/^(##\s+(.*?)|###\s+(.*?)):?\s*$/m);
-    
-    if (headerMatch) {
-      const rawTitleLine = headerMatch[0].trim();
-      const isH2 = rawTitleLine.startsWith('## '); // Check for space after ##
-      let title = (isH2 ? headerMatch[2] : headerMatch[3]) || "Untitled Section";
-      title = title.trim().replace(/:$/, '').trim();
 
-      const content = part.substring(rawTitleLine.length).trim();
-      
-      sections.push({
-        title: title,
-        rawTitle: rawTitleLine,
-        content: content,
-        level: isH2 ? 2 : 3,
-      });
-    } else if (part.trim() && sections.length > 0) {
-      sections[sections.length - 1].content += `\n\n${part.trim()}`;
-    } else if (part.trim()) {
-         sections.push({ title: "Miscellaneous", rawTitle: "Miscellaneous", content: part.trim(), level: 0 });
-    }
-  }
-  return sections.filter(s => s.content.trim() !== '' || s.title === "Report Information");
-};
+export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
+  message,
+  analysisId,
+  originalQuery,
+  reverseSearchImageUrl,
+  onRegenerateSection,
+  onStopSectionRegeneration,
+  onUndoSectionRegeneration,
+  onSaveCommunityNote,
+  onShortenCommunityNote,
+}) => {
+  const { sender, text, timestamp, isLoading, isError, isReconnecting, groundingSources, imagePreviewUrl, modelId, isInitialSIFTReport, originalQueryReportType, regeneratingSection, sectionRevisions, reportVersion } = message;
+  const queryImages = (message.originalQuery?.images ?? []).filter(image => image.previewUrl);
+  const isUser = sender === 'user';
+  const messageRef = useRef<HTMLDivElement>(null);
 
-const downloadMarkdown = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'text/markdown;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.setAttribute('href', url);
-  link.setAttribute('download', filename);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
+  // Every URL the message cites, numbered in order of appearance, plus any uncited grounding sources.
+  const references = useMemo(
+    () => (isUser ? [] : buildReferenceList(text, groundingSources)),
+    [isUser, text, groundingSources]
+  );
+  const referenceIdPrefix = `source-${message.id}-`;
 
+  // Prefer the matching Source Usefulness row; fall back to the source list entry.
+  const handleCitationSelect = useCallback((citation: Citation) => {
+    const root = messageRef.current;
+    if (!root) return;
+    const sourceKey = CSS.escape(normalizeSourceUri(citation.uri));
+    const target = root.querySelector<HTMLElement>(`[data-source-keys~="${sourceKey}"]`)
+      || document.getElementById(`${referenceIdPrefix}${citation.number}`);
+    if (!target) return;
 
-export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({ message }) => {
-  const { sender, text, timestamp, isLoading, isError, groundingSources, imagePreviewUrl, modelId, isInitialSIFTReport, originalQueryReportType } = message;
-  const isUser = sender === 'user';
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    target.classList.add(CITATION_TARGET_HIGHLIGHT_CLASS);
+    window.setTimeout(() => target.classList.remove(CITATION_TARGET_HIGHLIGHT_CLASS), CITATION_TARGET_HIGHLIGHT_MS);
+  }, [referenceIdPrefix]);
+
+  const markdownComponents = useMemo(
+    () => citationMarkdownComponents(references, handleCitationSelect),
+    [references, handleCitationSelect]
+  );
+  const renderedText = isUser ? text : linkInlineCitations(text, references);
 
   const handleCopyText = (contentToCopy: string) => {
     navigator.clipboard.writeText(contentToCopy)
@@ -81,57 +93,122 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({ message }) =>
       .catch(err => console.error('Failed to copy message: ', err));
   };
 
-  const handleExportReport = () => {
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ReportExportFormat | 'pdf' | null>(null);
+
+  const handleExportReport = async (format: ReportExportFormat) => {
     if (!isInitialSIFTReport || !originalQueryReportType || !text) return;
+    setIsExportMenuOpen(false);
 
-    const reportDate = new Date(timestamp);
-    const displayDate = reportDate.toLocaleString();
-    const filenameDate = reportDate.toISOString().split('T')[0]; // YYYY-MM-DD
+    const metadata = buildReportExportMetadata(message);
+    const filename = reportExportFilename(metadata, format);
+    if (format === 'md') {
+      downloadBlob(new Blob([buildMarkdownExport(text, metadata)], { type: 'text/markdown;charset=utf-8;' }), filename);
+      return;
+    }
 
-    const reportTypeSanitized = originalQueryReportType.replace(/\s+/g, '_');
-    const filename = `SIFT_Report_${reportTypeSanitized}_${filenameDate}.md`;
+    setExportingFormat(format);
+    try {
+      const queryImages = await queryImagesForExport(originalQuery);
+      const blob = format === 'html'
+        ? new Blob([buildHtmlExport(text, metadata, queryImages)], { type: 'text/html;charset=utf-8;' })
+        : await buildDocxExport(text, metadata, queryImages);
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error(`Failed to export ${format.toUpperCase()}: `, err);
+      alert(`Failed to export report as ${format.toUpperCase()}.`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
 
-    let groundingSourcesText = '**Grounding Sources:** N/A';
-    if (groundingSources && groundingSources.length > 0) {
-        const sourcesList = groundingSources
-            .filter(s => s.web && s.web.uri)
-            .map(s => `  - [${s.web?.title || s.web?.uri}](${s.web?.uri})`)
-            .join('\n');
-        if (sourcesList) {
-            groundingSourcesText = `**Grounding Sources:**\n${sourcesList}`;
-        }
+  const handleExportPdf = async () => {
+    if (!analysisId) return;
+    setIsExportMenuOpen(false);
+    setExportingFormat('pdf');
+    try {
+      const { blob, filename } = await exportAnalysisPdf(analysisId);
+      downloadBlob(blob, filename || reportExportFilename(buildReportExportMetadata(message), 'pdf'));
+    } catch (err) {
+      console.error('Failed to export PDF: ', err);
+      alert(err instanceof Error ? err.message : 'Failed to export PDF.');
+    } finally {
+      setExportingFormat(null);
     }
-    
-    const metadataHeader = `\
-# SIFT Report Export
+  };
 
-**Generated:** ${displayDate}
-**Report Type:** ${originalQueryReportType}
-**Model Used:** ${modelId || 'N/A'}
-${groundingSourcesText}
----
+  const sectionContent = (section: ParsedReportSection) =>
+    reverseSearchImageUrl && section.title.toLowerCase().includes('potential leads')
+      ? rewriteReverseSearchLinks(section.content, reverseSearchImageUrl)
+      : section.content;
 
-`;
-    const fullMarkdownContent = metadataHeader + text;
+  // Regenerate / undo controls for one report section, or progress while it streams.
+  const renderSectionActions = (section: ParsedReportSection) => {
+    if (regeneratingSection === section.rawTitle) {
+      return (
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-xs text-slate-400 animate-pulse">Regenerating...</span>
+          {onStopSectionRegeneration && (
+            <button type="button" onClick={onStopSectionRegeneration} className={SECTION_ACTION_CLASS}>
+              Stop
+            </button>
+          )}
+        </div>
+      );
+    }
 
-    downloadMarkdown(fullMarkdownContent, filename);
+    const canUndo = !!onUndoSectionRegeneration && !!sectionRevisions?.some(revision => revision.rawTitle === section.rawTitle);
+    if (!onRegenerateSection && !canUndo) return null;
+    return (
+      <div className="flex items-center gap-1.5 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        {canUndo && (
+          <button
+            type="button"
+            onClick={() => onUndoSectionRegeneration!(section.rawTitle)}
+            title="Restore this section as it was before it was last regenerated"
+            className={SECTION_ACTION_CLASS}
+          >
+            Undo
+          </button>
+        )}
+        {onRegenerateSection && (
+          <button
+            type="button"
+            onClick={() => onRegenerateSection(section.rawTitle)}
+            title="Rewrite only this section, using the rest of the report as context"
+            className={SECTION_ACTION_CLASS}
+          >
+            Regenerate section
+          </button>
+        )}
+      </div>
+    );
   };
 
-
   const renderContent = () => {
+    if (isInitialSIFTReport && !isError && !isLoading && originalQueryReportType === ReportType.COMMUNITY_NOTE && text.trim()) {
+      return <CommunityNoteEditor text={text} onSave={onSaveCommunityNote} onShorten={onShortenCommunityNote} />;
+    }
     if (isInitialSIFTReport && !isError && !isLoading) {
-      const parsedSections = parseReportIntoSections(text);
+      const parsedSections = parseReportIntoSections(renderedText);
       if (parsedSections.length > 0) {
         return (
           <div className="space-y-4">
             {parsedSections.map((section, index) => (
               <div key={index} className="bg-slate-600/50 p-3 rounded-lg shadow">
-                <h3 className={`text-base font-semibold mb-2 ${section.level === 2 ? 'text-sky-300' : 'text-teal-300'}`}>
-                  {section.title !== "Report Information" && section.level > 0 && (section.rawTitle.match(/^(##\s*\d+\.\s*|###\s*)/)?.[0] || "")}
-                  {section.title}
-                </h3>
-                <div className="markdown-content prose-sm sm:prose-base max-w-none text-slate-200">
-                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{section.content}</ReactMarkdown>
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h3 className={`text-base font-semibold ${section.level === 2 ? 'text-sky-300' : 'text-teal-300'}`}>
+                    {section.title !== "Report Information" && section.level > 0 && (section.rawTitle.match(/^(##\s*\d+\.\s*|###\s*)/)?.[0] || "")}
+                    {section.title}
+                  </h3>
+                  {section.level > 0 && renderSectionActions(section)}
+                </div>
+                <div className="markdown-content prose-sm sm:prose-base max-w-none text-slate-200 space-y-3">
+                  {parseSectionSegments(sectionContent(section), section.title).map((segment, segmentIndex) => (
+                    segment.type === 'table'
+                      ? <ClaimTable key={segmentIndex} table={segment.table} markdownComponents={markdownComponents} />
+                      : <ReactMarkdown key={segmentIndex} remarkPlugins={[remarkGfm]} components={markdownComponents}>{segment.content}</ReactMarkdown>
+                  ))}
                 </div>
               </div>
             ))}
@@ -143,7 +220,7 @@ ${groundingSourcesText}
     if (text.trim() || isLoading || (isUser && imagePreviewUrl && !text.trim())) { // Ensure image-only user messages are rendered
       return (
         <div className="markdown-content prose-sm sm:prose-base max-w-none">
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{renderedText}</ReactMarkdown>
         </div>
       );
     }
@@ -152,7 +229,7 @@ ${groundingSourcesText}
   };
 
   return (
-    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} group mb-2`}>
+    <div ref={messageRef} className={`flex ${isUser ? 'justify-end' : 'justify-start'} group mb-2`}>
       <div
         className={`max-w-full w-full px-4 py-3 rounded-xl shadow ${
           isUser
@@ -167,11 +244,26 @@ ${groundingSourcesText}
             <div className="flex items-center">
               <span className="text-lg mr-2">{SIFT_ICON}</span>
               <span className="font-semibold text-sky-400 text-sm">SIFT Assistant</span>
+              {reportVersion && (
+                <span className="ml-2 px-1.5 py-0.5 text-[0.65rem] bg-slate-700 text-slate-300 rounded" title="Stored as this version of the report">
+                  v{reportVersion}
+                </span>
+              )}
             </div>
             {modelId && <span className="text-xs text-slate-500 ml-2">({modelId.split('/').pop()?.split(':').shift()})</span>}
           </div>
         )}
-        {isUser && imagePreviewUrl && (
+        {isUser && queryImages.length > 1 && (
+            <div className="mb-2 flex flex-wrap gap-2">
+                {queryImages.map((image, index) => (
+                  <figure key={index} className="w-24">
+                    <img src={image.previewUrl} alt={image.caption || `User upload ${index + 1}`} className="h-24 w-24 object-cover rounded-md border border-slate-500" />
+                    {image.caption && <figcaption className="mt-0.5 text-[0.65rem] text-indigo-200 line-clamp-2">{image.caption}</figcaption>}
+                  </figure>
+                ))}
+            </div>
+        )}
+        {isUser && imagePreviewUrl && queryImages.length <= 1 && (
             <div className="mb-2">
                 <img src={imagePreviewUrl} alt="User upload" className="max-h-48 max-w-full rounded-md border border-slate-500" />
                  {/* Display text only if it exists alongside an image */}
@@ -188,49 +280,69 @@ ${groundingSourcesText}
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <span className="text-xs text-slate-400">SIFTing...</span>
+            <span className={`text-xs ${isReconnecting ? 'text-amber-400' : 'text-slate-400'}`}>
+              {isReconnecting ? 'Connection lost. Reconnecting...' : 'SIFTing...'}
+            </span>
           </div>
         )}
         {isError && !isLoading && (
             <p className="text-xs text-red-400 mt-1">Failed to generate response.</p>
         )}
 
-        {groundingSources && groundingSources.length > 0 && !isLoading && !isError && (
-          <div className={`mt-3 pt-2 border-t ${isUser ? 'border-indigo-500' : 'border-slate-600'}`}>
-            <h4 className={`text-xs font-semibold mb-1 ${isUser ? 'text-indigo-200' : 'text-sky-500'}`}>Grounding Sources:</h4>
-            <ul className="list-disc list-inside space-y-0.5 text-xs">
-              {groundingSources.map((source, index) => (
-                source.web && (
-                  <li key={index} className={isUser ? "text-indigo-200" : "text-slate-400"}>
-                    <a 
-                      href={source.web.uri} 
-                      target="_blank" 
-                      rel="noopener noreferrer" 
-                      title={source.web.title || source.web.uri}
-                      className={`${isUser ? "text-indigo-300 hover:text-indigo-100" : "text-sky-400 hover:text-sky-300"} hover:underline`}
-                    >
-                      {source.web.title || source.web.uri}
-                    </a>
-                  </li>
-                )
-              ))}
-            </ul>
-          </div>
+        {references.length > 0 && !isLoading && !isError && (
+          <SourceList
+            sources={references.map(ref => ({ web: { uri: ref.uri, title: ref.title } }))}
+            variant={isUser ? 'user' : 'ai'}
+            itemIdPrefix={referenceIdPrefix}
+          />
         )}
 
         {!isUser && isInitialSIFTReport && !isLoading && !isError && text.trim() && (
-          <div className="mt-3 pt-3 border-t border-slate-600">
-            <button
-              onClick={handleExportReport}
-              className="inline-flex items-center px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-500 text-white font-medium rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-700 focus:ring-emerald-500 transition-colors"
-              aria-label="Export SIFT report as Markdown"
-              title="Export SIFT report as Markdown"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 mr-1.5">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
-              </svg>
-              Export Report
-            </button>
+          <div className="mt-3 pt-3 border-t border-slate-600 flex flex-wrap gap-2">
+            <div className="relative">
+              <button
+                onClick={() => setIsExportMenuOpen(open => !open)}
+                disabled={exportingFormat !== null}
+                className="inline-flex items-center px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-500 text-white font-medium rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-700 focus:ring-emerald-500 transition-colors disabled:opacity-60 disabled:cursor-wait"
+                aria-haspopup="menu"
+                aria-expanded={isExportMenuOpen}
+                title="Export SIFT report"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 mr-1.5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                </svg>
+                {exportingFormat ? 'Exporting...' : 'Export Report'}
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3 ml-1.5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+                </svg>
+              </button>
+              {isExportMenuOpen && (
+                <div
+                  role="menu"
+                  className="absolute z-20 left-0 mt-1 w-44 py-1 bg-slate-700 border border-slate-600 rounded-md shadow-lg"
+                >
+                  <button role="menuitem" onClick={() => handleExportReport('md')} className={EXPORT_MENU_ITEM_CLASS}>
+                    Markdown (.md)
+                  </button>
+                  <button role="menuitem" onClick={() => handleExportReport('html')} className={EXPORT_MENU_ITEM_CLASS}>
+                    Web page (.html)
+                  </button>
+                  <button role="menuitem" onClick={() => handleExportReport('docx')} className={EXPORT_MENU_ITEM_CLASS}>
+                    Word document (.docx)
+                  </button>
+                  {analysisId && (
+                    <button
+                      role="menuitem"
+                      onClick={handleExportPdf}
+                      className={EXPORT_MENU_ITEM_CLASS}
+                      title="Export SIFT report, sources and follow-up chat as PDF"
+                    >
+                      PDF (.pdf)
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
         )}
         
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Components } from 'react-markdown';
+import { Citation, citationNumberFromHref } from '../services/citations';
+import { sourceFaviconUrl } from '../services/groundingSources';
+
+interface CitationMarkerProps {
+  citation: Citation;
+  onSelect: (citation: Citation) => void;
+}
+
+// Numbered superscript for an inline citation, previewing the source on hover or focus.
+export const CitationMarker: React.FC<CitationMarkerProps> = ({ citation, onSelect }) => {
+  const [isPreviewVisible, setIsPreviewVisible] = useState(false);
+
+  return (
+    <sup className="relative ml-0.5">
+      <button
+        type="button"
+        onClick={() => onSelect(citation)}
+        onMouseEnter={() => setIsPreviewVisible(true)}
+        onMouseLeave={() => setIsPreviewVisible(false)}
+        onFocus={() => setIsPreviewVisible(true)}
+        onBlur={() => setIsPreviewVisible(false)}
+        className="px-0.5 text-[0.7rem] font-semibold text-sky-400 hover:text-sky-200 focus:outline-none focus:text-sky-200"
+        aria-label={`Source ${citation.number}: ${citation.title} (${citation.domain})`}
+      >
+        [{citation.number}]
+      </button>
+      {isPreviewVisible && (
+        <span
+          role="tooltip"
+          className="absolute z-20 bottom-full left-1/2 -translate-x-1/2 mb-1 w-64 p-2 rounded-md bg-slate-900 border border-slate-600 shadow-lg text-left normal-case not-italic font-normal"
+        >
+          <span className="flex items-center gap-1.5 text-xs text-slate-400">
+            <img src={sourceFaviconUrl(citation.uri)} alt="" width={14} height={14} className="w-3.5 h-3.5 rounded-sm" />
+            {citation.domain}
+          </span>
+          <span className="block mt-1 text-xs text-slate-100 leading-snug">{citation.title}</span>
+        </span>
+      )}
+    </sup>
+  );
+};
+
+// react-markdown overrides that turn citation links into CitationMarkers;
+// every other link renders as usual.
+export const citationMarkdownComponents = (
+  references: Citation[],
+  onSelect: (citation: Citation) => void
+): Components => ({
+  a: ({ href, children, node: _node, ...props }) => {
+    const citationNumber = citationNumberFromHref(href);
+    const citation = citationNumber ? references.find(ref => ref.number === citationNumber) : undefined;
+    if (citation) {
+      return <CitationMarker citation={citation} onSelect={onSelect} />;
+    }
+    return (
+      <a href={href} {...props}>
+        {children}
+      </a>
+    );
+  },
+});
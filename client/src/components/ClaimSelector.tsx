@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ClaimCandidate } from '../types';
+import { MAX_SELECTED_CLAIMS } from '../constants';
+import { selectedClaimTexts } from '../services/claimSelection';
+
+interface ClaimSelectorProps {
+  claims: ClaimCandidate[];
+  onChange: (claims: ClaimCandidate[]) => void;
+  onConfirm: () => void; // Start the report on the selected claims
+  onCancel: () => void;
+  isLoading: boolean;
+}
+
+export const ClaimSelector: React.FC<ClaimSelectorProps> = ({ claims, onChange, onConfirm, onCancel, isLoading }) => {
+  const [newClaim, setNewClaim] = useState('');
+
+  const selectedCount = selectedClaimTexts(claims).length;
+  const tooMany = selectedCount > MAX_SELECTED_CLAIMS;
+
+  const updateClaim = (id: string, updates: Partial<ClaimCandidate>) =>
+    onChange(claims.map(claim => (claim.id === id ? { ...claim, ...updates } : claim)));
+
+  const addClaim = () => {
+    if (!newClaim.trim()) return;
+    onChange([...claims, { id: uuidv4(), text: newClaim.trim(), selected: true }]);
+    setNewClaim('');
+  };
+
+  return (
+    <div className="mt-6 bg-slate-800 border border-slate-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-sky-400">Claims to Check</h3>
+        <div className="flex gap-2 text-xs">
+          <button type="button" onClick={() => onChange(claims.map(claim => ({ ...claim, selected: true })))} disabled={isLoading} className="text-sky-400 hover:text-sky-300 disabled:opacity-50">
+            Select all
+          </button>
+          <button type="button" onClick={() => onChange(claims.map(claim => ({ ...claim, selected: false })))} disabled={isLoading} className="text-sky-400 hover:text-sky-300 disabled:opacity-50">
+            Select none
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400">
+        The report's tables will cover exactly the ticked claims, in this order. Edit a claim to make it more precise.
+      </p>
+
+      <ol className="space-y-1.5">
+        {claims.map((claim, index) => (
+          <li key={claim.id} className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={claim.selected}
+              onChange={(e) => updateClaim(claim.id, { selected: e.target.checked })}
+              disabled={isLoading}
+              className="mt-2 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+              aria-label={`Check claim ${index + 1}`}
+            />
+            <textarea
+              value={claim.text}
+              onChange={(e) => updateClaim(claim.id, { text: e.target.value })}
+              disabled={isLoading}
+              rows={Math.min(4, Math.max(1, Math.ceil(claim.text.length / 80)))}
+              className={`flex-grow p-1.5 text-sm bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500 resize-y ${claim.selected ? '' : 'opacity-60'}`}
+              aria-label={`Claim ${index + 1}`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(claims.filter(c => c.id !== claim.id))}
+              disabled={isLoading}
+              className="mt-1.5 px-1.5 text-xs text-slate-400 hover:text-red-400 disabled:opacity-50"
+              aria-label={`Remove claim ${index + 1}`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newClaim}
+          onChange={(e) => setNewClaim(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addClaim(); }}
+          placeholder="Add a claim the extraction missed"
+          disabled={isLoading}
+          className="flex-grow p-1.5 text-sm bg-slate-700 border border-slate-600 rounded-md text-slate-100 placeholder-slate-400 focus:ring-sky-500 focus:border-sky-500"
+        />
+        <button
+          type="button"
+          onClick={addClaim}
+          disabled={isLoading || !newClaim.trim()}
+          className="px-3 py-1.5 text-sm bg-slate-700 text-slate-200 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {tooMany && (
+        <p className="text-xs text-amber-400">A report can check at most {MAX_SELECTED_CLAIMS} claims; untick {selectedCount - MAX_SELECTED_CLAIMS}.</p>
+      )}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isLoading}
+          className="px-4 py-2 text-sm bg-slate-700 text-slate-200 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50"
+        >
+          Discard Claims
+        </button>
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isLoading || selectedCount === 0 || tooMany}
+          className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-sky-500 to-indigo-600 hover:from-sky-600 hover:to-indigo-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Check {selectedCount} {selectedCount === 1 ? 'Claim' : 'Claims'}
+        </button>
+      </div>
+    </div>
+  );
+};
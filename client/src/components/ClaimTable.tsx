@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ParsedVerdictTable, VerdictRow } from '../types';
+import { sourceKeysForCell } from '../services/citations';
+import { VerdictDifference } from '../services/modelComparison';
+
+interface ClaimTableProps {
+  table: ParsedVerdictTable;
+  markdownComponents?: Components; // e.g. citation superscripts
+  differences?: Map<VerdictRow, VerdictDifference>; // Cells that disagree with other models in a comparison
+}
+
+type SortKey = 'order' | 'statement' | 'status' | 'confidence';
+type SortDirection = 'asc' | 'desc';
+
+const ALL_STATUSES = '__all__';
+
+// Renders a single cell's markdown inline (links, bold) without wrapping paragraphs.
+const InlineMarkdown: React.FC<{ children: string; components?: Components }> = ({ children, components }) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} disallowedElements={['p']} unwrapDisallowed>
+    {children}
+  </ReactMarkdown>
+);
+
+const statusLabel = (row: VerdictRow): string => [row.statusEmoji, row.status].filter(Boolean).join(' ');
+
+const compareRows = (a: VerdictRow, b: VerdictRow, key: SortKey, direction: SortDirection): number => {
+  const sign = direction === 'asc' ? 1 : -1;
+  switch (key) {
+    case 'statement':
+      return sign * a.statement.localeCompare(b.statement);
+    case 'status':
+      return sign * statusLabel(a).localeCompare(statusLabel(b));
+    case 'confidence':
+      // Rows without a parsable confidence sort last in either direction
+      if (!a.confidence || !b.confidence) return Number(!a.confidence) - Number(!b.confidence);
+      return sign * (a.confidence.value - b.confidence.value);
+    default:
+      return 0;
+  }
+};
+
+export const ClaimTable: React.FC<ClaimTableProps> = ({ table, markdownComponents, differences }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('order');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [statusFilter, setStatusFilter] = useState<string>(ALL_STATUSES);
+  const [textFilter, setTextFilter] = useState('');
+
+  const statusOptions = useMemo(
+    () => Array.from(new Set(table.rows.map(statusLabel).filter(Boolean))),
+    [table.rows]
+  );
+
+  const visibleRows = useMemo(() => {
+    const query = textFilter.trim().toLowerCase();
+    const filtered = table.rows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => statusFilter === ALL_STATUSES || statusLabel(row) === statusFilter)
+      .filter(({ row }) => !query || row.cells.some(cell => cell.toLowerCase().includes(query)));
+
+    if (sortKey === 'order') {
+      return sortDirection === 'asc' ? filtered : [...filtered].reverse();
+    }
+    return [...filtered].sort((a, b) => compareRows(a.row, b.row, sortKey, sortDirection) || a.index - b.index);
+  }, [table.rows, statusFilter, textFilter, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'confidence' ? 'desc' : 'asc');
+    }
+  };
+
+  const sortIndicator = (key: SortKey) => (sortKey === key ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : '');
+
+  // Column order matches the prompt: statement, status, correction/notes, confidence.
+  const sortableColumns: (SortKey | null)[] = ['statement', 'status', null, 'confidence'];
+
+  const isDifferingCell = (row: VerdictRow, cellIndex: number): boolean => {
+    const difference = differences?.get(row);
+    return !!difference && ((cellIndex === 1 && difference.status) || (cellIndex === 3 && difference.confidence));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={textFilter}
+          onChange={(e) => setTextFilter(e.target.value)}
+          placeholder="Filter rows..."
+          className="flex-grow min-w-[8rem] px-2 py-1 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-200 placeholder-slate-400 focus:outline-none focus:border-sky-500"
+          aria-label="Filter table rows"
+        />
+        {statusOptions.length > 1 && (
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-2 py-1 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-200 focus:outline-none focus:border-sky-500"
+            aria-label="Filter by status"
+          >
+            <option value={ALL_STATUSES}>All statuses</option>
+            {statusOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )}
+        {sortKey !== 'order' && (
+          <button
+            onClick={() => { setSortKey('order'); setSortDirection('asc'); }}
+            className="text-xs text-slate-400 hover:text-sky-400 transition-colors"
+          >
+            Reset order
+          </button>
+        )}
+      </div>
+
+      {table.malformedRowCount > 0 && (
+        <p className="text-xs text-amber-400">
+          ⚠️ {table.malformedRowCount} row{table.malformedRowCount === 1 ? '' : 's'} did not match the expected table format.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left border-collapse">
+          <thead>
+            <tr className="border-b border-slate-500">
+              {table.headers.map((header, index) => {
+                const key = sortableColumns[index] ?? null;
+                return (
+                  <th key={index} className="px-2 py-1.5 font-semibold text-sky-300 align-bottom">
+                    {key ? (
+                      <button onClick={() => handleSort(key)} className="hover:text-sky-100 text-left">
+                        {header}{sortIndicator(key)}
+                      </button>
+                    ) : header}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(({ row, index }) => (
+              <tr
+                key={index}
+                className={`border-b border-slate-600/60 align-top ${row.isMalformed ? 'bg-amber-900/20' : ''}`}
+                title={row.isMalformed ? row.issues.join('; ') : undefined}
+                // Lets inline citations find the usefulness row for their source
+                data-source-keys={table.kind === 'source_usefulness' ? sourceKeysForCell(row.statement) || undefined : undefined}
+              >
+                {table.headers.map((_, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className={`px-2 py-1.5 text-slate-200 ${isDifferingCell(row, cellIndex) ? 'bg-amber-600/30 ring-1 ring-inset ring-amber-500/70' : ''}`}
+                    title={isDifferingCell(row, cellIndex) ? 'Other models disagree' : undefined}
+                  >
+                    {cellIndex === 0 && row.isMalformed && <span className="mr-1" aria-label="Malformed row">⚠️</span>}
+                    <InlineMarkdown components={markdownComponents}>{row.cells[cellIndex] ?? ''}</InlineMarkdown>
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={table.headers.length} className="px-2 py-3 text-center text-slate-400 italic">
+                  No rows match the current filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
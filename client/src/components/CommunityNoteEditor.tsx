@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { COMMUNITY_NOTE_MAX_CHARS } from '../constants';
+import {
+  CommunityNote,
+  communityNoteTextBudget,
+  dedupeSources,
+  formatCommunityNote,
+  parseCommunityNote,
+  validateCommunityNote,
+} from '../services/communityNote';
+
+interface CommunityNoteEditorProps {
+  text: string; // The note as the model wrote it, or as last saved
+  onSave?: (text: string) => void; // Receives the note in posting-ready form; omitted while it cannot be edited
+  onShorten?: (noteText: string, maxChars: number) => Promise<string>;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+const ACTION_CLASS = 'px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-md border border-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const countClass = (length: number): string => {
+  if (length > COMMUNITY_NOTE_MAX_CHARS) return 'text-red-400';
+  if (length > COMMUNITY_NOTE_MAX_CHARS * 0.9) return 'text-amber-400';
+  return 'text-emerald-400';
+};
+
+export const CommunityNoteEditor: React.FC<CommunityNoteEditorProps> = ({ text, onSave, onShorten }) => {
+  const note = useMemo(() => parseCommunityNote(text), [text]);
+  const [draft, setDraft] = useState<CommunityNote | null>(null); // Set while editing
+  const [newSource, setNewSource] = useState('');
+  const [isShortening, setIsShortening] = useState(false);
+  const [shortenError, setShortenError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const current = draft ?? note;
+  const { length, issues } = validateCommunityNote(current);
+  const textBudget = communityNoteTextBudget(current);
+  const hasDuplicates = dedupeSources(current.sources).length < current.sources.filter(source => source.trim()).length;
+
+  const updateDraft = (updates: Partial<CommunityNote>) => setDraft(prev => ({ ...(prev ?? note), ...updates }));
+
+  const addSource = () => {
+    if (!newSource.trim()) return;
+    updateDraft({ sources: [...current.sources, newSource.trim()] });
+    setNewSource('');
+  };
+
+  const handleSave = () => {
+    if (!draft || !onSave) return;
+    onSave(formatCommunityNote({ ...draft, sources: dedupeSources(draft.sources) }));
+    setDraft(null);
+  };
+
+  // The shortened text replaces the draft's, so it can be reviewed before saving.
+  const handleShorten = async () => {
+    if (!onShorten) return;
+    setIsShortening(true);
+    setShortenError(null);
+    try {
+      const shortened = await onShorten(current.text, textBudget);
+      setDraft({ ...current, text: shortened.trim() });
+    } catch (err) {
+      setShortenError(err instanceof Error ? err.message : 'Failed to shorten the note.');
+    } finally {
+      setIsShortening(false);
+    }
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formatCommunityNote(current))
+      .then(() => {
+        setCopied(true);
+        window.setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+      })
+      .catch(err => console.error('Failed to copy the note: ', err));
+  };
+
+  return (
+    <div className="bg-slate-600/50 p-3 rounded-lg shadow space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-base font-semibold text-sky-300">Community Note</h3>
+        <span className={`text-xs font-medium ${countClass(length)}`} title="Counted as X counts a post: each link as 23 characters">
+          {length} / {COMMUNITY_NOTE_MAX_CHARS}
+        </span>
+      </div>
+
+      {draft ? (
+        <div className="space-y-3">
+          <textarea
+            value={draft.text}
+            onChange={(e) => updateDraft({ text: e.target.value })}
+            rows={6}
+            className="w-full p-2 text-sm bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500 resize-y"
+            aria-label="Community Note text"
+          />
+          <div className="space-y-1.5">
+            <h4 className="text-xs font-medium text-indigo-300">Sources</h4>
+            {draft.sources.map((source, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="url"
+                  value={source}
+                  onChange={(e) => updateDraft({ sources: draft.sources.map((s, i) => (i === index ? e.target.value : s)) })}
+                  className="flex-grow p-1.5 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500"
+                  aria-label={`Source ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateDraft({ sources: draft.sources.filter((_, i) => i !== index) })}
+                  className="px-1.5 text-xs text-slate-400 hover:text-red-400"
+                  aria-label={`Remove source ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                type="url"
+                value={newSource}
+                onChange={(e) => setNewSource(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addSource(); }}
+                placeholder="https://"
+                className="flex-grow p-1.5 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-100 placeholder-slate-400 focus:ring-sky-500 focus:border-sky-500"
+                aria-label="New source"
+              />
+              <button type="button" onClick={addSource} disabled={!newSource.trim()} className={ACTION_CLASS}>
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-100 whitespace-pre-wrap">{note.text || <span className="italic text-slate-400">(No note text)</span>}</p>
+          {note.sources.length > 0 && (
+            <ol className="space-y-0.5 list-decimal list-inside text-xs">
+              {note.sources.map((source, index) => (
+                <li key={index}>
+                  <a href={source} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:text-sky-300 break-all">{source}</a>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {issues.length > 0 ? (
+        <ul className="space-y-0.5 text-xs text-amber-400">
+          {issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      ) : (
+        <p className="text-xs text-emerald-400">Ready to post.</p>
+      )}
+      {shortenError && <p className="text-xs text-red-400">{shortenError}</p>}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {draft ? (
+          <>
+            {hasDuplicates && (
+              <button type="button" onClick={() => updateDraft({ sources: dedupeSources(draft.sources) })} className={ACTION_CLASS}>
+                Remove Duplicates
+              </button>
+            )}
+            <button type="button" onClick={() => setDraft(null)} className={ACTION_CLASS}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          onSave && (
+            <button type="button" onClick={() => setDraft(note)} className={ACTION_CLASS}>
+              Edit
+            </button>
+          )
+        )}
+        {onShorten && (
+          <button
+            type="button"
+            onClick={handleShorten}
+            disabled={isShortening || !current.text.trim() || textBudget < 1}
+            className={ACTION_CLASS}
+            title={`Ask the model to fit the text into ${Math.max(textBudget, 0)} characters`}
+          >
+            {isShortening ? 'Shortening...' : 'Shorten with Model'}
+          </button>
+        )}
+        <button type="button" onClick={handleCopy} disabled={!current.text.trim()} className={ACTION_CLASS}>
+          {copied ? 'Copied!' : 'Copy for Posting'}
+        </button>
+        {draft && (
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!onSave}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-gradient-to-r from-sky-500 to-indigo-600 hover:from-sky-600 hover:to-indigo-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Note
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
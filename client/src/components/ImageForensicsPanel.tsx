@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { QueryImageDraft } from '../types';
+import { metadataRows, THUMBNAIL_MISMATCH_DISTANCE } from '../services/imageForensics';
+
+interface ImageForensicsPanelProps {
+  image: QueryImageDraft;
+  imageNumber: number;
+  onClose: () => void;
+}
+
+type ForensicsView = 'metadata' | 'ela' | 'thumbnail';
+
+const VIEW_LABELS: Record<ForensicsView, string> = {
+  metadata: 'Metadata',
+  ela: 'Error Level',
+  thumbnail: 'Thumbnail',
+};
+
+export const ImageForensicsPanel: React.FC<ImageForensicsPanelProps> = ({ image, imageNumber, onClose }) => {
+  const [view, setView] = useState<ForensicsView>('metadata');
+  const report = image.forensics;
+  const rows = report ? metadataRows(report.metadata) : [];
+
+  return (
+    <div className="bg-slate-800/70 border border-slate-600 rounded-md p-3">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm font-medium text-sky-300">Image {imageNumber} Forensics</p>
+        <button type="button" onClick={onClose} className="text-xs text-slate-400 hover:text-sky-400 transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <img
+          src={view === 'ela' && report?.errorLevelDataUrl ? report.errorLevelDataUrl : image.previewUrl}
+          alt={view === 'ela' ? `Error level analysis of image ${imageNumber}` : `Image ${imageNumber}`}
+          className="sm:w-1/2 max-h-64 object-contain rounded border border-slate-600 bg-slate-900"
+        />
+
+        <div className="sm:w-1/2 min-w-0">
+          <div className="inline-flex rounded-md border border-slate-600 overflow-hidden mb-2" role="tablist" aria-label="Forensics view">
+            {(Object.keys(VIEW_LABELS) as ForensicsView[]).map(key => (
+              <button
+                key={key}
+                type="button"
+                role="tab"
+                aria-selected={view === key}
+                onClick={() => setView(key)}
+                className={`px-2.5 py-1 text-xs font-medium transition-colors ${view === key ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+              >
+                {VIEW_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          {!report ? (
+            <div className="flex items-center text-sm text-sky-400">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-sky-400 mr-2"></div>
+              Running checks...
+            </div>
+          ) : (
+            <div className="text-xs text-slate-300 space-y-2">
+              {view === 'metadata' && (
+                <>
+                  {rows.length > 0 ? (
+                    <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+                      {rows.map(([label, value]) => (
+                        <React.Fragment key={label}>
+                          <dt className="text-slate-400">{label}</dt>
+                          <dd className="text-slate-200 break-words">{value}</dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  ) : (
+                    <p className="italic text-slate-400">
+                      No EXIF/XMP metadata found. Social platforms and screenshots usually strip it.
+                    </p>
+                  )}
+                  {report.metadata.gps && (
+                    <a
+                      href={`https://www.openstreetmap.org/?mlat=${report.metadata.gps.latitude}&mlon=${report.metadata.gps.longitude}#map=15/${report.metadata.gps.latitude}/${report.metadata.gps.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block text-sky-400 hover:text-sky-300 underline"
+                    >
+                      Show GPS location on a map
+                    </a>
+                  )}
+                  {report.perceptualHash && (
+                    <p>
+                      <span className="text-slate-400">Perceptual hash (dHash): </span>
+                      <code className="text-slate-200">{report.perceptualHash}</code>
+                    </p>
+                  )}
+                </>
+              )}
+
+              {view === 'ela' && (
+                <p className="text-slate-400">
+                  {report.errorLevelDataUrl
+                    ? 'Brighter regions changed more when the image was re-saved as JPEG. Areas much brighter than similar surroundings can indicate local edits; uniform noise is normal.'
+                    : 'Error level analysis is not available for this image.'}
+                </p>
+              )}
+
+              {view === 'thumbnail' && (
+                report.thumbnail ? (
+                  <div className="space-y-2">
+                    <img src={report.thumbnail.dataUrl} alt="Embedded EXIF thumbnail" className="max-h-28 rounded border border-slate-600" />
+                    <p className={report.thumbnail.mismatch ? 'text-amber-400 font-medium' : 'text-emerald-400'}>
+                      {report.thumbnail.mismatch
+                        ? 'The embedded thumbnail does not match the image. It may have been edited or cropped after capture.'
+                        : 'The embedded thumbnail matches the image.'}
+                    </p>
+                    <p className="text-slate-400">
+                      Hash distance {report.thumbnail.distance}/64 (mismatch above {THUMBNAIL_MISMATCH_DISTANCE}).
+                    </p>
+                  </div>
+                ) : (
+                  <p className="italic text-slate-400">No embedded EXIF thumbnail to compare against.</p>
+                )
+              )}
+
+              {report.warnings.length > 0 && (
+                <ul className="text-amber-400 list-disc list-inside">
+                  {report.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
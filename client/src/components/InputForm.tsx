@@ -1,19 +1,37 @@
 
 import React, { useState, ChangeEvent, useEffect } from 'react';
-import { ReportType } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { QueryImageDraft, ReportType, ReportTypeInfo } from '../types';
+import { MAX_QUERY_IMAGES } from '../constants';
+import { ExtractedUrlData, urlContextFromExtraction } from '../services/apiClient';
+import { UrlExtractionPanel } from './UrlExtractionPanel';
+import { ExtractedUrlDisplay } from './ExtractedUrlDisplay';
+import { ImageForensicsPanel } from './ImageForensicsPanel';
+import { analyzeImageForensics } from '../services/imageForensics';
+import { findReportType, missingReportInputs, normalizeReportTypeId } from '../services/reportTypes';
+
+type InputMode = 'text' | 'url';
 
 interface InputFormProps {
   userInputText: string;
   setUserInputText: (text: string) => void;
-  userImageFile: File | null;
-  setUserImageFile: (file: File | null) => void;
+  userImages: QueryImageDraft[]; // In the order they are sent to the model
+  setUserImages: React.Dispatch<React.SetStateAction<QueryImageDraft[]>>;
+  includeImageForensics: boolean; // Send the forensics findings with the analysis request
+  setIncludeImageForensics: (include: boolean) => void;
   reportType: ReportType;
   setReportType: (type: ReportType) => void;
+  reportTypes: ReportTypeInfo[]; // Offered by the server's agent configs
+  pickClaimsFirst: boolean; // Extract claims for review before starting the report
+  setPickClaimsFirst: (pick: boolean) => void;
+  isExtractingClaims: boolean;
   onStartChat: () => void;
   isLoading: boolean;
   isChatActive: boolean;
   onStopGeneration?: () => void;
   selectedModelSupportsVision: boolean; // New prop
+  extractedUrl: ExtractedUrlData | null; // Article confirmed in "Analyze URL" mode
+  setExtractedUrl: (data: ExtractedUrlData | null) => void;
 }
 
 const placeholderExamples = [
@@ -34,29 +52,37 @@ const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif'
 export const InputForm: React.FC<InputFormProps> = ({
   userInputText,
   setUserInputText,
-  userImageFile,
-  setUserImageFile,
+  userImages,
+  setUserImages,
+  includeImageForensics,
+  setIncludeImageForensics,
   reportType,
   setReportType,
+  reportTypes,
+  pickClaimsFirst,
+  setPickClaimsFirst,
+  isExtractingClaims,
   onStartChat,
   isLoading,
   isChatActive,
   onStopGeneration,
   selectedModelSupportsVision,
+  extractedUrl,
+  setExtractedUrl,
 }) => {
-  const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>(extractedUrl ? 'url' : 'text');
   const [currentPlaceholderIndex, setCurrentPlaceholderIndex] = useState(0);
   const [imageError, setImageError] = useState<string | null>(null);
   const [imageLoading, setImageLoading] = useState(false);
+  const [draggedImageIndex, setDraggedImageIndex] = useState<number | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [forensicsImageId, setForensicsImageId] = useState<string | null>(null);
 
   // Function to clear image selection and cleanup
   const clearImageSelection = () => {
-    setUserImageFile(null);
+    userImages.forEach(image => URL.revokeObjectURL(image.previewUrl));
+    setUserImages([]);
     setImageError(null);
-    if (imagePreviewUrl) {
-      URL.revokeObjectURL(imagePreviewUrl);
-      setImagePreviewUrl(null);
-    }
   };
 
   useEffect(() => {
@@ -69,78 +95,178 @@ export const InputForm: React.FC<InputFormProps> = ({
     return () => clearInterval(timerId);
   }, [isLoading, isChatActive]);
 
-  // Clear image if model doesn't support vision
+  // An article attached from outside the form (e.g. search results) switches to URL mode.
   useEffect(() => {
-    if (!selectedModelSupportsVision && userImageFile) {
+    if (extractedUrl && inputMode !== 'url') {
+      setInputMode('url');
       clearImageSelection();
     }
-  }, [selectedModelSupportsVision, userImageFile, clearImageSelection]);
+  }, [extractedUrl]);
 
-  // Cleanup on unmount
+  // Clear images if model doesn't support vision
   useEffect(() => {
-    return () => {
-      if (imagePreviewUrl) {
-        URL.revokeObjectURL(imagePreviewUrl);
+    if (!selectedModelSupportsVision && userImages.length > 0) {
+      clearImageSelection();
+    }
+  }, [selectedModelSupportsVision, userImages, clearImageSelection]);
+
+  // Validates and appends files after the current images. Files beyond MAX_QUERY_IMAGES are skipped.
+  const addImageFiles = (files: File[]) => {
+    if (!selectedModelSupportsVision || files.length === 0) return; // Prevent change if model doesn't support vision
+
+    setImageError(null);
+    setImageLoading(true);
+
+    const problems: string[] = [];
+    const added: QueryImageDraft[] = [];
+    for (const file of files) {
+      if (userImages.length + added.length >= MAX_QUERY_IMAGES) {
+        problems.push(`Only ${MAX_QUERY_IMAGES} images can be attached to one query.`);
+        break;
       }
-    };
-  }, [imagePreviewUrl]);
+      // Validate file type
+      if (!ALLOWED_IMAGE_TYPES.includes(file.type.toLowerCase())) {
+        problems.push(`${file.name}: invalid file type. Please upload: ${ALLOWED_IMAGE_TYPES.join(', ')}`);
+        continue;
+      }
+      // Validate file size
+      if (file.size > MAX_FILE_SIZE) {
+        problems.push(`${file.name}: file size too large. Maximum size: ${(MAX_FILE_SIZE / (1024 * 1024)).toFixed(1)}MB`);
+        continue;
+      }
+      added.push({ id: uuidv4(), file, previewUrl: URL.createObjectURL(file), caption: '' });
+    }
 
+    if (added.length > 0) {
+      setUserImages([...userImages, ...added]);
+      // Forensics run in the background; each report is attached to its draft when ready.
+      added.forEach(draft => {
+        analyzeImageForensics(draft.file).then(report => {
+          setUserImages(current => current.map(img => (img.id === draft.id ? { ...img, forensics: report } : img)));
+        });
+      });
+    }
+    if (problems.length > 0) setImageError(problems.join('\n'));
+    setImageLoading(false);
+  };
 
-  const handleImageChange = async (event: ChangeEvent<HTMLInputElement>) => {
-    if (!selectedModelSupportsVision) return; // Prevent change if model doesn't support vision
+  const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
+    addImageFiles(Array.from(event.target.files ?? []));
+    // Reset the file input so the same file can be picked again after removing it
+    event.target.value = '';
+  };
 
+  const removeImage = (id: string) => {
+    const image = userImages.find(img => img.id === id);
+    if (image) URL.revokeObjectURL(image.previewUrl);
+    setUserImages(userImages.filter(img => img.id !== id));
     setImageError(null);
-    setImageLoading(true);
+    if (forensicsImageId === id) setForensicsImageId(null);
+  };
 
-    try {
-      if (event.target.files && event.target.files[0]) {
-        const file = event.target.files[0];
-        
-        // Validate file type
-        if (!ALLOWED_IMAGE_TYPES.includes(file.type.toLowerCase())) {
-          throw new Error(`Invalid file type. Please upload: ${ALLOWED_IMAGE_TYPES.join(', ')}`);
-        }
-        
-        // Validate file size
-        if (file.size > MAX_FILE_SIZE) {
-          throw new Error(`File size too large. Maximum size: ${(MAX_FILE_SIZE / (1024 * 1024)).toFixed(1)}MB`);
-        }
+  const updateImageCaption = (id: string, caption: string) => {
+    setUserImages(userImages.map(img => (img.id === id ? { ...img, caption } : img)));
+  };
 
-        // Clean up previous preview
-        if (imagePreviewUrl) { 
-          URL.revokeObjectURL(imagePreviewUrl);
-        }
+  const moveImage = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= userImages.length) return;
+    const reordered = [...userImages];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setUserImages(reordered);
+  };
 
-        // Create new preview
-        const newPreviewUrl = URL.createObjectURL(file);
-        setImagePreviewUrl(newPreviewUrl);
-        setUserImageFile(file);
-        
-      } else {
-        // Clear selection
-        clearImageSelection();
-      }
-    } catch (error) {
-      setImageError(error instanceof Error ? error.message : 'Failed to process image');
-      clearImageSelection();
-      // Reset the file input
-      event.target.value = '';
-    } finally {
-      setImageLoading(false);
+  // Dropping a thumbnail reorders; dropping files from the desktop adds them.
+  const handleImageDrop = (event: React.DragEvent, targetIndex?: number) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    if (draggedImageIndex !== null) {
+      moveImage(draggedImageIndex, targetIndex ?? userImages.length - 1);
+      setDraggedImageIndex(null);
+      return;
     }
+    if (!imageInputDisabled) addImageFiles(Array.from(event.dataTransfer.files));
   };
   
+  // Switching modes drops the other mode's attachment so only one subject is sent.
+  const handleInputModeChange = (mode: InputMode) => {
+    if (mode === inputMode) return;
+    setInputMode(mode);
+    if (mode === 'url') {
+      clearImageSelection();
+    } else {
+      setExtractedUrl(null);
+    }
+  };
+
   const fieldsetDisabled = isChatActive || isLoading;
-  const canStart = userInputText.trim() !== '' || (userImageFile !== null && selectedModelSupportsVision);
-  const generateButtonDisabled = isLoading ? false : (isChatActive || !canStart);
+  const extractedUrlHasContent = extractedUrl !== null && urlContextFromExtraction(extractedUrl).content.trim() !== '';
+  const canStart = inputMode === 'url'
+    ? extractedUrlHasContent
+    : userInputText.trim() !== '' || (userImages.length > 0 && selectedModelSupportsVision);
+  // Claims can only be extracted from text or an article, not from images alone
+  const canExtractClaims = inputMode === 'url' ? extractedUrlHasContent : userInputText.trim() !== '';
+  const selectedReportType = findReportType(reportTypes, reportType);
+  const missingInputs = missingReportInputs(selectedReportType, {
+    text: inputMode === 'url' ? extractedUrlHasContent : userInputText.trim() !== '',
+    image: userImages.length > 0 && selectedModelSupportsVision,
+  });
+  const needsVisionModel = !!selectedReportType?.requiresVision && !selectedModelSupportsVision;
+  const generateButtonDisabled = isLoading
+    ? false
+    : (isChatActive || isExtractingClaims || !canStart || (pickClaimsFirst && !canExtractClaims) ||
+      missingInputs.length > 0 || needsVisionModel);
   const imageInputDisabled = fieldsetDisabled || !selectedModelSupportsVision;
+  const forensicsImageIndex = userImages.findIndex(img => img.id === forensicsImageId);
 
   return (
     <div className={`space-y-6 mb-8 ${isChatActive && !isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}>
       <fieldset disabled={fieldsetDisabled} className="space-y-6">
+        <div className="inline-flex rounded-md border border-slate-600 overflow-hidden" role="tablist" aria-label="Analysis input mode">
+          {([['text', 'Text / Image'], ['url', 'Analyze URL']] as [InputMode, string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              role="tab"
+              aria-selected={inputMode === mode}
+              onClick={() => handleInputModeChange(mode)}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${inputMode === mode ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {inputMode === 'url' && (
+          <div>
+            {extractedUrl ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-sky-300">Article to Analyze</p>
+                  <button
+                    type="button"
+                    onClick={() => setExtractedUrl(null)}
+                    className="text-xs text-slate-400 hover:text-sky-400 transition-colors"
+                  >
+                    Use a different URL
+                  </button>
+                </div>
+                <ExtractedUrlDisplay urlData={extractedUrl} />
+                {!extractedUrlHasContent && (
+                  <p className="text-xs text-amber-400">
+                    No readable content was extracted from this page. Try another URL or paste the text instead.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <UrlExtractionPanel onUrlExtracted={setExtractedUrl} />
+            )}
+          </div>
+        )}
+
         <div>
           <label htmlFor="userText" className="block text-sm font-medium text-sky-300 mb-1">
-            Initial Text/Claim to Analyze
+            {inputMode === 'url' ? 'Question or Claim About This Article (Optional)' : 'Initial Text/Claim to Analyze'}
           </label>
           <textarea
             id="userText"
@@ -154,78 +280,159 @@ export const InputForm: React.FC<InputFormProps> = ({
           />
         </div>
 
-        <div>
-          <label htmlFor="userImage" className="block text-sm font-medium text-sky-300 mb-1">
-            Upload Image (Optional, if model supports vision)
-          </label>
-          <div className="space-y-2">
-            <input
-              type="file"
-              id="userImage"
-              accept="image/*"
-              onChange={handleImageChange}
-              className={`block w-full text-sm text-slate-400
-                file:mr-4 file:py-2 file:px-4
-                file:rounded-md file:border-0
-                file:text-sm file:font-semibold
-                file:bg-indigo-600 file:text-sky-100
-                hover:file:bg-indigo-500
-                disabled:file:bg-indigo-800 disabled:file:cursor-not-allowed ${imageInputDisabled || imageLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-              disabled={imageInputDisabled || imageLoading}
-              aria-label="Image upload for SIFT analysis"
-              title={!selectedModelSupportsVision ? "Selected model does not support image input" : "Upload an image"}
-            />
-            
-            {imageLoading && (
-              <div className="flex items-center text-sm text-sky-400">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-sky-400 mr-2"></div>
-                Processing image...
-              </div>
-            )}
-            
-            {imageError && (
-              <div className="bg-red-900/20 border border-red-700 rounded-md p-2">
-                <p className="text-sm text-red-400">{imageError}</p>
-              </div>
-            )}
-            
-            {!selectedModelSupportsVision && (
-              <p className="text-xs text-amber-400">
-                The currently selected model does not support image analysis. Image upload is disabled.
-              </p>
-            )}
-            
-            <p className="text-xs text-slate-500">
-              Supported formats: JPEG, PNG, GIF, WebP. Max size: {(MAX_FILE_SIZE / (1024 * 1024)).toFixed(1)}MB
-            </p>
-          </div>
-          
-          {imagePreviewUrl && selectedModelSupportsVision && !isChatActive && (
-            <div className="mt-4 space-y-2">
-              <div className="flex items-center justify-between">
-                <p className="text-sm text-slate-400">Image Preview:</p>
-                <button
-                  type="button"
-                  onClick={clearImageSelection}
-                  className="text-xs text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/30 px-2 py-1 rounded border border-red-700 transition-colors"
-                  disabled={fieldsetDisabled}
-                >
-                  Clear Image
-                </button>
-              </div>
-              <img 
-                src={imagePreviewUrl} 
-                alt="Preview of uploaded image" 
-                className="max-h-48 rounded-md border border-slate-600 shadow-lg" 
+        {inputMode === 'text' && (
+          <div>
+            <label htmlFor="userImage" className="block text-sm font-medium text-sky-300 mb-1">
+              Upload Images (Optional, if model supports vision)
+            </label>
+            <div
+              className={`space-y-2 rounded-md transition-colors ${isDraggingFiles ? 'ring-2 ring-sky-500 bg-slate-700/40' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (draggedImageIndex === null && !imageInputDisabled) setIsDraggingFiles(true);
+              }}
+              onDragLeave={() => setIsDraggingFiles(false)}
+              onDrop={(e) => handleImageDrop(e)}
+            >
+              <input
+                type="file"
+                id="userImage"
+                accept="image/*"
+                multiple
+                onChange={handleImageChange}
+                className={`block w-full text-sm text-slate-400
+                  file:mr-4 file:py-2 file:px-4
+                  file:rounded-md file:border-0
+                  file:text-sm file:font-semibold
+                  file:bg-indigo-600 file:text-sky-100
+                  hover:file:bg-indigo-500
+                  disabled:file:bg-indigo-800 disabled:file:cursor-not-allowed ${imageInputDisabled || imageLoading || userImages.length >= MAX_QUERY_IMAGES ? 'opacity-50 cursor-not-allowed' : ''}`}
+                disabled={imageInputDisabled || imageLoading || userImages.length >= MAX_QUERY_IMAGES}
+                aria-label="Image upload for SIFT analysis"
+                title={!selectedModelSupportsVision ? "Selected model does not support image input" : "Upload images or drop them here"}
               />
-              {userImageFile && (
-                <p className="text-xs text-slate-500">
-                  {userImageFile.name} ({(userImageFile.size / (1024 * 1024)).toFixed(2)}MB)
+              
+              {imageLoading && (
+                <div className="flex items-center text-sm text-sky-400">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-sky-400 mr-2"></div>
+                  Processing images...
+                </div>
+              )}
+              
+              {imageError && (
+                <div className="bg-red-900/20 border border-red-700 rounded-md p-2">
+                  <p className="text-sm text-red-400 whitespace-pre-line">{imageError}</p>
+                </div>
+              )}
+              
+              {!selectedModelSupportsVision && (
+                <p className="text-xs text-amber-400">
+                  The currently selected model does not support image analysis. Image upload is disabled.
                 </p>
               )}
+              
+              <p className="text-xs text-slate-500">
+                Up to {MAX_QUERY_IMAGES} images. Supported formats: JPEG, PNG, GIF, WebP. Max size: {(MAX_FILE_SIZE / (1024 * 1024)).toFixed(1)}MB each
+              </p>
             </div>
-          )}
-        </div>
+            
+            {userImages.length > 0 && selectedModelSupportsVision && !isChatActive && (
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-slate-400">
+                    Images ({userImages.length}/{MAX_QUERY_IMAGES}){userImages.length > 1 ? ' · drag to reorder' : ''}:
+                  </p>
+                  <button
+                    type="button"
+                    onClick={clearImageSelection}
+                    className="text-xs text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/30 px-2 py-1 rounded border border-red-700 transition-colors"
+                    disabled={fieldsetDisabled}
+                  >
+                    {userImages.length > 1 ? 'Clear Images' : 'Clear Image'}
+                  </button>
+                </div>
+                <ol className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {userImages.map((image, index) => (
+                    <li
+                      key={image.id}
+                      draggable={!fieldsetDisabled}
+                      onDragStart={() => setDraggedImageIndex(index)}
+                      onDragEnd={() => setDraggedImageIndex(null)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.stopPropagation();
+                        handleImageDrop(e, index);
+                      }}
+                      className={`bg-slate-700/60 border rounded-md p-2 space-y-1.5 ${draggedImageIndex === index ? 'border-sky-500 opacity-60' : 'border-slate-600'} ${fieldsetDisabled ? '' : 'cursor-move'}`}
+                    >
+                      <div className="relative">
+                        <img 
+                          src={image.previewUrl} 
+                          alt={image.caption || `Preview of uploaded image ${index + 1}`} 
+                          className="h-28 w-full object-cover rounded border border-slate-600" 
+                        />
+                        <span className="absolute top-1 left-1 px-1.5 text-xs font-semibold bg-slate-900/80 text-slate-100 rounded">{index + 1}</span>
+                        <button
+                          type="button"
+                          onClick={() => removeImage(image.id)}
+                          className="absolute top-1 right-1 px-1.5 text-xs bg-slate-900/80 hover:bg-red-700 text-slate-200 rounded transition-colors"
+                          aria-label={`Remove image ${index + 1}`}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      <input
+                        type="text"
+                        value={image.caption}
+                        onChange={(e) => updateImageCaption(image.id, e.target.value)}
+                        placeholder="Caption (optional)"
+                        className="w-full px-2 py-1 text-xs bg-slate-700 border border-slate-600 rounded text-slate-200 placeholder-slate-400 focus:outline-none focus:border-sky-500"
+                        aria-label={`Caption for image ${index + 1}`}
+                      />
+                      <div className="flex items-center justify-between text-xs text-slate-500">
+                        <span className="truncate" title={image.file.name}>
+                          {image.file.name} ({(image.file.size / (1024 * 1024)).toFixed(2)}MB)
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setForensicsImageId(forensicsImageId === image.id ? null : image.id)}
+                          className={`flex-shrink-0 ml-1 px-1 hover:text-sky-400 ${forensicsImageId === image.id ? 'text-sky-400' : ''} ${image.forensics?.thumbnail?.mismatch ? 'text-amber-400' : ''}`}
+                          title={image.forensics?.thumbnail?.mismatch ? 'Embedded thumbnail does not match this image' : 'Show image forensics'}
+                          aria-label={`Show forensics for image ${index + 1}`}
+                          aria-pressed={forensicsImageId === image.id}
+                        >
+                          {image.forensics?.thumbnail?.mismatch ? '⚠' : '🔬'}
+                        </button>
+                        {userImages.length > 1 && (
+                          <span className="flex-shrink-0 ml-1">
+                            <button type="button" onClick={() => moveImage(index, index - 1)} disabled={index === 0} className="px-1 hover:text-sky-400 disabled:opacity-30" aria-label={`Move image ${index + 1} earlier`}>←</button>
+                            <button type="button" onClick={() => moveImage(index, index + 1)} disabled={index === userImages.length - 1} className="px-1 hover:text-sky-400 disabled:opacity-30" aria-label={`Move image ${index + 1} later`}>→</button>
+                          </span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                {forensicsImageIndex >= 0 && (
+                  <ImageForensicsPanel
+                    image={userImages[forensicsImageIndex]}
+                    imageNumber={forensicsImageIndex + 1}
+                    onClose={() => setForensicsImageId(null)}
+                  />
+                )}
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={includeImageForensics}
+                    onChange={(e) => setIncludeImageForensics(e.target.checked)}
+                    className="rounded border-slate-600 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                  />
+                  Send forensic findings (metadata, perceptual hash, thumbnail check) with the analysis
+                </label>
+              </div>
+            )}
+          </div>
+        )}
 
         <div>
           <label htmlFor="reportType" className="block text-sm font-medium text-sky-300 mb-1">
@@ -234,17 +441,36 @@ export const InputForm: React.FC<InputFormProps> = ({
           <select
             id="reportType"
             value={reportType}
-            onChange={(e) => setReportType(e.target.value as ReportType)}
+            onChange={(e) => setReportType(normalizeReportTypeId(e.target.value))}
             className="w-full p-3 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100 disabled:bg-slate-600 disabled:cursor-not-allowed"
             disabled={fieldsetDisabled}
             aria-label="Select SIFT report type"
           >
-            {Object.values(ReportType).map((type) => (
-              <option key={type} value={type}>
-                {type}
+            {reportTypes.map((type) => (
+              <option key={type.id} value={type.id}>
+                {type.label}
               </option>
             ))}
           </select>
+          {selectedReportType?.description && <p className="mt-1 text-xs text-slate-400">{selectedReportType.description}</p>}
+          {needsVisionModel && (
+            <p className="mt-1 text-xs text-amber-400">A {selectedReportType!.label} report needs a model that can see images.</p>
+          )}
+          {!needsVisionModel && missingInputs.length > 0 && (
+            <p className="mt-1 text-xs text-amber-400">
+              A {selectedReportType!.label} report needs {missingInputs.map(input => (input === 'image' ? 'an image' : 'text or an article')).join(' and ')}.
+            </p>
+          )}
+          <label className="flex items-center gap-2 mt-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={pickClaimsFirst}
+              onChange={(e) => setPickClaimsFirst(e.target.checked)}
+              disabled={fieldsetDisabled}
+              className="rounded border-slate-600 bg-slate-700 text-sky-500 focus:ring-sky-500"
+            />
+            Pick the claims to check first (extracts the individual claims for you to review)
+          </label>
         </div>
       </fieldset>
 
@@ -267,6 +493,10 @@ export const InputForm: React.FC<InputFormProps> = ({
             </svg>
             Cancel Generation
           </>
+        ) : isExtractingClaims ? (
+          'Extracting Claims...'
+        ) : pickClaimsFirst ? (
+          'Extract Claims to Check'
         ) : (
           'Start SIFT Analysis Chat'
         )}
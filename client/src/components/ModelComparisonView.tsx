@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { AIModelConfig, ComparisonRun, ParsedReportSection, ReportSectionSegment, VerdictRow } from '../types';
+import { parseReportIntoSections, parseSectionSegments } from '../services/reportParser';
+import { alignVerdicts, verdictDifferences } from '../services/modelComparison';
+import { ClaimTable } from './ClaimTable';
+
+interface ModelComparisonViewProps {
+  runs: ComparisonRun[];
+  onStop: () => void;
+  availableModels: AIModelConfig[];
+  defaultConsensusModelId: string;
+  onBuildConsensus: (modelId: string) => void;
+}
+
+interface ParsedSection {
+  section: ParsedReportSection;
+  segments: ReportSectionSegment[];
+}
+
+// Sections line up across reports by title, ignoring their numbering ("## 2. Errors and Corrections").
+const sectionKey = (section: ParsedReportSection): string =>
+  section.title.toLowerCase().replace(/^[\d.\s]+/, '').trim();
+
+const verdictSummary = (row: VerdictRow | undefined): string =>
+  row ? [[row.statusEmoji, row.status].filter(Boolean).join(' '), row.confidence?.raw].filter(Boolean).join(' · ') : '—';
+
+export const ModelComparisonView: React.FC<ModelComparisonViewProps> = ({
+  runs,
+  onStop,
+  availableModels,
+  defaultConsensusModelId,
+  onBuildConsensus,
+}) => {
+  const [consensusModelId, setConsensusModelId] = useState(defaultConsensusModelId);
+  const parsedRuns = useMemo(
+    () => runs.map(run => {
+      const sections = new Map<string, ParsedSection>();
+      if (run.isError) return { run, sections };
+      parseReportIntoSections(run.text).forEach(section => {
+        sections.set(sectionKey(section), { section, segments: parseSectionSegments(section.content, section.title) });
+      });
+      return { run, sections };
+    }),
+    [runs]
+  );
+
+  // Every section title in the order it first appears in any report
+  const sectionKeys = useMemo(
+    () => Array.from(new Set(parsedRuns.flatMap(({ sections }) => Array.from(sections.keys())))),
+    [parsedRuns]
+  );
+
+  const alignments = useMemo(
+    () => alignVerdicts(parsedRuns.map(({ run, sections }) => ({
+      modelId: run.modelId,
+      tables: Array.from(sections.values()).flatMap(({ segments }) =>
+        segments.flatMap(segment => (segment.type === 'table' ? [segment.table] : []))
+      ),
+    }))),
+    [parsedRuns]
+  );
+  const differences = useMemo(() => verdictDifferences(alignments), [alignments]);
+  const disagreements = alignments.filter(alignment => alignment.statusDiffers || alignment.confidenceDiffers);
+
+  const isRunning = runs.some(run => run.isLoading);
+  // Only finished, stored reports can be merged
+  const completedRuns = runs.filter(run => !run.isLoading && !run.isError && run.analysisId);
+  const canBuildConsensus = !isRunning && completedRuns.length >= 2;
+  const gridStyle = { gridTemplateColumns: `repeat(${runs.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-800 shadow-2xl rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+        <h2 className="text-base font-semibold text-sky-400">Model Comparison</h2>
+        {isRunning && (
+          <button
+            onClick={onStop}
+            className="px-3 py-1 text-xs bg-red-600 hover:bg-red-500 text-white font-medium rounded-md transition-colors"
+          >
+            Stop All
+          </button>
+        )}
+        {canBuildConsensus && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="consensus-model" className="text-xs text-slate-400">Merge with</label>
+            <select
+              id="consensus-model"
+              value={consensusModelId}
+              onChange={event => setConsensusModelId(event.target.value)}
+              className="max-w-[12rem] px-2 py-1 text-xs bg-slate-700 border border-slate-600 text-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500"
+            >
+              {availableModels.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onBuildConsensus(consensusModelId)}
+              title={`Merge the ${completedRuns.length} completed reports into one Full Check`}
+              className="px-3 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-md transition-colors"
+            >
+              Build Consensus
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700">
+        {/* Column headers stay in view while the columns scroll together */}
+        <div className="grid gap-3 sticky top-0 z-10 -mt-4 pt-4 pb-2 bg-slate-800" style={gridStyle}>
+          {runs.map(run => (
+            <div key={run.modelId} className="bg-slate-700 rounded-md px-3 py-2">
+              <p className="text-sm font-medium text-indigo-300 truncate" title={run.modelName}>{run.modelName}</p>
+              <p className={`text-xs ${run.isError ? 'text-red-400' : 'text-slate-400'}`}>
+                {run.isError ? 'Failed' : run.isReconnecting ? 'Reconnecting...' : run.isLoading ? 'Generating...' : 'Complete'}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {runs.some(run => run.isError) && (
+          <div className="grid gap-3" style={gridStyle}>
+            {runs.map(run => (
+              <p key={run.modelId} className="text-sm text-red-400 break-words min-w-0">{run.isError ? run.text : ''}</p>
+            ))}
+          </div>
+        )}
+
+        {disagreements.length > 0 && (
+          <div className="bg-amber-900/20 border border-amber-700/60 rounded-lg p-3">
+            <h3 className="text-sm font-semibold text-amber-300 mb-2">
+              Disagreements ({disagreements.length})
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left border-collapse">
+                <thead>
+                  <tr className="border-b border-slate-500">
+                    <th className="px-2 py-1.5 font-semibold text-sky-300">Claim</th>
+                    {runs.map(run => (
+                      <th key={run.modelId} className="px-2 py-1.5 font-semibold text-sky-300">{run.modelName}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {disagreements.map((alignment, index) => (
+                    <tr key={index} className="border-b border-slate-600/60 align-top">
+                      <td className="px-2 py-1.5 text-slate-200">{alignment.statement}</td>
+                      {runs.map(run => (
+                        <td key={run.modelId} className="px-2 py-1.5 text-slate-200">{verdictSummary(alignment.rows[run.modelId])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {sectionKeys.map(key => {
+          const title = parsedRuns.find(({ sections }) => sections.has(key))?.sections.get(key)?.section.title;
+          return (
+            <div key={key}>
+              <h3 className="text-base font-semibold mb-2 text-sky-300">{title}</h3>
+              <div className="grid gap-3" style={gridStyle}>
+                {parsedRuns.map(({ run, sections }) => {
+                  const parsed = sections.get(key);
+                  return (
+                    <div key={run.modelId} className="bg-slate-600/50 p-3 rounded-lg shadow min-w-0">
+                      {parsed ? (
+                        <div className="markdown-content prose-sm max-w-none text-slate-200 space-y-3">
+                          {parsed.segments.map((segment, segmentIndex) => (
+                            segment.type === 'table'
+                              ? <ClaimTable key={segmentIndex} table={segment.table} differences={differences} />
+                              : <ReactMarkdown key={segmentIndex} remarkPlugins={[remarkGfm]}>{segment.content}</ReactMarkdown>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-xs italic text-slate-400">{run.isLoading ? 'Waiting for this section...' : 'Not in this report.'}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        {runs.every(run => run.isLoading && !run.text) && (
+          <div className="flex items-center justify-center py-8 text-sm text-sky-400">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-sky-400 mr-2"></div>
+            Running {runs.length} models...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
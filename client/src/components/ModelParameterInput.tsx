@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ModelParameter } from '../types';
+import { SliderInput } from './SliderInput';
+import { numberParamError, selectedOptionValue } from '../services/modelParameters';
+
+interface ModelParameterInputProps {
+  id: string;
+  param: ModelParameter;
+  value: number | string | boolean | undefined;
+  onChange: (value: number | string | boolean) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full p-1.5 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500 disabled:cursor-not-allowed';
+
+// Keeps what the user typed, even while it is out of range, and only reports valid numbers.
+const NumberParameterInput: React.FC<ModelParameterInputProps> = ({ id, param, value, onChange, disabled }) => {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+  const [syncedValue, setSyncedValue] = useState(value);
+  // A preset or an imported bundle can change the value; show it unless the draft already reads as it.
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    if ((draft.trim() === '' ? '' : Number(draft)) !== value) setDraft(value === undefined ? '' : String(value));
+  }
+  const error = numberParamError(param, draft);
+
+  const handleChange = (raw: string) => {
+    setDraft(raw);
+    if (numberParamError(param, raw)) return;
+    onChange(raw.trim() === '' ? '' : Number(raw));
+  };
+
+  return (
+    <>
+      <input
+        type="number"
+        id={id}
+        name={id}
+        min={param.min}
+        max={param.max}
+        step={param.step}
+        value={draft}
+        placeholder={param.placeholder}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        aria-invalid={!!error}
+        className={`${inputClassName} ${error ? 'border-red-500' : ''}`}
+      />
+      {error && <p className="text-xs text-red-400 mt-0.5">{error}</p>}
+    </>
+  );
+};
+
+export const ModelParameterInput: React.FC<ModelParameterInputProps> = (props) => {
+  const { id, param, value, onChange, disabled = false } = props;
+
+  if (param.type === 'slider' && param.min !== undefined && param.max !== undefined && param.step !== undefined) {
+    return (
+      <SliderInput
+        id={id}
+        label={param.label}
+        min={param.min}
+        max={param.max}
+        step={param.step}
+        value={Number(value) || Number(param.defaultValue)}
+        onChange={onChange}
+        description={param.description}
+        unit={param.unit}
+        disabled={disabled}
+      />
+    );
+  }
+
+  if (param.type === 'toggle') {
+    return (
+      <div className={`space-y-1 ${disabled ? 'opacity-60' : ''}`}>
+        <label htmlFor={id} className="flex items-center justify-between gap-2 text-xs font-medium text-indigo-300">
+          {param.label}
+          <input
+            type="checkbox"
+            id={id}
+            name={id}
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            disabled={disabled}
+            className="rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500 disabled:cursor-not-allowed"
+          />
+        </label>
+        {param.description && <p className="text-xs text-slate-500 italic mt-0.5">{param.description}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-1 ${disabled ? 'opacity-60' : ''}`}>
+      <label htmlFor={id} className="block text-xs font-medium text-indigo-300">
+        {param.label}
+      </label>
+      <div className="flex items-center space-x-2">
+        <div className="flex-grow">
+          {param.type === 'select' && param.options ? (
+            <select
+              id={id}
+              name={id}
+              value={String(value ?? param.defaultValue)}
+              onChange={(e) => onChange(selectedOptionValue(param.options!, e.target.value))}
+              disabled={disabled}
+              className={inputClassName}
+            >
+              {param.options.map(option => (
+                <option key={String(option.value)} value={String(option.value)}>{option.label}</option>
+              ))}
+            </select>
+          ) : param.type === 'text' ? (
+            <input
+              type="text"
+              id={id}
+              name={id}
+              value={String(value ?? '')}
+              placeholder={param.placeholder}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            />
+          ) : (
+            <NumberParameterInput {...props} />
+          )}
+        </div>
+        {param.unit && <span className="text-xs text-slate-400">{param.unit}</span>}
+      </div>
+      {param.description && <p className="text-xs text-slate-500 italic mt-0.5">{param.description}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { AIModelConfig } from '../types';
+import { ParameterPreset, presetsWithMissingModels } from '../services/parameterPresets';
+
+interface ParameterPresetsProps {
+  presets: ParameterPreset[];
+  availableModels: AIModelConfig[];
+  onApply: (preset: ParameterPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (presetId: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+const smallButtonClassName =
+  'px-2 py-1 text-xs bg-slate-700 text-slate-200 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const ParameterPresets: React.FC<ParameterPresetsProps> = ({
+  presets,
+  availableModels,
+  onApply,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+  disabled = false,
+}) => {
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [newPresetName, setNewPresetName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const missingModelPresets = presetsWithMissingModels(presets, availableModels);
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+
+  const handleSelect = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find(p => p.id === presetId);
+    if (preset && !missingModelPresets.includes(preset)) onApply(preset);
+  };
+
+  const handleSave = () => {
+    if (!newPresetName.trim()) return;
+    onSave(newPresetName.trim());
+    setNewPresetName('');
+  };
+
+  const modelName = (modelId: string) => availableModels.find(model => model.id === modelId)?.name ?? modelId;
+
+  return (
+    <div className="pt-3 border-t border-slate-700/50">
+      <h3 className="text-sm font-medium text-indigo-300 mb-2">Presets</h3>
+      <div className="space-y-2">
+        {presets.length > 0 && (
+          <div className="flex gap-1.5">
+            <select
+              aria-label="Parameter preset"
+              value={selectedPreset ? selectedPresetId : ''}
+              onChange={(e) => handleSelect(e.target.value)}
+              disabled={disabled}
+              className="flex-grow min-w-0 p-1.5 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-70"
+            >
+              <option value="">Apply a preset...</option>
+              {presets.map(preset => {
+                const isMissing = missingModelPresets.includes(preset);
+                return (
+                  <option key={preset.id} value={preset.id} disabled={isMissing}>
+                    {preset.name} · {modelName(preset.modelId)}{isMissing ? ' (model unavailable)' : ''}
+                  </option>
+                );
+              })}
+            </select>
+            <button
+              type="button"
+              onClick={() => {
+                if (!selectedPreset) return;
+                onDelete(selectedPreset.id);
+                setSelectedPresetId('');
+              }}
+              disabled={!selectedPreset}
+              title="Delete the selected preset"
+              className={smallButtonClassName}
+            >
+              Delete
+            </button>
+          </div>
+        )}
+
+        {missingModelPresets.length > 0 && (
+          <p className="text-xs text-amber-400">
+            {missingModelPresets.length === 1 ? 'This preset uses a model' : 'These presets use models'} the server does not offer:{' '}
+            {missingModelPresets.map(preset => `${preset.name} (${preset.modelId})`).join(', ')}
+          </p>
+        )}
+
+        <div className="flex gap-1.5">
+          <input
+            type="text"
+            value={newPresetName}
+            onChange={(e) => setNewPresetName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            placeholder="Name the current settings"
+            aria-label="New preset name"
+            disabled={disabled}
+            className="flex-grow min-w-0 p-1.5 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-100 placeholder-slate-400 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-70"
+          />
+          <button type="button" onClick={handleSave} disabled={disabled || !newPresetName.trim()} className={smallButtonClassName}>
+            Save
+          </button>
+        </div>
+
+        <div className="flex gap-1.5">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={`flex-1 ${smallButtonClassName}`}>
+            Import
+          </button>
+          <button type="button" onClick={onExport} disabled={presets.length === 0} className={`flex-1 ${smallButtonClassName}`}>
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = ''; // Allow importing the same file again
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { VerdictRow } from '../types';
+import { fetchReportVersions, ReportVersionKind, StoredReportVersion } from '../services/apiClient';
+import { ClaimChange, SectionDiff, diffReportVersions, summarizeReportDiff } from '../services/reportDiff';
+
+interface ReportVersionsPanelProps {
+  analysisId: string;
+  refreshKey?: number | null; // Changing this value triggers a reload (e.g. a newly stored version)
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ReportVersionKind, string> = {
+  initial: 'Initial report',
+  restart: 'Restart',
+  another_round: 'Another round',
+  section: 'Section regenerated',
+  section_undo: 'Section undone',
+};
+
+const SECTION_BADGE_CLASSES: Record<SectionDiff['change'], string> = {
+  added: 'bg-emerald-900/60 text-emerald-200',
+  removed: 'bg-red-900/60 text-red-200',
+  changed: 'bg-amber-900/60 text-amber-200',
+  unchanged: 'bg-slate-700 text-slate-300',
+};
+
+const versionLabel = (version: StoredReportVersion): string =>
+  `v${version.version_number} · ${KIND_LABELS[version.kind] ?? version.kind} · ${new Date(version.created_at).toLocaleString()}`;
+
+const rowStatus = (row: VerdictRow): string => [row.statusEmoji, row.status].filter(Boolean).join(' ') || '—';
+const rowConfidence = (row: VerdictRow): string => row.confidence?.raw || '—';
+
+const ClaimChangeItem: React.FC<{ change: ClaimChange }> = ({ change }) => {
+  if (change.change === 'added') {
+    return (
+      <li className="text-xs text-emerald-300">
+        <span className="font-semibold mr-1">+</span>{change.statement}
+        <span className="text-slate-400"> ({rowStatus(change.after!)}, confidence {rowConfidence(change.after!)})</span>
+      </li>
+    );
+  }
+  if (change.change === 'removed') {
+    return (
+      <li className="text-xs text-red-300">
+        <span className="font-semibold mr-1">−</span><span className="line-through">{change.statement}</span>
+      </li>
+    );
+  }
+  return (
+    <li className="text-xs text-slate-200">
+      <span className="font-semibold mr-1 text-amber-300">~</span>{change.statement}
+      {change.statusChanged && (
+        <div className="ml-3 text-slate-400">Status: {rowStatus(change.before!)} → <span className="text-amber-200">{rowStatus(change.after!)}</span></div>
+      )}
+      {change.confidenceChanged && (
+        <div className="ml-3 text-slate-400">Confidence: {rowConfidence(change.before!)} → <span className="text-amber-200">{rowConfidence(change.after!)}</span></div>
+      )}
+    </li>
+  );
+};
+
+export const ReportVersionsPanel: React.FC<ReportVersionsPanelProps> = ({ analysisId, refreshKey, onClose }) => {
+  const [versions, setVersions] = useState<StoredReportVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [beforeNumber, setBeforeNumber] = useState<number | null>(null);
+  const [afterNumber, setAfterNumber] = useState<number | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await fetchReportVersions(analysisId);
+      setVersions(data);
+      // Compare the two latest versions until the user picks others
+      setAfterNumber(data.at(-1)?.version_number ?? null);
+      setBeforeNumber(data.at(-2)?.version_number ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report versions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [analysisId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, refreshKey]);
+
+  const before = versions.find(version => version.version_number === beforeNumber);
+  const after = versions.find(version => version.version_number === afterNumber);
+  const diffs = useMemo(
+    () => (before && after && before !== after ? diffReportVersions(before.report_text, after.report_text) : []),
+    [before, after]
+  );
+  const summary = summarizeReportDiff(diffs);
+  const changedDiffs = diffs.filter(diff => diff.change !== 'unchanged');
+
+  const versionSelect = (label: string, value: number | null, onChange: (value: number) => void) => (
+    <label className="block text-xs text-slate-400">
+      {label}
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-1 w-full p-1.5 text-xs bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500"
+      >
+        {versions.map(version => (
+          <option key={version.version_number} value={version.version_number}>{versionLabel(version)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <aside className="w-72 md:w-96 bg-slate-800/70 p-4 shadow-lg flex-shrink-0 h-full overflow-y-auto border-l border-slate-700 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700/50">
+      <div className="flex items-center justify-between sticky top-0 bg-slate-800/80 backdrop-blur-sm py-3 -mt-4 -mx-4 px-4 border-b border-slate-700 z-10 mb-4">
+        <h2 className="text-lg font-semibold text-sky-400">Report Versions</h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={loadVersions}
+            disabled={isLoading}
+            className="text-xs text-slate-400 hover:text-sky-400 transition-colors disabled:opacity-50"
+            aria-label="Refresh report versions"
+          >
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-sky-400 transition-colors" aria-label="Close report versions">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-700 rounded-md p-3 mb-3">
+          <p className="text-sm text-red-400 font-medium">Failed to load versions</p>
+          <p className="text-xs text-red-300 mt-1">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && !error && versions.length < 2 && (
+        <p className="text-sm text-slate-400 italic">
+          Only one version is stored so far. Restarting the report, asking for "another round" or regenerating a section adds one.
+        </p>
+      )}
+
+      {versions.length >= 2 && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {versionSelect('Compare', beforeNumber, setBeforeNumber)}
+            {versionSelect('With', afterNumber, setAfterNumber)}
+          </div>
+
+          {before === after ? (
+            <p className="text-sm text-slate-400 italic">Pick two different versions.</p>
+          ) : (
+            <>
+              <p className="text-xs text-slate-300">
+                {summary.addedClaims} claims added, {summary.removedClaims} removed, {summary.statusChanges} status and{' '}
+                {summary.confidenceChanges} confidence changes across {summary.changedSections} sections.
+              </p>
+
+              {changedDiffs.length === 0 && <p className="text-sm text-slate-400 italic">No differences between these versions.</p>}
+
+              <ul className="space-y-3">
+                {changedDiffs.map((diff, index) => (
+                  <li key={`${diff.title}-${index}`} className="bg-slate-700/50 p-2.5 rounded-md">
+                    <div className="flex items-center justify-between gap-2 mb-1.5">
+                      <h3 className="text-sm font-semibold text-sky-300">{diff.title}</h3>
+                      <span className={`px-1.5 py-0.5 text-[0.65rem] rounded ${SECTION_BADGE_CLASSES[diff.change]}`}>{diff.change}</span>
+                    </div>
+                    {diff.claimChanges.length > 0 && (
+                      <ul className="space-y-1">
+                        {diff.claimChanges.map((change, changeIndex) => <ClaimChangeItem key={changeIndex} change={change} />)}
+                      </ul>
+                    )}
+                    {diff.textChanged && diff.change === 'changed' && (
+                      <details className="mt-1.5">
+                        <summary className="text-xs text-slate-400 cursor-pointer hover:text-sky-300">Text changed</summary>
+                        <div className="mt-1 grid grid-cols-1 gap-1.5 text-xs">
+                          <p className="whitespace-pre-wrap text-red-200/80 bg-red-900/20 p-1.5 rounded">{diff.beforeText || '(none)'}</p>
+                          <p className="whitespace-pre-wrap text-emerald-200/80 bg-emerald-900/20 p-1.5 rounded">{diff.afterText || '(none)'}</p>
+                        </div>
+                      </details>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </aside>
+  );
+};
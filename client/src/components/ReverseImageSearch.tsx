@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { QueryImage } from '../types';
+import { publishUploadedImage } from '../services/apiClient';
+import { reverseSearchLinks } from '../services/reverseImageSearch';
+
+interface ReverseImageSearchProps {
+  image: QueryImage;
+  publicUrl?: string; // Hosted copy of the image, once published
+  onPublished: (uploadId: string, publicUrl: string) => void;
+}
+
+export const ReverseImageSearch: React.FC<ReverseImageSearchProps> = ({ image, publicUrl, onPublished }) => {
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Publishing makes the image publicly reachable, so it only happens when asked for.
+  const handlePublish = async () => {
+    if (!image.uploadId) return;
+    setIsPublishing(true);
+    setError(null);
+    try {
+      onPublished(image.uploadId, await publishUploadedImage(image.uploadId));
+    } catch (publishError) {
+      setError(publishError instanceof Error ? publishError.message : 'The image could not be published.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (!image.uploadId) {
+    return (
+      <p className="mt-2 text-xs italic text-slate-400">
+        Reverse image search becomes available once the image has been stored on the server.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2">
+      <h4 className="text-xs font-medium text-indigo-300 mb-1">Reverse Image Search:</h4>
+      {publicUrl ? (
+        <div className="grid grid-cols-2 gap-1.5">
+          {reverseSearchLinks(publicUrl).map(link => (
+            <a
+              key={link.engine}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-center text-xs px-2 py-1 bg-slate-700 text-sky-300 hover:bg-slate-600 hover:text-sky-200 rounded-md transition-colors"
+            >
+              {link.label}
+            </a>
+          ))}
+        </div>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={handlePublish}
+            disabled={isPublishing}
+            className="w-full text-xs px-2 py-1.5 bg-sky-700 text-white hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-wait rounded-md transition-colors"
+          >
+            {isPublishing ? 'Publishing image...' : 'Prepare reverse search links'}
+          </button>
+          <p className="mt-1 text-[0.7rem] text-slate-400">
+            Uploads a copy of this image through the configured upload proxy so search engines can fetch it.
+          </p>
+        </>
+      )}
+      {error && <p className="mt-1 text-xs text-red-400 break-words">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  semanticSearch,
+  SemanticSearchResponse,
+  SemanticSearchType,
+} from '../services/apiClient';
+import { reportTypeFromStored } from '../services/analysisHistory';
+import { highlightSegments } from '../services/searchHighlight';
+import { sourceDomain } from '../services/groundingSources';
+
+interface SearchPanelProps {
+  onOpenAnalysis: (analysisId: string) => void;
+  onAttachUrl: (url: string) => void; // Starts a new "Analyze URL" query with this page
+  currentAnalysisId?: string | null;
+  disabled?: boolean;
+}
+
+const SEARCH_RESULT_LIMIT = 10;
+const SEARCH_TYPE_LABELS: Record<SemanticSearchType, string> = {
+  analyses: 'Past reports',
+  urls: 'Processed URLs',
+};
+
+const HighlightedSnippet: React.FC<{ text: string | null; query: string }> = ({ text, query }) => {
+  if (!text) return <p className="text-xs text-slate-500 italic">No preview available.</p>;
+  return (
+    <p className="text-xs text-slate-300 leading-relaxed">
+      {highlightSegments(text, query).map((segment, index) =>
+        segment.isMatch
+          ? <mark key={index} className="bg-amber-400/30 text-amber-100 rounded px-0.5">{segment.text}</mark>
+          : <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )}
+    </p>
+  );
+};
+
+const SimilarityBadge: React.FC<{ score: number | null }> = ({ score }) => {
+  if (score === null || score === undefined) return null;
+  const percent = Math.round(Math.max(0, Math.min(1, score)) * 100);
+  const colour = percent >= 80 ? 'text-emerald-300 border-emerald-700' : percent >= 60 ? 'text-sky-300 border-sky-700' : 'text-slate-400 border-slate-600';
+  return (
+    <span className={`shrink-0 px-1.5 py-0.5 text-[0.65rem] font-semibold border rounded ${colour}`} title="Cosine similarity to the query">
+      {percent}%
+    </span>
+  );
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  onOpenAnalysis,
+  onAttachUrl,
+  currentAnalysisId,
+  disabled = false,
+}) => {
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<SemanticSearchType[]>(['analyses', 'urls']);
+  const [results, setResults] = useState<SemanticSearchResponse['results'] | null>(null);
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleType = (type: SemanticSearchType) => {
+    setTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  const handleSearch = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed || types.length === 0) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      setResults(await semanticSearch(trimmed, { limit: SEARCH_RESULT_LIMIT, types }));
+      setSearchedQuery(trimmed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const totalResults = results ? results.analyses.length + results.urls.length : 0;
+
+  return (
+    <aside className="w-72 md:w-96 bg-slate-800/70 p-4 shadow-lg flex-shrink-0 h-full overflow-y-auto border-r border-slate-700 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700/50">
+      <div className="sticky top-0 bg-slate-800/80 backdrop-blur-sm py-3 -mt-4 -mx-4 px-4 border-b border-slate-700 z-10 mb-4">
+        <h2 className="text-lg font-semibold text-sky-400 mb-2">Search</h2>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search reports and pages by meaning..."
+            className="flex-grow min-w-0 px-3 py-1.5 text-sm bg-slate-700 border border-slate-600 rounded-md text-slate-200 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+            aria-label="Semantic search query"
+          />
+          <button
+            type="submit"
+            disabled={isSearching || !query.trim() || types.length === 0}
+            className="px-3 py-1.5 text-sm bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+          >
+            {isSearching ? '...' : 'Go'}
+          </button>
+        </form>
+        <div className="flex gap-3 mt-2">
+          {(Object.keys(SEARCH_TYPE_LABELS) as SemanticSearchType[]).map(type => (
+            <label key={type} className="flex items-center gap-1.5 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={types.includes(type)}
+                onChange={() => toggleType(type)}
+                className="rounded border-slate-600 bg-slate-700 text-sky-500 focus:ring-sky-500"
+              />
+              {SEARCH_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-700 rounded-md p-3 mb-3">
+          <p className="text-sm text-red-400 font-medium">Search failed</p>
+          <p className="text-xs text-red-300 mt-1">{error}</p>
+        </div>
+      )}
+
+      {results && !isSearching && totalResults === 0 && (
+        <p className="text-sm text-slate-400 italic">No matches for "{searchedQuery}".</p>
+      )}
+
+      {results && results.analyses.length > 0 && (
+        <section className="mb-5">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-2">
+            {SEARCH_TYPE_LABELS.analyses} ({results.analyses.length})
+          </h3>
+          <ul className="space-y-2">
+            {results.analyses.map(analysis => {
+              const isCurrent = analysis.id === currentAnalysisId;
+              return (
+                <li key={analysis.id} className="p-2 rounded-md border bg-slate-700/60 border-slate-600">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <p className="text-sm text-slate-200 leading-snug line-clamp-2" title={analysis.user_query || undefined}>
+                      {analysis.user_query?.trim() || '(Image-only query)'}
+                    </p>
+                    <SimilarityBadge score={analysis.similarity_score} />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-slate-500 mb-1.5">
+                    <span className="text-sky-300">{reportTypeFromStored(analysis.report_type)}</span>
+                    <span>{new Date(analysis.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <HighlightedSnippet text={analysis.snippet} query={searchedQuery} />
+                  <button
+                    onClick={() => onOpenAnalysis(analysis.id)}
+                    disabled={disabled || isCurrent}
+                    className="mt-2 px-2 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isCurrent ? 'Currently open' : 'Open analysis'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {results && results.urls.length > 0 && (
+        <section>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-2">
+            {SEARCH_TYPE_LABELS.urls} ({results.urls.length})
+          </h3>
+          <ul className="space-y-2">
+            {results.urls.map(page => (
+              <li key={page.id} className="p-2 rounded-md border bg-slate-700/60 border-slate-600">
+                <div className="flex items-start justify-between gap-2 mb-1">
+                  <p className="text-sm text-slate-200 leading-snug line-clamp-2">{page.title || page.url}</p>
+                  <SimilarityBadge score={page.similarity_score} />
+                </div>
+                <a
+                  href={page.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-xs text-sky-400 hover:text-sky-300 underline truncate mb-1.5"
+                  title={page.url}
+                >
+                  {sourceDomain(page.url)}
+                </a>
+                <HighlightedSnippet text={page.snippet} query={searchedQuery} />
+                <button
+                  onClick={() => onAttachUrl(page.url)}
+                  disabled={disabled}
+                  className="mt-2 px-2 py-1 text-xs bg-sky-600 hover:bg-sky-500 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Start a new analysis of this page"
+                >
+                  Analyze this URL
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </aside>
+  );
+};
@@ -1,7 +1,10 @@
 
 import React from 'react';
 import { AIProvider, AIModelConfig, ModelParameter, ConfigurableParams } from '../types';
-import { SliderInput } from './SliderInput'; 
+import { ModelParameterInput } from './ModelParameterInput';
+import { ParameterPresets } from './ParameterPresets';
+import { ParameterPreset } from '../services/parameterPresets';
+import { MAX_COMPARISON_MODELS } from '../constants';
 
 interface SidebarProps {
   availableModels: AIModelConfig[];
@@ -10,11 +13,20 @@ interface SidebarProps {
   selectedModelId: string;
   onSelectModelId: (modelId: string) => void;
   modelConfigParams: ConfigurableParams;
-  onModelConfigParamChange: (key: string, value: number | string) => void;
+  onModelConfigParamChange: (key: string, value: number | string | boolean) => void;
   onClearChatAndReset: () => void;
   isChatActive: boolean;
   modelsLoading: boolean;
   modelsError: string | null;
+  modelCatalogWarnings: string[];
+  comparisonModelIds: string[]; // Models run alongside the selected one; empty for a normal chat
+  onComparisonModelIdsChange: (modelIds: string[]) => void;
+  parameterPresets: ParameterPreset[];
+  onApplyPreset: (preset: ParameterPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (presetId: string) => void;
+  onImportPresets: (file: File) => void;
+  onExportPresets: () => void;
   // enableGeminiPreprocessing: boolean; // Prop removed
   // onToggleGeminiPreprocessing: (enabled: boolean) => void; // Prop removed
 }
@@ -31,6 +43,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
   isChatActive,
   modelsLoading,
   modelsError,
+  modelCatalogWarnings,
+  comparisonModelIds,
+  onComparisonModelIdsChange,
+  parameterPresets,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onImportPresets,
+  onExportPresets,
   // enableGeminiPreprocessing, // Prop removed
   // onToggleGeminiPreprocessing, // Prop removed
 }) => {
@@ -53,6 +74,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
   const uniqueProviders = Array.from(new Set(availableModels.map(m => m.provider)));
 
+  const comparisonCandidates = availableModels.filter(m => m.id !== selectedModelId);
+  const canAddComparisonModel = comparisonModelIds.length < MAX_COMPARISON_MODELS - 1;
+
+  const handleComparisonToggle = (modelId: string, checked: boolean) => {
+    onComparisonModelIdsChange(checked
+      ? [...comparisonModelIds, modelId]
+      : comparisonModelIds.filter(id => id !== modelId));
+  };
+
   return (
     <aside className="w-64 md:w-80 bg-slate-800/60 p-4 shadow-lg flex-shrink-0 h-full overflow-y-auto border-r border-slate-700 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700/50">
       <h2 className="text-lg font-semibold text-sky-400 mb-4 sticky top-0 bg-slate-800/80 backdrop-blur-sm py-3 -mt-4 -mx-4 px-4 border-b border-slate-700 z-10">
@@ -75,6 +105,19 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
         
+        {!modelsLoading && modelCatalogWarnings.length > 0 && (
+          <details className="bg-amber-900/20 border border-amber-700 rounded-md p-3">
+            <summary className="text-sm text-amber-400 font-medium cursor-pointer">
+              Model catalog warnings ({modelCatalogWarnings.length})
+            </summary>
+            <ul className="mt-2 space-y-1 list-disc list-inside">
+              {modelCatalogWarnings.map((warning, index) => (
+                <li key={index} className="text-xs text-amber-300 break-words">{warning}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+
         {!modelsLoading && !modelsError && availableModels.length === 0 && (
           <div className="bg-amber-900/20 border border-amber-700 rounded-md p-3">
             <p className="text-sm text-amber-400 font-medium">No models available</p>
@@ -119,13 +162,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
             {modelsForSelectedProvider.length > 0 ? (
               modelsForSelectedProvider.map(model => (
                 <option key={model.id} value={model.id}>
-                  {model.name}
+                  {model.name}{model.origin === 'bundled' ? ' (bundled)' : ''}
                 </option>
               ))
             ) : (
               <option value="" disabled>No models for this provider</option>
             )}
           </select>
+          {selectedModelConfig?.origin === 'bundled' && (
+            <p className="text-xs text-amber-400 mt-1">
+              This model comes from the bundled catalog; the server does not list it, so requests may fail.
+            </p>
+          )}
                 </div>
         
                 {/* Gemini Preprocessing Toggle for OpenRouter - Removed as this is now backend-driven */}
@@ -139,25 +187,51 @@ export const Sidebar: React.FC<SidebarProps> = ({
               Parameters ({selectedModelConfig.name})
             </h3>
             <div className="space-y-3">
-              {selectedModelConfig.parameters.map((param: ModelParameter) => {
-                if (param.type === 'slider' && param.min !== undefined && param.max !== undefined && param.step !== undefined) {
-                  return (
-                    <SliderInput
-                      key={param.key}
-                      id={`${selectedModelConfig.id}-${param.key}`}
-                      label={param.label}
-                      min={param.min}
-                      max={param.max}
-                      step={param.step}
-                      value={Number(modelConfigParams[param.key]) || Number(param.defaultValue)}
-                      onChange={(value) => onModelConfigParamChange(param.key, value)}
-                      description={param.description}
-                      unit={param.unit}
-                      disabled={isChatActive} 
+              {selectedModelConfig.parameters.map((param: ModelParameter) => (
+                <ModelParameterInput
+                  key={`${selectedModelConfig.id}-${param.key}`}
+                  id={`${selectedModelConfig.id}-${param.key}`}
+                  param={param}
+                  value={modelConfigParams[param.key]}
+                  onChange={(value) => onModelConfigParamChange(param.key, value)}
+                  disabled={isChatActive}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+        <ParameterPresets
+          presets={parameterPresets}
+          availableModels={availableModels}
+          onApply={onApplyPreset}
+          onSave={onSavePreset}
+          onDelete={onDeletePreset}
+          onImport={onImportPresets}
+          onExport={onExportPresets}
+          disabled={isChatActive}
+        />
+        {/* Side-by-side comparison */}
+        {comparisonCandidates.length > 0 && (
+          <div className="pt-3 border-t border-slate-700/50">
+            <h3 className="text-sm font-medium text-indigo-300 mb-1">Compare With</h3>
+            <p className="text-xs text-slate-400 mb-2">
+              Run the same query on up to {MAX_COMPARISON_MODELS - 1} more models and show the reports side by side.
+            </p>
+            <div className="space-y-1">
+              {comparisonCandidates.map(model => {
+                const checked = comparisonModelIds.includes(model.id);
+                return (
+                  <label key={model.id} className="flex items-center gap-2 text-sm text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      onChange={(e) => handleComparisonToggle(model.id, e.target.checked)}
+                      disabled={isChatActive || (!checked && !canAddComparisonModel)}
+                      className="rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500 disabled:opacity-50"
                     />
-                  );
-                }
-                return null; 
+                    <span className="truncate" title={model.name}>{model.name}</span>
+                  </label>
+                );
               })}
             </div>
           </div>
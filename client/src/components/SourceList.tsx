@@ -0,0 +1,61 @@
+import React from 'react';
+import { GroundingChunk } from '../types';
+import { mergeGroundingSources, sourceDomain, sourceFaviconUrl } from '../services/groundingSources';
+
+interface SourceListProps {
+  sources: GroundingChunk[];
+  variant?: 'user' | 'ai';
+  itemIdPrefix?: string; // Entries get ids `${itemIdPrefix}${number}` so citations can scroll to them
+}
+
+// Numbered, deduplicated list of the web sources behind a message.
+export const SourceList: React.FC<SourceListProps> = ({ sources, variant = 'ai', itemIdPrefix }) => {
+  const uniqueSources = mergeGroundingSources(undefined, sources);
+  if (uniqueSources.length === 0) return null;
+
+  const isUser = variant === 'user';
+
+  return (
+    <div className={`mt-3 pt-2 border-t ${isUser ? 'border-indigo-500' : 'border-slate-600'}`}>
+      <h4 className={`text-xs font-semibold mb-1 ${isUser ? 'text-indigo-200' : 'text-sky-500'}`}>
+        Sources ({uniqueSources.length})
+      </h4>
+      <ol className="space-y-1 text-xs">
+        {uniqueSources.map((source, index) => {
+          const { uri, title } = source.web!;
+          const domain = sourceDomain(uri);
+          return (
+            <li
+              key={uri}
+              id={itemIdPrefix ? `${itemIdPrefix}${index + 1}` : undefined}
+              className={`flex items-start gap-2 rounded-sm transition-colors ${isUser ? 'text-indigo-200' : 'text-slate-400'}`}
+            >
+              <span className="w-5 flex-shrink-0 text-right tabular-nums">{index + 1}.</span>
+              <img
+                src={sourceFaviconUrl(uri)}
+                alt=""
+                width={16}
+                height={16}
+                loading="lazy"
+                className="w-4 h-4 mt-0.5 flex-shrink-0 rounded-sm bg-slate-600"
+                onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+              />
+              <div className="min-w-0">
+                <a
+                  href={uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={uri}
+                  className={`${isUser ? 'text-indigo-300 hover:text-indigo-100' : 'text-sky-400 hover:text-sky-300'} hover:underline break-words`}
+                >
+                  {title && title !== uri ? title : domain}
+                </a>
+                <span className="block text-slate-500 truncate">{domain}</span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
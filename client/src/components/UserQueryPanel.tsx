@@ -1,18 +1,37 @@
 
-import React from 'react';
-import { ReportType } from '../types';
+import React, { useState } from 'react';
+import { QueryImage, ReportType, ReportTypeInfo } from '../types';
+import { reportTypeLabel } from '../services/reportTypes';
+import { ReverseImageSearch } from './ReverseImageSearch';
 
 interface UserQueryPanelProps {
   userInputText: string;
   userImagePreviewUrl?: string;
+  images?: QueryImage[]; // All query images in the order the model saw them
   reportType: ReportType;
+  reportTypes: ReportTypeInfo[]; // For the report type's label
+  selectedClaims?: string[]; // Claims the user picked for the report to check
+  publicImageUrls: Record<string, string>; // Hosted copies for reverse image search, by upload id
+  onImagePublished: (uploadId: string, publicUrl: string) => void;
 }
 
 export const UserQueryPanel: React.FC<UserQueryPanelProps> = ({
   userInputText,
   userImagePreviewUrl,
+  images,
   reportType,
+  reportTypes,
+  selectedClaims,
+  publicImageUrls,
+  onImagePublished,
 }) => {
+  const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+
+  // Queries from before multi-image upload (or restored from history) only carry the primary preview.
+  const displayImages: QueryImage[] = images?.some(image => image.previewUrl)
+    ? images.filter(image => image.previewUrl)
+    : userImagePreviewUrl ? [{ previewUrl: userImagePreviewUrl, mimeType: '' }] : [];
+  const selectedImage = displayImages[Math.min(selectedImageIndex, displayImages.length - 1)];
   return (
     <aside className="w-64 md:w-72 bg-slate-800/70 p-4 shadow-lg flex-shrink-0 h-full overflow-y-auto border-r border-slate-700 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700/50">
       <h2 className="text-lg font-semibold text-sky-400 mb-4 sticky top-0 bg-slate-800/80 backdrop-blur-sm py-3 -mt-4 -mx-4 px-4 border-b border-slate-700 z-10">
@@ -21,7 +40,7 @@ export const UserQueryPanel: React.FC<UserQueryPanelProps> = ({
       <div className="space-y-4">
         <div>
           <h3 className="text-sm font-medium text-indigo-300 mb-1">Report Type:</h3>
-          <p className="text-sm text-slate-200 bg-slate-700 p-2 rounded-md">{reportType}</p>
+          <p className="text-sm text-slate-200 bg-slate-700 p-2 rounded-md">{reportTypeLabel(reportType, reportTypes)}</p>
         </div>
 
         {userInputText && (
@@ -33,18 +52,56 @@ export const UserQueryPanel: React.FC<UserQueryPanelProps> = ({
           </div>
         )}
 
-        {userImagePreviewUrl && (
+        {selectedClaims && selectedClaims.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-indigo-300 mb-1">Claims Checked ({selectedClaims.length}):</h3>
+            <ol className="text-sm text-slate-200 bg-slate-700 p-2 pl-6 rounded-md list-decimal space-y-1 max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-500 scrollbar-track-slate-600">
+              {selectedClaims.map((claim, index) => <li key={index}>{claim}</li>)}
+            </ol>
+          </div>
+        )}
+
+        {selectedImage && (
           <div>
-            <h3 className="text-sm font-medium text-indigo-300 mb-1">Image Analyzed:</h3>
+            <h3 className="text-sm font-medium text-indigo-300 mb-1">
+              {displayImages.length > 1 ? `Images Analyzed (${displayImages.length}):` : 'Image Analyzed:'}
+            </h3>
             <img 
-              src={userImagePreviewUrl} 
-              alt="User uploaded query" 
+              src={selectedImage.previewUrl} 
+              alt={selectedImage.caption || 'User uploaded query'} 
               className="max-w-full h-auto rounded-md border border-slate-600"
             />
+            {selectedImage.caption && (
+              <p className="mt-1 text-xs text-slate-300">{selectedImage.caption}</p>
+            )}
+            <ReverseImageSearch
+              key={selectedImage.uploadId ?? selectedImage.previewUrl}
+              image={selectedImage}
+              publicUrl={selectedImage.uploadId ? publicImageUrls[selectedImage.uploadId] : undefined}
+              onPublished={onImagePublished}
+            />
+            {displayImages.length > 1 && (
+              <div className="mt-2 flex gap-2 overflow-x-auto pb-1 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-700/50" aria-label="Query images">
+                {displayImages.map((image, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => setSelectedImageIndex(index)}
+                    className={`relative flex-shrink-0 rounded-md border-2 overflow-hidden transition-colors ${image === selectedImage ? 'border-sky-500' : 'border-slate-600 hover:border-slate-400'}`}
+                    title={image.caption || image.name || `Image ${index + 1}`}
+                    aria-label={`Show image ${index + 1}`}
+                    aria-pressed={image === selectedImage}
+                  >
+                    <img src={image.previewUrl} alt="" className="h-12 w-12 object-cover" />
+                    <span className="absolute top-0 left-0 px-1 text-[0.6rem] font-semibold bg-slate-900/80 text-slate-200 rounded-br">{index + 1}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
         
-        {!userInputText && !userImagePreviewUrl && (
+        {!userInputText && !selectedImage && (
              <p className="text-sm text-slate-400 italic">No text or image was part of this initial query focus.</p>
         )}
       </div>
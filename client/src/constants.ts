@@ -10,5 +10,20 @@ export const EMOJI_TIP = "💡";
 
 export const SIFT_ICON = "🔍"; // Magnifying glass for SIFT
 
+// Most images a single query may attach (the server enforces the same limit)
+export const MAX_QUERY_IMAGES = 6;
+
+// Most models a side-by-side comparison runs at once, including the selected one
+export const MAX_COMPARISON_MODELS = 3;
+
+// Most claims one report can be asked to check (the server enforces the same limit)
+export const MAX_SELECTED_CLAIMS = 25;
+
+// What the Community Note prompt asks for: a note of at most this many characters
+// (as X counts them) with 2 to 5 bare-link sources
+export const COMMUNITY_NOTE_MAX_CHARS = 700;
+export const COMMUNITY_NOTE_MIN_SOURCES = 2;
+export const COMMUNITY_NOTE_MAX_SOURCES = 5;
+
 // API Configuration
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4567/api';
@@ -0,0 +1,103 @@
+import { ChatMessage, ExtractedUrlContext, GroundingChunk, OriginalQueryInfo, QueryImage, ReportType } from '../types';
+import { AnalysisSummary, AnalysisWithHistoryResponse, StoredUrlContext, uploadedImageUrl } from './apiClient';
+import { normalizeReportTypeId } from './reportTypes';
+
+// Older analyses store the report type's label (e.g. "Full Check") rather than its id.
+export const reportTypeFromStored = (storedReportType: string | null | undefined): ReportType =>
+  (storedReportType && normalizeReportTypeId(storedReportType)) || ReportType.FULL_CHECK;
+
+// grounding_sources may arrive as a JSON string, a parsed array, or null.
+export const groundingSourcesFromStored = (stored: unknown): GroundingChunk[] | undefined => {
+  let value = stored;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      console.warn('Failed to parse stored grounding sources:', value);
+      return undefined;
+    }
+  }
+  if (!Array.isArray(value)) return undefined;
+
+  const chunks = value.filter((chunk): chunk is GroundingChunk => !!chunk?.web?.uri);
+  return chunks.length > 0 ? chunks : undefined;
+};
+
+// Stored query images are served back by upload id, which also lets a restart re-send them.
+const queryImagesFromStored = (analysis: AnalysisSummary): QueryImage[] =>
+  (analysis.query_images ?? [])
+    .filter(image => !!image?.upload_id)
+    .map(image => ({
+      uploadId: image.upload_id,
+      previewUrl: uploadedImageUrl(image.upload_id),
+      mimeType: image.mime_type || 'image/png',
+      ...(image.caption ? { caption: image.caption } : {}),
+    }));
+
+const urlContextFromStored = (stored: StoredUrlContext | null | undefined): ExtractedUrlContext | undefined =>
+  stored?.url && stored.content
+    ? {
+        url: stored.url,
+        finalUrl: stored.final_url || stored.url,
+        title: stored.title || undefined,
+        content: stored.content,
+      }
+    : undefined;
+
+// Rebuilds everything the initial request sent, so a restart resends the same query.
+export const originalQueryFromAnalysis = (analysis: AnalysisSummary): OriginalQueryInfo => {
+  const images = queryImagesFromStored(analysis);
+  const urlContext = urlContextFromStored(analysis.url_context);
+  const selectedClaims = analysis.selected_claims ?? [];
+  return {
+    text: analysis.user_query || '',
+    imageMimeType: images[0]?.mimeType ?? null,
+    imageBase64: null,
+    reportType: reportTypeFromStored(analysis.report_type),
+    ...(images.length > 0 ? { images, userImagePreviewUrl: images[0].previewUrl } : {}),
+    ...(urlContext ? { urlContext } : {}),
+    ...(selectedClaims.length > 0 ? { selectedClaims } : {}),
+    ...(analysis.image_forensics ? { imageForensics: analysis.image_forensics } : {}),
+  };
+};
+
+// Rebuilds the ChatMessage thread for a stored analysis. The first user/assistant
+// pair is the initial SIFT request and report; everything after it is follow-up chat.
+export const chatMessagesFromAnalysis = (
+  data: AnalysisWithHistoryResponse,
+  createId: () => string
+): ChatMessage[] => {
+  const originalQuery = originalQueryFromAnalysis(data.analysis);
+  let seenInitialUser = false;
+  let seenInitialReport = false;
+
+  return data.conversation_history.map((entry): ChatMessage => {
+    const base = {
+      id: createId(),
+      text: entry.content,
+      timestamp: new Date(entry.timestamp),
+    };
+
+    if (entry.role === 'user') {
+      const isInitial = !seenInitialUser;
+      seenInitialUser = true;
+      return {
+        ...base,
+        sender: 'user',
+        ...(isInitial ? { originalQuery, imagePreviewUrl: originalQuery.userImagePreviewUrl } : {}),
+      };
+    }
+
+    const isInitialReport = !seenInitialReport;
+    seenInitialReport = true;
+    return {
+      ...base,
+      sender: 'ai',
+      modelId: entry.model_id || data.analysis.model_used || undefined,
+      groundingSources: groundingSourcesFromStored(entry.grounding_sources),
+      ...(isInitialReport
+        ? { isInitialSIFTReport: true, originalQueryReportType: originalQuery.reportType }
+        : {}),
+    };
+  });
+};
@@ -1,36 +1,64 @@
-import { ReportType, AIModelConfig } from '../types';
+import { ReportType, ReportTypeInfo, AIModelConfig, ExtractedUrlContext } from '../types';
 import { API_BASE_URL } from '../constants';
+import { openSiftStream, SiftStreamHandlers, DEFAULT_RECONNECT_POLICY } from './sseClient';
 
 export interface InitiateSiftAnalysisParams {
   userInputText?: string;
-  userImageFile?: File;
+  userImages?: { file: File; caption?: string }[]; // Sent as an ordered multipart array
+  imageUploadIds?: { uploadId: string; caption?: string }[]; // Images already stored on the server, e.g. for a restart
   reportType: ReportType;
   selectedModelId: string;
   modelConfigParams: Record<string, any>;
+  urlContext?: ExtractedUrlContext;
+  imageForensics?: string; // In-browser forensics findings for the images, as plain text
+  selectedClaims?: string[]; // Claims picked after extractClaims; the report checks only these
+  restartOfAnalysisId?: string; // Analysis being restarted; the report is stored as its next version
 }
 
 export interface InitiateSiftAnalysisResponse {
   streamUrl: string;
+  imageUploadIds: (string | null)[]; // Server-side ids of the query images, in order
 }
 
 export interface ModelConfigResponse {
   models: AIModelConfig[];
 }
 
+export interface ReportTypesResponse {
+  reportTypes: ReportTypeInfo[];
+}
+
 export const initiateSiftAnalysis = async (
   params: InitiateSiftAnalysisParams
-): Promise<string> => {
+): Promise<InitiateSiftAnalysisResponse> => {
   const formData = new FormData();
 
   if (params.userInputText) {
     formData.append('userInputText', params.userInputText);
   }
-  if (params.userImageFile) {
-    formData.append('userImageFile', params.userImageFile);
+  if (params.userImages && params.userImages.length > 0) {
+    params.userImages.forEach(image => formData.append('userImageFiles[]', image.file));
+    // Captions line up with the files by index; uncaptioned images send an empty string.
+    formData.append('userImageCaptions', JSON.stringify(params.userImages.map(image => image.caption ?? '')));
+  } else if (params.imageUploadIds && params.imageUploadIds.length > 0) {
+    formData.append('userImageUploadIds', JSON.stringify(params.imageUploadIds.map(image => image.uploadId)));
+    formData.append('userImageCaptions', JSON.stringify(params.imageUploadIds.map(image => image.caption ?? '')));
   }
   formData.append('reportType', params.reportType);
   formData.append('selectedModelId', params.selectedModelId);
   formData.append('modelConfigParams', JSON.stringify(params.modelConfigParams));
+  if (params.urlContext) {
+    formData.append('urlContext', JSON.stringify(params.urlContext));
+  }
+  if (params.imageForensics) {
+    formData.append('imageForensics', params.imageForensics);
+  }
+  if (params.selectedClaims && params.selectedClaims.length > 0) {
+    formData.append('selectedClaims', JSON.stringify(params.selectedClaims));
+  }
+  if (params.restartOfAnalysisId) {
+    formData.append('restartOfAnalysisId', params.restartOfAnalysisId);
+  }
 
   const response = await fetch(`${API_BASE_URL}/sift/initiate`, {
     method: 'POST',
@@ -45,7 +73,7 @@ export const initiateSiftAnalysis = async (
   try {
     const data: InitiateSiftAnalysisResponse = await response.json();
     if (data && data.streamUrl) {
-      return data.streamUrl;
+      return { streamUrl: data.streamUrl, imageUploadIds: data.imageUploadIds ?? [] };
     } else {
       throw new Error('API response did not include a streamUrl.');
     }
@@ -58,195 +86,210 @@ export const initiateSiftAnalysis = async (
   }
 };
 
-export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+export interface InitiateConsensusParams {
+  analysisIds: string[]; // Completed runs on the same query, in the order they are shown
+  selectedModelId: string; // Model that merges the reports
+  modelConfigParams: Record<string, any>;
 }
 
-export interface SiftChatParams {
-  newUserMessageText: string;
-  chatHistory: ChatMessage[];
+// Starts a consensus Full Check merged from several completed analyses. It streams
+// like an initial report and is stored as its own analysis, linked to its sources.
+export const initiateConsensusAnalysis = async (params: InitiateConsensusParams): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}/sift/consensus`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Consensus request failed with status ${response.status}: ${errorBody}`);
+  }
+
+  const data: { streamUrl?: string } = await response.json();
+  if (!data.streamUrl) {
+    throw new Error('API response did not include a streamUrl.');
+  }
+  return data.streamUrl;
+};
+
+export interface RegenerateSectionParams {
+  reportText: string; // The whole report as shown, including earlier section regenerations
+  sectionHeading: string; // Header line of the section to rewrite, e.g. "## 4. Source Usefulness"
+  userQuery?: string;
   selectedModelId: string;
   modelConfigParams: Record<string, any>;
-  preprocessingOutputText?: string;
-  systemInstructionOverride?: string;
-  analysisId?: string;
 }
 
-// Helper function to process individual SSE messages
-// Returns true if the stream should complete (on completion or error events)
-async function processSseMessage(
-  message: string,
-  onMessage: (content: string) => void,
-  onError: (error: any) => void,
-  onComplete: () => void,
-  onAnalysisId?: (analysisId: string) => void
-): Promise<boolean> {
-  const lines = message.split('\n');
-  let eventType: string | null = null;
-  let eventData: string | null = null;
-  
-  for (const line of lines) {
-    if (line.startsWith('event: ')) {
-      eventType = line.slice(7).trim();
-    } else if (line.startsWith('data: ')) {
-      eventData = line.slice(6);
-    }
-  }
-  
-  if (eventType === 'complete') {
-    onComplete();
-    return true; // Signal that the stream should complete
-  } else if (eventType === 'error') {
-    if (eventData) {
-      try {
-        const errorData = JSON.parse(eventData);
-        onError(errorData);
-      } catch (e) {
-        onError({ type: 'ParseError', message: 'Failed to parse error data' });
-      }
-    } else {
-      onError({ type: 'UnknownError', message: 'Received error event without data' });
-    }
-    return true; // Signal that the stream should complete on error
-  } else if (eventType === 'analysis_id') {
-    if (eventData && onAnalysisId) {
-      try {
-        const data = JSON.parse(eventData);
-        if (data.analysis_id) {
-          onAnalysisId(data.analysis_id);
-        }
-      } catch (e) {
-        console.warn('Failed to parse analysis_id data:', eventData);
-      }
-    }
-    return false; // Continue processing more messages
-  } else if (eventData) {
-    // This is a data message (either with or without explicit event type)
-    try {
-      const data = JSON.parse(eventData);
-      if (data.delta) {
-        onMessage(data.delta);
-      }
-    } catch (e) {
-      console.warn('Failed to parse SSE data:', eventData);
-    }
-  }
-  
-  return false; // Continue processing more messages
+// Starts streaming a replacement body for one report section. Nothing is stored;
+// the caller splices the streamed section into the report it shows.
+export const initiateSectionRegeneration = async (params: RegenerateSectionParams): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}/sift/section`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Section regeneration failed with status ${response.status}: ${errorBody}`);
+  }
+
+  const data: { streamUrl?: string } = await response.json();
+  if (!data.streamUrl) {
+    throw new Error('API response did not include a streamUrl.');
+  }
+  return data.streamUrl;
+};
+
+export interface ExtractClaimsParams {
+  userInputText?: string;
+  selectedModelId: string;
+  modelConfigParams: Record<string, any>;
+  urlContext?: ExtractedUrlContext;
 }
 
-export const continueSiftChat = async (
-  params: SiftChatParams,
-  onMessage: (content: string) => void,
-  onError: (error: any) => void,
-  onComplete: () => void,
-  signal?: AbortSignal,
-  onAnalysisId?: (analysisId: string) => void
-): Promise<void> => {
+// Asks the model to split the text under analysis into atomic claims for the user to review.
+export const extractClaims = async (params: ExtractClaimsParams): Promise<string[]> => {
+  const response = await fetch(`${API_BASE_URL}/sift/claims`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Claim extraction failed with status ${response.status}: ${errorBody}`);
+  }
+
+  const data: { claims?: unknown } = await response.json();
+  if (!Array.isArray(data.claims)) {
+    throw new Error('API response did not include a claims list.');
+  }
+  return data.claims.filter((claim): claim is string => typeof claim === 'string');
+};
+
+export interface ShortenCommunityNoteParams {
+  noteText: string; // The note without its sources
+  maxChars: number; // Room left for the text once the sources are counted
+  selectedModelId: string;
+  modelConfigParams: Record<string, any>;
+}
+
+// Asks the model for a shorter Community Note text; nothing is stored.
+export const shortenCommunityNote = async (params: ShortenCommunityNoteParams): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}/sift/community-note/shorten`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Shortening the note failed with status ${response.status}: ${errorBody}`);
+  }
+
+  const data: { noteText?: unknown } = await response.json();
+  if (typeof data.noteText !== 'string') {
+    throw new Error('API response did not include the shortened note.');
+  }
+  return data.noteText;
+};
+
+// URL of a stored query image, as returned in imageUploadIds
+export const uploadedImageUrl = (uploadId: string): string =>
+  `${API_BASE_URL}/uploads/${encodeURIComponent(uploadId)}`;
+
+// Publishes a stored query image through the server's upload proxy and returns
+// its public URL, which reverse image search engines can fetch.
+export const publishUploadedImage = async (uploadId: string): Promise<string> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/sift/chat`, {
+    const response = await fetch(`${API_BASE_URL}/uploads/${encodeURIComponent(uploadId)}/public-url`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
+        Accept: 'application/json',
       },
-      body: JSON.stringify(params),
-      signal,
     });
 
     if (!response.ok) {
       const errorBody = await response.text();
-      throw new Error(`Chat request failed with status ${response.status}: ${errorBody}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Response body is not readable');
+      throw new Error(`Publishing the image failed with status ${response.status}: ${errorBody}`);
     }
 
-    const decoder = new TextDecoder();
-    let buffer = '';
-    
-    try {
-      while (true) {
-        // Check for abort signal
-        if (signal?.aborted) {
-          throw new Error('Request was aborted');
-        }
-        
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          break;
-        }
-
-        // Decode the chunk and add to buffer
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Process complete SSE messages (messages end with \n\n)
-        let messageEndIndex;
-        while ((messageEndIndex = buffer.indexOf('\n\n')) !== -1) {
-          const message = buffer.slice(0, messageEndIndex);
-          buffer = buffer.slice(messageEndIndex + 2);
-          
-          if (message.trim()) {
-            try {
-              const shouldComplete = await processSseMessage(message, onMessage, onError, onComplete, onAnalysisId);
-              if (shouldComplete) {
-                return; // Exit the function immediately on completion or error
-              }
-            } catch (e) {
-              console.warn('Failed to process SSE message:', e);
-            }
-          }
-        }
-      }
-      
-      // Process any remaining buffer content
-      if (buffer.trim()) {
-        try {
-          const shouldComplete = await processSseMessage(buffer.trim(), onMessage, onError, onComplete, onAnalysisId);
-          if (shouldComplete) {
-            return; // Exit if completion or error was handled
-          }
-        } catch (e) {
-          console.warn('Failed to process final SSE message:', e);
-        }
-      }
-      
-      // If we reach here without a completion event, call onComplete
-      onComplete();
-    } finally {
-      reader.releaseLock();
-    }
+    const data: { url: string } = await response.json();
+    return data.url;
   } catch (error) {
     if (error instanceof Error) {
-      onError({
-        type: 'NetworkError',
-        message: `Error during chat request: ${error.message}`
-      });
-    } else {
-      onError({
-        type: 'UnknownError',
-        message: 'An unknown error occurred during chat request'
-      });
+      throw new Error(`Error publishing image ${uploadId}: ${error.message}`);
     }
+    throw new Error('Unknown error occurred while publishing image');
   }
 };
 
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface SiftChatParams {
+  newUserMessageText: string;
+  chatHistory: ChatMessage[];
+  selectedModelId: string;
+  modelConfigParams: Record<string, any>;
+  preprocessingOutputText?: string;
+  systemInstructionOverride?: string;
+  analysisId?: string;
+  anotherRound?: boolean; // Set by the "another round" command; the answer is stored as a new report version
+}
+
+// Streams a follow-up chat response. Chat streams are not buffered server-side,
+// so they are never resumed; a dropped connection is reported as an error event.
+export const continueSiftChat = (
+  params: SiftChatParams,
+  handlers: SiftStreamHandlers,
+  signal?: AbortSignal
+): Promise<void> =>
+  openSiftStream(
+    {
+      url: `${API_BASE_URL}/sift/chat`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    },
+    handlers,
+    { signal }
+  );
+
+// Follows the initial SIFT report stream returned by initiateSiftAnalysis,
+// resuming from the last received event id if the connection drops.
+export const followSiftStream = (
+  streamUrl: string,
+  handlers: SiftStreamHandlers,
+  signal?: AbortSignal
+): Promise<void> => openSiftStream({ url: streamUrl }, handlers, { signal, reconnect: DEFAULT_RECONNECT_POLICY });
+
 // Simplified wrapper for sending chat messages
 export const sendChatMessage = async (
   messageText: string,
   chatHistory: ChatMessage[],
   selectedModelId: string,
   modelConfigParams: Record<string, any>,
-  onMessage: (content: string) => void,
-  onError: (error: any) => void,
-  onComplete: () => void,
+  handlers: SiftStreamHandlers,
   preprocessingOutputText?: string,
   systemInstructionOverride?: string,
   signal?: AbortSignal,
-  analysisId?: string
+  analysisId?: string,
+  anotherRound?: boolean
 ): Promise<void> => {
   const params: SiftChatParams = {
     newUserMessageText: messageText,
@@ -256,9 +299,10 @@ export const sendChatMessage = async (
     preprocessingOutputText,
     systemInstructionOverride,
     analysisId,
+    anotherRound,
   };
 
-  return continueSiftChat(params, onMessage, onError, onComplete, signal);
+  return continueSiftChat(params, handlers, signal);
 };
 
 export const fetchModelConfigurations = async (): Promise<AIModelConfig[]> => {
@@ -290,6 +334,21 @@ export const fetchModelConfigurations = async (): Promise<AIModelConfig[]> => {
   }
 };
 
+// The report types the server's agents offer, unvalidated; see loadReportTypes.
+export const fetchReportTypes = async (): Promise<ReportTypeInfo[]> => {
+  const response = await fetch(`${API_BASE_URL}/report-types`);
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Failed to fetch report types (${response.status}): ${errorBody}`);
+  }
+
+  const data: ReportTypesResponse = await response.json();
+  if (!data || !Array.isArray(data.reportTypes)) {
+    throw new Error('Invalid response format: expected reportTypes array');
+  }
+  return data.reportTypes;
+};
+
 // URL Extraction Types and Functions
 export interface ExtractUrlParams {
   url: string;
@@ -331,6 +390,39 @@ export interface UrlSearchResponse {
   };
 }
 
+// Semantic search over processed URLs and stored SIFT analyses (POST /search/semantic).
+// similarity_score is cosine similarity in [0, 1]; higher is closer.
+export type SemanticSearchType = 'urls' | 'analyses';
+
+export interface SemanticUrlResult {
+  id: number;
+  url: string;
+  title: string | null;
+  snippet: string | null;
+  processed_at: string;
+  similarity_score: number | null;
+}
+
+export interface SemanticAnalysisResult {
+  id: string;
+  user_query: string | null;
+  report_type: string;
+  model_used: string | null;
+  snippet: string | null;
+  created_at: string;
+  similarity_score: number | null;
+}
+
+export interface SemanticSearchResponse {
+  success: boolean;
+  query: string;
+  results: {
+    urls: SemanticUrlResult[];
+    analyses: SemanticAnalysisResult[];
+  };
+  total_results: number;
+}
+
 export interface RecentUrlsResponse {
   success: boolean;
   data: {
@@ -339,6 +431,15 @@ export interface RecentUrlsResponse {
   };
 }
 
+// The structured context sent with initiateSiftAnalysis for an extracted article.
+// Cached extractions carry no final_url, so the stored URL stands in for it.
+export const urlContextFromExtraction = (data: ExtractedUrlData): ExtractedUrlContext => ({
+  url: data.url,
+  finalUrl: data.extraction_meta?.final_url || data.url,
+  title: data.title || undefined,
+  content: data.content || data.content_preview || '',
+});
+
 export const extractUrlContent = async (params: ExtractUrlParams): Promise<ExtractedUrlData> => {
   try {
     const response = await fetch(`${API_BASE_URL}/url/extract`, {
@@ -401,6 +502,39 @@ export const searchUrls = async (query: string, limit?: number): Promise<UrlSear
   }
 };
 
+export const semanticSearch = async (
+  query: string,
+  options: { limit?: number; types?: SemanticSearchType[] } = {}
+): Promise<SemanticSearchResponse['results']> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/search/semantic`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, limit: options.limit, types: options.types }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Semantic search failed with status ${response.status}: ${errorBody}`);
+    }
+
+    const result: SemanticSearchResponse = await response.json();
+
+    if (!result.success || !result.results) {
+      throw new Error('Invalid response format from semantic search API');
+    }
+
+    return result.results;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Error running semantic search: ${error.message}`);
+    }
+    throw new Error('Unknown error occurred while running semantic search');
+  }
+};
+
 export const getRecentUrls = async (limit?: number): Promise<ExtractedUrlData[]> => {
   try {
     const params = new URLSearchParams();
@@ -497,3 +631,211 @@ export const cancelStream = async (streamId: string): Promise<CancelStreamRespon
     throw new Error('Unknown error occurred while cancelling stream');
   }
 };
+
+// SIFT Analysis History Types and Functions
+export interface StoredQueryImage {
+  upload_id: string;
+  mime_type: string | null;
+  caption: string | null;
+}
+
+export interface StoredUrlContext {
+  url: string;
+  final_url: string | null;
+  title: string | null;
+  content: string;
+}
+
+export interface AnalysisSummary {
+  id: string;
+  user_query: string | null;
+  report_type: string;
+  model_used: string | null;
+  has_image: boolean;
+  query_images?: StoredQueryImage[];
+  consensus_source_ids?: string[]; // Set on consensus reports: the analyses they were merged from
+  url_context?: StoredUrlContext | null; // Set when the analysis was started in "Analyze URL" mode
+  selected_claims?: string[];
+  image_forensics?: string | null;
+  message_count: number;
+  version_count?: number; // Stored versions of the report, see fetchReportVersions
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnalysesListResponse {
+  analyses: AnalysisSummary[];
+  count: number;
+}
+
+export interface AnalysisHistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  model_id: string | null;
+  grounding_sources: unknown;
+}
+
+export interface AnalysisWithHistoryResponse {
+  analysis: AnalysisSummary;
+  conversation_history: AnalysisHistoryEntry[];
+}
+
+export const fetchAnalyses = async (limit?: number): Promise<AnalysisSummary[]> => {
+  try {
+    const params = new URLSearchParams();
+    if (limit) params.append('limit', limit.toString());
+
+    const response = await fetch(`${API_BASE_URL}/sift/analyses?${params}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Failed to fetch analyses with status ${response.status}: ${errorBody}`);
+    }
+
+    const result: AnalysesListResponse = await response.json();
+
+    if (!result || !Array.isArray(result.analyses)) {
+      throw new Error('Invalid response format: expected analyses array');
+    }
+
+    return result.analyses;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Error fetching analyses: ${error.message}`);
+    }
+    throw new Error('Unknown error occurred while fetching analyses');
+  }
+};
+
+export const fetchAnalysisWithHistory = async (analysisId: string): Promise<AnalysisWithHistoryResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/sift/analyses/${encodeURIComponent(analysisId)}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Failed to fetch analysis with status ${response.status}: ${errorBody}`);
+    }
+
+    const result: AnalysisWithHistoryResponse = await response.json();
+
+    if (!result || !result.analysis || !Array.isArray(result.conversation_history)) {
+      throw new Error('Invalid response format from analysis details API');
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Error fetching analysis ${analysisId}: ${error.message}`);
+    }
+    throw new Error('Unknown error occurred while fetching analysis');
+  }
+};
+
+// initial: the first report; restart: generated again from the same query;
+// another_round: the answer to an "another round" follow-up; section: after a section was regenerated;
+// section_undo: after a section regeneration was undone
+export type ReportVersionKind = 'initial' | 'restart' | 'another_round' | 'section' | 'section_undo';
+
+export interface StoredReportVersion {
+  version_number: number;
+  kind: ReportVersionKind;
+  model_id_used: string | null;
+  report_text: string;
+  grounding_sources: unknown;
+  created_at: string;
+}
+
+// Every stored version of an analysis's report, oldest first.
+export const fetchReportVersions = async (analysisId: string): Promise<StoredReportVersion[]> => {
+  const response = await fetch(`${API_BASE_URL}/sift/analyses/${encodeURIComponent(analysisId)}/versions`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Failed to fetch report versions with status ${response.status}: ${errorBody}`);
+  }
+
+  const result: { versions?: StoredReportVersion[] } = await response.json();
+  if (!result || !Array.isArray(result.versions)) {
+    throw new Error('Invalid response format: expected versions array');
+  }
+  return result.versions;
+};
+
+// Stores the report after a section regeneration as the analysis's next version.
+export const saveSectionRegenerationVersion = async (
+  analysisId: string,
+  params: { reportText: string; modelId?: string; kind?: Extract<ReportVersionKind, 'section' | 'section_undo'> }
+): Promise<number> => {
+  const response = await fetch(`${API_BASE_URL}/sift/analyses/${encodeURIComponent(analysisId)}/versions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Saving the report version failed with status ${response.status}: ${errorBody}`);
+  }
+
+  const data: { versionNumber?: number } = await response.json();
+  if (typeof data.versionNumber !== 'number') {
+    throw new Error('API response did not include a versionNumber.');
+  }
+  return data.versionNumber;
+};
+
+// SIFT Analysis Export Functions
+
+export interface ExportedFile {
+  blob: Blob;
+  filename: string | null; // From Content-Disposition, when the server provides one
+}
+
+const filenameFromContentDisposition = (header: string | null): string | null => {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+export const exportAnalysisPdf = async (analysisId: string): Promise<ExportedFile> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/sift/analyses/${encodeURIComponent(analysisId)}/export.pdf`, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/pdf',
+      },
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`PDF export failed with status ${response.status}: ${errorBody}`);
+    }
+
+    return {
+      blob: await response.blob(),
+      filename: filenameFromContentDisposition(response.headers.get('Content-Disposition')),
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Error exporting analysis ${analysisId}: ${error.message}`);
+    }
+    throw new Error('Unknown error occurred while exporting analysis');
+  }
+};
@@ -0,0 +1,59 @@
+import { GroundingChunk } from '../types';
+import { mergeGroundingSources, normalizeSourceUri, sourceDomain } from './groundingSources';
+
+export interface Citation {
+  number: number;
+  uri: string;
+  title: string;
+  domain: string;
+}
+
+// Inline citations are rewritten to links with this href so the markdown
+// renderer can recognise them and draw a superscript instead of a link.
+export const CITATION_HREF_PREFIX = '#sift-cite-';
+
+const MARKDOWN_LINK_REGEX = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+// The prompts ask for "([sitename](URL))"; several citations may share one pair
+// of parentheses, separated by commas or semicolons.
+const INLINE_CITATION_GROUP_REGEX = /\s?\(\s*((?:\[[^\]]+\]\(https?:\/\/[^\s)]+\)\s*[,;]?\s*)+)\)/g;
+
+// Every markdown link in the text, in order of appearance.
+export const extractMarkdownLinks = (markdown: string): GroundingChunk[] =>
+  Array.from(markdown.matchAll(MARKDOWN_LINK_REGEX), match => ({ web: { uri: match[2], title: match[1].trim() } }));
+
+// Numbers every cited URL by first appearance in the text, followed by any
+// grounding sources the text never links to. The numbering matches the order
+// of the rendered source list.
+export const buildReferenceList = (markdown: string, groundingSources?: GroundingChunk[]): Citation[] =>
+  mergeGroundingSources(extractMarkdownLinks(markdown), groundingSources || []).map((chunk, index) => ({
+    number: index + 1,
+    uri: chunk.web!.uri,
+    title: chunk.web!.title || chunk.web!.uri,
+    domain: sourceDomain(chunk.web!.uri),
+  }));
+
+// Replaces "([site](url))" citations with numbered citation links, e.g. "[2](#sift-cite-2)".
+// Links outside parentheses (such as the Source column of the usefulness table) are left alone.
+export const linkInlineCitations = (markdown: string, references: Citation[]): string => {
+  if (references.length === 0) return markdown;
+  const numberByKey = new Map(references.map(ref => [normalizeSourceUri(ref.uri), ref.number]));
+
+  return markdown.replace(INLINE_CITATION_GROUP_REGEX, (group, links: string) => {
+    const markers = Array.from(links.matchAll(MARKDOWN_LINK_REGEX), match => {
+      const citationNumber = numberByKey.get(normalizeSourceUri(match[2]));
+      return citationNumber ? `[${citationNumber}](${CITATION_HREF_PREFIX}${citationNumber})` : null;
+    });
+    return markers.every(Boolean) ? markers.join('') : group;
+  });
+};
+
+export const citationNumberFromHref = (href: string | undefined): number | null => {
+  if (!href || !href.startsWith(CITATION_HREF_PREFIX)) return null;
+  const citationNumber = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+  return Number.isNaN(citationNumber) ? null : citationNumber;
+};
+
+// Space-separated dedupe keys of the URLs linked from a table cell, used to
+// locate a Source Usefulness row for a citation (see ClaimTable).
+export const sourceKeysForCell = (cell: string): string =>
+  extractMarkdownLinks(cell).map(link => normalizeSourceUri(link.web!.uri)).join(' ');
@@ -0,0 +1,11 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClaimCandidate } from '../types';
+import { MAX_SELECTED_CLAIMS } from '../constants';
+
+// Claims extracted before a report start out selected, up to the number a report can check.
+export const claimCandidatesFrom = (claims: string[]): ClaimCandidate[] =>
+  claims.map((text, index) => ({ id: uuidv4(), text, selected: index < MAX_SELECTED_CLAIMS }));
+
+// The claims to send with the report request: selected, trimmed, non-empty and without repeats.
+export const selectedClaimTexts = (candidates: ClaimCandidate[]): string[] =>
+  Array.from(new Set(candidates.filter(claim => claim.selected).map(claim => claim.text.trim()).filter(Boolean)));
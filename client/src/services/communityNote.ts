@@ -0,0 +1,130 @@
+import { COMMUNITY_NOTE_MAX_CHARS, COMMUNITY_NOTE_MAX_SOURCES, COMMUNITY_NOTE_MIN_SOURCES } from '../constants';
+
+// A Community Note report is a short note followed by its sources as bare links.
+// The note is posted as plain text, so its length is counted the way X counts a
+// post: every link takes 23 characters whatever its length (links are wrapped in
+// t.co), and characters outside the Latin and general punctuation ranges, such as
+// CJK characters and emoji, count twice.
+
+export interface CommunityNote {
+  text: string; // The note without its sources
+  sources: string[]; // Bare links, in order
+}
+
+const X_URL_LENGTH = 23;
+const X_SINGLE_WEIGHT_RANGES: [number, number][] = [[0, 4351], [8192, 8205], [8208, 8223], [8242, 8247]];
+
+const URL_REGEX = /https?:\/\/[^\s<>()[\]]+/gi;
+const TRAILING_URL_PUNCTUATION = /[.,;:!?'"*_]+$/;
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g;
+// "Sources:", "**Sources:** https://…" or "## Sources"; the links may follow on the same line
+const SOURCES_LABEL_REGEX = /^\s*(?:#{1,6}\s*)?(?:\*\*|__)?\s*(?:supporting\s+)?(?:sources?|links?)\s*(?:\*\*|__)?\s*(?::|$)/i;
+// "Community Note:" or "## Community Note" before the note's text
+const NOTE_LABEL_REGEX = /^\s*(?:#{1,6}\s*)?(?:\*\*|__)?\s*(?:proposed\s+)?community\s+note\s*(?:\*\*|__)?\s*(?::\s*(?:\*\*|__)?|$)/i;
+const LIST_MARKER_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+const extractUrls = (text: string): string[] =>
+  (text.match(URL_REGEX) ?? []).map(url => url.replace(TRAILING_URL_PUNCTUATION, ''));
+
+// A model may write a source as a markdown link; X shows bare URLs.
+const bareLinks = (line: string): string => line.replace(MARKDOWN_LINK_REGEX, '$2');
+
+const isLinkOnlyLine = (line: string): boolean =>
+  extractUrls(line).length > 0 && bareLinks(line).replace(LIST_MARKER_REGEX, '').replace(URL_REGEX, '').replace(/[<>\s]/g, '') === '';
+
+export const countXCharacters = (text: string): number => {
+  const urls = text.normalize('NFC').match(URL_REGEX) ?? [];
+  const withoutUrls = text.normalize('NFC').replace(URL_REGEX, '');
+  let count = urls.length * X_URL_LENGTH;
+  for (const character of withoutUrls) {
+    const codePoint = character.codePointAt(0)!;
+    count += X_SINGLE_WEIGHT_RANGES.some(([min, max]) => codePoint >= min && codePoint <= max) ? 1 : 2;
+  }
+  return count;
+};
+
+// Reads a note from the model's answer: the text up to a "Sources:" label and
+// the links from there on. Without a label, trailing lines holding only links are the sources.
+export const parseCommunityNote = (markdownText: string): CommunityNote => {
+  const lines = markdownText.replace(/\r\n/g, '\n').split('\n');
+  let sourcesIndex = lines.findIndex(line => SOURCES_LABEL_REGEX.test(line));
+  if (sourcesIndex === -1) {
+    sourcesIndex = lines.length;
+    while (sourcesIndex > 0 && (isLinkOnlyLine(lines[sourcesIndex - 1]) || !lines[sourcesIndex - 1].trim())) sourcesIndex--;
+  }
+
+  const textLines = lines.slice(0, sourcesIndex);
+  const firstTextLine = textLines.findIndex(line => line.trim());
+  if (firstTextLine !== -1) textLines[firstTextLine] = textLines[firstTextLine].replace(NOTE_LABEL_REGEX, '');
+  const text = textLines.map(bareLinks).join('\n').replace(/\*\*|__/g, '').trim();
+  return { text, sources: lines.slice(sourcesIndex).flatMap(line => extractUrls(bareLinks(line))) };
+};
+
+// Links differing only in case of the host, a "www." prefix, a trailing slash,
+// a fragment or utm_* tracking parameters point at the same source.
+export const sourceKey = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    [...parsed.searchParams.keys()].filter(key => key.toLowerCase().startsWith('utm_')).forEach(key => parsed.searchParams.delete(key));
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.replace(/^www\./, '')}${path}${parsed.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+// Keeps the first spelling of each source.
+export const dedupeSources = (sources: string[]): string[] => {
+  const seen = new Set<string>();
+  return sources
+    .map(source => source.trim())
+    .filter(source => {
+      if (!source) return false;
+      const key = sourceKey(source);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const isBareLink = (source: string): boolean => {
+  if (!/^https?:\/\/\S+$/i.test(source)) return false;
+  try {
+    return new URL(source).hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+// The note as it is posted: the text, a blank line, then one source per line.
+export const formatCommunityNote = (note: CommunityNote): string => {
+  const sources = dedupeSources(note.sources);
+  return sources.length > 0 ? `${note.text.trim()}\n\n${sources.join('\n')}` : note.text.trim();
+};
+
+// Characters left for the text once the sources are counted, e.g. to ask the model for a shorter note.
+export const communityNoteTextBudget = (note: CommunityNote): number =>
+  COMMUNITY_NOTE_MAX_CHARS - countXCharacters(formatCommunityNote({ ...note, text: '' }));
+
+export const validateCommunityNote = (note: CommunityNote): { length: number; issues: string[] } => {
+  const length = countXCharacters(formatCommunityNote(note));
+  const issues: string[] = [];
+  const sources = note.sources.map(source => source.trim()).filter(Boolean);
+  const uniqueCount = dedupeSources(sources).length;
+  const linkCount = dedupeSources(sources.filter(isBareLink)).length;
+
+  if (!note.text.trim()) issues.push('The note has no text.');
+  if (length > COMMUNITY_NOTE_MAX_CHARS) {
+    issues.push(`The note is ${length} characters with its sources; the limit is ${COMMUNITY_NOTE_MAX_CHARS}.`);
+  }
+  sources.filter(source => !isBareLink(source)).forEach(source => issues.push(`"${source}" is not a bare http(s) link.`));
+  if (uniqueCount < sources.length) {
+    issues.push(`${sources.length - uniqueCount} duplicate ${sources.length - uniqueCount === 1 ? 'source is' : 'sources are'} left out.`);
+  }
+  if (linkCount < COMMUNITY_NOTE_MIN_SOURCES) {
+    issues.push(`Add at least ${COMMUNITY_NOTE_MIN_SOURCES} sources (${linkCount} so far).`);
+  } else if (linkCount > COMMUNITY_NOTE_MAX_SOURCES) {
+    issues.push(`Use at most ${COMMUNITY_NOTE_MAX_SOURCES} sources (${linkCount} so far).`);
+  }
+  return { length, issues };
+};
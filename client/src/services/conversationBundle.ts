@@ -0,0 +1,248 @@
+import { AIProvider, ChatMessage, ConfigurableParams, GroundingChunk, OriginalQueryInfo, QueryImage, ReportType } from '../types';
+import { queryImageForExport } from './reportExport';
+import { expectReportTypeId, normalizeReportTypeId } from './reportTypes';
+import {
+  expectArray,
+  expectIsoDate,
+  expectObject,
+  expectOneOf,
+  expectParamValue,
+  expectRecordOf,
+  expectType,
+  isRecord,
+  nullable,
+} from './schemaValidation';
+
+// A conversation bundle is a portable JSON snapshot of a whole SIFT chat: the
+// original query (with its images inlined as base64), every message, and the
+// model settings, so another instance can reopen it and keep chatting.
+//
+// Bump CONVERSATION_BUNDLE_VERSION whenever the shape changes incompatibly.
+
+export const CONVERSATION_BUNDLE_FORMAT = 'sift-conversation-bundle';
+export const CONVERSATION_BUNDLE_VERSION = 1;
+
+type BundledQuery = Omit<OriginalQueryInfo, 'userImagePreviewUrl'>;
+
+export interface ConversationBundleMessage {
+  id: string;
+  sender: ChatMessage['sender'];
+  text: string;
+  timestamp: string; // ISO 8601
+  isError?: boolean;
+  groundingSources?: GroundingChunk[];
+  originalQuery?: Omit<NonNullable<ChatMessage['originalQuery']>, 'userImagePreviewUrl'>;
+  modelId?: string;
+  isInitialSIFTReport?: boolean;
+  originalQueryReportType?: ReportType;
+}
+
+export interface ConversationBundle {
+  format: typeof CONVERSATION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  originalQuery: BundledQuery;
+  messages: ConversationBundleMessage[];
+  modelId: string;
+  provider?: AIProvider;
+  modelConfigParams: ConfigurableParams;
+}
+
+// The parts of App state a bundle is built from and restored into.
+export interface ConversationSnapshot {
+  originalQuery: OriginalQueryInfo;
+  messages: ChatMessage[];
+  modelId: string;
+  provider?: AIProvider;
+  modelConfigParams: ConfigurableParams;
+}
+
+export class ConversationBundleError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n- ${issues.join('\n- ')}` : message);
+    this.name = 'ConversationBundleError';
+    this.issues = issues;
+  }
+}
+
+// Export
+
+// Resolves the query image to bare base64, reading the preview blob when the
+// query was started from a File and never kept a base64 copy.
+const bundledImage = async (query: OriginalQueryInfo): Promise<Pick<BundledQuery, 'imageBase64' | 'imageMimeType'>> => {
+  const image = await queryImageForExport(query);
+  if (!image) return { imageBase64: null, imageMimeType: query.imageMimeType ?? null };
+  return { imageBase64: image.dataUrl.slice(image.dataUrl.indexOf(',') + 1), imageMimeType: image.mimeType };
+};
+
+// Preview URLs and upload ids only resolve in this tab or on this server, so
+// every image is inlined as base64 instead.
+const bundledImages = async (images: QueryImage[] | undefined): Promise<QueryImage[] | undefined> => {
+  if (!images) return undefined;
+  return Promise.all(images.map(async ({ previewUrl, uploadId: _uploadId, ...image }) => {
+    const resolved = await queryImageForExport({ imageBase64: image.base64, imageMimeType: image.mimeType, userImagePreviewUrl: previewUrl });
+    return resolved ? { ...image, base64: resolved.dataUrl.slice(resolved.dataUrl.indexOf(',') + 1) } : image;
+  }));
+};
+
+type BundledImages = Pick<BundledQuery, 'imageBase64' | 'imageMimeType' | 'images'>;
+
+const bundledMessage = (message: ChatMessage, image: BundledImages): ConversationBundleMessage => {
+  const bundled: ConversationBundleMessage = {
+    id: message.id,
+    sender: message.sender,
+    text: message.text,
+    timestamp: new Date(message.timestamp).toISOString(),
+  };
+  if (message.isError) bundled.isError = true;
+  if (message.groundingSources?.length) bundled.groundingSources = message.groundingSources;
+  if (message.modelId) bundled.modelId = message.modelId;
+  if (message.isInitialSIFTReport) bundled.isInitialSIFTReport = true;
+  if (message.originalQueryReportType) bundled.originalQueryReportType = message.originalQueryReportType;
+  if (message.originalQuery) {
+    const { userImagePreviewUrl: _previewUrl, images: _images, ...query } = message.originalQuery;
+    bundled.originalQuery = {
+      ...query,
+      ...(image.imageBase64 ? { imageBase64: image.imageBase64, imageMimeType: image.imageMimeType } : {}),
+      ...(image.images ? { images: image.images } : {}),
+    };
+  }
+  return bundled;
+};
+
+export const buildConversationBundle = async (snapshot: ConversationSnapshot): Promise<ConversationBundle> => {
+  const images = await bundledImages(snapshot.originalQuery.images);
+  const image: BundledImages = { ...(await bundledImage(snapshot.originalQuery)), ...(images ? { images } : {}) };
+  const { userImagePreviewUrl: _previewUrl, ...query } = snapshot.originalQuery;
+
+  return {
+    format: CONVERSATION_BUNDLE_FORMAT,
+    version: CONVERSATION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    originalQuery: { ...query, ...image },
+    // Messages still streaming are left out; they have no final content yet.
+    messages: snapshot.messages.filter(message => !message.isLoading).map(message => bundledMessage(message, image)),
+    modelId: snapshot.modelId,
+    ...(snapshot.provider ? { provider: snapshot.provider } : {}),
+    modelConfigParams: snapshot.modelConfigParams,
+  };
+};
+
+export const conversationBundleFilename = (bundle: ConversationBundle): string =>
+  `SIFT_Conversation_${bundle.originalQuery.reportType.replace(/\s+/g, '_')}_${bundle.exportedAt.split('T')[0]}.json`;
+
+// Schema validation
+
+const QUERY_FIELDS = {
+  'text?': expectType('string'),
+  'imageMimeType?': nullable(expectType('string')),
+  'imageBase64?': nullable(expectType('string')),
+  'urlContext?': expectObject({
+    url: expectType('string'),
+    'finalUrl?': expectType('string'),
+    'title?': expectType('string'),
+    content: expectType('string'),
+  }),
+  'imageForensics?': expectType('string'),
+  'selectedClaims?': expectArray(expectType('string')),
+  'images?': expectArray(expectObject({
+    mimeType: expectType('string'),
+    'name?': expectType('string'),
+    'caption?': expectType('string'),
+    'base64?': expectType('string'),
+  })),
+};
+
+const CONVERSATION_BUNDLE_SCHEMA = expectObject({
+  format: expectOneOf([CONVERSATION_BUNDLE_FORMAT]),
+  version: expectType('number'),
+  exportedAt: expectIsoDate,
+  originalQuery: expectObject({ ...QUERY_FIELDS, reportType: expectReportTypeId }),
+  messages: expectArray(expectObject({
+    id: expectType('string'),
+    sender: expectOneOf(['user', 'ai']),
+    text: expectType('string'),
+    timestamp: expectIsoDate,
+    'isError?': expectType('boolean'),
+    'groundingSources?': expectArray(expectObject({
+      web: expectObject({ uri: expectType('string'), 'title?': expectType('string') }),
+    })),
+    'originalQuery?': expectObject({ ...QUERY_FIELDS, 'reportType?': expectReportTypeId }),
+    'modelId?': expectType('string'),
+    'isInitialSIFTReport?': expectType('boolean'),
+    'originalQueryReportType?': expectReportTypeId,
+  })),
+  modelId: expectType('string'),
+  'provider?': expectOneOf(Object.values(AIProvider)),
+  modelConfigParams: expectRecordOf(expectParamValue),
+});
+
+// Import
+
+const imageDataUrl = (query: Pick<BundledQuery, 'imageBase64' | 'imageMimeType'>): string | undefined =>
+  query.imageBase64 ? `data:${query.imageMimeType || 'image/png'};base64,${query.imageBase64}` : undefined;
+
+const restoredImages = (images: QueryImage[]): QueryImage[] =>
+  images.map(image => (image.base64 ? { ...image, previewUrl: `data:${image.mimeType};base64,${image.base64}` } : image));
+
+const restoredMessage = (message: ConversationBundleMessage): ChatMessage => {
+  const { timestamp, originalQuery, originalQueryReportType, ...rest } = message;
+  const restored: ChatMessage = { ...rest, timestamp: new Date(timestamp) };
+  // Bundles exported before report types came from the server hold labels such as "Full Check"
+  if (originalQueryReportType) restored.originalQueryReportType = normalizeReportTypeId(originalQueryReportType);
+  if (originalQuery) {
+    const previewUrl = imageDataUrl(originalQuery);
+    restored.originalQuery = {
+      ...originalQuery,
+      ...(originalQuery.reportType ? { reportType: normalizeReportTypeId(originalQuery.reportType) } : {}),
+      userImagePreviewUrl: previewUrl,
+      ...(originalQuery.images ? { images: restoredImages(originalQuery.images) } : {}),
+    };
+    if (previewUrl) restored.imagePreviewUrl = previewUrl;
+  }
+  return restored;
+};
+
+// Parses and validates a bundle file's contents.
+// Throws ConversationBundleError describing why a bundle cannot be opened.
+export const parseConversationBundle = (json: string): ConversationSnapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new ConversationBundleError('This file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== CONVERSATION_BUNDLE_FORMAT) {
+    throw new ConversationBundleError('This file is not a SIFT conversation bundle');
+  }
+  if (data.version !== CONVERSATION_BUNDLE_VERSION) {
+    const newer = typeof data.version === 'number' && data.version > CONVERSATION_BUNDLE_VERSION;
+    throw new ConversationBundleError(
+      `Unsupported bundle version ${JSON.stringify(data.version)}: this instance reads version ${CONVERSATION_BUNDLE_VERSION}` +
+      (newer ? '. The bundle was exported by a newer SIFT Toolbox.' : '.')
+    );
+  }
+
+  const issues: string[] = [];
+  CONVERSATION_BUNDLE_SCHEMA(data, 'bundle', issues);
+  if (issues.length > 0) {
+    throw new ConversationBundleError('The conversation bundle is invalid', issues);
+  }
+
+  const bundle = data as unknown as ConversationBundle;
+  return {
+    originalQuery: {
+      ...bundle.originalQuery,
+      reportType: normalizeReportTypeId(bundle.originalQuery.reportType),
+      userImagePreviewUrl: imageDataUrl(bundle.originalQuery),
+      ...(bundle.originalQuery.images ? { images: restoredImages(bundle.originalQuery.images) } : {}),
+    },
+    messages: bundle.messages.map(restoredMessage),
+    modelId: bundle.modelId,
+    provider: bundle.provider,
+    modelConfigParams: bundle.modelConfigParams,
+  };
+};
@@ -0,0 +1,48 @@
+import { GroundingChunk } from '../types';
+
+// Dedupe key for a source URI: scheme and host are case-insensitive, and
+// trailing slashes and fragments don't identify a different page.
+// Mirrors GroundingService.normalize_uri on the server.
+export const normalizeSourceUri = (uri: string): string => {
+  try {
+    const url = new URL(uri.trim());
+    url.hash = '';
+    return url.toString().replace(/\/$/, '');
+  } catch (e) {
+    return uri.trim();
+  }
+};
+
+const hasDescriptiveTitle = (chunk: GroundingChunk): boolean =>
+  !!chunk.web?.title && chunk.web.title !== chunk.web.uri;
+
+// Merges incoming sources into an existing list, keeping first-seen order and
+// upgrading a bare-URL title when a later duplicate has a real one.
+export const mergeGroundingSources = (
+  existing: GroundingChunk[] | undefined,
+  incoming: GroundingChunk[]
+): GroundingChunk[] => {
+  const merged = new Map<string, GroundingChunk>();
+  for (const chunk of [...(existing || []), ...incoming]) {
+    if (!chunk.web?.uri) continue;
+    const key = normalizeSourceUri(chunk.web.uri);
+    const current = merged.get(key);
+    if (!current) {
+      merged.set(key, { web: { ...chunk.web } });
+    } else if (!hasDescriptiveTitle(current) && hasDescriptiveTitle(chunk)) {
+      merged.set(key, { web: { uri: current.web!.uri, title: chunk.web.title } });
+    }
+  }
+  return Array.from(merged.values());
+};
+
+export const sourceDomain = (uri: string): string => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return uri;
+  }
+};
+
+export const sourceFaviconUrl = (uri: string): string =>
+  `https://www.google.com/s2/favicons?sz=32&domain=${encodeURIComponent(sourceDomain(uri))}`;
@@ -0,0 +1,264 @@
+import exifr from 'exifr';
+import { ImageForensicsReport, ImageMetadataSummary } from '../types';
+
+// Browser-side forensics for uploaded evidence images: EXIF/XMP metadata, a
+// perceptual hash, error level analysis (ELA) and a check that the embedded
+// EXIF thumbnail still matches the image. Nothing here leaves the browser
+// unless the findings are sent along with the analysis request.
+
+// Hash distance above which an embedded thumbnail is considered a different picture
+export const THUMBNAIL_MISMATCH_DISTANCE = 12;
+
+const ELA_JPEG_QUALITY = 0.9;
+const ELA_AMPLIFICATION = 15;
+const ELA_MAX_DIMENSION = 1024;
+
+// Metadata
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().replace(/\0/g, '') : undefined;
+
+const isoDate = (value: unknown): string | undefined => {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) return value.toISOString();
+  const str = text(value);
+  if (!str) return undefined;
+  // EXIF dates look like "2021:06:01 14:03:22"
+  const parsed = new Date(str.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3'));
+  return Number.isNaN(parsed.getTime()) ? str : parsed.toISOString();
+};
+
+const positiveNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+const historyAgents = (history: unknown): string[] | undefined => {
+  const entries = Array.isArray(history) ? history : history ? [history] : [];
+  const agents = entries
+    .map(entry => text((entry as Record<string, unknown> | null)?.softwareAgent))
+    .filter((agent): agent is string => !!agent);
+  return agents.length > 0 ? [...new Set(agents)] : undefined;
+};
+
+// Condenses exifr's merged output into the fields a fact-checker looks at first.
+export const summarizeMetadata = (tags: Record<string, unknown>): ImageMetadataSummary => {
+  const summary: ImageMetadataSummary = {};
+
+  const make = text(tags.Make);
+  const model = text(tags.Model);
+  const camera = make && model && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model || make;
+  if (camera) summary.camera = camera;
+
+  const lens = text(tags.LensModel) || text(tags.Lens);
+  if (lens) summary.lens = lens;
+
+  const capturedAt = isoDate(tags.DateTimeOriginal) || isoDate(tags.CreateDate);
+  if (capturedAt) summary.capturedAt = capturedAt;
+  const modifiedAt = isoDate(tags.ModifyDate);
+  if (modifiedAt) summary.modifiedAt = modifiedAt;
+
+  const { latitude, longitude } = tags;
+  if (typeof latitude === 'number' && typeof longitude === 'number' && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+    summary.gps = { latitude, longitude };
+  }
+
+  const software = text(tags.Software) || text(tags.CreatorTool);
+  if (software) summary.software = software;
+  const editHistory = historyAgents(tags.History);
+  if (editHistory) summary.editHistory = editHistory;
+
+  const width = positiveNumber(tags.ExifImageWidth) ?? positiveNumber(tags.ImageWidth);
+  const height = positiveNumber(tags.ExifImageHeight) ?? positiveNumber(tags.ImageHeight);
+  if (width && height) summary.dimensions = { width, height };
+
+  return summary;
+};
+
+// Perceptual hash
+
+// Difference hash of a (width + 1) x height grayscale sample: one bit per
+// horizontally adjacent pair, set when brightness drops from left to right.
+export const differenceHash = (gray: ArrayLike<number>, width = 9, height = 8): string => {
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      nibble = (nibble << 1) | (gray[y * width + x] > gray[y * width + x + 1] ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+};
+
+export const grayscale = (rgba: ArrayLike<number>): number[] => {
+  const gray: number[] = [];
+  for (let i = 0; i < rgba.length; i += 4) gray.push(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]);
+  return gray;
+};
+
+// Error level analysis
+
+// Amplified per-channel difference between an image and its JPEG re-encoding.
+// Regions edited after the last save tend to stand out as brighter areas.
+export const errorLevelPixels = (
+  original: ArrayLike<number>,
+  recompressed: ArrayLike<number>,
+  amplification = ELA_AMPLIFICATION
+): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(original.length);
+  for (let i = 0; i < original.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      pixels[i + channel] = Math.abs(original[i + channel] - recompressed[i + channel]) * amplification;
+    }
+    pixels[i + 3] = 255;
+  }
+  return pixels;
+};
+
+// Model context
+
+// Label/value pairs for the metadata that was found, in display order.
+export const metadataRows = (metadata: ImageMetadataSummary): [string, string][] => {
+  const rows: [string, string][] = [];
+  if (metadata.camera) rows.push(['Camera', metadata.lens ? `${metadata.camera} (lens: ${metadata.lens})` : metadata.camera]);
+  if (metadata.capturedAt) rows.push(['Captured (camera clock)', metadata.capturedAt]);
+  if (metadata.modifiedAt) rows.push(['Modified', metadata.modifiedAt]);
+  if (metadata.gps) rows.push(['GPS', `${metadata.gps.latitude.toFixed(6)}, ${metadata.gps.longitude.toFixed(6)}`]);
+  if (metadata.software) rows.push(['Software', metadata.software]);
+  if (metadata.editHistory) rows.push(['Edit history (XMP)', metadata.editHistory.join(', ')]);
+  if (metadata.dimensions) rows.push(['Dimensions', `${metadata.dimensions.width}x${metadata.dimensions.height}`]);
+  return rows;
+};
+
+// Plain-text findings for the analysis request, one block per image in upload order.
+export const imageForensicsContext = (
+  images: { caption?: string; report?: ImageForensicsReport }[]
+): string | undefined => {
+  const blocks = images.flatMap(({ caption, report }, index) => {
+    if (!report) return [];
+    const findings = metadataRows(report.metadata).map(([label, value]) => `${label}: ${value}`);
+    if (findings.length === 0) findings.push('No EXIF/XMP metadata found (often stripped by social platforms or screenshots).');
+    if (report.perceptualHash) findings.push(`Perceptual hash (dHash): ${report.perceptualHash}`);
+    if (report.thumbnail) {
+      findings.push(report.thumbnail.mismatch
+        ? `Embedded EXIF thumbnail DOES NOT match the image (hash distance ${report.thumbnail.distance}/64); the image may have been edited after capture.`
+        : `Embedded EXIF thumbnail matches the image (hash distance ${report.thumbnail.distance}/64).`);
+    }
+    const heading = `Image ${index + 1}${caption?.trim() ? ` (${caption.trim()})` : ''}:`;
+    return [[heading, ...findings.map(finding => `- ${finding}`)].join('\n')];
+  });
+  return blocks.length > 0 ? blocks.join('\n\n') : undefined;
+};
+
+// Browser analysis
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be decoded'));
+    };
+    image.src = url;
+  });
+
+const drawToCanvas = (image: HTMLImageElement, width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0, width, height);
+  return context;
+};
+
+const imageHash = (image: HTMLImageElement): string =>
+  differenceHash(grayscale(drawToCanvas(image, 9, 8).getImageData(0, 0, 9, 8).data));
+
+const errorLevelDataUrl = async (image: HTMLImageElement): Promise<string> => {
+  const scale = Math.min(1, ELA_MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const context = drawToCanvas(image, width, height);
+  const jpeg = await new Promise<Blob | null>(resolve => context.canvas.toBlob(resolve, 'image/jpeg', ELA_JPEG_QUALITY));
+  if (!jpeg) throw new Error('JPEG re-encoding failed');
+  const recompressed = drawToCanvas(await loadImage(jpeg), width, height).getImageData(0, 0, width, height).data;
+
+  const original = context.getImageData(0, 0, width, height);
+  context.putImageData(new ImageData(errorLevelPixels(original.data, recompressed), width, height), 0, 0);
+  return context.canvas.toDataURL('image/png');
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Runs every check on an uploaded image. Individual checks that fail are
+// reported as warnings rather than failing the whole report.
+export const analyzeImageForensics = async (file: File): Promise<ImageForensicsReport> => {
+  const report: ImageForensicsReport = { metadata: {}, perceptualHash: null, errorLevelDataUrl: null, thumbnail: null, warnings: [] };
+
+  try {
+    const tags = await exifr.parse(file, { tiff: true, exif: true, gps: true, xmp: true, mergeOutput: true });
+    if (tags) report.metadata = summarizeMetadata(tags);
+  } catch (e) {
+    report.warnings.push(`Metadata could not be read: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+    report.perceptualHash = imageHash(image);
+  } catch (e) {
+    report.warnings.push(`Image could not be decoded: ${e instanceof Error ? e.message : String(e)}`);
+    return report;
+  }
+
+  try {
+    report.errorLevelDataUrl = await errorLevelDataUrl(image);
+  } catch (e) {
+    report.warnings.push(`Error level analysis failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  try {
+    const thumbnailBytes = await exifr.thumbnail(file);
+    if (thumbnailBytes && report.perceptualHash) {
+      const bytes = new Uint8Array(thumbnailBytes);
+      const hash = imageHash(await loadImage(new Blob([bytes], { type: 'image/jpeg' })));
+      const distance = hammingDistance(hash, report.perceptualHash);
+      report.thumbnail = {
+        dataUrl: bytesToDataUrl(bytes, 'image/jpeg'),
+        hash,
+        distance,
+        mismatch: distance > THUMBNAIL_MISMATCH_DISTANCE,
+      };
+    }
+  } catch (e) {
+    report.warnings.push(`Embedded thumbnail could not be compared: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  return report;
+};
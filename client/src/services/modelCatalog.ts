@@ -0,0 +1,157 @@
+import { AIModelConfig, AIProvider, ModelOrigin, ModelParameter } from '../types';
+import { AVAILABLE_PROVIDERS_MODELS } from '../models.config';
+import { fetchModelConfigurations } from './apiClient';
+import {
+  Validator,
+  expectArray,
+  expectObject,
+  expectOneOf,
+  expectParamValue,
+  expectType,
+  isRecord,
+  typeName,
+} from './schemaValidation';
+
+// The models the sidebar offers come from two catalogs: the server's
+// /api/models/config and the one bundled with the client (models.config.ts).
+// Both are checked against the same schema; a model or parameter that fails is
+// left out and reported, so a typo does not silently hide a setting.
+
+export type ModelCatalogSource = Exclude<ModelOrigin, 'both'>;
+
+export interface ModelCatalog {
+  models: AIModelConfig[];
+  issues: string[]; // Everything left out of either catalog, and why
+  serverError: string | null; // Set when the server catalog could not be fetched
+}
+
+const PARAMETER_TYPES: ModelParameter['type'][] = ['slider', 'number', 'text', 'select', 'toggle'];
+
+const expectOptionValue: Validator = (value, path, issues) => {
+  if (typeof value !== 'string' && typeof value !== 'number') issues.push(`${path} must be a string or number`);
+};
+
+const PARAMETER_SCHEMA = expectObject({
+  key: expectType('string'),
+  label: expectType('string'),
+  type: expectOneOf(PARAMETER_TYPES),
+  'min?': expectType('number'),
+  'max?': expectType('number'),
+  'step?': expectType('number'),
+  defaultValue: expectParamValue,
+  'options?': expectArray(expectObject({ value: expectOptionValue, label: expectType('string') })),
+  'description?': expectType('string'),
+  'unit?': expectType('string'),
+  'placeholder?': expectType('string'),
+});
+
+// What each parameter type needs beyond the common fields to be rendered.
+const parameterTypeIssues = (param: ModelParameter, path: string): string[] => {
+  const issues: string[] = [];
+  switch (param.type) {
+    case 'slider':
+      (['min', 'max', 'step'] as const).forEach(field => {
+        if (param[field] === undefined) issues.push(`${path}.${field} is required for a slider`);
+      });
+      if (param.step !== undefined && param.step <= 0) issues.push(`${path}.step must be greater than 0`);
+      if (typeof param.defaultValue !== 'number') issues.push(`${path}.defaultValue must be a number for a slider`);
+      break;
+    case 'number':
+      if (typeof param.defaultValue !== 'number' && param.defaultValue !== '') {
+        issues.push(`${path}.defaultValue must be a number or empty for a number input`);
+      }
+      break;
+    case 'select':
+      if (!param.options?.length) {
+        issues.push(`${path}.options is required for a select`);
+      } else if (!param.options.some(option => option.value === param.defaultValue)) {
+        issues.push(`${path}.defaultValue must be one of the options`);
+      }
+      break;
+    case 'toggle':
+      if (typeof param.defaultValue !== 'boolean') issues.push(`${path}.defaultValue must be a boolean for a toggle`);
+      break;
+    case 'text':
+      if (typeof param.defaultValue !== 'string') issues.push(`${path}.defaultValue must be a string for a text input`);
+      break;
+  }
+  if (param.min !== undefined && param.max !== undefined && param.min > param.max) {
+    issues.push(`${path}.min must not be greater than max`);
+  }
+  return issues;
+};
+
+const MODEL_SCHEMA = expectObject({
+  id: expectType('string'),
+  name: expectType('string'),
+  provider: expectOneOf(Object.values(AIProvider)),
+  parameters: (value, path, issues) => {
+    if (!Array.isArray(value)) issues.push(`${path} must be an array, got ${typeName(value)}`);
+  },
+  'supportsGoogleSearch?': expectType('boolean'),
+  'supportsVision?': expectType('boolean'),
+  'defaultSystemPrompt?': expectType('string'),
+});
+
+// Checks one catalog, keeping the valid models and, within them, the valid parameters.
+export const validateModelCatalog = (catalog: unknown, source: ModelCatalogSource): { models: AIModelConfig[]; issues: string[] } => {
+  const issues: string[] = [];
+  if (!Array.isArray(catalog)) {
+    issues.push(`${source} catalog must be an array, got ${typeName(catalog)}`);
+    return { models: [], issues };
+  }
+
+  const models = catalog.flatMap((entry: unknown, index): AIModelConfig[] => {
+    const path = isRecord(entry) && typeof entry.id === 'string' ? `${source} model "${entry.id}"` : `${source} model [${index}]`;
+    const modelIssues: string[] = [];
+    MODEL_SCHEMA(entry, path, modelIssues);
+    if (modelIssues.length > 0) {
+      issues.push(...modelIssues);
+      return [];
+    }
+
+    const model = entry as unknown as AIModelConfig;
+    const parameters = (model.parameters as unknown[]).filter((param, paramIndex) => {
+      const paramPath = `${path}.parameters[${isRecord(param) && typeof param.key === 'string' ? param.key : paramIndex}]`;
+      const paramIssues: string[] = [];
+      PARAMETER_SCHEMA(param, paramPath, paramIssues);
+      if (paramIssues.length === 0) paramIssues.push(...parameterTypeIssues(param as ModelParameter, paramPath));
+      issues.push(...paramIssues);
+      return paramIssues.length === 0;
+    }) as ModelParameter[];
+    return [{ ...model, parameters }];
+  });
+
+  return { models, issues };
+};
+
+// Server models come first and win where both catalogs define the same id;
+// bundled models the server does not list follow.
+export const mergeModelCatalogs = (serverModels: AIModelConfig[], bundledModels: AIModelConfig[]): AIModelConfig[] => {
+  const bundledIds = new Set(bundledModels.map(model => model.id));
+  const serverIds = new Set(serverModels.map(model => model.id));
+  return [
+    ...serverModels.map(model => ({ ...model, origin: (bundledIds.has(model.id) ? 'both' : 'server') as ModelOrigin })),
+    ...bundledModels.filter(model => !serverIds.has(model.id)).map(model => ({ ...model, origin: 'bundled' as ModelOrigin })),
+  ];
+};
+
+// Fetches the server catalog and merges it with the bundled one. When the
+// server cannot be reached the bundled catalog is used on its own.
+export const loadModelCatalog = async (bundledCatalog: unknown = AVAILABLE_PROVIDERS_MODELS): Promise<ModelCatalog> => {
+  let serverCatalog: unknown = [];
+  let serverError: string | null = null;
+  try {
+    serverCatalog = await fetchModelConfigurations();
+  } catch (error) {
+    serverError = error instanceof Error ? error.message : 'Failed to load model configurations';
+  }
+
+  const server = validateModelCatalog(serverCatalog, 'server');
+  const bundled = validateModelCatalog(bundledCatalog, 'bundled');
+  return {
+    models: mergeModelCatalogs(server.models, bundled.models),
+    issues: [...server.issues, ...bundled.issues],
+    serverError,
+  };
+};
@@ -0,0 +1,123 @@
+import { AIModelConfig, ConfigurableParams, ParsedVerdictTable, VerdictRow, VerdictTableKind } from '../types';
+
+// Lines up the verdict tables of several models' reports on the same query so
+// the comparison view can show where they disagree. Models word the same claim
+// differently, so statements are matched by word overlap rather than exact text.
+
+export interface ComparedReport {
+  modelId: string;
+  tables: ParsedVerdictTable[];
+}
+
+export interface VerdictAlignment {
+  kind: VerdictTableKind;
+  statement: string; // As worded by the first model that reported it
+  rows: Record<string, VerdictRow>; // By model id; models that did not report the claim are missing
+  statusDiffers: boolean;
+  confidenceDiffers: boolean;
+}
+
+export interface VerdictDifference {
+  status: boolean;
+  confidence: boolean;
+}
+
+// Share of distinct words two statements must have in common to count as the same claim
+export const STATEMENT_MATCH_THRESHOLD = 0.5;
+
+// Only the Verified Facts status column is a verdict; in the other tables the
+// second column is free text (issue, plausibility, usefulness).
+const STATUS_COMPARED_KINDS: VerdictTableKind[] = ['verified_facts'];
+
+const statementWords = (statement: string): Set<string> =>
+  new Set(
+    statement
+      .toLowerCase()
+      .replace(/\[[^\]]*\]\([^)]*\)/g, ' ') // Drop markdown links, e.g. citations
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 2)
+  );
+
+// Jaccard similarity of the statements' word sets, from 0 to 1.
+export const statementSimilarity = (a: string, b: string): number => {
+  const wordsA = statementWords(a);
+  const wordsB = statementWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+const statusKey = (row: VerdictRow): string => row.statusEmoji || row.status.trim().toLowerCase();
+
+// Confidence ranges disagree when they do not overlap, e.g. "2" against "4–5".
+const confidencesDiffer = (rows: VerdictRow[]): boolean => {
+  const ratings = rows.map(row => row.confidence).filter((rating): rating is NonNullable<typeof rating> => !!rating);
+  if (ratings.length < 2) return false;
+  return Math.max(...ratings.map(rating => rating.min)) > Math.min(...ratings.map(rating => rating.max));
+};
+
+// Groups matching verdict rows across reports, keeping the order claims first appear in.
+export const alignVerdicts = (reports: ComparedReport[]): VerdictAlignment[] => {
+  const alignments: VerdictAlignment[] = [];
+
+  // The most similar claim of the same kind that this model has not matched yet
+  const findMatch = (kind: VerdictTableKind, modelId: string, statement: string): VerdictAlignment | undefined => {
+    let best: VerdictAlignment | undefined;
+    let bestScore = STATEMENT_MATCH_THRESHOLD;
+    for (const alignment of alignments) {
+      if (alignment.kind !== kind || alignment.rows[modelId]) continue;
+      const score = statementSimilarity(alignment.statement, statement);
+      if (score >= bestScore) {
+        best = alignment;
+        bestScore = score;
+      }
+    }
+    return best;
+  };
+
+  reports.forEach(({ modelId, tables }) => {
+    tables.forEach(table => {
+      table.rows.forEach(row => {
+        if (!row.statement.trim()) return;
+        const match = findMatch(table.kind, modelId, row.statement);
+        if (match) {
+          match.rows[modelId] = row;
+        } else {
+          alignments.push({ kind: table.kind, statement: row.statement, rows: { [modelId]: row }, statusDiffers: false, confidenceDiffers: false });
+        }
+      });
+    });
+  });
+
+  return alignments.map(alignment => {
+    const rows = Object.values(alignment.rows);
+    return {
+      ...alignment,
+      statusDiffers: STATUS_COMPARED_KINDS.includes(alignment.kind) && new Set(rows.map(statusKey)).size > 1,
+      confidenceDiffers: confidencesDiffer(rows),
+    };
+  });
+};
+
+// Which cells of each row disagree with the other models, for highlighting.
+export const verdictDifferences = (alignments: VerdictAlignment[]): Map<VerdictRow, VerdictDifference> => {
+  const differences = new Map<VerdictRow, VerdictDifference>();
+  alignments.forEach(({ rows, statusDiffers, confidenceDiffers }) => {
+    if (!statusDiffers && !confidenceDiffers) return;
+    Object.values(rows).forEach(row => differences.set(row, { status: statusDiffers, confidence: confidenceDiffers }));
+  });
+  return differences;
+};
+
+// Parameters for another model in the comparison: shared settings carry over
+// where the model has the same parameter, everything else uses its defaults.
+export const modelConfigParamsFor = (model: AIModelConfig, params: ConfigurableParams): ConfigurableParams => {
+  const modelParams: ConfigurableParams = {};
+  model.parameters.forEach(param => {
+    modelParams[param.key] = params[param.key] ?? param.defaultValue;
+  });
+  return modelParams;
+};
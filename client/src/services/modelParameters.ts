@@ -0,0 +1,22 @@
+import { ModelParameter, ModelParameterOption } from '../types';
+
+// Input handling for the model parameters the server describes in /api/models/config.
+
+// Why a typed number is not accepted, or null if it is. An empty input is
+// valid and leaves the setting to the provider.
+export const numberParamError = (param: ModelParameter, raw: string): string | null => {
+  const trimmed = raw.trim();
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value)) return `${param.label} must be a number.`;
+  if (param.step !== undefined && Number.isInteger(param.step) && !Number.isInteger(value)) {
+    return `${param.label} must be a whole number.`;
+  }
+  if (param.min !== undefined && value < param.min) return `${param.label} must be at least ${param.min}.`;
+  if (param.max !== undefined && value > param.max) return `${param.label} must be at most ${param.max}.`;
+  return null;
+};
+
+// Select values come back from the DOM as strings; this recovers the option's own value.
+export const selectedOptionValue = (options: ModelParameterOption[], raw: string): string | number =>
+  options.find(option => String(option.value) === raw)?.value ?? raw;
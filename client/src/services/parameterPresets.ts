@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIModelConfig, AIProvider, ConfigurableParams } from '../types';
+import {
+  expectArray,
+  expectIsoDate,
+  expectObject,
+  expectOneOf,
+  expectParamValue,
+  expectRecordOf,
+  expectType,
+  isRecord,
+} from './schemaValidation';
+
+// Named model settings ("Deterministic check", "Exploratory context") the user
+// can switch to from the sidebar. Presets live in this browser's localStorage
+// and move between browsers as a JSON export file.
+
+export interface ParameterPreset {
+  id: string;
+  name: string;
+  modelId: string;
+  provider?: AIProvider;
+  params: ConfigurableParams;
+  createdAt: string; // ISO 8601
+}
+
+export const PARAMETER_PRESETS_STORAGE_KEY = 'sift.parameterPresets';
+export const PARAMETER_PRESETS_FORMAT = 'sift-parameter-presets';
+export const PARAMETER_PRESETS_VERSION = 1;
+
+export interface ParameterPresetsExport {
+  format: typeof PARAMETER_PRESETS_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  presets: ParameterPreset[];
+}
+
+type PresetStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export class ParameterPresetsError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n- ${issues.join('\n- ')}` : message);
+    this.name = 'ParameterPresetsError';
+    this.issues = issues;
+  }
+}
+
+const PRESETS_SCHEMA = expectArray(expectObject({
+  id: expectType('string'),
+  name: expectType('string'),
+  modelId: expectType('string'),
+  'provider?': expectOneOf(Object.values(AIProvider)),
+  params: expectRecordOf(expectParamValue),
+  createdAt: expectIsoDate,
+}));
+
+const presetIssues = (presets: unknown, path: string): string[] => {
+  const issues: string[] = [];
+  PRESETS_SCHEMA(presets, path, issues);
+  return issues;
+};
+
+// Presets saved in this browser. Unreadable storage yields no presets rather
+// than blocking the app.
+export const loadParameterPresets = (storage: PresetStorage = localStorage): ParameterPreset[] => {
+  try {
+    const stored = storage.getItem(PARAMETER_PRESETS_STORAGE_KEY);
+    if (!stored) return [];
+    const presets: unknown = JSON.parse(stored);
+    const issues = presetIssues(presets, 'presets');
+    if (issues.length > 0) {
+      console.warn('Ignoring invalid stored parameter presets:', issues);
+      return [];
+    }
+    return presets as ParameterPreset[];
+  } catch (error) {
+    console.warn('Failed to read parameter presets:', error);
+    return [];
+  }
+};
+
+export const saveParameterPresets = (presets: ParameterPreset[], storage: PresetStorage = localStorage) => {
+  try {
+    storage.setItem(PARAMETER_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Failed to save parameter presets:', error);
+  }
+};
+
+const isSamePreset = (a: ParameterPreset, b: Pick<ParameterPreset, 'name' | 'modelId'>): boolean =>
+  a.modelId === b.modelId && a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+
+// Adds presets, replacing any existing preset with the same name for the same model.
+export const mergeParameterPresets = (existing: ParameterPreset[], added: ParameterPreset[]): ParameterPreset[] => {
+  const kept = existing.filter(preset => !added.some(addedPreset => isSamePreset(preset, addedPreset)));
+  const keptIds = new Set(kept.map(preset => preset.id));
+  return [...kept, ...added.map(preset => (keptIds.has(preset.id) ? { ...preset, id: uuidv4() } : preset))];
+};
+
+// Presets whose model this server does not offer; they cannot be applied.
+export const presetsWithMissingModels = (presets: ParameterPreset[], models: AIModelConfig[]): ParameterPreset[] =>
+  presets.filter(preset => !models.some(model => model.id === preset.modelId));
+
+// Export / import
+
+export const buildParameterPresetsExport = (presets: ParameterPreset[]): ParameterPresetsExport => ({
+  format: PARAMETER_PRESETS_FORMAT,
+  version: PARAMETER_PRESETS_VERSION,
+  exportedAt: new Date().toISOString(),
+  presets,
+});
+
+export const parameterPresetsFilename = (exported: ParameterPresetsExport): string =>
+  `SIFT_Parameter_Presets_${exported.exportedAt.split('T')[0]}.json`;
+
+// Parses and validates an export file's contents.
+// Throws ParameterPresetsError describing why the file cannot be imported.
+export const parseParameterPresetsExport = (json: string): ParameterPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new ParameterPresetsError('This file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== PARAMETER_PRESETS_FORMAT) {
+    throw new ParameterPresetsError('This file is not a SIFT parameter presets export');
+  }
+  if (data.version !== PARAMETER_PRESETS_VERSION) {
+    throw new ParameterPresetsError(
+      `Unsupported presets version ${JSON.stringify(data.version)}: this instance reads version ${PARAMETER_PRESETS_VERSION}.`
+    );
+  }
+
+  const issues = presetIssues(data.presets, 'presets');
+  if (issues.length > 0) {
+    throw new ParameterPresetsError('The parameter presets file is invalid', issues);
+  }
+  return data.presets as ParameterPreset[];
+};
@@ -0,0 +1,62 @@
+import { OriginalQueryInfo, QueryImage } from '../types';
+import { InitiateSiftAnalysisParams } from './apiClient';
+
+// Re-running a query needs its images again after the original File objects are
+// gone. Each image keeps a durable copy: the server upload id assigned when it
+// was first sent, or base64 (from conversation bundles). The preview URL is the
+// last resort.
+
+type QueryImageRequest = Pick<InitiateSiftAnalysisParams, 'userImages' | 'imageUploadIds'>;
+
+// The query's images in order, including queries that only carry the single-image fields.
+export const queryImagesOf = (query: Partial<OriginalQueryInfo>): QueryImage[] => {
+  if (query.images && query.images.length > 0) return query.images;
+  if (!query.imageBase64 && !query.userImagePreviewUrl) return [];
+  return [{
+    mimeType: query.imageMimeType || 'image/png',
+    previewUrl: query.userImagePreviewUrl,
+    base64: query.imageBase64 || undefined,
+  }];
+};
+
+const bareBase64 = (value: string): string => (value.startsWith('data:') ? value.slice(value.indexOf(',') + 1) : value);
+
+const imageFilename = (image: QueryImage, index: number): string =>
+  image.name || `query-image-${index + 1}.${image.mimeType.split('/')[1] || 'png'}`;
+
+const imageFile = async (image: QueryImage, index: number): Promise<File> => {
+  const name = imageFilename(image, index);
+  if (image.base64) {
+    const bytes = Uint8Array.from(atob(bareBase64(image.base64)), char => char.charCodeAt(0));
+    return new File([bytes], name, { type: image.mimeType });
+  }
+  if (image.previewUrl) {
+    const response = await fetch(image.previewUrl);
+    if (response.ok) {
+      const blob = await response.blob();
+      return new File([blob], name, { type: blob.type || image.mimeType });
+    }
+  }
+  throw new Error(`Image ${index + 1} of the original query is no longer available.`);
+};
+
+// The image part of an initiateSiftAnalysis request that re-runs `query`.
+// Stored uploads are referenced by id; otherwise every image is re-uploaded.
+export const queryImageRequest = async (query: OriginalQueryInfo): Promise<QueryImageRequest> => {
+  const images = queryImagesOf(query);
+  if (images.length === 0) return {};
+  if (images.every(image => image.uploadId)) {
+    return { imageUploadIds: images.map(image => ({ uploadId: image.uploadId!, caption: image.caption })) };
+  }
+  const files = await Promise.all(images.map(imageFile));
+  return { userImages: images.map((image, index) => ({ file: files[index], caption: image.caption })) };
+};
+
+// Records the upload ids the server assigned to a query's images.
+export const withImageUploadIds = <T extends Pick<OriginalQueryInfo, 'images'>>(query: T, uploadIds: (string | null)[]): T => {
+  if (!query.images || !uploadIds.some(Boolean)) return query;
+  return {
+    ...query,
+    images: query.images.map((image, index) => (uploadIds[index] ? { ...image, uploadId: uploadIds[index]! } : image)),
+  };
+};
@@ -0,0 +1,147 @@
+import { ParsedReportSection, VerdictRow } from '../types';
+import { parseReportIntoSections, parseSectionSegments } from './reportParser';
+
+// Compares two versions of a report section by section. Sections are matched by
+// title without their numbering, and claims by statement within a section's
+// verdict tables, so rows that merely moved are not reported as changes.
+
+export type ClaimChangeKind = 'added' | 'removed' | 'changed';
+export type SectionChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ClaimChange {
+  statement: string;
+  change: ClaimChangeKind;
+  before: VerdictRow | null; // null for an added claim
+  after: VerdictRow | null; // null for a removed claim
+  statusChanged: boolean;
+  confidenceChanged: boolean;
+}
+
+export interface SectionDiff {
+  title: string;
+  change: SectionChangeKind;
+  claimChanges: ClaimChange[]; // Only claims that were added, removed or re-rated
+  textChanged: boolean; // The prose outside the verdict tables differs
+  beforeText: string;
+  afterText: string;
+}
+
+export interface ReportDiffSummary {
+  addedClaims: number;
+  removedClaims: number;
+  statusChanges: number;
+  confidenceChanges: number;
+  changedSections: number;
+}
+
+const PREAMBLE_TITLE = 'Report Information';
+
+const sectionKey = (title: string): string => title.replace(/^\d+\.\s*/, '').trim().toLowerCase();
+
+// Statements are compared without link targets, emphasis, case or trailing punctuation.
+const claimKey = (statement: string): string =>
+  statement
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|__|\*|_|`/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.;:!]+$/, '')
+    .toLowerCase();
+
+const statusKey = (row: VerdictRow): string => `${row.statusEmoji ?? ''} ${row.status}`.trim().toLowerCase();
+
+const sameConfidence = (before: VerdictRow, after: VerdictRow): boolean =>
+  before.confidence === null || after.confidence === null
+    ? before.confidence === after.confidence
+    : before.confidence.min === after.confidence.min && before.confidence.max === after.confidence.max;
+
+// Keys sections by title, numbering repeated titles so each can be matched once.
+const keyedSections = (markdownText: string): Map<string, ParsedReportSection> => {
+  const sections = new Map<string, ParsedReportSection>();
+  const seen = new Map<string, number>();
+  parseReportIntoSections(markdownText)
+    .filter(section => section.title !== PREAMBLE_TITLE)
+    .forEach(section => {
+      const key = sectionKey(section.title);
+      const occurrence = seen.get(key) ?? 0;
+      seen.set(key, occurrence + 1);
+      sections.set(`${key}#${occurrence}`, section);
+    });
+  return sections;
+};
+
+const sectionParts = (section: ParsedReportSection | undefined) => {
+  const segments = section ? parseSectionSegments(section.content, section.title) : [];
+  return {
+    rows: segments.flatMap(segment => (segment.type === 'table' ? segment.table.rows : [])).filter(row => claimKey(row.statement)),
+    text: segments.flatMap(segment => (segment.type === 'markdown' ? [segment.content] : [])).join('\n\n'),
+  };
+};
+
+const diffClaims = (beforeRows: VerdictRow[], afterRows: VerdictRow[]): ClaimChange[] => {
+  const beforeByKey = new Map(beforeRows.map(row => [claimKey(row.statement), row]));
+  const afterKeys = new Set(afterRows.map(row => claimKey(row.statement)));
+  const changes: ClaimChange[] = [];
+
+  afterRows.forEach(after => {
+    const before = beforeByKey.get(claimKey(after.statement));
+    if (!before) {
+      changes.push({ statement: after.statement, change: 'added', before: null, after, statusChanged: false, confidenceChanged: false });
+      return;
+    }
+    const statusChanged = statusKey(before) !== statusKey(after);
+    const confidenceChanged = !sameConfidence(before, after);
+    if (statusChanged || confidenceChanged) {
+      changes.push({ statement: after.statement, change: 'changed', before, after, statusChanged, confidenceChanged });
+    }
+  });
+  beforeRows
+    .filter(before => !afterKeys.has(claimKey(before.statement)))
+    .forEach(before => {
+      changes.push({ statement: before.statement, change: 'removed', before, after: null, statusChanged: false, confidenceChanged: false });
+    });
+  return changes;
+};
+
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Sections in the order of the newer version, followed by the sections it dropped.
+export const diffReportVersions = (beforeText: string, afterText: string): SectionDiff[] => {
+  const beforeSections = keyedSections(beforeText);
+  const afterSections = keyedSections(afterText);
+  const keys = [...afterSections.keys(), ...[...beforeSections.keys()].filter(key => !afterSections.has(key))];
+
+  return keys.map(key => {
+    const beforeSection = beforeSections.get(key);
+    const afterSection = afterSections.get(key);
+    const before = sectionParts(beforeSection);
+    const after = sectionParts(afterSection);
+    const claimChanges = diffClaims(before.rows, after.rows);
+    const textChanged = normalizeText(before.text) !== normalizeText(after.text);
+
+    let change: SectionChangeKind;
+    if (!beforeSection) change = 'added';
+    else if (!afterSection) change = 'removed';
+    else change = claimChanges.length > 0 || textChanged ? 'changed' : 'unchanged';
+
+    return {
+      title: (afterSection ?? beforeSection)!.title,
+      change,
+      claimChanges,
+      textChanged,
+      beforeText: before.text,
+      afterText: after.text,
+    };
+  });
+};
+
+export const summarizeReportDiff = (diffs: SectionDiff[]): ReportDiffSummary => {
+  const claimChanges = diffs.flatMap(diff => diff.claimChanges);
+  return {
+    addedClaims: claimChanges.filter(change => change.change === 'added').length,
+    removedClaims: claimChanges.filter(change => change.change === 'removed').length,
+    statusChanges: claimChanges.filter(change => change.statusChanged).length,
+    confidenceChanges: claimChanges.filter(change => change.confidenceChanged).length,
+    changedSections: diffs.filter(diff => diff.change !== 'unchanged').length,
+  };
+};
@@ -0,0 +1,416 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+import type { PhrasingContent, RootContent, Table as MdTable } from 'mdast';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { ChatMessage, GroundingChunk, OriginalQueryInfo } from '../types';
+import { mergeGroundingSources } from './groundingSources';
+import { queryImagesOf } from './queryImages';
+import { reportTypeLabel } from './reportTypes';
+
+// Report exports (Markdown, standalone HTML, DOCX) share one metadata header:
+// date, report type, model and grounding sources. HTML and DOCX also embed the
+// query's images, each with its caption.
+
+export interface ReportExportMetadata {
+  generatedAt: Date;
+  reportType: string;
+  modelId: string | null;
+  groundingSources: GroundingChunk[];
+}
+
+export interface ReportQueryImage {
+  dataUrl: string;
+  mimeType: string;
+  caption?: string;
+}
+
+export type ReportExportFormat = 'md' | 'html' | 'docx';
+
+const queryImageLabel = (queryImage: ReportQueryImage, index: number, count: number): string =>
+  queryImage.caption || (count > 1 ? `Image ${index + 1} submitted for analysis` : 'Image submitted for analysis');
+
+export const buildReportExportMetadata = (message: ChatMessage): ReportExportMetadata => ({
+  generatedAt: new Date(message.timestamp),
+  reportType: message.originalQueryReportType ? reportTypeLabel(message.originalQueryReportType) : 'Report',
+  modelId: message.modelId || null,
+  groundingSources: mergeGroundingSources(undefined, message.groundingSources || []),
+});
+
+export const reportExportFilename = (metadata: ReportExportMetadata, extension: ReportExportFormat | 'pdf'): string => {
+  const reportTypeSanitized = metadata.reportType.replace(/\s+/g, '_');
+  const filenameDate = metadata.generatedAt.toISOString().split('T')[0]; // YYYY-MM-DD
+  return `SIFT_Report_${reportTypeSanitized}_${filenameDate}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const sourceLabel = (source: GroundingChunk): string => source.web?.title || source.web?.uri || '';
+
+// Markdown
+
+export const buildMarkdownExport = (reportText: string, metadata: ReportExportMetadata): string => {
+  let groundingSourcesText = '**Grounding Sources:** N/A';
+  if (metadata.groundingSources.length > 0) {
+    const sourcesList = metadata.groundingSources
+      .map((s, index) => `  ${index + 1}. [${sourceLabel(s)}](${s.web?.uri})`)
+      .join('\n');
+    groundingSourcesText = `**Grounding Sources:**\n${sourcesList}`;
+  }
+
+  const metadataHeader = `\
+# SIFT Report Export
+
+**Generated:** ${metadata.generatedAt.toLocaleString()}
+**Report Type:** ${metadata.reportType}
+**Model Used:** ${metadata.modelId || 'N/A'}
+${groundingSourcesText}
+---
+
+`;
+  return metadataHeader + reportText;
+};
+
+// Standalone HTML
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_EXPORT_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 52rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.55; }
+  h1, h2, h3 { color: #0c4a6e; line-height: 1.25; }
+  a { color: #0369a1; }
+  .sift-metadata { background: #f1f5f9; border: 1px solid #cbd5e1; border-radius: 6px; padding: 0.75rem 1rem; font-size: 0.9rem; }
+  .sift-metadata dt { font-weight: 600; float: left; clear: left; margin-right: 0.5rem; }
+  .sift-metadata dd { margin: 0 0 0.25rem 0; }
+  .sift-metadata ol { margin: 0.25rem 0 0 1.25rem; padding: 0; }
+  .sift-query-image { margin: 1.5rem 0; }
+  .sift-query-image img { max-width: 100%; max-height: 28rem; border: 1px solid #cbd5e1; border-radius: 4px; }
+  .sift-query-image figcaption { font-size: 0.8rem; color: #64748b; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.9rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #e0f2fe; }
+  blockquote { border-left: 3px solid #cbd5e1; margin-left: 0; padding-left: 1rem; color: #475569; }
+  code { background: #f1f5f9; padding: 0 0.2rem; border-radius: 3px; }
+`;
+
+export const buildHtmlExport = (
+  reportText: string,
+  metadata: ReportExportMetadata,
+  queryImages: ReportQueryImage[] = []
+): string => {
+  const sourcesHtml = metadata.groundingSources.length > 0
+    ? `<ol>${metadata.groundingSources.map(s =>
+        `<li><a href="${escapeHtml(s.web!.uri)}">${escapeHtml(sourceLabel(s))}</a></li>`).join('')}</ol>`
+    : 'N/A';
+
+  const imageHtml = queryImages.map((queryImage, index) => {
+    const label = escapeHtml(queryImageLabel(queryImage, index, queryImages.length));
+    return `<figure class="sift-query-image"><img src="${escapeHtml(queryImage.dataUrl)}" alt="${label}"><figcaption>${label}</figcaption></figure>`;
+  }).join('\n');
+
+  const reportHtml = renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, reportText));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>SIFT Report - ${escapeHtml(metadata.reportType)}</title>
+<style>${HTML_EXPORT_STYLES}</style>
+</head>
+<body>
+<h1>SIFT Report Export</h1>
+<dl class="sift-metadata">
+<dt>Generated:</dt><dd>${escapeHtml(metadata.generatedAt.toLocaleString())}</dd>
+<dt>Report Type:</dt><dd>${escapeHtml(metadata.reportType)}</dd>
+<dt>Model Used:</dt><dd>${escapeHtml(metadata.modelId || 'N/A')}</dd>
+<dt>Grounding Sources:</dt><dd>${sourcesHtml}</dd>
+</dl>
+${imageHtml}
+<hr>
+${reportHtml}
+</body>
+</html>
+`;
+};
+
+// DOCX
+
+const DOCX_HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+const DOCX_MAX_IMAGE_WIDTH = 480; // px, fits an A4/Letter page with default margins
+const DOCX_IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+}
+
+// Links carry the built-in Hyperlink character style so they look like links in Word.
+const phrasingRuns = (nodes: PhrasingContent[], style: RunStyle = {}): ParagraphChild[] =>
+  nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case 'text':
+        return [new TextRun({ text: node.value, ...style })];
+      case 'strong':
+        return phrasingRuns(node.children, { ...style, bold: true });
+      case 'emphasis':
+        return phrasingRuns(node.children, { ...style, italics: true });
+      case 'delete':
+        return phrasingRuns(node.children, style);
+      case 'inlineCode':
+        return [new TextRun({ text: node.value, ...style, font: 'Courier New' })];
+      case 'break':
+        return [new TextRun({ text: '', break: 1 })];
+      case 'link': {
+        const text = node.children.map(child => ('value' in child ? child.value : '')).join('') || node.url;
+        return [new ExternalHyperlink({ link: node.url, children: [new TextRun({ text, style: 'Hyperlink', ...style })] })];
+      }
+      default:
+        return [];
+    }
+  });
+
+const docxTable = (table: MdTable): Table => {
+  const columnCount = Math.max(...table.children.map(row => row.children.length));
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.children.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: Array.from({ length: columnCount }, (_, cellIndex) => {
+        const cell = row.children[cellIndex];
+        return new TableCell({
+          shading: rowIndex === 0 ? { type: ShadingType.CLEAR, color: 'auto', fill: 'E0F2FE' } : undefined,
+          children: [new Paragraph({ children: cell ? phrasingRuns(cell.children, { bold: rowIndex === 0 }) : [] })],
+        });
+      }),
+    })),
+  });
+};
+
+const docxBlocks = (nodes: RootContent[], listDepth = 0): (Paragraph | Table)[] =>
+  nodes.flatMap((node): (Paragraph | Table)[] => {
+    switch (node.type) {
+      case 'heading':
+        return [new Paragraph({ heading: DOCX_HEADING_LEVELS[node.depth - 1], children: phrasingRuns(node.children) })];
+      case 'paragraph':
+        return [new Paragraph({ children: phrasingRuns(node.children), spacing: { after: 120 } })];
+      case 'list':
+        return node.children.flatMap((item, index) => {
+          const [first, ...rest] = item.children;
+          const marker = node.ordered ? `${(node.start ?? 1) + index}. ` : '';
+          const firstRuns = first?.type === 'paragraph' ? phrasingRuns(first.children) : [];
+          const itemParagraph = node.ordered
+            ? new Paragraph({ indent: { left: 360 * (listDepth + 1) }, children: [new TextRun(marker), ...firstRuns] })
+            : new Paragraph({ bullet: { level: listDepth }, children: firstRuns });
+          const remaining = first?.type === 'paragraph' ? rest : item.children;
+          return [itemParagraph, ...docxBlocks(remaining, listDepth + 1)];
+        });
+      case 'table':
+        return [docxTable(node), new Paragraph({ children: [] })];
+      case 'blockquote':
+        return node.children.flatMap(child => child.type === 'paragraph'
+          ? [new Paragraph({ indent: { left: 480 }, children: phrasingRuns(child.children, { italics: true }) })]
+          : docxBlocks([child], listDepth));
+      case 'code':
+        return node.value.split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, font: 'Courier New' })] }));
+      case 'thematicBreak':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CBD5E1', space: 1 } }, children: [] })];
+      default:
+        return [];
+    }
+  });
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load query image'));
+    image.src = dataUrl;
+  });
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1] || '');
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// DOCX only embeds PNG/JPEG/GIF/BMP; anything else (e.g. WebP) is redrawn as PNG.
+const docxImageParagraphs = async (queryImage: ReportQueryImage, label: string): Promise<Paragraph[]> => {
+  const image = await loadImage(queryImage.dataUrl);
+  let type = DOCX_IMAGE_TYPES[queryImage.mimeType];
+  let dataUrl = queryImage.dataUrl;
+  if (!type) {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    dataUrl = canvas.toDataURL('image/png');
+    type = 'png';
+  }
+
+  const scale = Math.min(1, DOCX_MAX_IMAGE_WIDTH / (image.naturalWidth || DOCX_MAX_IMAGE_WIDTH));
+  return [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new ImageRun({
+        type,
+        data: dataUrlToBytes(dataUrl),
+        transformation: { width: Math.round(image.naturalWidth * scale), height: Math.round(image.naturalHeight * scale) },
+        altText: { name: 'Query image', title: 'Query image', description: label },
+      })],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: label, italics: true, size: 18, color: '64748B' })],
+    }),
+  ];
+};
+
+const metadataParagraph = (label: string, value: string): Paragraph =>
+  new Paragraph({ children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)] });
+
+export const buildDocxExport = async (
+  reportText: string,
+  metadata: ReportExportMetadata,
+  queryImages: ReportQueryImage[] = []
+): Promise<Blob> => {
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(reportText);
+  const header: (Paragraph | Table)[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun('SIFT Report Export')] }),
+    metadataParagraph('Generated', metadata.generatedAt.toLocaleString()),
+    metadataParagraph('Report Type', metadata.reportType),
+    metadataParagraph('Model Used', metadata.modelId || 'N/A'),
+    metadata.groundingSources.length > 0
+      ? new Paragraph({ children: [new TextRun({ text: 'Grounding Sources:', bold: true })] })
+      : metadataParagraph('Grounding Sources', 'N/A'),
+    ...metadata.groundingSources.map((source, index) => new Paragraph({
+      indent: { left: 360 },
+      children: [
+        new TextRun(`${index + 1}. `),
+        new ExternalHyperlink({ link: source.web!.uri, children: [new TextRun({ text: sourceLabel(source), style: 'Hyperlink' })] }),
+      ],
+    })),
+  ];
+
+  for (const [index, queryImage] of queryImages.entries()) {
+    try {
+      header.push(...await docxImageParagraphs(queryImage, queryImageLabel(queryImage, index, queryImages.length)));
+    } catch (e) {
+      console.warn(`Skipping query image ${index + 1} in DOCX export:`, e);
+    }
+  }
+  header.push(new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CBD5E1', space: 1 } }, children: [] }));
+
+  const document = new Document({
+    creator: 'SIFT Toolbox',
+    title: `SIFT Report - ${metadata.reportType}`,
+    sections: [{ children: [...header, ...docxBlocks(tree.children)] }],
+  });
+  return Packer.toBlob(document);
+};
+
+// Query image
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const DATA_URL_REGEX = /^data:([^;,]*);base64,(.*)$/s;
+const IMAGE_MIME_TYPE_REGEX = /^image\/[a-z0-9.+-]+$/i;
+const BASE64_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// The mime type and data can come from an imported bundle, so only an image
+// type and base64 characters make it into the data URL.
+const imageDataUrl = (mimeType: string, base64: string): string | null => {
+  const data = base64.replace(/\s+/g, '');
+  return IMAGE_MIME_TYPE_REGEX.test(mimeType) && BASE64_REGEX.test(data) ? `data:${mimeType};base64,${data}` : null;
+};
+
+// Resolves the query image as a data URL, from the stored base64 or the preview blob URL.
+export const queryImageForExport = async (
+  originalQuery?: Pick<OriginalQueryInfo, 'imageBase64' | 'imageMimeType' | 'userImagePreviewUrl'> | null
+): Promise<ReportQueryImage | null> => {
+  if (!originalQuery) return null;
+
+  if (originalQuery.imageBase64) {
+    const match = originalQuery.imageBase64.match(DATA_URL_REGEX);
+    const mimeType = match ? match[1] : originalQuery.imageMimeType || 'image/png';
+    const dataUrl = imageDataUrl(mimeType, match ? match[2] : originalQuery.imageBase64);
+    if (dataUrl) return { dataUrl, mimeType };
+    console.warn(`Query image is not base64 image data (${mimeType}); it is left out of the export.`);
+  }
+
+  if (originalQuery.userImagePreviewUrl) {
+    try {
+      const blob = await (await fetch(originalQuery.userImagePreviewUrl)).blob();
+      const mimeType = blob.type || originalQuery.imageMimeType || 'image/png';
+      const dataUrl = imageDataUrl(mimeType, (await blobToDataUrl(blob)).match(DATA_URL_REGEX)?.[2] ?? '');
+      if (dataUrl) return { dataUrl, mimeType };
+    } catch (e) {
+      console.warn('Query image preview is no longer available for export:', e);
+    }
+  }
+  return null;
+};
+
+// Resolves every image of the query in order, with its caption; images that can
+// no longer be read are left out.
+export const queryImagesForExport = async (
+  originalQuery?: Partial<OriginalQueryInfo> | null
+): Promise<ReportQueryImage[]> => {
+  if (!originalQuery) return [];
+  const resolved = await Promise.all(queryImagesOf(originalQuery).map(async image => {
+    const queryImage = await queryImageForExport({
+      imageBase64: image.base64,
+      imageMimeType: image.mimeType,
+      userImagePreviewUrl: image.previewUrl,
+    });
+    return queryImage && image.caption ? { ...queryImage, caption: image.caption } : queryImage;
+  }));
+  return resolved.filter((queryImage): queryImage is ReportQueryImage => queryImage !== null);
+};
@@ -0,0 +1,235 @@
+import {
+  ParsedReportSection,
+  ParsedVerdictTable,
+  VerdictRow,
+  VerdictTableKind,
+  ConfidenceRating,
+  ReportSectionSegment,
+} from '../types';
+
+// Parser for SIFT Full Check report
+export const parseReportIntoSections = (markdownText: string): ParsedReportSection[] => {
+  const sections: ParsedReportSection[] = [];
+  let remainingText = markdownText;
+
+  // 1. Extract Preamble (Generated date, AI-Generated warning)
+  const preambleRegex = /^(Generated .*?\nAI-Generated: .*?\n)/s;
+  const preambleMatch = remainingText.match(preambleRegex);
+  if (preambleMatch) {
+    sections.push({
+      title: "Report Information",
+      rawTitle: "Report Information",
+      content: preambleMatch[0].trim(),
+      level: 0
+    });
+    remainingText = remainingText.substring(preambleMatch[0].length).trim();
+  }
+
+  const sectionSplitRegex = /(?=^###? .*$)/gm;
+
+  const parts = remainingText.split(sectionSplitRegex).filter(part => part.trim() !== '');
+
+  for (const part of parts) {
+    const headerMatch = part.match(/^(##\s+(.*?)|###\s+(.*?)):?\s*$/m);
+
+    if (headerMatch) {
+      const rawTitleLine = headerMatch[0].trim();
+      const isH2 = rawTitleLine.startsWith('## '); // Check for space after ##
+      let title = (isH2 ? headerMatch[2] : headerMatch[3]) || "Untitled Section";
+      title = title.trim().replace(/:$/, '').trim();
+
+      const content = part.substring(rawTitleLine.length).trim();
+
+      sections.push({
+        title: title,
+        rawTitle: rawTitleLine,
+        content: content,
+        level: isH2 ? 2 : 3,
+      });
+    } else if (part.trim() && sections.length > 0) {
+      sections[sections.length - 1].content += `\n\n${part.trim()}`;
+    } else if (part.trim()) {
+         sections.push({ title: "Miscellaneous", rawTitle: "Miscellaneous", content: part.trim(), level: 0 });
+    }
+  }
+  return sections.filter(s => s.content.trim() !== '' || s.title === "Report Information");
+};
+
+// Every Full Check table defined in SIFT_FULL_CHECK_PROMPT has four columns.
+const EXPECTED_COLUMN_COUNT = 4;
+
+const TABLE_ROW_REGEX = /^\s*\|.*\|?\s*$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const LEADING_EMOJI_REGEX = /^\s*((?:\p{Extended_Pictographic}|\p{Regional_Indicator})(?:\uFE0F|\u200D|\p{Extended_Pictographic})*)\s*(.*)$/su;
+const CONFIDENCE_RANGE_REGEX = /(\d+(?:\.\d+)?)\s*(?:[–—-]|to)\s*(\d+(?:\.\d+)?)/;
+const CONFIDENCE_SINGLE_REGEX = /(\d+(?:\.\d+)?)/;
+
+// Splits a pipe table row into trimmed cells, honouring escaped pipes (\|).
+export const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const stripMarkdownEmphasis = (text: string): string => text.replace(/\*\*|__|\*|_/g, '').trim();
+
+// Accepts "5", "4–5" (en dash, as the prompt requires), "4-5", "3 to 4", "**4**" or "4/5".
+export const parseConfidence = (cell: string): ConfidenceRating | null => {
+  const raw = cell.trim();
+  const text = stripMarkdownEmphasis(raw).replace(/\s*\/\s*5\b/g, '');
+  if (!text) return null;
+
+  const rangeMatch = text.match(CONFIDENCE_RANGE_REGEX);
+  let min: number;
+  let max: number;
+  if (rangeMatch) {
+    min = parseFloat(rangeMatch[1]);
+    max = parseFloat(rangeMatch[2]);
+    if (min > max) [min, max] = [max, min];
+  } else {
+    const singleMatch = text.match(CONFIDENCE_SINGLE_REGEX);
+    if (!singleMatch) return null;
+    min = max = parseFloat(singleMatch[1]);
+  }
+
+  if (min < 1 || max > 5) return null;
+  return { min, max, value: (min + max) / 2, raw };
+};
+
+export const splitStatusEmoji = (cell: string): { statusEmoji: string | null; status: string } => {
+  const text = stripMarkdownEmphasis(cell);
+  const match = text.match(LEADING_EMOJI_REGEX);
+  if (!match) return { statusEmoji: null, status: text };
+  return { statusEmoji: match[1], status: match[2].trim() };
+};
+
+const normalizeHeader = (header: string): string => stripMarkdownEmphasis(header).toLowerCase();
+
+// Identifies a table by its headers first and falls back to the enclosing section title.
+export const detectVerdictTableKind = (headers: string[], sectionTitle = ''): VerdictTableKind | null => {
+  const [first = '', second = ''] = headers.map(normalizeHeader);
+  if (first.startsWith('statement') && second.startsWith('status')) return 'verified_facts';
+  if (first.startsWith('statement') && second.startsWith('issue')) return 'errors_corrections';
+  if (first.startsWith('statement') && second.startsWith('plausibility')) return 'potential_leads';
+  if (first.startsWith('source') && second.includes('usefulness')) return 'source_usefulness';
+
+  const title = sectionTitle.toLowerCase();
+  if (title.includes('verified facts')) return 'verified_facts';
+  if (title.includes('errors and corrections')) return 'errors_corrections';
+  if (title.includes('potential leads')) return 'potential_leads';
+  if (title.includes('source') && (title.includes('usefulness') || title.includes('reliability'))) return 'source_usefulness';
+  return null;
+};
+
+const parseVerdictRow = (cells: string[], expectedColumns: number): VerdictRow => {
+  const issues: string[] = [];
+  if (cells.length !== expectedColumns) {
+    issues.push(`Expected ${expectedColumns} columns but found ${cells.length}`);
+  }
+
+  const [statement = '', statusCell = '', correction = '', confidenceCell = ''] = cells;
+  const { statusEmoji, status } = splitStatusEmoji(statusCell);
+  const confidence = parseConfidence(confidenceCell);
+
+  if (!statement.trim()) issues.push('Missing statement');
+  if (confidenceCell.trim() && !confidence) {
+    issues.push(`Unrecognised confidence value "${confidenceCell.trim()}"`);
+  }
+
+  return {
+    statement,
+    status,
+    statusEmoji,
+    correction,
+    confidence,
+    cells,
+    isMalformed: issues.length > 0,
+    issues,
+  };
+};
+
+const buildVerdictTable = (kind: VerdictTableKind, headers: string[], rowLines: string[]): ParsedVerdictTable => {
+  const headerIssue = headers.length !== EXPECTED_COLUMN_COUNT;
+  const rows = rowLines.map(line => {
+    const row = parseVerdictRow(splitTableRow(line), EXPECTED_COLUMN_COUNT);
+    if (headerIssue && !row.issues.length) {
+      row.issues.push(`Table header has ${headers.length} columns instead of ${EXPECTED_COLUMN_COUNT}`);
+      row.isMalformed = true;
+    }
+    return row;
+  });
+
+  return {
+    kind,
+    headers,
+    rows,
+    malformedRowCount: rows.filter(row => row.isMalformed).length,
+  };
+};
+
+// Splits a section's markdown into plain markdown and recognised verdict tables,
+// keeping their original order. Tables that are not one of the Full Check tables
+// (e.g. the evidence types framework) stay as markdown.
+export const parseSectionSegments = (content: string, sectionTitle = ''): ReportSectionSegment[] => {
+  const lines = content.split('\n');
+  const segments: ReportSectionSegment[] = [];
+  let markdownBuffer: string[] = [];
+
+  const flushMarkdown = () => {
+    const markdown = markdownBuffer.join('\n').trim();
+    if (markdown) segments.push({ type: 'markdown', content: markdown });
+    markdownBuffer = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const isTableStart = TABLE_ROW_REGEX.test(lines[i]) && i + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[i + 1]);
+    if (!isTableStart) {
+      markdownBuffer.push(lines[i]);
+      i++;
+      continue;
+    }
+
+    const headers = splitTableRow(lines[i]);
+    let end = i + 2;
+    while (end < lines.length && TABLE_ROW_REGEX.test(lines[end]) && lines[end].trim() !== '') {
+      end++;
+    }
+
+    const kind = detectVerdictTableKind(headers, sectionTitle);
+    if (kind) {
+      flushMarkdown();
+      segments.push({ type: 'table', table: buildVerdictTable(kind, headers, lines.slice(i + 2, end)) });
+    } else {
+      markdownBuffer.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  flushMarkdown();
+  return segments;
+};
+
+// Collects every verdict table in a full report, in report order.
+export const parseVerdictTables = (markdownText: string): ParsedVerdictTable[] =>
+  parseReportIntoSections(markdownText).flatMap(section =>
+    parseSectionSegments(section.content, section.title)
+      .filter((segment): segment is Extract<ReportSectionSegment, { type: 'table' }> => segment.type === 'table')
+      .map(segment => segment.table)
+  );
@@ -0,0 +1,113 @@
+import { ReportInput, ReportType, ReportTypeInfo, ReportTypeSection } from '../types';
+import { fetchReportTypes } from './apiClient';
+import { Validator, expectArray, expectObject, expectOneOf, expectType, isRecord, typeName } from './schemaValidation';
+
+// The report types the input form offers come from the server's agent configs
+// (GET /api/report-types), so a new report type needs no client change. Until
+// they load, or when the server cannot be reached, only the full check is offered.
+
+export interface ReportTypeCatalog {
+  reportTypes: ReportTypeInfo[];
+  issues: string[]; // Report types left out, and why
+  serverError: string | null; // Set when the server's report types could not be fetched
+}
+
+export const FALLBACK_REPORT_TYPES: ReportTypeInfo[] = [
+  {
+    id: ReportType.FULL_CHECK,
+    label: 'Full Check',
+    description: 'Checks each claim, corrects errors and rates the sources, ending with a verdict.',
+    requiredInputs: [],
+    requiresVision: false,
+    sections: [],
+  },
+];
+
+const REPORT_INPUTS: ReportInput[] = ['text', 'image'];
+const SECTION_FORMATS: ReportTypeSection['format'][] = ['table', 'text', 'list'];
+
+// Ids are upper snake case; stored analyses and older bundles may hold labels such as "Full Check".
+export const normalizeReportTypeId = (value: string): ReportType =>
+  value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') as ReportType;
+
+export const expectReportTypeId: Validator = (value, path, issues) => {
+  if (typeof value !== 'string' || !normalizeReportTypeId(value)) {
+    issues.push(`${path} must be a report type id such as "${ReportType.FULL_CHECK}"`);
+  }
+};
+
+const REPORT_TYPE_SCHEMA = expectObject({
+  id: expectReportTypeId,
+  label: expectType('string'),
+  description: expectType('string'),
+  requiredInputs: expectArray(expectOneOf(REPORT_INPUTS)),
+  requiresVision: expectType('boolean'),
+  sections: expectArray(expectObject({ title: expectType('string'), format: expectOneOf(SECTION_FORMATS) })),
+});
+
+// Keeps the report types that match the schema; the first of a repeated id wins.
+export const validateReportTypes = (catalog: unknown): { reportTypes: ReportTypeInfo[]; issues: string[] } => {
+  const issues: string[] = [];
+  if (!Array.isArray(catalog)) {
+    issues.push(`report types must be an array, got ${typeName(catalog)}`);
+    return { reportTypes: [], issues };
+  }
+
+  const seen = new Set<string>();
+  const reportTypes = catalog.flatMap((entry: unknown, index): ReportTypeInfo[] => {
+    const path = isRecord(entry) && typeof entry.id === 'string' ? `report type "${entry.id}"` : `report type [${index}]`;
+    const entryIssues: string[] = [];
+    REPORT_TYPE_SCHEMA(entry, path, entryIssues);
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+      return [];
+    }
+
+    const reportType = entry as unknown as ReportTypeInfo;
+    const id = normalizeReportTypeId(reportType.id);
+    if (seen.has(id)) {
+      issues.push(`${path} is listed more than once`);
+      return [];
+    }
+    seen.add(id);
+    return [{ ...reportType, id }];
+  });
+
+  return { reportTypes, issues };
+};
+
+export const loadReportTypes = async (): Promise<ReportTypeCatalog> => {
+  try {
+    const { reportTypes, issues } = validateReportTypes(await fetchReportTypes());
+    if (reportTypes.length === 0) {
+      return { reportTypes: FALLBACK_REPORT_TYPES, issues: [...issues, 'The server offered no usable report types'], serverError: null };
+    }
+    return { reportTypes, issues, serverError: null };
+  } catch (error) {
+    return {
+      reportTypes: FALLBACK_REPORT_TYPES,
+      issues: [],
+      serverError: error instanceof Error ? error.message : 'Failed to load report types',
+    };
+  }
+};
+
+export const findReportType = (reportTypes: ReportTypeInfo[], reportType: string): ReportTypeInfo | undefined => {
+  const id = normalizeReportTypeId(reportType);
+  return reportTypes.find(type => type.id === id);
+};
+
+// The catalog's label, or one derived from the id for a type the catalog does not list.
+export const reportTypeLabel = (reportType: string, reportTypes: ReportTypeInfo[] = []): string =>
+  findReportType(reportTypes, reportType)?.label ??
+  normalizeReportTypeId(reportType)
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+
+// Inputs the report type requires that the query does not provide.
+export const missingReportInputs = (
+  reportType: ReportTypeInfo | undefined,
+  provided: Record<ReportInput, boolean>
+): ReportInput[] => (reportType?.requiredInputs ?? []).filter(input => !provided[input]);
@@ -0,0 +1,85 @@
+// Reverse image search links for a query image. The engines fetch the image
+// themselves, so every link points at a public copy of it (see
+// publishUploadedImage in apiClient).
+
+export type ReverseSearchEngine = 'google_lens' | 'bing' | 'yandex' | 'tineye';
+
+export interface ReverseSearchLink {
+  engine: ReverseSearchEngine;
+  label: string;
+  url: string;
+}
+
+interface EngineDefinition {
+  engine: ReverseSearchEngine;
+  label: string;
+  buildUrl: (imageUrl: string) => string;
+  // Whether a link (e.g. one written by the model) is a reverse search on this engine
+  matches: (url: URL) => boolean;
+}
+
+const hostIs = (url: URL, domain: RegExp) => domain.test(url.hostname.replace(/^www\./, ''));
+
+const ENGINES: EngineDefinition[] = [
+  {
+    engine: 'google_lens',
+    label: 'Google Lens',
+    buildUrl: imageUrl => `https://lens.google.com/uploadbyurl?url=${encodeURIComponent(imageUrl)}`,
+    matches: url =>
+      hostIs(url, /^lens\.google\.com$/) ||
+      (hostIs(url, /^(images\.)?google\.[a-z.]+$/) && (url.pathname.startsWith('/searchbyimage') || url.searchParams.has('image_url'))),
+  },
+  {
+    engine: 'bing',
+    label: 'Bing Visual Search',
+    buildUrl: imageUrl =>
+      `https://www.bing.com/images/search?view=detailv2&iss=sbi&form=SBIVSP&sbisrc=UrlPaste&q=imgurl:${encodeURIComponent(imageUrl)}`,
+    matches: url =>
+      hostIs(url, /^bing\.com$/) &&
+      url.pathname.startsWith('/images/search') &&
+      (url.searchParams.get('iss') === 'sbi' || (url.searchParams.get('q') ?? '').startsWith('imgurl:')),
+  },
+  {
+    engine: 'yandex',
+    label: 'Yandex Images',
+    buildUrl: imageUrl => `https://yandex.com/images/search?rpt=imageview&url=${encodeURIComponent(imageUrl)}`,
+    matches: url =>
+      hostIs(url, /^yandex\.[a-z.]+$/) &&
+      url.pathname.startsWith('/images/search') &&
+      (url.searchParams.get('rpt') === 'imageview' || url.searchParams.has('url')),
+  },
+  {
+    engine: 'tineye',
+    label: 'TinEye',
+    buildUrl: imageUrl => `https://tineye.com/search?url=${encodeURIComponent(imageUrl)}`,
+    matches: url => hostIs(url, /^tineye\.com$/) && url.pathname.startsWith('/search'),
+  },
+];
+
+// Ready-made reverse searches for an image at a public URL, one per engine.
+export const reverseSearchLinks = (imageUrl: string): ReverseSearchLink[] =>
+  ENGINES.map(({ engine, label, buildUrl }) => ({ engine, label, url: buildUrl(imageUrl) }));
+
+// The engine a link searches with, or null when it is not a reverse image search.
+export const reverseSearchEngineOf = (link: string): ReverseSearchEngine | null => {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  return ENGINES.find(definition => definition.matches(url))?.engine ?? null;
+};
+
+// Bare URLs and markdown link targets; stops at whitespace and markdown/table delimiters.
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]|"'`]+/g;
+
+// Points every reverse image search link in `markdown` at `imageUrl`. The model
+// cannot see where the query image is hosted, so the links it suggests in
+// Potential Leads use placeholders or guesses for the image address.
+export const rewriteReverseSearchLinks = (markdown: string, imageUrl: string): string =>
+  markdown.replace(URL_PATTERN, link => {
+    const engine = reverseSearchEngineOf(link);
+    const definition = engine && ENGINES.find(candidate => candidate.engine === engine);
+    return definition ? definition.buildUrl(imageUrl) : link;
+  });
@@ -0,0 +1,69 @@
+// Small composable validators for JSON files users import, such as conversation
+// bundles and parameter presets. Each validator appends readable issues
+// ("bundle.messages[2].text must be a string, got number") instead of throwing,
+// so an import can report everything wrong with a file at once.
+
+export type Validator = (value: unknown, path: string, issues: string[]) => void;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const typeName = (value: unknown): string => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+export const expectType = (type: 'string' | 'boolean' | 'number'): Validator => (value, path, issues) => {
+  if (typeof value !== type) issues.push(`${path} must be a ${type}, got ${typeName(value)}`);
+};
+
+export const expectOneOf = (allowed: readonly string[]): Validator => (value, path, issues) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push(`${path} must be one of ${allowed.map(v => `"${v}"`).join(', ')}`);
+  }
+};
+
+export const expectIsoDate: Validator = (value, path, issues) => {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) issues.push(`${path} must be an ISO 8601 date string`);
+};
+
+export const nullable = (validator: Validator): Validator => (value, path, issues) => {
+  if (value !== null) validator(value, path, issues);
+};
+
+export const expectArray = (item: Validator): Validator => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array, got ${typeName(value)}`);
+    return;
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+};
+
+// Object schema: required fields, and optional ones (marked with a trailing "?")
+// that may be absent. Unknown fields are ignored so minor additions stay compatible.
+export const expectObject = (shape: Record<string, Validator>): Validator => (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object, got ${typeName(value)}`);
+    return;
+  }
+  Object.entries(shape).forEach(([key, validator]) => {
+    const optional = key.endsWith('?');
+    const field = optional ? key.slice(0, -1) : key;
+    if (value[field] === undefined) {
+      if (!optional) issues.push(`${path}.${field} is required`);
+      return;
+    }
+    validator(value[field], `${path}.${field}`, issues);
+  });
+};
+
+export const expectRecordOf = (validator: Validator): Validator => (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object, got ${typeName(value)}`);
+    return;
+  }
+  Object.entries(value).forEach(([key, entry]) => validator(entry, `${path}.${key}`, issues));
+};
+
+export const expectParamValue: Validator = (value, path, issues) => {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    issues.push(`${path} must be a string, number or boolean`);
+  }
+};
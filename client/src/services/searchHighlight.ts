@@ -0,0 +1,23 @@
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Same rule as the server's SemanticSearchService.query_terms: distinct words of
+// three or more characters, so the highlighted words are the ones the snippet was chosen for.
+export const searchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into matching and non-matching runs for rendering <mark> highlights.
+export const highlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const terms = searchTerms(query).sort((a, b) => b.length - a.length); // Prefer the longest match
+  if (!text || terms.length === 0) return text ? [{ text, isMatch: false }] : [];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'giu');
+  return text
+    .split(pattern)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, isMatch: terms.includes(part.toLowerCase()) }));
+};
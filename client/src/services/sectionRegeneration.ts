@@ -0,0 +1,60 @@
+import { SectionRevision } from '../types';
+
+// A report section can be regenerated on its own: the model streams a new body
+// for it, which is spliced into the report in place of the old one. Sections
+// are found by their header line, split the same way as parseReportIntoSections.
+
+const SECTION_HEADER_REGEX = /^###? /;
+
+const findSection = (markdownText: string, rawTitle: string) => {
+  const lines = markdownText.split('\n');
+  const headerIndex = lines.findIndex(line => SECTION_HEADER_REGEX.test(line) && line.trim() === rawTitle.trim());
+  if (headerIndex === -1) return null;
+  const nextHeaderIndex = lines.findIndex((line, index) => index > headerIndex && SECTION_HEADER_REGEX.test(line));
+  return { lines, headerIndex, endIndex: nextHeaderIndex === -1 ? lines.length : nextHeaderIndex };
+};
+
+// The body of the section under the given header line, or null if the report has no such section.
+export const reportSectionBody = (markdownText: string, rawTitle: string): string | null => {
+  const section = findSection(markdownText, rawTitle);
+  return section && section.lines.slice(section.headerIndex + 1, section.endIndex).join('\n').trim();
+};
+
+// Replaces the body of the section under the given header line; the rest of the report is untouched.
+export const replaceReportSection = (markdownText: string, rawTitle: string, body: string): string => {
+  const section = findSection(markdownText, rawTitle);
+  if (!section) return markdownText;
+  const { lines, headerIndex, endIndex } = section;
+  const trailing = endIndex < lines.length ? [''] : [];
+  return [...lines.slice(0, headerIndex + 1), '', body.trim(), ...trailing, ...lines.slice(endIndex)].join('\n');
+};
+
+// The usable part of a streamed replacement. Models sometimes repeat the heading
+// or carry on into the next section; neither may be spliced into the report.
+export const regeneratedSectionBody = (streamedText: string): string => {
+  const lines = streamedText.trimStart().split('\n');
+  if (lines.length > 0 && /^#{1,6}\s/.test(lines[0])) lines.shift();
+  const nextHeaderIndex = lines.findIndex(line => SECTION_HEADER_REGEX.test(line));
+  return (nextHeaderIndex === -1 ? lines : lines.slice(0, nextHeaderIndex)).join('\n').trim();
+};
+
+// Restores the section's body from before its latest regeneration and drops that revision.
+export const undoSectionRevision = (
+  markdownText: string,
+  revisions: SectionRevision[],
+  rawTitle: string
+): { text: string; revisions: SectionRevision[] } => {
+  let revisionIndex = -1;
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    if (revisions[i].rawTitle === rawTitle) {
+      revisionIndex = i;
+      break;
+    }
+  }
+  if (revisionIndex === -1) return { text: markdownText, revisions };
+
+  return {
+    text: replaceReportSection(markdownText, rawTitle, revisions[revisionIndex].content),
+    revisions: revisions.filter((_, index) => index !== revisionIndex),
+  };
+};
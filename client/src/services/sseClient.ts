@@ -0,0 +1,318 @@
+import { GroundingChunk } from '../types';
+import { isRecord } from './schemaValidation';
+
+// Typed client for the server's SIFT Server-Sent Event streams.
+//
+// Both the initial report stream (GET /api/sift/stream/:id) and follow-up chat
+// (POST /api/sift/chat) speak the same wire format:
+//
+//   id: 12                                 <- only on resumable streams
+//   data: {"delta":"..."}                  <- unnamed events carry text
+//
+//   event: analysis_id | report_version | error | complete
+//   data: {...}
+//
+// After the text, the server may send `event: sources` with the web sources the
+// response relied on ({ sources: GroundingChunk[] }).
+//
+// The stream is read with fetch rather than EventSource so that POST bodies,
+// the Last-Event-ID header and AbortSignal all work the same way for both flows.
+
+export type SiftStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'text_chunk'; text: string } // Replaces the whole message text
+  | { type: 'analysis_id'; analysisId: string }
+  | { type: 'report_version'; analysisId: string; versionNumber: number } // The response was stored as this report version
+  | { type: 'sources'; sources: GroundingChunk[] }
+  | { type: 'error'; errorType: string; message: string }
+  | { type: 'complete'; message?: string }
+  | { type: 'unknown'; event: string; data: string };
+
+export type SiftStreamEventType = SiftStreamEvent['type'];
+
+// One optional handler per event type, each receiving its narrowed event.
+export type SiftStreamEventHandlers = {
+  [K in SiftStreamEventType]?: (event: Extract<SiftStreamEvent, { type: K }>) => void;
+};
+
+export interface SiftStreamHandlers extends SiftStreamEventHandlers {
+  open?: () => void;
+  reconnecting?: (attempt: number, delayMs: number) => void;
+}
+
+export interface SseFrame {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+export interface SiftStreamRequest {
+  url: string;
+  method?: 'GET' | 'POST';
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+export interface SiftStreamOptions {
+  signal?: AbortSignal;
+  // Only streams whose events carry ids (the initial report) can be resumed.
+  reconnect?: ReconnectPolicy | false;
+}
+
+// Parses one SSE frame (the lines between blank lines). Comment-only frames
+// such as the server's ": keepalive" heartbeats yield null.
+export const parseSseFrame = (frame: string): SseFrame | null => {
+  let id: string | undefined;
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'id') id = value;
+    else if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+  }
+
+  if (dataLines.length === 0 && id === undefined) return null;
+  return { ...(id !== undefined ? { id } : {}), event, data: dataLines.join('\n') };
+};
+
+// Incrementally splits decoded text into complete SSE frames.
+export const createSseFrameReader = () => {
+  let buffer = '';
+
+  return {
+    push(chunk: string): SseFrame[] {
+      buffer += chunk.replace(/\r\n?/g, '\n');
+      const frames: SseFrame[] = [];
+      let frameEnd;
+      while ((frameEnd = buffer.indexOf('\n\n')) !== -1) {
+        const frame = parseSseFrame(buffer.slice(0, frameEnd));
+        buffer = buffer.slice(frameEnd + 2);
+        if (frame) frames.push(frame);
+      }
+      return frames;
+    },
+    // Returns whatever is left once the connection closes.
+    flush(): SseFrame[] {
+      const frame = buffer.trim() ? parseSseFrame(buffer) : null;
+      buffer = '';
+      return frame ? [frame] : [];
+    },
+  };
+};
+
+const parseJson = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// A non-empty string field of the payload, if it has one.
+const stringField = (payload: Record<string, unknown>, key: string): string | undefined => {
+  const value = payload[key];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+const isGroundingChunk = (chunk: unknown): chunk is GroundingChunk =>
+  isRecord(chunk) && isRecord(chunk.web) && typeof chunk.web.uri === 'string';
+
+// Maps a raw frame onto the typed event union. Unnamed frames without text are dropped.
+export const toSiftStreamEvent = (frame: SseFrame): SiftStreamEvent | null => {
+  const payload = parseJson(frame.data);
+  const fields = isRecord(payload) ? payload : {};
+
+  switch (frame.event) {
+    case 'message':
+      if (typeof fields.delta === 'string') return { type: 'delta', text: fields.delta };
+      if (typeof fields.text_chunk === 'string') return { type: 'text_chunk', text: fields.text_chunk };
+      if (payload === undefined) console.warn('SSE: Failed to parse data frame:', frame.data);
+      return null;
+    case 'analysis_id':
+      return typeof fields.analysis_id === 'string' ? { type: 'analysis_id', analysisId: fields.analysis_id } : null;
+    case 'report_version':
+      return typeof fields.analysis_id === 'string' && typeof fields.version_number === 'number'
+        ? { type: 'report_version', analysisId: fields.analysis_id, versionNumber: fields.version_number }
+        : null;
+    case 'sources': {
+      const chunks = Array.isArray(payload) ? payload : fields.sources;
+      if (!Array.isArray(chunks)) return null;
+      return { type: 'sources', sources: chunks.filter(isGroundingChunk) };
+    }
+    case 'error':
+      if (payload === undefined) {
+        return { type: 'error', errorType: 'ParseError', message: 'Failed to parse error data' };
+      }
+      return {
+        type: 'error',
+        errorType: stringField(fields, 'type') ?? 'UnknownError',
+        message: stringField(fields, 'message') ?? stringField(fields, 'error') ?? 'An error occurred on the backend.',
+      };
+    case 'complete':
+      return { type: 'complete', ...(typeof fields.message === 'string' ? { message: fields.message } : {}) };
+    default:
+      return { type: 'unknown', event: frame.event, data: frame.data };
+  }
+};
+
+// Parses a complete recorded stream body into typed events.
+export const parseSseTranscript = (transcript: string): SiftStreamEvent[] => {
+  const reader = createSseFrameReader();
+  return [...reader.push(transcript), ...reader.flush()]
+    .map(toSiftStreamEvent)
+    .filter((event): event is SiftStreamEvent => event !== null);
+};
+
+export const isTerminalEvent = (event: SiftStreamEvent): boolean =>
+  event.type === 'complete' || event.type === 'error';
+
+export const dispatchSiftStreamEvent = (event: SiftStreamEvent, handlers: SiftStreamEventHandlers): void => {
+  const handler = handlers[event.type] as ((event: SiftStreamEvent) => void) | undefined;
+  handler?.(event);
+};
+
+export const reconnectDelay = (attempt: number, policy: ReconnectPolicy): number =>
+  Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Marks failures that retrying cannot fix.
+class NonRetryableStreamError extends Error {}
+
+// Carries an exception thrown by a handler past the reconnect logic, which only
+// deals with failures of the stream itself.
+class StreamHandlerError extends Error {
+  constructor(readonly handlerError: unknown) {
+    super('Stream handler failed');
+  }
+}
+
+const callHandler = (call: () => void): void => {
+  try {
+    call();
+  } catch (error) {
+    throw new StreamHandlerError(error);
+  }
+};
+
+// Opens a SIFT stream and dispatches its events until a complete/error event,
+// the signal aborts, or reconnection gives up. Resolves once the stream is over;
+// stream failures are reported through handlers.error rather than by rejecting.
+// An exception thrown by a handler rejects with that exception and is never retried.
+// Aborting is silent: no handler is called.
+export const openSiftStream = async (
+  request: SiftStreamRequest,
+  handlers: SiftStreamHandlers,
+  options: SiftStreamOptions = {}
+): Promise<void> => {
+  const { signal, reconnect = false } = options;
+  let lastEventId: string | null = null;
+  let attempts = 0;
+
+  while (true) {
+    try {
+      const headers: Record<string, string> = { Accept: 'text/event-stream', ...request.headers };
+      if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+      const response = await fetch(request.url, {
+        method: request.method ?? 'GET',
+        headers,
+        body: request.body,
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        const errorMessage = `Stream request failed with status ${response.status}: ${errorBody}`;
+        // Server errors may be transient; client errors (e.g. 404 for an expired stream) are not.
+        throw response.status >= 500 ? new Error(errorMessage) : new NonRetryableStreamError(errorMessage);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new NonRetryableStreamError('Response body is not readable');
+      }
+
+      attempts = 0;
+      callHandler(() => handlers.open?.());
+
+      const frameReader = createSseFrameReader();
+      const decoder = new TextDecoder();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          const frames = done
+            ? [...frameReader.push(decoder.decode()), ...frameReader.flush()]
+            : frameReader.push(decoder.decode(value, { stream: true }));
+
+          for (const frame of frames) {
+            if (frame.id) lastEventId = frame.id;
+            const event = toSiftStreamEvent(frame);
+            if (!event) continue;
+            callHandler(() => dispatchSiftStreamEvent(event, handlers));
+            if (isTerminalEvent(event)) return;
+          }
+
+          if (done) break;
+        }
+      } finally {
+        reader.releaseLock();
+      }
+
+      // A non-resumable stream that closes without a terminal event is treated as finished.
+      if (!reconnect) {
+        callHandler(() => dispatchSiftStreamEvent({ type: 'complete' }, handlers));
+        return;
+      }
+      throw new Error('Stream closed before completion');
+    } catch (error) {
+      if (error instanceof StreamHandlerError) throw error.handlerError;
+      if (signal?.aborted) return;
+
+      const message = error instanceof Error ? error.message : String(error);
+      const canRetry = reconnect && !(error instanceof NonRetryableStreamError) && attempts < reconnect.maxAttempts;
+      if (!canRetry) {
+        dispatchSiftStreamEvent({ type: 'error', errorType: 'NetworkError', message }, handlers);
+        return;
+      }
+
+      attempts++;
+      const delay = reconnectDelay(attempts, reconnect);
+      console.warn(`SSE: ${message}. Reconnecting in ${delay}ms (attempt ${attempts}/${reconnect.maxAttempts}), last event id: ${lastEventId ?? 'none'}`);
+      handlers.reconnecting?.(attempts, delay);
+      await wait(delay, signal);
+      if (signal?.aborted) return;
+    }
+  }
+};
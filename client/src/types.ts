@@ -1,7 +1,29 @@
-export enum ReportType {
-  FULL_CHECK = 'Full Check',
-  CONTEXT_REPORT = 'Context Report',
-  COMMUNITY_NOTE = 'Community Note',
+// Report types are described by the server's agent configs (GET /api/report-types),
+// so any id the server lists is a valid ReportType. A ReportType is an id in its
+// normalized form; strings from the server, storage or bundles become one through
+// normalizeReportTypeId (services/reportTypes). These are the ones the client
+// refers to by name.
+export type ReportType = string & { readonly __reportType: true };
+export const ReportType = {
+  FULL_CHECK: 'FULL_CHECK' as ReportType,
+  CONTEXT_REPORT: 'CONTEXT_REPORT' as ReportType,
+  COMMUNITY_NOTE: 'COMMUNITY_NOTE' as ReportType,
+};
+
+export type ReportInput = 'text' | 'image';
+
+export interface ReportTypeSection {
+  title: string;
+  format: 'table' | 'text' | 'list';
+}
+
+export interface ReportTypeInfo {
+  id: ReportType; // e.g. "FULL_CHECK"; sent as reportType when a report starts
+  label: string;
+  description: string;
+  requiredInputs: ReportInput[]; // Inputs the report cannot be started without
+  requiresVision: boolean; // Only vision-capable models can produce it
+  sections: ReportTypeSection[]; // The report's sections, in order
 }
 
 export interface GroundingChunkWeb {
@@ -28,6 +50,7 @@ export interface ChatMessage {
   timestamp: Date;
   isLoading?: boolean;
   isError?: boolean;
+  isReconnecting?: boolean; // Stream dropped and the client is resuming it
   groundingSources?: GroundingChunk[];
   imagePreviewUrl?: string; 
   originalQuery?: { 
@@ -36,17 +59,94 @@ export interface ChatMessage {
     imageBase64?: string | null;
     reportType?: ReportType; // Added to store report type of original query
     userImagePreviewUrl?: string; // Added to ensure consistency with OriginalQueryInfo for display
+    urlContext?: ExtractedUrlContext;
+    images?: QueryImage[];
+    imageForensics?: string;
+    selectedClaims?: string[];
   };
   modelId?: string; 
   isInitialSIFTReport?: boolean; // Flag for initial SIFT report that might be sectioned
   originalQueryReportType?: ReportType; // Report type associated with this specific AI message if it's an initial report
+  regeneratingSection?: string; // Heading line of the section currently being regenerated
+  sectionRevisions?: SectionRevision[]; // Section bodies replaced by regeneration, newest last, for undo
+  reportVersion?: number; // Stored report version this response became, if any
+}
+
+// A report section's body before it was regenerated
+export interface SectionRevision {
+  rawTitle: string; // The section's header line, e.g., "## 4. Source Usefulness"
+  content: string;
 }
 
 // For the new left query panel
 export interface CurrentSiftQueryDetails {
     userInputText: string;
     userImagePreviewUrl?: string;
+    images?: QueryImage[];
     reportType: ReportType;
+    selectedClaims?: string[];
+}
+
+// A claim extracted from the query text, as the user reviews it before the report
+export interface ClaimCandidate {
+  id: string;
+  text: string; // Editable by the user
+  selected: boolean;
+}
+
+// An image attached to the initial query. Images keep the order the model sees them in.
+export interface QueryImage {
+  previewUrl?: string;
+  mimeType: string;
+  name?: string;
+  caption?: string;
+  // Durable copies, so the query can be re-run once the original File is gone
+  uploadId?: string; // Stored on the server when the query was first sent
+  base64?: string; // Bare base64, e.g. restored from a conversation bundle
+}
+
+// An image selected in InputForm but not yet submitted
+export interface QueryImageDraft {
+  id: string;
+  file: File;
+  previewUrl: string;
+  caption: string;
+  forensics?: ImageForensicsReport; // Undefined while the checks are still running
+}
+
+// Findings of the in-browser image forensics checks (see services/imageForensics)
+export interface ImageMetadataSummary {
+  camera?: string;
+  lens?: string;
+  capturedAt?: string; // ISO 8601
+  modifiedAt?: string; // ISO 8601
+  gps?: { latitude: number; longitude: number };
+  software?: string;
+  editHistory?: string[]; // Software agents from the XMP edit history
+  dimensions?: { width: number; height: number };
+}
+
+export interface ThumbnailComparison {
+  dataUrl: string;
+  hash: string;
+  distance: number; // Hamming distance to the main image's hash, out of 64
+  mismatch: boolean;
+}
+
+export interface ImageForensicsReport {
+  metadata: ImageMetadataSummary;
+  perceptualHash: string | null; // 64-bit difference hash, as 16 hex digits
+  errorLevelDataUrl: string | null;
+  thumbnail: ThumbnailComparison | null;
+  warnings: string[];
+}
+
+// Article extracted from a URL (via /api/url/extract) and attached to an analysis as its subject
+export interface ExtractedUrlContext {
+  url: string;
+  finalUrl?: string;
+  title?: string;
+  content: string;
 }
 
 export interface OriginalQueryInfo {
@@ -55,6 +155,10 @@ export interface OriginalQueryInfo {
   imageBase64?: string | null;
   reportType: ReportType;
   userImagePreviewUrl?: string; // Added to store the original image preview URL for restarts
+  urlContext?: ExtractedUrlContext; // Set when the analysis was started in "Analyze URL" mode
+  images?: QueryImage[]; // All attached images in order; the single-image fields above describe the first
+  imageForensics?: string; // In-browser forensics findings sent with the query, if the user opted in
+  selectedClaims?: string[]; // Claims the user picked for the report to check, in order
 }
 
 // New types for model selection and parameters
@@ -67,7 +171,7 @@ export enum AIProvider {
   // MISTRAL = 'MISTRAL',         
 }
 
-export type ModelParameterType = 'slider' | 'number' | 'text' | 'select';
+export type ModelParameterType = 'slider' | 'number' | 'text' | 'select' | 'toggle';
 
 export interface ModelParameterOption {
   value: string | number;
@@ -80,12 +184,17 @@ export interface ModelParameter {
   min?: number;
   max?: number;
   step?: number;
-  defaultValue: number | string;
+  defaultValue: number | string | boolean; // An empty string leaves the setting to the provider
   options?: ModelParameterOption[]; 
   description?: string;
   unit?: string;
+  placeholder?: string;
 }
 
+// Where a model's definition came from: the server's /api/models/config,
+// the catalog bundled with the client (models.config.ts), or both.
+export type ModelOrigin = 'server' | 'bundled' | 'both';
+
 export interface AIModelConfig {
   id: string; 
   name: string; 
@@ -94,6 +203,7 @@ export interface AIModelConfig {
   supportsGoogleSearch?: boolean; // Specific to Gemini for now
   supportsVision?: boolean; // General flag for image input capability
   defaultSystemPrompt?: string; 
+  origin?: ModelOrigin; // Set when the catalogs are merged
 }
 
 export type ConfigurableParams = {
@@ -106,4 +216,48 @@ export interface ParsedReportSection {
   rawTitle: string; // The original header line, e.g., "## 1. Verified Facts"
   content: string;
   level: number; // 0 for preamble, 2 for H2, 3 for H3
-}
\ No newline at end of file
+}
+// One model's report in a side-by-side comparison run
+export interface ComparisonRun {
+  modelId: string;
+  modelName: string;
+  text: string;
+  isLoading: boolean;
+  isError?: boolean;
+  isReconnecting?: boolean;
+  streamId?: string;
+  analysisId?: string; // Each run is stored as its own analysis
+  groundingSources?: GroundingChunk[];
+}
+
+// Structured rows parsed from the Full Check pipe tables
+export type VerdictTableKind = 'verified_facts' | 'errors_corrections' | 'potential_leads' | 'source_usefulness';
+
+export interface ConfidenceRating {
+  min: number;
+  max: number;
+  value: number; // Midpoint of the range, used for sorting and comparisons
+  raw: string; // Original cell text, e.g. "4–5"
+}
+
+export interface VerdictRow {
+  statement: string;
+  status: string; // Status text without the emoji, e.g. "Correct"
+  statusEmoji: string | null; // e.g. "✅", "❌", "🔶"
+  correction: string; // Clarification, correction, investigation path or notes depending on the table
+  confidence: ConfidenceRating | null;
+  cells: string[]; // Raw cell markdown in column order
+  isMalformed: boolean;
+  issues: string[]; // Human-readable reasons a row was flagged
+}
+
+export interface ParsedVerdictTable {
+  kind: VerdictTableKind;
+  headers: string[];
+  rows: VerdictRow[];
+  malformedRowCount: number;
+}
+
+export type ReportSectionSegment =
+  | { type: 'markdown'; content: string }
+  | { type: 'table'; table: ParsedVerdictTable };
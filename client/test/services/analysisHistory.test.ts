@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chatMessagesFromAnalysis,
+  groundingSourcesFromStored,
+  originalQueryFromAnalysis,
+} from '../../src/services/analysisHistory';
+import { AnalysisSummary, AnalysisWithHistoryResponse, uploadedImageUrl } from '../../src/services/apiClient';
+
+const analysis = (overrides: Partial<AnalysisSummary> = {}): AnalysisSummary => ({
+  id: 'analysis-1',
+  user_query: 'Did the bridge open in 1932?',
+  report_type: 'FULL_CHECK',
+  model_used: 'model-a',
+  has_image: false,
+  message_count: 2,
+  created_at: '2026-10-19T10:00:00Z',
+  updated_at: '2026-10-19T10:05:00Z',
+  ...overrides,
+});
+
+const source = { web: { uri: 'https://example.com/bridge', title: 'Bridge history' } };
+
+describe('groundingSourcesFromStored', () => {
+  it('reads sources stored as a JSON string or an array, dropping entries without a link', () => {
+    expect(groundingSourcesFromStored(JSON.stringify([source, { web: { title: 'No link' } }]))).toEqual([source]);
+    expect(groundingSourcesFromStored([source, null])).toEqual([source]);
+  });
+
+  it('returns undefined for malformed, empty or missing sources', () => {
+    expect(groundingSourcesFromStored('{not json')).toBeUndefined();
+    expect(groundingSourcesFromStored([])).toBeUndefined();
+    expect(groundingSourcesFromStored(null)).toBeUndefined();
+  });
+});
+
+describe('originalQueryFromAnalysis', () => {
+  it('rebuilds the text, report type and images of the initial query', () => {
+    const query = originalQueryFromAnalysis(analysis({
+      report_type: 'Full Check',
+      query_images: [
+        { upload_id: 'upload-1', mime_type: 'image/jpeg', caption: 'Front page' },
+        { upload_id: 'upload-2', mime_type: null, caption: null },
+      ],
+    }));
+
+    expect(query).toMatchObject({
+      text: 'Did the bridge open in 1932?',
+      reportType: 'FULL_CHECK',
+      imageMimeType: 'image/jpeg',
+      imageBase64: null,
+      userImagePreviewUrl: uploadedImageUrl('upload-1'),
+    });
+    expect(query.images).toEqual([
+      { uploadId: 'upload-1', previewUrl: uploadedImageUrl('upload-1'), mimeType: 'image/jpeg', caption: 'Front page' },
+      { uploadId: 'upload-2', previewUrl: uploadedImageUrl('upload-2'), mimeType: 'image/png' },
+    ]);
+  });
+
+  it('restores the URL context, picked claims and image forensics a restart resends', () => {
+    const query = originalQueryFromAnalysis(analysis({
+      url_context: { url: 'https://example.com/a', final_url: null, title: 'Story', content: 'Article text' },
+      selected_claims: ['The bridge opened in 1932'],
+      image_forensics: 'No EXIF data',
+    }));
+
+    expect(query.urlContext).toEqual({ url: 'https://example.com/a', finalUrl: 'https://example.com/a', title: 'Story', content: 'Article text' });
+    expect(query.selectedClaims).toEqual(['The bridge opened in 1932']);
+    expect(query.imageForensics).toBe('No EXIF data');
+  });
+
+  it('falls back to the full check and leaves out what was not stored', () => {
+    const query = originalQueryFromAnalysis(analysis({ report_type: '', selected_claims: [], url_context: null }));
+
+    expect(query.reportType).toBe('FULL_CHECK');
+    expect(query).not.toHaveProperty('images');
+    expect(query).not.toHaveProperty('urlContext');
+    expect(query).not.toHaveProperty('selectedClaims');
+    expect(query).not.toHaveProperty('imageForensics');
+  });
+});
+
+describe('chatMessagesFromAnalysis', () => {
+  it('marks the first user and assistant messages as the initial query and report', () => {
+    const data: AnalysisWithHistoryResponse = {
+      analysis: analysis({ message_count: 4 }),
+      conversation_history: [
+        { role: 'user', content: 'Did the bridge open in 1932?', timestamp: '2026-10-19T10:00:00Z', model_id: null, grounding_sources: null },
+        { role: 'assistant', content: '## Report', timestamp: '2026-10-19T10:01:00Z', model_id: null, grounding_sources: [source] },
+        { role: 'user', content: 'Who built it?', timestamp: '2026-10-19T10:02:00Z', model_id: null, grounding_sources: null },
+        { role: 'assistant', content: 'The city.', timestamp: '2026-10-19T10:03:00Z', model_id: 'model-b', grounding_sources: null },
+      ],
+    };
+    let nextId = 0;
+
+    const messages = chatMessagesFromAnalysis(data, () => `message-${++nextId}`);
+
+    expect(messages.map(message => [message.id, message.sender])).toEqual([
+      ['message-1', 'user'],
+      ['message-2', 'ai'],
+      ['message-3', 'user'],
+      ['message-4', 'ai'],
+    ]);
+    expect(messages[0].originalQuery?.text).toBe('Did the bridge open in 1932?');
+    expect(messages[0].timestamp).toEqual(new Date('2026-10-19T10:00:00Z'));
+    expect(messages[1]).toMatchObject({ isInitialSIFTReport: true, originalQueryReportType: 'FULL_CHECK', modelId: 'model-a' });
+    expect(messages[1].groundingSources).toEqual([source]);
+    expect(messages[2].originalQuery).toBeUndefined();
+    expect(messages[3].isInitialSIFTReport).toBeUndefined();
+    expect(messages[3].modelId).toBe('model-b');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildReferenceList,
+  citationNumberFromHref,
+  linkInlineCitations,
+  sourceKeysForCell,
+} from '../../src/services/citations';
+
+const REPORT = [
+  'The photo was taken in 2019 ([Reuters](https://www.reuters.com/a)).',
+  'It was later reshared ([AP](https://apnews.com/b); [Reuters](https://www.reuters.com/a/)).',
+  '',
+  '| Source | Usefulness Assessment | Notes | Rating |',
+  '|---|---|---|---|',
+  '| [Reuters](https://www.reuters.com/a) | High | Wire | 5 |',
+].join('\n');
+
+describe('buildReferenceList', () => {
+  it('numbers cited urls by first appearance, then uncited grounding sources', () => {
+    const references = buildReferenceList(REPORT, [{ web: { uri: 'https://example.org', title: 'Example' } }]);
+    expect(references.map(ref => [ref.number, ref.uri, ref.domain])).toEqual([
+      [1, 'https://www.reuters.com/a', 'reuters.com'],
+      [2, 'https://apnews.com/b', 'apnews.com'],
+      [3, 'https://example.org', 'example.org'],
+    ]);
+  });
+});
+
+describe('linkInlineCitations', () => {
+  it('replaces parenthesised citations and leaves table source links alone', () => {
+    const linked = linkInlineCitations(REPORT, buildReferenceList(REPORT));
+    expect(linked).toContain('taken in 2019[1](#sift-cite-1).');
+    expect(linked).toContain('reshared[2](#sift-cite-2)[1](#sift-cite-1).');
+    expect(linked).toContain('| [Reuters](https://www.reuters.com/a) | High |');
+  });
+
+  it('leaves text unchanged without references', () => {
+    expect(linkInlineCitations(REPORT, [])).toBe(REPORT);
+  });
+});
+
+describe('citationNumberFromHref', () => {
+  it('only recognises citation hrefs', () => {
+    expect(citationNumberFromHref('#sift-cite-12')).toBe(12);
+    expect(citationNumberFromHref('https://example.org')).toBeNull();
+    expect(citationNumberFromHref(undefined)).toBeNull();
+  });
+});
+
+describe('sourceKeysForCell', () => {
+  it('normalises every linked url in a cell', () => {
+    expect(sourceKeysForCell('[A](https://A.com/x/) and [B](https://b.com#top)')).toBe('https://a.com/x https://b.com');
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SELECTED_CLAIMS } from '../../src/constants';
+import { claimCandidatesFrom, selectedClaimTexts } from '../../src/services/claimSelection';
+
+describe('claimCandidatesFrom', () => {
+  it('selects extracted claims up to the per-report limit', () => {
+    const candidates = claimCandidatesFrom(Array.from({ length: MAX_SELECTED_CLAIMS + 2 }, (_, i) => `Claim ${i + 1}`));
+
+    expect(candidates.filter(claim => claim.selected)).toHaveLength(MAX_SELECTED_CLAIMS);
+    expect(candidates[MAX_SELECTED_CLAIMS].selected).toBe(false);
+    expect(new Set(candidates.map(claim => claim.id)).size).toBe(candidates.length);
+  });
+});
+
+describe('selectedClaimTexts', () => {
+  it('keeps selected, edited claims in order without blanks or repeats', () => {
+    expect(selectedClaimTexts([
+      { id: '1', text: ' The mayor resigned ', selected: true },
+      { id: '2', text: 'Repairs cost $2 million', selected: false },
+      { id: '3', text: '   ', selected: true },
+      { id: '4', text: 'The mayor resigned', selected: true },
+      { id: '5', text: 'The bridge collapsed in 2019', selected: true },
+    ])).toEqual(['The mayor resigned', 'The bridge collapsed in 2019']);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  communityNoteTextBudget,
+  countXCharacters,
+  dedupeSources,
+  formatCommunityNote,
+  parseCommunityNote,
+  validateCommunityNote,
+} from '../../src/services/communityNote';
+
+describe('countXCharacters', () => {
+  it('counts each link as 23 characters and wide characters twice', () => {
+    expect(countXCharacters('See https://example.com/a/very/long/path/to/an/article?id=12345')).toBe(4 + 23);
+    expect(countXCharacters('abc')).toBe(3);
+    expect(countXCharacters('日本')).toBe(4);
+    expect(countXCharacters('ok 👍')).toBe(5);
+  });
+});
+
+describe('parseCommunityNote', () => {
+  it('splits the note from a labelled sources list and strips markdown', () => {
+    const note = parseCommunityNote([
+      '**Community Note:** The photo is from a **2019** protest, not last week.',
+      '',
+      '**Sources:**',
+      '- [Reuters](https://www.reuters.com/fact-check/photo)',
+      '- https://apnews.com/article/123.',
+    ].join('\n'));
+
+    expect(note).toEqual({
+      text: 'The photo is from a 2019 protest, not last week.',
+      sources: ['https://www.reuters.com/fact-check/photo', 'https://apnews.com/article/123'],
+    });
+  });
+
+  it('takes trailing link-only lines as sources when there is no label', () => {
+    const note = parseCommunityNote('The quote is fabricated, see https://a.org/x for context.\n\nhttps://b.org/1\nhttps://c.org/2');
+
+    expect(note.text).toBe('The quote is fabricated, see https://a.org/x for context.');
+    expect(note.sources).toEqual(['https://b.org/1', 'https://c.org/2']);
+  });
+});
+
+describe('dedupeSources', () => {
+  it('keeps the first spelling of links to the same page', () => {
+    expect(dedupeSources([
+      'https://www.example.com/story/',
+      'https://example.com/story?utm_source=x#top',
+      ' ',
+      'https://example.com/other',
+    ])).toEqual(['https://www.example.com/story/', 'https://example.com/other']);
+  });
+});
+
+describe('validateCommunityNote', () => {
+  it('accepts a short note with two distinct sources', () => {
+    const note = { text: 'The video is from 2015.', sources: ['https://a.org/1', 'https://b.org/2'] };
+
+    expect(formatCommunityNote(note)).toBe('The video is from 2015.\n\nhttps://a.org/1\nhttps://b.org/2');
+    expect(validateCommunityNote(note)).toEqual({ length: 23 + 2 + 23 + 1 + 23, issues: [] });
+    expect(communityNoteTextBudget(note)).toBe(700 - (2 + 23 + 1 + 23));
+  });
+
+  it('reports an overlong note, duplicate and malformed sources, and too few sources', () => {
+    const { length, issues } = validateCommunityNote({
+      text: 'x'.repeat(700),
+      sources: ['https://a.org/1', 'https://www.a.org/1/', 'not a link'],
+    });
+
+    expect(length).toBe(700 + 2 + 23 + 1 + 10);
+    expect(issues).toEqual([
+      'The note is 736 characters with its sources; the limit is 700.',
+      '"not a link" is not a bare http(s) link.',
+      '1 duplicate source is left out.',
+      'Add at least 2 sources (1 so far).',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { AIProvider, ChatMessage, ReportType } from '../../src/types';
+import {
+  CONVERSATION_BUNDLE_FORMAT,
+  CONVERSATION_BUNDLE_VERSION,
+  ConversationBundleError,
+  buildConversationBundle,
+  parseConversationBundle,
+} from '../../src/services/conversationBundle';
+
+const originalQuery = {
+  text: 'Is this photo from 2019?',
+  imageMimeType: 'image/png',
+  imageBase64: 'iVBORw0KGgo=',
+  reportType: ReportType.FULL_CHECK,
+};
+
+const messages: ChatMessage[] = [
+  {
+    id: 'u1',
+    sender: 'user',
+    text: originalQuery.text,
+    timestamp: new Date('2026-10-19T10:00:00Z'),
+    originalQuery,
+  },
+  {
+    id: 'a1',
+    sender: 'ai',
+    text: '## Verified Facts\n...',
+    timestamp: new Date('2026-10-19T10:01:00Z'),
+    modelId: 'gemini-2.5-pro',
+    isInitialSIFTReport: true,
+    originalQueryReportType: ReportType.FULL_CHECK,
+    groundingSources: [{ web: { uri: 'https://example.org', title: 'Example' } }],
+  },
+  { id: 'a2', sender: 'ai', text: '', timestamp: new Date(), isLoading: true },
+];
+
+const snapshot = {
+  originalQuery,
+  messages,
+  modelId: 'gemini-2.5-pro',
+  provider: AIProvider.GOOGLE_GEMINI,
+  modelConfigParams: { temperature: 0.4, reasoningEffort: 'high' },
+};
+
+describe('conversation bundles', () => {
+  it('round-trips the conversation, image and model settings', async () => {
+    const bundle = await buildConversationBundle(snapshot);
+    expect(bundle.format).toBe(CONVERSATION_BUNDLE_FORMAT);
+    expect(bundle.version).toBe(CONVERSATION_BUNDLE_VERSION);
+    expect(bundle.messages.map(m => m.id)).toEqual(['u1', 'a1']); // still-loading message dropped
+
+    const restored = parseConversationBundle(JSON.stringify(bundle));
+    expect(restored.modelId).toBe('gemini-2.5-pro');
+    expect(restored.provider).toBe(AIProvider.GOOGLE_GEMINI);
+    expect(restored.modelConfigParams).toEqual(snapshot.modelConfigParams);
+    expect(restored.originalQuery.imageBase64).toBe(originalQuery.imageBase64);
+    expect(restored.originalQuery.userImagePreviewUrl).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(restored.messages[0].imagePreviewUrl).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(restored.messages[1]).toEqual(messages[1]);
+  });
+
+  it('inlines every query image and drops tab- and server-local references', async () => {
+    const images = [
+      { uploadId: 'f'.repeat(32), mimeType: 'image/png', name: 'a.png', caption: 'Original post', base64: 'iVBORw0KGgo=' },
+      { previewUrl: 'blob:http://localhost/2', mimeType: 'image/jpeg', name: 'b.jpg', base64: '/9j/4AAQ' },
+    ];
+    const bundle = await buildConversationBundle({ ...snapshot, originalQuery: { ...originalQuery, images } });
+    expect(bundle.originalQuery.images).toEqual([
+      { mimeType: 'image/png', name: 'a.png', caption: 'Original post', base64: 'iVBORw0KGgo=' },
+      { mimeType: 'image/jpeg', name: 'b.jpg', base64: '/9j/4AAQ' },
+    ]);
+
+    const restored = parseConversationBundle(JSON.stringify(bundle));
+    expect(restored.originalQuery.images?.map(image => image.previewUrl)).toEqual([
+      'data:image/png;base64,iVBORw0KGgo=',
+      'data:image/jpeg;base64,/9j/4AAQ',
+    ]);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseConversationBundle('not json')).toThrow(/not valid JSON/);
+    expect(() => parseConversationBundle('{"messages": []}')).toThrow(/not a SIFT conversation bundle/);
+  });
+
+  it('rejects incompatible versions', async () => {
+    const bundle = { ...(await buildConversationBundle(snapshot)), version: CONVERSATION_BUNDLE_VERSION + 1 };
+    expect(() => parseConversationBundle(JSON.stringify(bundle))).toThrow(/Unsupported bundle version 2.*newer SIFT Toolbox/);
+  });
+
+  it('lists schema violations by path', async () => {
+    const bundle = await buildConversationBundle(snapshot);
+    const broken = {
+      ...bundle,
+      originalQuery: { ...bundle.originalQuery, reportType: '--' },
+      messages: [{ ...bundle.messages[0], sender: 'bot' }, { ...bundle.messages[1], timestamp: 'yesterday' }],
+      modelId: undefined,
+    };
+
+    try {
+      parseConversationBundle(JSON.stringify(broken));
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ConversationBundleError);
+      expect((e as ConversationBundleError).issues).toEqual([
+        'bundle.originalQuery.reportType must be a report type id such as "FULL_CHECK"',
+        'bundle.messages[0].sender must be one of "user", "ai"',
+        'bundle.messages[1].timestamp must be an ISO 8601 date string',
+        'bundle.modelId is required',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { mergeGroundingSources, normalizeSourceUri, sourceDomain } from '../../src/services/groundingSources';
+
+describe('normalizeSourceUri', () => {
+  it('ignores host case, fragments and trailing slashes', () => {
+    expect(normalizeSourceUri('https://Example.org/page/#top')).toBe(normalizeSourceUri('https://example.org/page'));
+  });
+
+  it('keeps query strings significant', () => {
+    expect(normalizeSourceUri('https://example.org/?id=1')).not.toBe(normalizeSourceUri('https://example.org/?id=2'));
+  });
+});
+
+describe('mergeGroundingSources', () => {
+  it('dedupes by uri in first-seen order', () => {
+    const merged = mergeGroundingSources(
+      [{ web: { uri: 'https://a.com/x', title: 'A' } }],
+      [{ web: { uri: 'https://b.com', title: 'B' } }, { web: { uri: 'https://a.com/x/', title: 'A again' } }]
+    );
+    expect(merged).toEqual([
+      { web: { uri: 'https://a.com/x', title: 'A' } },
+      { web: { uri: 'https://b.com', title: 'B' } },
+    ]);
+  });
+
+  it('upgrades a bare-url title from a later duplicate', () => {
+    const merged = mergeGroundingSources(
+      [{ web: { uri: 'https://a.com', title: 'https://a.com' } }],
+      [{ web: { uri: 'https://a.com', title: 'Site A' } }]
+    );
+    expect(merged).toEqual([{ web: { uri: 'https://a.com', title: 'Site A' } }]);
+  });
+
+  it('skips chunks without a web uri', () => {
+    expect(mergeGroundingSources(undefined, [{}])).toEqual([]);
+  });
+});
+
+describe('sourceDomain', () => {
+  it('strips the www prefix', () => {
+    expect(sourceDomain('https://www.reuters.com/world')).toBe('reuters.com');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  differenceHash,
+  errorLevelPixels,
+  hammingDistance,
+  imageForensicsContext,
+  metadataRows,
+  summarizeMetadata,
+} from '../../src/services/imageForensics';
+
+describe('summarizeMetadata', () => {
+  it('condenses camera, capture time, GPS and editing software', () => {
+    const summary = summarizeMetadata({
+      Make: 'Apple',
+      Model: 'iPhone 12',
+      LensModel: 'iPhone 12 back dual wide camera 4.2mm f/1.6',
+      DateTimeOriginal: new Date('2021-06-01T14:03:22Z'),
+      ModifyDate: '2021:06:02 09:00:00',
+      latitude: 25.7617,
+      longitude: -80.1918,
+      Software: 'Adobe Photoshop 23.0 (Macintosh)',
+      History: [{ softwareAgent: 'Adobe Photoshop 23.0' }, { softwareAgent: 'Adobe Photoshop 23.0' }],
+      ExifImageWidth: 4032,
+      ExifImageHeight: 3024,
+    });
+
+    expect(summary).toMatchObject({
+      camera: 'Apple iPhone 12',
+      capturedAt: '2021-06-01T14:03:22.000Z',
+      gps: { latitude: 25.7617, longitude: -80.1918 },
+      software: 'Adobe Photoshop 23.0 (Macintosh)',
+      editHistory: ['Adobe Photoshop 23.0'],
+      dimensions: { width: 4032, height: 3024 },
+    });
+    expect(summary.modifiedAt).toMatch(/^2021-06-02T/);
+  });
+
+  it('does not repeat the make when the model already includes it', () => {
+    expect(summarizeMetadata({ Make: 'Canon', Model: 'Canon EOS R5' }).camera).toBe('Canon EOS R5');
+    expect(summarizeMetadata({ CreatorTool: 'GIMP 2.10' }).software).toBe('GIMP 2.10');
+    expect(metadataRows(summarizeMetadata({}))).toEqual([]);
+  });
+});
+
+describe('differenceHash', () => {
+  const gradient = (descending: boolean) =>
+    Array.from({ length: 72 }, (_, i) => (descending ? 255 - (i % 9) * 20 : (i % 9) * 20));
+
+  it('sets a bit wherever brightness drops to the right', () => {
+    expect(differenceHash(gradient(true))).toBe('ffffffffffffffff');
+    expect(differenceHash(gradient(false))).toBe('0000000000000000');
+  });
+
+  it('measures hash distance in bits', () => {
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('f0f0f0f0f0f0f0f0', 'f0f0f0f0f0f0f0f1')).toBe(1);
+  });
+});
+
+describe('errorLevelPixels', () => {
+  it('amplifies per-channel differences and keeps pixels opaque', () => {
+    const pixels = errorLevelPixels([10, 20, 30, 255], [12, 20, 25, 255], 10);
+    expect(Array.from(pixels)).toEqual([20, 0, 50, 255]);
+  });
+});
+
+describe('imageForensicsContext', () => {
+  it('describes each analysed image in order and skips pending ones', () => {
+    const context = imageForensicsContext([
+      {
+        caption: 'Viral post',
+        report: {
+          metadata: { camera: 'Apple iPhone 12', software: 'Adobe Photoshop 23.0' },
+          perceptualHash: 'f0f0f0f0f0f0f0f0',
+          errorLevelDataUrl: null,
+          thumbnail: { dataUrl: 'data:image/jpeg;base64,', hash: '0f0f0f0f0f0f0f0f', distance: 64, mismatch: true },
+          warnings: [],
+        },
+      },
+      { caption: 'Still running' },
+      {
+        report: { metadata: {}, perceptualHash: null, errorLevelDataUrl: null, thumbnail: null, warnings: [] },
+      },
+    ]);
+
+    expect(context).toBe([
+      'Image 1 (Viral post):',
+      '- Camera: Apple iPhone 12',
+      '- Software: Adobe Photoshop 23.0',
+      '- Perceptual hash (dHash): f0f0f0f0f0f0f0f0',
+      '- Embedded EXIF thumbnail DOES NOT match the image (hash distance 64/64); the image may have been edited after capture.',
+      '',
+      'Image 3:',
+      '- No EXIF/XMP metadata found (often stripped by social platforms or screenshots).',
+    ].join('\n'));
+    expect(imageForensicsContext([{ caption: 'pending' }])).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIModelConfig, AIProvider } from '../../src/types';
+import { AVAILABLE_PROVIDERS_MODELS } from '../../src/models.config';
+import { loadModelCatalog, mergeModelCatalogs, validateModelCatalog } from '../../src/services/modelCatalog';
+
+const model = (id: string, overrides: Partial<AIModelConfig> = {}): AIModelConfig => ({
+  id,
+  name: id.toUpperCase(),
+  provider: AIProvider.OPENAI,
+  parameters: [{ key: 'temperature', label: 'Temperature', type: 'slider', min: 0, max: 2, step: 0.1, defaultValue: 0.7 }],
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('validateModelCatalog', () => {
+  it('accepts the bundled catalog as shipped', () => {
+    expect(validateModelCatalog(AVAILABLE_PROVIDERS_MODELS, 'bundled').issues).toEqual([]);
+  });
+
+  it('drops malformed parameters and reports why', () => {
+    const catalog = [
+      {
+        ...model('gpt-4o'),
+        parameters: [
+          { key: 'temperature', label: 'Temperature', type: 'slider', min: 0, max: 2, defaultValue: 0.7 },
+          { key: 'reasoning_effort', label: 'Reasoning Effort', type: 'select', defaultValue: 'max', options: [{ value: 'low', label: 'Low' }] },
+          { key: 'seed', label: 'Seed', type: 'number', defaultValue: '' },
+        ],
+      },
+    ];
+
+    const { models, issues } = validateModelCatalog(catalog, 'server');
+
+    expect(models[0].parameters.map(param => param.key)).toEqual(['seed']);
+    expect(issues).toEqual([
+      'server model "gpt-4o".parameters[temperature].step is required for a slider',
+      'server model "gpt-4o".parameters[reasoning_effort].defaultValue must be one of the options',
+    ]);
+  });
+
+  it('drops models missing required fields', () => {
+    const { models, issues } = validateModelCatalog([{ id: 'mystery', parameters: [] }, model('gpt-4o')], 'server');
+
+    expect(models.map(m => m.id)).toEqual(['gpt-4o']);
+    expect(issues).toEqual([
+      'server model "mystery".name is required',
+      'server model "mystery".provider is required',
+    ]);
+  });
+});
+
+describe('mergeModelCatalogs', () => {
+  it('marks where each model came from, preferring the server definition', () => {
+    const merged = mergeModelCatalogs(
+      [model('gpt-4o', { name: 'From server' }), model('o3')],
+      [model('gpt-4o', { name: 'Bundled' }), model('gemma')]
+    );
+
+    expect(merged.map(m => [m.id, m.name, m.origin])).toEqual([
+      ['gpt-4o', 'From server', 'both'],
+      ['o3', 'O3', 'server'],
+      ['gemma', 'GEMMA', 'bundled'],
+    ]);
+  });
+});
+
+describe('loadModelCatalog', () => {
+  it('falls back to the bundled catalog when the server is down', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Service Unavailable', { status: 503 })));
+
+    const catalog = await loadModelCatalog([model('gemma')]);
+
+    expect(catalog.models.map(m => [m.id, m.origin])).toEqual([['gemma', 'bundled']]);
+    expect(catalog.serverError).toContain('503');
+  });
+});
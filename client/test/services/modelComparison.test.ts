@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { AIProvider } from '../../src/types';
+import { parseVerdictTables } from '../../src/services/reportParser';
+import {
+  alignVerdicts,
+  modelConfigParamsFor,
+  statementSimilarity,
+  verdictDifferences,
+} from '../../src/services/modelComparison';
+
+const report = (rows: string[]) => [
+  '## 1. Verified Facts',
+  '| Statement | Status | Clarification & Correction | Confidence (1–5) |',
+  '|---|---|---|---|',
+  ...rows,
+].join('\n');
+
+describe('statementSimilarity', () => {
+  it('scores shared words and ignores case, punctuation and citation links', () => {
+    expect(statementSimilarity('The bridge collapsed in 2019.', 'the BRIDGE collapsed in 2019 [1](#source-1)')).toBe(1);
+    expect(statementSimilarity('The bridge collapsed in 2019', 'Flooding closed an airport')).toBe(0);
+  });
+});
+
+describe('alignVerdicts', () => {
+  const gemini = parseVerdictTables(report([
+    '| The bridge collapsed in March 2019 | ✅ Correct | Confirmed by local news | 4–5 |',
+    '| The mayor resigned afterwards | ✅ Correct | Resigned in April | 4 |',
+  ]));
+  const openai = parseVerdictTables(report([
+    '| The mayor resigned afterwards | ❌ Incorrect | He stayed in office | 2 |',
+    '| Bridge collapsed in March 2019 | ✅ Correct | Widely reported | 5 |',
+    '| Repairs cost $2 million | ✅ Correct | City budget | 3 |',
+  ]));
+
+  it('matches differently worded claims and flags disagreements', () => {
+    const alignments = alignVerdicts([
+      { modelId: 'gemini', tables: gemini },
+      { modelId: 'gpt', tables: openai },
+    ]);
+
+    expect(alignments.map(a => [a.statement, Object.keys(a.rows), a.statusDiffers, a.confidenceDiffers])).toEqual([
+      ['The bridge collapsed in March 2019', ['gemini', 'gpt'], false, false],
+      ['The mayor resigned afterwards', ['gemini', 'gpt'], true, true],
+      ['Repairs cost $2 million', ['gpt'], false, false],
+    ]);
+  });
+
+  it('maps every disagreeing row to the cells to highlight', () => {
+    const differences = verdictDifferences(alignVerdicts([
+      { modelId: 'gemini', tables: gemini },
+      { modelId: 'gpt', tables: openai },
+    ]));
+
+    expect(differences.size).toBe(2);
+    expect(differences.get(gemini[0].rows[1])).toEqual({ status: true, confidence: true });
+    expect(differences.get(openai[0].rows[0])).toEqual({ status: true, confidence: true });
+    expect(differences.has(gemini[0].rows[0])).toBe(false);
+  });
+});
+
+describe('modelConfigParamsFor', () => {
+  it('carries over shared settings and defaults the rest', () => {
+    const model = {
+      id: 'gpt-4o',
+      name: 'GPT-4o',
+      provider: AIProvider.OPENAI,
+      parameters: [
+        { key: 'temperature', label: 'Temperature', type: 'slider' as const, defaultValue: 0.7 },
+        { key: 'max_tokens', label: 'Max Tokens', type: 'number' as const, defaultValue: 4096 },
+      ],
+    };
+
+    expect(modelConfigParamsFor(model, { temperature: 0.2, topK: 40 })).toEqual({ temperature: 0.2, max_tokens: 4096 });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ModelParameter } from '../../src/types';
+import { numberParamError, selectedOptionValue } from '../../src/services/modelParameters';
+
+const seed: ModelParameter = { key: 'seed', label: 'Seed', type: 'number', min: 0, max: 100, step: 1, defaultValue: '' };
+
+describe('numberParamError', () => {
+  it('accepts empty input and numbers within range', () => {
+    expect(numberParamError(seed, '  ')).toBeNull();
+    expect(numberParamError(seed, '42')).toBeNull();
+  });
+
+  it('explains out-of-range, fractional and non-numeric input', () => {
+    expect(numberParamError(seed, '-1')).toBe('Seed must be at least 0.');
+    expect(numberParamError(seed, '101')).toBe('Seed must be at most 100.');
+    expect(numberParamError(seed, '4.5')).toBe('Seed must be a whole number.');
+    expect(numberParamError(seed, 'abc')).toBe('Seed must be a number.');
+  });
+});
+
+describe('selectedOptionValue', () => {
+  it('returns the option value with its original type', () => {
+    const options = [{ value: 1, label: 'One' }, { value: 'high', label: 'High' }];
+    expect(selectedOptionValue(options, '1')).toBe(1);
+    expect(selectedOptionValue(options, 'high')).toBe('high');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AIProvider } from '../../src/types';
+import {
+  PARAMETER_PRESETS_STORAGE_KEY,
+  ParameterPreset,
+  ParameterPresetsError,
+  buildParameterPresetsExport,
+  loadParameterPresets,
+  mergeParameterPresets,
+  parseParameterPresetsExport,
+  presetsWithMissingModels,
+  saveParameterPresets,
+} from '../../src/services/parameterPresets';
+
+const preset = (overrides: Partial<ParameterPreset> = {}): ParameterPreset => ({
+  id: 'preset-1',
+  name: 'Deterministic check',
+  modelId: 'gpt-4o',
+  provider: AIProvider.OPENAI,
+  params: { temperature: 0, seed: 7, stop_sequences: '' },
+  createdAt: '2026-10-19T12:00:00.000Z',
+  ...overrides,
+});
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+describe('parameter preset storage', () => {
+  it('round-trips presets and ignores corrupt entries', () => {
+    const storage = memoryStorage();
+    saveParameterPresets([preset()], storage);
+    expect(loadParameterPresets(storage)).toEqual([preset()]);
+
+    storage.setItem(PARAMETER_PRESETS_STORAGE_KEY, '[{"name": 3}]');
+    expect(loadParameterPresets(storage)).toEqual([]);
+  });
+});
+
+describe('mergeParameterPresets', () => {
+  it('replaces a preset with the same name for the same model', () => {
+    const exploratory = preset({ id: 'preset-2', name: 'Exploratory context', params: { temperature: 1 } });
+    const updated = preset({ id: 'preset-3', name: 'deterministic check ', params: { temperature: 0.1 } });
+
+    expect(mergeParameterPresets([preset(), exploratory], [updated])).toEqual([exploratory, updated]);
+  });
+
+  it('gives imported presets a new id when it clashes with a kept one', () => {
+    const other = preset({ name: 'Other', modelId: 'gemini-2.5-pro' });
+    const [, merged] = mergeParameterPresets([preset()], [other]);
+    expect(merged.id).not.toBe('preset-1');
+    expect(merged.name).toBe('Other');
+  });
+});
+
+describe('presetsWithMissingModels', () => {
+  it('lists presets whose model the server does not offer', () => {
+    const models = [{ id: 'gpt-4o', name: 'GPT-4o', provider: AIProvider.OPENAI, parameters: [] }];
+    const missing = preset({ id: 'preset-2', modelId: 'retired-model' });
+    expect(presetsWithMissingModels([preset(), missing], models)).toEqual([missing]);
+  });
+});
+
+describe('parseParameterPresetsExport', () => {
+  it('reads an exported file', () => {
+    const json = JSON.stringify(buildParameterPresetsExport([preset()]));
+    expect(parseParameterPresetsExport(json)).toEqual([preset()]);
+  });
+
+  it('reports every problem with an invalid file', () => {
+    const exported = { ...buildParameterPresetsExport([preset()]), presets: [{ ...preset(), modelId: 4, params: { seed: [] } }] };
+    try {
+      parseParameterPresetsExport(JSON.stringify(exported));
+      throw new Error('expected the import to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParameterPresetsError);
+      expect((error as ParameterPresetsError).issues).toEqual([
+        'presets[0].modelId must be a string, got number',
+        'presets[0].params.seed must be a string, number or boolean',
+      ]);
+    }
+  });
+
+  it('rejects files that are not preset exports', () => {
+    expect(() => parseParameterPresetsExport('{"format": "sift-conversation-bundle"}')).toThrow('not a SIFT parameter presets export');
+    expect(() => parseParameterPresetsExport('not json')).toThrow('not valid JSON');
+  });
+});
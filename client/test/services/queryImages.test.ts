@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { OriginalQueryInfo, ReportType } from '../../src/types';
+import { queryImageRequest, queryImagesOf, withImageUploadIds } from '../../src/services/queryImages';
+
+const UPLOAD_A = 'a'.repeat(32);
+const UPLOAD_B = 'b'.repeat(32);
+
+const query: OriginalQueryInfo = {
+  text: 'Are these the same street?',
+  reportType: ReportType.FULL_CHECK,
+  images: [
+    { previewUrl: 'blob:http://localhost/1', mimeType: 'image/png', name: 'before.png', caption: 'Before' },
+    { previewUrl: 'blob:http://localhost/2', mimeType: 'image/jpeg', name: 'after.jpg' },
+  ],
+};
+
+describe('queryImagesOf', () => {
+  it('falls back to the single-image fields', () => {
+    expect(queryImagesOf({ reportType: ReportType.FULL_CHECK, imageBase64: 'AAAA', imageMimeType: 'image/gif' })).toEqual([
+      { mimeType: 'image/gif', previewUrl: undefined, base64: 'AAAA' },
+    ]);
+    expect(queryImagesOf({ reportType: ReportType.FULL_CHECK, text: 'no image' })).toEqual([]);
+  });
+});
+
+describe('queryImageRequest', () => {
+  it('refers to stored uploads by id, keeping order and captions', async () => {
+    const stored = withImageUploadIds(query, [UPLOAD_A, UPLOAD_B]);
+    expect(await queryImageRequest(stored)).toEqual({
+      imageUploadIds: [{ uploadId: UPLOAD_A, caption: 'Before' }, { uploadId: UPLOAD_B, caption: undefined }],
+    });
+  });
+
+  it('re-uploads images from base64 when any upload id is missing', async () => {
+    const request = await queryImageRequest({
+      reportType: ReportType.FULL_CHECK,
+      images: [
+        { uploadId: UPLOAD_A, mimeType: 'image/png', base64: 'aGVsbG8=' },
+        { mimeType: 'image/png', base64: 'data:image/png;base64,d29ybGQ=', caption: 'Second' },
+      ],
+    });
+
+    expect(request.imageUploadIds).toBeUndefined();
+    expect(request.userImages?.map(image => [image.file.name, image.file.type, image.caption])).toEqual([
+      ['query-image-1.png', 'image/png', undefined],
+      ['query-image-2.png', 'image/png', 'Second'],
+    ]);
+    expect(await request.userImages![1].file.text()).toBe('world');
+  });
+
+  it('reports images that can no longer be recovered', async () => {
+    await expect(queryImageRequest({ reportType: ReportType.FULL_CHECK, images: [{ mimeType: 'image/png' }] }))
+      .rejects.toThrow('Image 1 of the original query is no longer available.');
+  });
+});
+
+describe('withImageUploadIds', () => {
+  it('skips images the server could not store', () => {
+    const updated = withImageUploadIds(query, [null, UPLOAD_B]);
+    expect(updated.images?.map(image => image.uploadId)).toEqual([undefined, UPLOAD_B]);
+  });
+});
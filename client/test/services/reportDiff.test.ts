@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { diffReportVersions, summarizeReportDiff } from '../../src/services/reportDiff';
+
+const TABLE_HEADER = '| Statement | Status | Clarification & Correction | Confidence (1–5) |\n|---|---|---|---|';
+
+const report = (verifiedRows: string[], verdict: string, generated = '19 October 2026') => [
+  `Generated ${generated}`,
+  'AI-Generated: Possibly inaccurate',
+  '',
+  '## 1. Verified Facts',
+  TABLE_HEADER,
+  ...verifiedRows,
+  '',
+  '## 2. Verdict',
+  verdict,
+].join('\n');
+
+describe('diffReportVersions', () => {
+  it('reports added and removed claims and re-rated statuses and confidence', () => {
+    const before = report([
+      '| The bridge collapsed in 2019 | ⚠️ Unverified | No source yet | 2 |',
+      '| Repairs cost $2 million | ✅ Correct | City budget | 4 |',
+      '| The mayor resigned | ✅ Correct | Council minutes | 5 |',
+    ], 'Mostly true.');
+    const after = report([
+      '| The mayor resigned. | ✅ Correct | Council minutes | 5 |',
+      '| **The bridge collapsed in 2019** | ✅ Correct | [Reuters](https://reuters.com/a) | 4–5 |',
+      '| The bridge reopened in 2021 | ✅ Correct | Transport agency | 4 |',
+    ], 'Mostly true.', '20 October 2026');
+
+    const [verified, verdict] = diffReportVersions(before, after);
+
+    expect(verified.change).toBe('changed');
+    expect(verified.claimChanges.map(change => [change.change, change.statement, change.statusChanged, change.confidenceChanged])).toEqual([
+      ['changed', '**The bridge collapsed in 2019**', true, true],
+      ['added', 'The bridge reopened in 2021', false, false],
+      ['removed', 'Repairs cost $2 million', false, false],
+    ]);
+    expect(verdict.change).toBe('unchanged');
+  });
+
+  it('matches sections despite renumbering and lists dropped sections last', () => {
+    const before = '## 1. Verdict\nTrue.\n\n## 2. Potential Leads\nNone';
+    const after = '## 3. Verdict\nFalse.\n\n## 4. Disputed Claims\nNone';
+
+    expect(diffReportVersions(before, after).map(diff => [diff.title, diff.change, diff.textChanged])).toEqual([
+      ['3. Verdict', 'changed', true],
+      ['4. Disputed Claims', 'added', true],
+      ['2. Potential Leads', 'removed', true],
+    ]);
+  });
+});
+
+describe('summarizeReportDiff', () => {
+  it('counts claim changes across sections', () => {
+    const before = report(['| A | ✅ Correct | x | 4 |'], 'Yes.');
+    const after = report(['| A | ❌ Incorrect | x | 4 |', '| B | ✅ Correct | y | 3 |'], 'No.');
+
+    expect(summarizeReportDiff(diffReportVersions(before, after))).toEqual({
+      addedClaims: 1,
+      removedClaims: 0,
+      statusChanges: 1,
+      confidenceChanges: 0,
+      changedSections: 2,
+    });
+  });
+});
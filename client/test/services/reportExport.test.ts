@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { ReportType } from '../../src/types';
+import {
+  ReportExportMetadata,
+  buildHtmlExport,
+  buildMarkdownExport,
+  queryImageForExport,
+  queryImagesForExport,
+  reportExportFilename,
+} from '../../src/services/reportExport';
+
+const REPORT = `## 1. Verified Facts
+
+| Statement | Status |
+|---|---|
+| The bridge opened in 1932 | ✅ Correct |
+
+A claim ([example](https://example.org/a)).
+`;
+
+const metadata = (overrides: Partial<ReportExportMetadata> = {}): ReportExportMetadata => ({
+  generatedAt: new Date('2026-10-19T12:00:00Z'),
+  reportType: ReportType.FULL_CHECK,
+  modelId: 'gemini-2.5-pro',
+  groundingSources: [{ web: { uri: 'https://example.org/a', title: 'Example A' } }],
+  ...overrides,
+});
+
+describe('reportExportFilename', () => {
+  it('uses the report type and the generation date', () => {
+    expect(reportExportFilename(metadata({ reportType: 'Full Check' }), 'docx')).toBe('SIFT_Report_Full_Check_2026-10-19.docx');
+  });
+});
+
+describe('buildMarkdownExport', () => {
+  it('prepends the metadata header with numbered sources', () => {
+    const markdown = buildMarkdownExport(REPORT, metadata());
+    expect(markdown.startsWith('# SIFT Report Export\n\n**Generated:** ')).toBe(true);
+    expect(markdown).toContain('**Model Used:** gemini-2.5-pro');
+    expect(markdown).toContain('**Grounding Sources:**\n  1. [Example A](https://example.org/a)\n---\n\n## 1. Verified Facts');
+  });
+
+  it('marks missing model and sources as N/A', () => {
+    const markdown = buildMarkdownExport(REPORT, metadata({ modelId: null, groundingSources: [] }));
+    expect(markdown).toContain('**Model Used:** N/A');
+    expect(markdown).toContain('**Grounding Sources:** N/A');
+  });
+});
+
+describe('buildHtmlExport', () => {
+  it('produces a standalone document with inline styles and tables', () => {
+    const html = buildHtmlExport(REPORT, metadata());
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<link|<script/);
+    expect(html).toContain('<th>Statement</th>');
+    expect(html).toContain('<td>The bridge opened in 1932</td>');
+    expect(html).toContain('<a href="https://example.org/a">Example A</a>');
+  });
+
+  it('embeds the query image as a data URL', () => {
+    const html = buildHtmlExport(REPORT, metadata(), [{ dataUrl: 'data:image/png;base64,AAAA', mimeType: 'image/png' }]);
+    expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="Image submitted for analysis">');
+  });
+
+  it('embeds every query image with its caption', () => {
+    const html = buildHtmlExport(REPORT, metadata(), [
+      { dataUrl: 'data:image/png;base64,AAAA', mimeType: 'image/png', caption: 'Front <page>' },
+      { dataUrl: 'data:image/jpeg;base64,BBBB', mimeType: 'image/jpeg' },
+    ]);
+    expect(html.match(/<figure /g)).toHaveLength(2);
+    expect(html).toContain('<figcaption>Front &lt;page&gt;</figcaption>');
+    expect(html).toContain('<img src="data:image/jpeg;base64,BBBB" alt="Image 2 submitted for analysis">');
+  });
+
+  it('escapes the image source', () => {
+    const html = buildHtmlExport(REPORT, metadata(), [{ dataUrl: 'data:image/png;base64,AA"><script>x</script>', mimeType: 'image/png' }]);
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('AA&quot;&gt;&lt;script&gt;');
+  });
+
+  it('escapes metadata values', () => {
+    const html = buildHtmlExport(REPORT, metadata({ modelId: '<b>model</b>' }));
+    expect(html).toContain('&lt;b&gt;model&lt;/b&gt;');
+  });
+});
+
+describe('queryImageForExport', () => {
+  it('builds a data URL from stored base64 image data', async () => {
+    expect(await queryImageForExport({ imageBase64: 'AAAA', imageMimeType: 'image/jpeg' }))
+      .toEqual({ dataUrl: 'data:image/jpeg;base64,AAAA', mimeType: 'image/jpeg' });
+    expect(await queryImageForExport({ imageBase64: 'data:image/webp;base64,BBBB' }))
+      .toEqual({ dataUrl: 'data:image/webp;base64,BBBB', mimeType: 'image/webp' });
+  });
+
+  it('drops images whose mime type or data could inject markup', async () => {
+    expect(await queryImageForExport({ imageBase64: 'AAAA', imageMimeType: 'text/html' })).toBeNull();
+    expect(await queryImageForExport({ imageBase64: 'AAAA', imageMimeType: 'image/png"><script>' })).toBeNull();
+    expect(await queryImageForExport({ imageBase64: 'AA"><script>x</script>', imageMimeType: 'image/png' })).toBeNull();
+  });
+});
+
+describe('queryImagesForExport', () => {
+  it('resolves each query image in order with its caption, leaving out unreadable ones', async () => {
+    const images = await queryImagesForExport({
+      reportType: ReportType.FULL_CHECK,
+      images: [
+        { mimeType: 'image/png', base64: 'AAAA', caption: 'Screenshot' },
+        { mimeType: 'text/html', base64: 'BBBB' },
+        { mimeType: 'image/jpeg', base64: 'CCCC' },
+      ],
+    });
+
+    expect(images).toEqual([
+      { dataUrl: 'data:image/png;base64,AAAA', mimeType: 'image/png', caption: 'Screenshot' },
+      { dataUrl: 'data:image/jpeg;base64,CCCC', mimeType: 'image/jpeg' },
+    ]);
+  });
+
+  it('falls back to the single-image fields of older queries', async () => {
+    expect(await queryImagesForExport({ reportType: ReportType.FULL_CHECK, imageBase64: 'AAAA', imageMimeType: 'image/gif' }))
+      .toEqual([{ dataUrl: 'data:image/gif;base64,AAAA', mimeType: 'image/gif' }]);
+    expect(await queryImagesForExport(null)).toEqual([]);
+  });
+});
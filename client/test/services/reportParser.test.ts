@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectVerdictTableKind,
+  parseConfidence,
+  parseSectionSegments,
+  splitStatusEmoji,
+} from '../../src/services/reportParser';
+
+describe('parseConfidence', () => {
+  it('reads en-dash ranges and single ratings', () => {
+    expect(parseConfidence('4–5')).toEqual({ min: 4, max: 5, value: 4.5, raw: '4–5' });
+    expect(parseConfidence('**3 to 4**')).toMatchObject({ min: 3, max: 4 });
+    expect(parseConfidence('5/5')).toMatchObject({ min: 5, max: 5, value: 5 });
+  });
+
+  it('rejects values outside 1 to 5 and text without a rating', () => {
+    expect(parseConfidence('0–6')).toBeNull();
+    expect(parseConfidence('High')).toBeNull();
+    expect(parseConfidence('')).toBeNull();
+  });
+});
+
+describe('splitStatusEmoji', () => {
+  it('separates a leading status emoji from the status text', () => {
+    expect(splitStatusEmoji('✅ Correct')).toEqual({ statusEmoji: '✅', status: 'Correct' });
+    expect(splitStatusEmoji('**⚠️ Misleading**')).toEqual({ statusEmoji: '⚠️', status: 'Misleading' });
+    expect(splitStatusEmoji('Unverified')).toEqual({ statusEmoji: null, status: 'Unverified' });
+  });
+});
+
+describe('detectVerdictTableKind', () => {
+  it('identifies a table by its headers, then by the section title', () => {
+    expect(detectVerdictTableKind(['Statement', 'Status', 'Clarification', 'Confidence'])).toBe('verified_facts');
+    expect(detectVerdictTableKind(['**Statement**', 'Issue', 'Correction', 'Correction Confidence'])).toBe('errors_corrections');
+    expect(detectVerdictTableKind(['Source', 'Usefulness Assessment', 'Notes', 'Rating'])).toBe('source_usefulness');
+    expect(detectVerdictTableKind(['Claim', 'Verdict'], '3. Potential Leads')).toBe('potential_leads');
+    expect(detectVerdictTableKind(['Evidence Type', 'Examples'], 'Evidence Types')).toBeNull();
+  });
+});
+
+describe('parseSectionSegments', () => {
+  it('splits recognised tables from markdown and flags rows with the wrong column count', () => {
+    const content = [
+      'Intro text.',
+      '',
+      '| Statement | Status | Clarification | Confidence |',
+      '|---|---|---|---|',
+      '| The bridge opened in 1932 | ✅ Correct | Opening records | 4–5 |',
+      '| Missing cells | ❌ Incorrect |',
+      '',
+      'Closing text.',
+    ].join('\n');
+
+    const segments = parseSectionSegments(content, '1. Verified Facts');
+
+    expect(segments.map(segment => segment.type)).toEqual(['markdown', 'table', 'markdown']);
+    const table = segments[1].type === 'table' ? segments[1].table : null;
+    expect(table?.kind).toBe('verified_facts');
+    expect(table?.rows[0]).toMatchObject({ statusEmoji: '✅', status: 'Correct', isMalformed: false });
+    expect(table?.rows[0].confidence?.value).toBe(4.5);
+    expect(table?.rows[1].isMalformed).toBe(true);
+    expect(table?.rows[1].issues).toContain('Expected 4 columns but found 2');
+    expect(table?.malformedRowCount).toBe(1);
+  });
+
+  it('leaves tables that are not verdict tables as markdown', () => {
+    const content = '| Evidence Type | Examples |\n|---|---|\n| Documents | Court filings |';
+
+    expect(parseSectionSegments(content, 'Evidence Types')).toEqual([{ type: 'markdown', content }]);
+  });
+});
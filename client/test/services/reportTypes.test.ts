@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ReportTypeInfo } from '../../src/types';
+import {
+  FALLBACK_REPORT_TYPES,
+  loadReportTypes,
+  missingReportInputs,
+  normalizeReportTypeId,
+  reportTypeLabel,
+  validateReportTypes,
+} from '../../src/services/reportTypes';
+
+const reportType = (id: string, overrides: Partial<ReportTypeInfo> = {}): ReportTypeInfo => ({
+  id: normalizeReportTypeId(id),
+  label: id,
+  description: '',
+  requiredInputs: [],
+  requiresVision: false,
+  sections: [{ title: 'Verdict', format: 'text' }],
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('validateReportTypes', () => {
+  it('drops malformed and repeated report types and reports why', () => {
+    const catalog = [
+      reportType('full_check'),
+      reportType('IMAGE_ANALYSIS', { requiredInputs: ['video' as 'image'] }),
+      reportType('FULL_CHECK', { label: 'Again' }),
+    ];
+
+    const { reportTypes, issues } = validateReportTypes(catalog);
+
+    expect(reportTypes.map(type => type.id)).toEqual(['FULL_CHECK']);
+    expect(issues).toEqual([
+      'report type "IMAGE_ANALYSIS".requiredInputs[0] must be one of "text", "image"',
+      'report type "FULL_CHECK" is listed more than once',
+    ]);
+  });
+});
+
+describe('loadReportTypes', () => {
+  it('offers the full check alone when the server cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Service Unavailable', { status: 503 })));
+
+    const catalog = await loadReportTypes();
+
+    expect(catalog.reportTypes).toEqual(FALLBACK_REPORT_TYPES);
+    expect(catalog.serverError).toMatch(/503/);
+  });
+});
+
+describe('reportTypeLabel', () => {
+  it('prefers the catalog label and derives one for unlisted or legacy values', () => {
+    const catalog = [reportType('COMMUNITY_NOTE', { label: 'Community Note (X)' })];
+
+    expect(reportTypeLabel('COMMUNITY_NOTE', catalog)).toBe('Community Note (X)');
+    expect(reportTypeLabel('Community Note', catalog)).toBe('Community Note (X)');
+    expect(reportTypeLabel('IMAGE_ANALYSIS')).toBe('Image Analysis');
+  });
+});
+
+describe('missingReportInputs', () => {
+  it('lists the required inputs the query lacks', () => {
+    const imageAnalysis = reportType('IMAGE_ANALYSIS', { requiredInputs: ['image'] });
+
+    expect(missingReportInputs(imageAnalysis, { text: true, image: false })).toEqual(['image']);
+    expect(missingReportInputs(imageAnalysis, { text: false, image: true })).toEqual([]);
+    expect(missingReportInputs(undefined, { text: false, image: false })).toEqual([]);
+  });
+});
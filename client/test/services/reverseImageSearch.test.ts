@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  reverseSearchEngineOf,
+  reverseSearchLinks,
+  rewriteReverseSearchLinks,
+} from '../../src/services/reverseImageSearch';
+
+const IMAGE_URL = 'https://img.example.org/abc.jpg?x=1';
+
+describe('reverseSearchLinks', () => {
+  it('builds one encoded search per engine', () => {
+    const links = reverseSearchLinks(IMAGE_URL);
+
+    expect(links.map(link => link.engine)).toEqual(['google_lens', 'bing', 'yandex', 'tineye']);
+    expect(links[0].url).toBe('https://lens.google.com/uploadbyurl?url=https%3A%2F%2Fimg.example.org%2Fabc.jpg%3Fx%3D1');
+    expect(links.every(link => link.url.includes(encodeURIComponent(IMAGE_URL)))).toBe(true);
+  });
+});
+
+describe('reverseSearchEngineOf', () => {
+  it('recognises reverse image searches and ignores other links', () => {
+    expect(reverseSearchEngineOf('https://www.google.com/searchbyimage?image_url=http://x/y.png')).toBe('google_lens');
+    expect(reverseSearchEngineOf('https://www.bing.com/images/search?q=imgurl:http://x/y.png&view=detailv2')).toBe('bing');
+    expect(reverseSearchEngineOf('https://yandex.ru/images/search?rpt=imageview&url=http://x/y.png')).toBe('yandex');
+    expect(reverseSearchEngineOf('https://tineye.com/search?url=http://x/y.png')).toBe('tineye');
+
+    expect(reverseSearchEngineOf('https://www.google.com/search?q=flood+photo')).toBeNull();
+    expect(reverseSearchEngineOf('https://www.bing.com/images/search?q=flood')).toBeNull();
+    expect(reverseSearchEngineOf('not a url')).toBeNull();
+  });
+});
+
+describe('rewriteReverseSearchLinks', () => {
+  it('points reverse search links at the hosted copy and leaves other links alone', () => {
+    const markdown = [
+      '| Statement | Plausibility | Investigation Path |',
+      '|---|---|---|',
+      '| Photo is from 2019 | 3 | Run [TinEye](https://tineye.com/search?url=IMAGE_URL)|',
+      'Also try https://yandex.com/images/search?rpt=imageview&url=UPLOADED_IMAGE and [the source](https://news.example.com/story).',
+    ].join('\n');
+
+    const rewritten = rewriteReverseSearchLinks(markdown, IMAGE_URL);
+
+    expect(rewritten).toContain(`[TinEye](https://tineye.com/search?url=${encodeURIComponent(IMAGE_URL)})|`);
+    expect(rewritten).toContain(`https://yandex.com/images/search?rpt=imageview&url=${encodeURIComponent(IMAGE_URL)} and`);
+    expect(rewritten).toContain('[the source](https://news.example.com/story)');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { highlightSegments, searchTerms } from '../../src/services/searchHighlight';
+
+describe('searchTerms', () => {
+  it('keeps distinct words of three or more characters', () => {
+    expect(searchTerms('The flood in Miami, the FLOOD')).toEqual(['the', 'flood', 'miami']);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('marks case-insensitive term matches', () => {
+    expect(highlightSegments('Flooding hit Miami.', 'miami flood')).toEqual([
+      { text: 'Flood', isMatch: true },
+      { text: 'ing hit ', isMatch: false },
+      { text: 'Miami', isMatch: true },
+      { text: '.', isMatch: false },
+    ]);
+  });
+
+  it('treats regex characters in the query literally', () => {
+    expect(highlightSegments('costs $100 (approx)', '(approx)')).toEqual([
+      { text: 'costs $100 (', isMatch: false },
+      { text: 'approx', isMatch: true },
+      { text: ')', isMatch: false },
+    ]);
+  });
+
+  it('returns the text unmarked when the query has no terms', () => {
+    expect(highlightSegments('Some text', 'a b')).toEqual([{ text: 'Some text', isMatch: false }]);
+  });
+});
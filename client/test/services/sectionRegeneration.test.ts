@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseReportIntoSections } from '../../src/services/reportParser';
+import {
+  regeneratedSectionBody,
+  replaceReportSection,
+  reportSectionBody,
+  undoSectionRevision,
+} from '../../src/services/sectionRegeneration';
+
+const REPORT = [
+  'Generated 19 October 2026',
+  'AI-Generated: Possibly inaccurate',
+  '',
+  '## 1. Verified Facts',
+  '| Statement | Status | Clarification & Correction | Confidence (1–5) |',
+  '|---|---|---|---|',
+  '| The bridge collapsed | ✅ Correct | Confirmed by the city | 5 |',
+  '',
+  '## 4. Source Usefulness',
+  'Thin.',
+  '',
+  '### Verdict',
+  'Vague.',
+].join('\n');
+
+describe('reportSectionBody', () => {
+  it('reads a section by its parsed header line', () => {
+    const sourceSection = parseReportIntoSections(REPORT).find(section => section.title === '4. Source Usefulness')!;
+    expect(reportSectionBody(REPORT, sourceSection.rawTitle)).toBe('Thin.');
+    expect(reportSectionBody(REPORT, '## 9. Missing')).toBeNull();
+  });
+});
+
+describe('replaceReportSection', () => {
+  it('splices a new body in and leaves the other sections untouched', () => {
+    const updated = replaceReportSection(REPORT, '## 4. Source Usefulness', '| Source | Usefulness |\n|---|---|\n| City | High |');
+
+    const sections = parseReportIntoSections(updated);
+    expect(sections.map(section => section.title)).toEqual(['Report Information', '1. Verified Facts', '4. Source Usefulness', 'Verdict']);
+    expect(sections[2].content).toBe('| Source | Usefulness |\n|---|---|\n| City | High |');
+    expect(sections[3].content).toBe('Vague.');
+  });
+
+  it('replaces the last section', () => {
+    expect(replaceReportSection(REPORT, '### Verdict', 'Mostly true.').endsWith('### Verdict\n\nMostly true.')).toBe(true);
+  });
+});
+
+describe('regeneratedSectionBody', () => {
+  it('drops a repeated heading and anything after the next section heading', () => {
+    expect(regeneratedSectionBody('## 4. Source Usefulness\nBetter.\n\n## 5. Verdict\nExtra')).toBe('Better.');
+  });
+});
+
+describe('undoSectionRevision', () => {
+  it('restores the latest revision of that section only', () => {
+    const revisions = [
+      { rawTitle: '### Verdict', content: 'First.' },
+      { rawTitle: '## 4. Source Usefulness', content: 'Thin.' },
+      { rawTitle: '### Verdict', content: 'Vague.' },
+    ];
+    const regenerated = replaceReportSection(REPORT, '### Verdict', 'Mostly true.');
+
+    const undone = undoSectionRevision(regenerated, revisions, '### Verdict');
+
+    expect(reportSectionBody(undone.text, '### Verdict')).toBe('Vague.');
+    expect(undone.revisions).toEqual(revisions.slice(0, 2));
+  });
+});
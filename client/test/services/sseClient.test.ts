@@ -0,0 +1,242 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createSseFrameReader,
+  openSiftStream,
+  parseSseFrame,
+  parseSseTranscript,
+  SiftStreamEvent,
+  SiftStreamHandlers,
+} from '../../src/services/sseClient';
+
+const loadTranscript = (name: string): string =>
+  readFileSync(path.join(__dirname, '../fixtures/sse', name), 'utf8');
+
+// Serves a transcript as a streaming body, split into fixed-size chunks so frames
+// straddle chunk boundaries the way they do on a real connection.
+const streamResponse = (body: string, chunkSize = 7): Response => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < body.length; i += chunkSize) {
+        controller.enqueue(encoder.encode(body.slice(i, i + chunkSize)));
+      }
+      controller.close();
+    },
+  }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const recordingHandlers = () => {
+  const events: SiftStreamEvent[] = [];
+  const record = (event: SiftStreamEvent) => { events.push(event); };
+  const handlers: SiftStreamHandlers = {
+    delta: record,
+    text_chunk: record,
+    analysis_id: record,
+    sources: record,
+    error: record,
+    complete: record,
+    unknown: record,
+  };
+  return { events, handlers };
+};
+
+const NO_DELAY_POLICY = { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseSseFrame', () => {
+  it('reads id, event name and data', () => {
+    expect(parseSseFrame('id: 4\nevent: complete\ndata: {"message":"done"}')).toEqual({
+      id: '4',
+      event: 'complete',
+      data: '{"message":"done"}',
+    });
+  });
+
+  it('joins multi-line data and defaults the event name to message', () => {
+    expect(parseSseFrame('data: line one\ndata: line two')).toEqual({ event: 'message', data: 'line one\nline two' });
+  });
+
+  it('ignores comment-only frames', () => {
+    expect(parseSseFrame(': keepalive')).toBeNull();
+  });
+});
+
+describe('createSseFrameReader', () => {
+  it('only emits frames once they are complete', () => {
+    const reader = createSseFrameReader();
+    expect(reader.push('data: {"delta":"a"}\n')).toEqual([]);
+    expect(reader.push('\ndata: {"del')).toEqual([{ event: 'message', data: '{"delta":"a"}' }]);
+    expect(reader.flush()).toEqual([{ event: 'message', data: '{"del' }]);
+  });
+
+  it('normalises CRLF line endings', () => {
+    const reader = createSseFrameReader();
+    expect(reader.push('event: complete\r\ndata: {}\r\n\r\n')).toEqual([{ event: 'complete', data: '{}' }]);
+  });
+});
+
+describe('parseSseTranscript', () => {
+  it('parses a recorded initial report stream', () => {
+    expect(parseSseTranscript(loadTranscript('initial_report.sse'))).toEqual([
+      { type: 'analysis_id', analysisId: '3f2a9c1e-5b7d-4e21-9a0c-2d6f8b1e4c77' },
+      { type: 'delta', text: '## Verified Facts\n' },
+      { type: 'delta', text: '| Statement | Status | Clarification | Confidence |\n' },
+      { type: 'delta', text: 'Generated 19 October 2026' },
+      { type: 'complete', message: 'Stream finished' },
+    ]);
+  });
+
+  it('parses a recorded chat stream', () => {
+    expect(parseSseTranscript(loadTranscript('chat.sse'))).toEqual([
+      { type: 'delta', text: 'The photo ' },
+      { type: 'delta', text: 'predates the event.' },
+      { type: 'complete', message: 'Chat stream finished' },
+    ]);
+  });
+
+  it('maps backend error events', () => {
+    expect(parseSseTranscript(loadTranscript('error.sse')).at(-1)).toEqual({
+      type: 'error',
+      errorType: 'RateLimitError',
+      message: 'Rate limit exceeded for model',
+    });
+  });
+
+  it('parses the sources event and drops chunks without a web uri', () => {
+    const events = parseSseTranscript(loadTranscript('chat_with_sources.sse'));
+    expect(events.map(event => event.type)).toEqual(['delta', 'sources', 'complete']);
+    expect(events[1]).toEqual({
+      type: 'sources',
+      sources: [
+        { web: { uri: 'https://www.reuters.com/a', title: 'Reuters' } },
+        { web: { uri: 'https://apnews.com/b', title: 'https://apnews.com/b' } },
+      ],
+    });
+  });
+
+  it('reads the stored report version of a response', () => {
+    expect(parseSseTranscript('event: report_version\ndata: {"analysis_id":"a1","version_number":3}\n\n')).toEqual([
+      { type: 'report_version', analysisId: 'a1', versionNumber: 3 },
+    ]);
+  });
+
+  it('keeps text_chunk replacements and unrecognised events', () => {
+    expect(parseSseTranscript('data: {"text_chunk":"whole"}\n\nevent: progress\ndata: {}\n\n')).toEqual([
+      { type: 'text_chunk', text: 'whole' },
+      { type: 'unknown', event: 'progress', data: '{}' },
+    ]);
+  });
+
+  it('reports unparsable error payloads', () => {
+    expect(parseSseTranscript('event: error\ndata: not json\n\n')).toEqual([
+      { type: 'error', errorType: 'ParseError', message: 'Failed to parse error data' },
+    ]);
+  });
+
+  it('ignores payloads of the wrong shape', () => {
+    expect(parseSseTranscript('data: "text"\n\nevent: analysis_id\ndata: {"analysis_id":7}\n\nevent: error\ndata: ["boom"]\n\n')).toEqual([
+      { type: 'error', errorType: 'UnknownError', message: 'An error occurred on the backend.' },
+    ]);
+  });
+});
+
+describe('openSiftStream', () => {
+  it('dispatches each event of a transcript to its handler', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse(loadTranscript('chat.sse'))));
+    const { events, handlers } = recordingHandlers();
+
+    await openSiftStream({ url: '/api/sift/chat', method: 'POST', body: '{}' }, handlers);
+
+    expect(events.map(event => event.type)).toEqual(['delta', 'delta', 'complete']);
+  });
+
+  it('stops at the first error event', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse(loadTranscript('error.sse'))));
+    const { events, handlers } = recordingHandlers();
+
+    await openSiftStream({ url: '/stream' }, handlers, { reconnect: NO_DELAY_POLICY });
+
+    expect(events.map(event => event.type)).toEqual(['analysis_id', 'delta', 'error']);
+  });
+
+  it('treats a non-resumable stream that closes without complete as finished', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse('data: {"delta":"cut"}\n\n')));
+    const { events, handlers } = recordingHandlers();
+
+    await openSiftStream({ url: '/api/sift/chat', method: 'POST' }, handlers);
+
+    expect(events).toEqual([{ type: 'delta', text: 'cut' }, { type: 'complete' }]);
+  });
+
+  it('resumes a dropped stream with the last event id', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(streamResponse('id: 1\ndata: {"delta":"Hello"}\n\n'))
+      .mockResolvedValueOnce(streamResponse('id: 2\ndata: {"delta":" world"}\n\nid: 3\nevent: complete\ndata: {}\n\n'));
+    vi.stubGlobal('fetch', fetchMock);
+    const { events, handlers } = recordingHandlers();
+    const reconnecting = vi.fn();
+
+    await openSiftStream({ url: '/stream' }, { ...handlers, reconnecting }, { reconnect: NO_DELAY_POLICY });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers['Last-Event-ID']).toBe('1');
+    expect(reconnecting).toHaveBeenCalledWith(1, 0);
+    expect(events.map(event => event.type === 'delta' ? event.text : event.type)).toEqual(['Hello', ' world', 'complete']);
+  });
+
+  it('gives up after the configured number of reconnect attempts', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => { throw new TypeError('Failed to fetch'); });
+    vi.stubGlobal('fetch', fetchMock);
+    const { events, handlers } = recordingHandlers();
+
+    await openSiftStream({ url: '/stream' }, handlers, { reconnect: NO_DELAY_POLICY });
+
+    expect(fetchMock).toHaveBeenCalledTimes(NO_DELAY_POLICY.maxAttempts + 1);
+    expect(events).toEqual([{ type: 'error', errorType: 'NetworkError', message: 'Failed to fetch' }]);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetchMock = vi.fn(async () => new Response('{"error":{"type":"NotFound"}}', { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { events, handlers } = recordingHandlers();
+
+    await openSiftStream({ url: '/stream' }, handlers, { reconnect: NO_DELAY_POLICY });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(events[0]).toMatchObject({ type: 'error', errorType: 'NetworkError' });
+  });
+
+  it('rejects with a handler exception instead of reconnecting', async () => {
+    const fetchMock = vi.fn(async () => streamResponse('id: 1\ndata: {"delta":"Hello"}\n\n'));
+    vi.stubGlobal('fetch', fetchMock);
+    const { events, handlers } = recordingHandlers();
+    const handlerError = new Error('render failed');
+
+    await expect(openSiftStream({ url: '/stream' }, { ...handlers, delta: () => { throw handlerError; } }, { reconnect: NO_DELAY_POLICY }))
+      .rejects.toBe(handlerError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([]);
+  });
+
+  it('ends silently when aborted', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }));
+    const { events, handlers } = recordingHandlers();
+
+    await openSiftStream({ url: '/stream' }, handlers, { signal: controller.signal, reconnect: NO_DELAY_POLICY });
+
+    expect(events).toEqual([]);
+  });
+});
@@ -4,14 +4,21 @@ require 'json'
 require 'sinatra/cross_origin'
 require 'dotenv/load' # Loads environment variables from .env
 require 'securerandom' # For generating unique IDs
+require 'fileutils'
 require_relative 'config/database' # Load database configuration
 require_relative 'config/config' # Load API key configuration
 require_relative 'config/initializers/ruby_llm' # Load AI service configuration
 require_relative 'app/services/sift_service'
 require_relative 'app/services/ai_service' # For AIService.continue_sift_chat
+require_relative 'app/services/agent_manager'
 require_relative 'app/services/embedding_service'
+require_relative 'app/services/stream_registry'
 require_relative 'lib/image_handler'
+require_relative 'lib/upload_store'
+require_relative 'lib/image_publisher'
+require_relative 'lib/model_parameters'
 require_relative 'app/controllers/url_controller'
+require_relative 'app/controllers/search_controller'
 
 class MyCustomError < StandardError; end
 
@@ -47,8 +54,8 @@ end
 # In production, this should be set to the actual frontend domain.
 set :allow_origin, ENV.fetch('FRONTEND_URL', 'http://localhost:5173')
 set :allow_methods, %i[get post put delete options]
-set :allow_headers, %w[Content-Type Authorization X-Requested-With]
-set :expose_headers, ['Content-Type'] # Optional: Add any other headers you want to expose
+set :allow_headers, %w[Content-Type Authorization X-Requested-With Last-Event-ID]
+set :expose_headers, ['Content-Type', 'Content-Disposition'] # Optional: Add any other headers you want to expose
 
 # Centralized Error Handling
 # Provides consistent JSON error responses and logs issues.
@@ -137,7 +144,8 @@ end
 
 # Helper method for SSE streaming
 helpers do
-  def send_sse_event(out, event_type, data)
+  # Pass id: to tag the event so clients can resume with Last-Event-ID.
+  def send_sse_event(out, event_type, data, id: nil)
     return if out.closed?
 
     sse_message = case event_type
@@ -148,12 +156,76 @@ helpers do
                   else
                     "#{event_type}: #{data}\n\n"
                   end
+    sse_message = "id: #{id}\n#{sse_message}" if id
 
     out << sse_message
     out.flush if out.respond_to?(:flush) # Ensure immediate transmission
   rescue StandardError => e
     settings.logger.error "Error sending SSE event: #{e.message}"
   end
+
+  # Deltas go out as unnamed data events (EventSource#onmessage); everything else as named events.
+  def send_registry_event(out, event)
+    if event[:event] == 'delta'
+      send_sse_event(out, :data, event[:data], id: event[:id])
+    else
+      send_sse_event(out, :event, { event: event[:event], data: event[:data] }, id: event[:id])
+    end
+  end
+
+  # AIService yields raw content chunks, or error events it has already formatted as SSE.
+  def record_ai_service_output(stream_id, content_or_event)
+    return unless content_or_event.is_a?(String) && !content_or_event.strip.empty?
+
+    if content_or_event.start_with?('event:')
+      event_name = content_or_event[/^event: *(.+)$/, 1]&.strip || 'error'
+      data_json = content_or_event[/^data: *(.+)$/, 1]
+      data = begin
+        data_json ? JSON.parse(data_json) : {}
+      rescue JSON::ParserError
+        { type: 'StreamingError', message: data_json }
+      end
+      StreamRegistry.append(stream_id, event_name, data)
+    else
+      StreamRegistry.append(stream_id, 'delta', { delta: content_or_event })
+    end
+  end
+
+  # Runs AIService.generate_sift_stream (or another AIService generator, e.g.
+  # :generate_consensus_stream) and records its output in the StreamRegistry.
+  # Intended to run on a background thread; always finishes the stream.
+  def run_sift_generation(stream_id, generator: :generate_sift_stream, **generation_args)
+    settings.logger.info("Stream #{stream_id}: calling AIService.#{generator} (images: #{Array(generation_args[:image_files]).length})")
+    result = AIService.public_send(generator, **generation_args) do |content_or_event|
+      if StreamRegistry.cancelled?(stream_id)
+        settings.logger.info("Stream #{stream_id} cancelled; stopping generation.")
+        break
+      end
+
+      record_ai_service_output(stream_id, content_or_event)
+    end
+
+    # Send analysis_id if available for follow-up messages
+    analysis_id = result && result[:persistence_result] && result[:persistence_result][:analysis_id]
+    if analysis_id
+      settings.logger.info("Stream #{stream_id}: recording analysis_id #{analysis_id}")
+      StreamRegistry.append(stream_id, 'analysis_id', { analysis_id: analysis_id })
+      version_number = result[:persistence_result][:version_number]
+      StreamRegistry.append(stream_id, 'report_version', { analysis_id: analysis_id, version_number: version_number }) if version_number
+    end
+
+    message = StreamRegistry.cancelled?(stream_id) ? 'Stream cancelled' : 'Stream finished'
+    StreamRegistry.append(stream_id, 'complete', { message: message })
+  rescue RubyLLM::Error => e
+    settings.logger.error("Stream #{stream_id}: RubyLLM::Error #{e.message} - Details: #{e.try(:response)&.body}")
+    StreamRegistry.append(stream_id, 'error', { type: e.class.name, message: e.message, details: e.try(:response)&.body })
+  rescue StandardError => e
+    settings.logger.error("Stream #{stream_id}: #{e.message}\n#{e.backtrace.join("\n")}")
+    StreamRegistry.append(stream_id, 'error',
+                          { type: 'StreamingError', message: "An error occurred while processing your request: #{e.message}" })
+  ensure
+    StreamRegistry.finish(stream_id)
+  end
 end
 
 # Basic health check route
@@ -163,61 +235,23 @@ get '/api/health' do
   { message: 'OK', timestamp: Time.now.iso8601 }.to_json
 end
 
-# Semantic search endpoint for URL content
+# Semantic search over processed URL content and stored SIFT analyses
 post '/api/search/semantic' do
   settings.logger.info "Received #{request.request_method} request for #{request.path_info}"
   content_type :json
 
   begin
-    # Parse request body
-    request_body = request.body.read
-    data = JSON.parse(request_body)
-    
-    query = data['query']&.strip
-    limit = (data['limit'] || 10).to_i.clamp(1, 50)
-    
-    if query.nil? || query.empty?
-      halt 400, { error: 'Query parameter is required' }.to_json
-    end
-
-    # Generate embedding for the search query
-    query_embedding = EmbeddingService.generate_embedding(text: query)
-    
-    if query_embedding.nil?
-      halt 500, { error: 'Failed to generate embedding for query' }.to_json
-    end
-
-    # Search for similar content
-    results = ProcessedUrl.search_similar(query_embedding, limit)
-    
-    # Format response
-    formatted_results = results.map do |url|
-      {
-        id: url.id,
-        url: url.original_url,
-        title: url.extracted_title,
-        content_preview: url.content_preview(300),
-        processed_at: url.processed_at,
-        similarity_score: url.similarity_to(query_embedding)
-      }
-    end
-
-    {
-      success: true,
-      query: query,
-      results: formatted_results,
-      total_results: formatted_results.length
-    }.to_json
-
-  rescue JSON::ParserError
-    halt 400, { error: 'Invalid JSON in request body' }.to_json
-  rescue EmbeddingService::EmbeddingError => e
-    settings.logger.error "Embedding generation failed: #{e.message}"
-    halt 500, { error: 'Failed to process search query' }.to_json
-  rescue StandardError => e
-    settings.logger.error "Semantic search error: #{e.message}"
-    halt 500, { error: 'Internal server error during search' }.to_json
+    request.body.rewind
+    params_data = JSON.parse(request.body.read)
+  rescue JSON::ParserError => e
+    settings.logger.error "Invalid JSON in request body: #{e.message}"
+    halt 400, { error: { type: 'InvalidJSONError', message: 'Invalid JSON in request body' } }.to_json
   end
+  halt 400, { error: { type: 'InvalidJSONError', message: 'Request body must be a JSON object' } }.to_json unless params_data.is_a?(Hash)
+
+  result = SearchController.semantic(params_data, settings.logger)
+  status result[:status]
+  result[:body].to_json
 end
 
 # Model configuration endpoint - serves AI model configurations
@@ -255,17 +289,33 @@ get '/api/models/config' do
         description: 'Controls randomness. Lower for more predictable, higher for more creative.'
       }
 
+      # Reasoning models choose how long to think and reject sampling settings such as Top-P
+      reasoning = %w[openai openrouter].include?(model.provider.downcase) && Array(model.capabilities).include?('reasoning')
+
+      if reasoning
+        parameters << {
+          key: 'reasoning_effort',
+          label: 'Reasoning Effort',
+          type: 'select',
+          defaultValue: 'medium',
+          options: ModelParameters::REASONING_EFFORTS.map { |effort| { value: effort, label: effort.capitalize } },
+          description: 'How much the model reasons before answering. Higher is slower but more thorough.'
+        }
+      end
+
       # Top-P parameter
-      parameters << {
-        key: 'topP',
-        label: 'Top-P',
-        type: 'slider',
-        min: 0,
-        max: 1,
-        step: 0.01,
-        defaultValue: 0.95,
-        description: 'Nucleus sampling. Considers tokens with probability mass adding up to topP.'
-      }
+      unless reasoning
+        parameters << {
+          key: 'topP',
+          label: 'Top-P',
+          type: 'slider',
+          min: 0,
+          max: 1,
+          step: 0.01,
+          defaultValue: 0.95,
+          description: 'Nucleus sampling. Considers tokens with probability mass adding up to topP.'
+        }
+      end
 
       # Add max_tokens for OpenAI/OpenRouter models
       if %w[openai openrouter].include?(model.provider.downcase)
@@ -296,6 +346,29 @@ get '/api/models/config' do
         }
       end
 
+      parameters << {
+        key: 'stop_sequences',
+        label: 'Stop Sequences',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'e.g. END, ###',
+        description: "Generation stops at any of these. Separate up to #{ModelParameters::MAX_STOP_SEQUENCES} with commas."
+      }
+
+      # Anthropic models do not support seeded sampling
+      unless %w[anthropic bedrock].include?(model.provider.downcase)
+        parameters << {
+          key: 'seed',
+          label: 'Seed',
+          type: 'number',
+          min: 0,
+          max: ModelParameters::MAX_SEED,
+          step: 1,
+          defaultValue: '',
+          description: 'Makes sampling repeatable on a best-effort basis. Leave empty for a random seed.'
+        }
+      end
+
       {
         id: model.id,
         name: model.name,
@@ -353,6 +426,31 @@ get '/api/models/config' do
   end
 end
 
+# Report types the input form offers, described by the agent configs in
+# config/agents (their `report_types` entries)
+get '/api/report-types' do
+  settings.logger.info "Received #{request.request_method} request for #{request.path_info}"
+  content_type :json
+
+  begin
+    report_types = AgentManager.report_types.map do |report_type|
+      {
+        id: report_type[:id],
+        label: report_type[:label],
+        description: report_type[:description],
+        requiredInputs: report_type[:required_inputs],
+        requiresVision: report_type[:requires_vision],
+        sections: report_type[:sections]
+      }
+    end
+    { reportTypes: report_types }.to_json
+  rescue StandardError => e
+    settings.logger.error "Error loading report types: #{e.message}"
+    status 500
+    { error: { type: 'ReportTypeConfigError', message: "Failed to load report types: #{e.message}" } }.to_json
+  end
+end
+
 # New route for testing logging
 get '/api/test_log' do
   settings.logger.info "Received #{request.request_method} request for #{request.path_info}"
@@ -385,26 +483,128 @@ post '/api/sift/initiate' do
   # { :filename => "my_image.png", :type => "image/png",
   #   :name => "userImageFile", :tempfile => #<File:/tmp/RackMultipart2023...>,
   #   :head => "Content-Disposition: form-data; name="userImageFile"; filename="my_image.png"\r\nContent-Type: image/png\r\n" }
-  user_image_file_data = params['userImageFile']
+  # Multiple images arrive in order as userImageFiles[] (an array of such hashes),
+  # with their captions as a JSON array in userImageCaptions. The single
+  # userImageFile field is still accepted for older clients.
+  # A restarted query instead sends userImageUploadIds: a JSON array of the ids
+  # returned when its images were first uploaded.
+  user_image_uploads = params['userImageFiles'].is_a?(Array) ? params['userImageFiles'] : []
+  user_image_uploads += [params['userImageFile']] if params['userImageFile']
+  image_captions_json = params['userImageCaptions']
+  image_upload_ids_json = params['userImageUploadIds']
   report_type = params['reportType']
   selected_model_id = params['selectedModelId']
   model_config_params_json = params['modelConfigParams']
+  url_context_json = params['urlContext']
+  selected_claims_json = params['selectedClaims']
+  # Set when the query is restarted; the new report is stored as the next version of that analysis
+  restart_of_analysis_id = params['restartOfAnalysisId'].to_s.strip
+  restart_of_analysis_id = nil if restart_of_analysis_id.empty?
+  # Plain-text findings of the client's in-browser image forensics (EXIF/XMP, hashes)
+  image_forensics = params['imageForensics'].is_a?(String) && !params['imageForensics'].strip.empty? ? params['imageForensics'] : nil
 
   settings.logger.debug "Raw params: #{params.inspect}" # For detailed debugging
   settings.logger.debug "userInputText: #{user_input_text.nil? || user_input_text.empty? ? 'empty' : user_input_text[0..50]}"
-  settings.logger.debug "userImageFile: #{user_image_file_data.inspect if user_image_file_data}"
+  settings.logger.debug "userImageFiles: #{user_image_uploads.length} upload(s)"
   settings.logger.debug "reportType: #{report_type}"
   settings.logger.debug "selectedModelId: #{selected_model_id}"
   settings.logger.debug "modelConfigParams_json: #{model_config_params_json}"
 
   # Validation
   has_text = user_input_text && !user_input_text.strip.empty?
-  has_image = user_image_file_data && user_image_file_data[:tempfile] && user_image_file_data[:filename]
+  user_image_uploads = user_image_uploads.select { |upload| upload.is_a?(Hash) && upload[:tempfile] && upload[:filename] }
+
+  image_upload_ids = []
+  if image_upload_ids_json && !image_upload_ids_json.strip.empty?
+    begin
+      image_upload_ids = JSON.parse(image_upload_ids_json)
+    rescue JSON::ParserError => e
+      settings.logger.warn "JSON Parsing Error for userImageUploadIds: #{e.message}"
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: "Invalid JSON format for userImageUploadIds: #{e.message}" } }.to_json
+    end
+    unless image_upload_ids.is_a?(Array) && image_upload_ids.all? { |upload_id| upload_id.is_a?(String) }
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: 'userImageUploadIds must be a JSON array of strings.' } }.to_json
+    end
+  end
 
-  unless has_text || has_image
-    settings.logger.warn 'Validation failed: userInputText or userImageFile is required.'
+  unless user_image_uploads.empty? || image_upload_ids.empty?
     halt 400, { 'Content-Type' => 'application/json' },
-         { error: { type: 'MissingParameterError', message: 'Either userInputText or userImageFile must be provided and contain data.' } }.to_json
+         { error: { type: 'InvalidParameterError', message: 'Send either userImageFiles or userImageUploadIds, not both.' } }.to_json
+  end
+  image_count = user_image_uploads.length + image_upload_ids.length
+  has_image = image_count.positive?
+
+  if image_count > ImageHandler::MAX_IMAGES_PER_QUERY
+    settings.logger.warn "Validation failed: #{image_count} images uploaded."
+    halt 400, { 'Content-Type' => 'application/json' },
+         { error: { type: 'InvalidParameterError', message: "At most #{ImageHandler::MAX_IMAGES_PER_QUERY} images can be uploaded per query." } }.to_json
+  end
+
+  image_captions = []
+  if image_captions_json && !image_captions_json.strip.empty?
+    begin
+      image_captions = JSON.parse(image_captions_json)
+    rescue JSON::ParserError => e
+      settings.logger.warn "JSON Parsing Error for userImageCaptions: #{e.message}"
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: "Invalid JSON format for userImageCaptions: #{e.message}" } }.to_json
+    end
+    unless image_captions.is_a?(Array) && image_captions.all? { |caption| caption.is_a?(String) }
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: 'userImageCaptions must be a JSON array of strings.' } }.to_json
+    end
+  end
+
+  # Article extracted client-side via /api/url/extract, sent as a JSON object string:
+  # { "url": ..., "finalUrl": ..., "title": ..., "content": ... }
+  url_context = nil
+  if url_context_json && !url_context_json.strip.empty?
+    begin
+      parsed_url_context = JSON.parse(url_context_json)
+    rescue JSON::ParserError => e
+      settings.logger.warn "JSON Parsing Error for urlContext: #{e.message}"
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: "Invalid JSON format for urlContext: #{e.message}" } }.to_json
+    end
+    unless parsed_url_context.is_a?(Hash) && parsed_url_context['url'].is_a?(String) &&
+           parsed_url_context['content'].is_a?(String) && !parsed_url_context['content'].strip.empty?
+      settings.logger.warn 'Validation failed: urlContext must include url and non-empty content.'
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: 'urlContext must be a JSON object with a url and non-empty content.' } }.to_json
+    end
+    url_context = {
+      url: parsed_url_context['url'],
+      final_url: parsed_url_context['finalUrl'],
+      title: parsed_url_context['title'],
+      content: parsed_url_context['content']
+    }
+  end
+
+  # Claims the user picked after POST /api/sift/claims, as a JSON array of strings
+  selected_claims = nil
+  if selected_claims_json && !selected_claims_json.strip.empty?
+    begin
+      selected_claims = JSON.parse(selected_claims_json)
+    rescue JSON::ParserError => e
+      settings.logger.warn "JSON Parsing Error for selectedClaims: #{e.message}"
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError', message: "Invalid JSON format for selectedClaims: #{e.message}" } }.to_json
+    end
+    unless selected_claims.is_a?(Array) && selected_claims.all? { |claim| claim.is_a?(String) && !claim.strip.empty? } &&
+           selected_claims.length.between?(1, AIService::MAX_SELECTED_CLAIMS)
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'InvalidParameterError',
+                      message: "selectedClaims must be a JSON array of 1 to #{AIService::MAX_SELECTED_CLAIMS} non-empty strings." } }.to_json
+    end
+    selected_claims = selected_claims.map { |claim| claim.strip[0, AIService::MAX_CLAIM_CHARS] }
+  end
+
+  unless has_text || has_image || url_context
+    settings.logger.warn 'Validation failed: userInputText, userImageFiles or urlContext is required.'
+    halt 400, { 'Content-Type' => 'application/json' },
+         { error: { type: 'MissingParameterError', message: 'Either userInputText, userImageFiles or urlContext must be provided and contain data.' } }.to_json
   end
 
   if report_type.nil? || report_type.strip.empty?
@@ -413,6 +613,19 @@ post '/api/sift/initiate' do
          { error: { type: 'MissingParameterError', message: 'reportType is a required parameter.' } }.to_json
   end
 
+  # Report types declare the inputs they cannot do without (e.g. an image for an image analysis)
+  report_type_config = AgentManager.find_report_type(report_type)
+  if report_type_config
+    provided_inputs = { 'text' => has_text || !url_context.nil?, 'image' => has_image }
+    missing_inputs = report_type_config[:required_inputs].reject { |input| provided_inputs[input] }
+    unless missing_inputs.empty?
+      settings.logger.warn "Validation failed: #{report_type_config[:id]} requires #{missing_inputs.join(', ')}."
+      halt 400, { 'Content-Type' => 'application/json' },
+           { error: { type: 'MissingParameterError',
+                      message: "A #{report_type_config[:label]} report requires: #{missing_inputs.join(', ')}." } }.to_json
+    end
+  end
+
   if selected_model_id.nil? || selected_model_id.strip.empty?
     settings.logger.warn 'Validation failed: selectedModelId is required.'
     halt 400, { 'Content-Type' => 'application/json' },
@@ -438,125 +651,384 @@ post '/api/sift/initiate' do
     model_config_params = {}
   end
 
+  # Copy the uploads out of Rack's tempfiles now: generation continues in the
+  # background after this request returns and Rack cleans up its tempfiles.
+  # Each new upload is also kept in the UploadStore so the query can be re-run.
+  image_files = []
+  user_image_uploads.each_with_index do |upload, index|
+    image_file_details = ImageHandler.process_uploaded_image(upload)
+    if image_file_details.nil?
+      settings.logger.error("Failed to process uploaded image #{index + 1} (#{upload[:filename]}).")
+      image_files.each { |image| FileUtils.rm_f(image[:file_path]) }
+      halt 422, { 'Content-Type' => 'application/json' },
+           { error: { type: 'ImageProcessingError', message: "Failed to process uploaded image #{index + 1}." } }.to_json
+    end
+    begin
+      image_file_details[:upload_id] = UploadStore.store(image_file_details[:file_path], image_file_details[:original_mime_type])
+    rescue StandardError => e
+      # The analysis can still run; it just cannot be restarted with this image.
+      settings.logger.error("Failed to store uploaded image #{index + 1}: #{e.class.name} - #{e.message}")
+    end
+    image_files << image_file_details.merge(caption: image_captions[index])
+  end
+  image_upload_ids.each_with_index do |upload_id, index|
+    image_file_details = UploadStore.checkout(upload_id)
+    if image_file_details.nil?
+      settings.logger.warn("Image upload #{upload_id} not found.")
+      image_files.each { |image| FileUtils.rm_f(image[:file_path]) }
+      halt 404, { 'Content-Type' => 'application/json' },
+           { error: { type: 'NotFoundError', message: "Image #{index + 1} of this query is no longer stored on the server (#{upload_id})." } }.to_json
+    end
+    image_files << image_file_details.merge(caption: image_captions[index])
+  end
+
+  stream_id = StreamRegistry.create
+  settings.logger.info "Registered stream #{stream_id} for /api/sift/initiate. Client: #{request.ip}"
+
+  Thread.new do
+    run_sift_generation(
+      stream_id,
+      # A URL-only analysis is stored under its URL so it shows up in history
+      user_input_text: has_text ? user_input_text : url_context&.dig(:url),
+      image_files: image_files,
+      image_forensics: has_image ? image_forensics : nil,
+      url_context: url_context,
+      selected_claims: selected_claims,
+      report_type: report_type,
+      selected_model_id: selected_model_id,
+      model_config_params: model_config_params,
+      chat_history: [],
+      restart_of_analysis_id: restart_of_analysis_id
+    )
+  ensure
+    image_files.each { |image| FileUtils.rm_f(image[:file_path]) }
+  end
+
+  content_type :json
+  {
+    streamUrl: "#{request.base_url}/api/sift/stream/#{stream_id}",
+    streamId: stream_id,
+    # Ids of the stored query images in order (null where storing failed), for re-running the query
+    imageUploadIds: image_files.map { |image| image[:upload_id] }
+  }.to_json
+end
+
+# Split the text under analysis into atomic claims for the user to review before
+# starting a report; the picked claims are then sent to /api/sift/initiate as selectedClaims.
+# Body: { "userInputText": "...", "selectedModelId": "...", "modelConfigParams": {...},
+#         "urlContext": { "url": ..., "finalUrl": ..., "title": ..., "content": ... } }
+post '/api/sift/claims' do
+  settings.logger.info "POST /api/sift/claims - Received request from #{request.ip}"
+  content_type :json
+
+  begin
+    request.body.rewind
+    params_data = JSON.parse(request.body.read)
+  rescue JSON::ParserError => e
+    settings.logger.error "Invalid JSON in request body: #{e.message}"
+    halt 400, { error: { type: 'InvalidJSONError', message: 'Invalid JSON in request body' } }.to_json
+  end
+  halt 400, { error: { type: 'InvalidJSONError', message: 'Request body must be a JSON object' } }.to_json unless params_data.is_a?(Hash)
+
+  user_input_text = params_data['userInputText']
+  selected_model_id = params_data['selectedModelId']
+  model_config_params = params_data['modelConfigParams'] || {}
+  raw_url_context = params_data['urlContext']
+
+  if selected_model_id.nil? || selected_model_id.to_s.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'selectedModelId is a required parameter.' } }.to_json
+  end
+  unless model_config_params.is_a?(Hash)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'modelConfigParams must be a JSON object.' } }.to_json
+  end
+
+  url_context = nil
+  unless raw_url_context.nil?
+    unless raw_url_context.is_a?(Hash) && raw_url_context['url'].is_a?(String) &&
+           raw_url_context['content'].is_a?(String) && !raw_url_context['content'].strip.empty?
+      halt 400, { error: { type: 'InvalidParameterError', message: 'urlContext must be a JSON object with a url and non-empty content.' } }.to_json
+    end
+    url_context = {
+      url: raw_url_context['url'],
+      final_url: raw_url_context['finalUrl'],
+      title: raw_url_context['title'],
+      content: raw_url_context['content']
+    }
+  end
+
+  has_text = user_input_text.is_a?(String) && !user_input_text.strip.empty?
+  unless has_text || url_context
+    halt 400, { error: { type: 'MissingParameterError', message: 'Either userInputText or urlContext must be provided to extract claims.' } }.to_json
+  end
+
+  begin
+    claims = AIService.extract_claims(
+      user_input_text: has_text ? user_input_text : nil,
+      selected_model_id: selected_model_id,
+      model_config_params: model_config_params,
+      url_context: url_context
+    )
+  rescue AIService::ClaimExtractionError => e
+    halt 422, { error: { type: 'ClaimExtractionError', message: e.message } }.to_json
+  rescue StandardError => e
+    settings.logger.error "Claim extraction failed: #{e.class.name} - #{e.message}"
+    halt 502, { error: { type: 'AIServiceError', message: "Claim extraction failed: #{e.message}" } }.to_json
+  end
+
+  { claims: claims }.to_json
+end
+
+# Merge several completed analyses of the same query into one consensus Full Check.
+# Body: { "analysisIds": [...], "selectedModelId": "...", "modelConfigParams": {...} }
+# The consensus streams like /api/sift/initiate and is stored as its own analysis.
+post '/api/sift/consensus' do
+  settings.logger.info "POST /api/sift/consensus - Received request from #{request.ip}"
+  content_type :json
+
+  begin
+    request.body.rewind
+    params_data = JSON.parse(request.body.read)
+  rescue JSON::ParserError => e
+    settings.logger.error "Invalid JSON in request body: #{e.message}"
+    halt 400, { error: { type: 'InvalidJSONError', message: 'Invalid JSON in request body' } }.to_json
+  end
+  halt 400, { error: { type: 'InvalidJSONError', message: 'Request body must be a JSON object' } }.to_json unless params_data.is_a?(Hash)
+
+  analysis_ids = params_data['analysisIds']
+  selected_model_id = params_data['selectedModelId']
+  model_config_params = params_data['modelConfigParams'] || {}
+
+  unless analysis_ids.is_a?(Array) && analysis_ids.all? { |analysis_id| analysis_id.is_a?(String) } &&
+         analysis_ids.uniq.length.between?(2, AIService::MAX_CONSENSUS_SOURCES)
+    halt 400, { error: { type: 'InvalidParameterError',
+                         message: "analysisIds must list between 2 and #{AIService::MAX_CONSENSUS_SOURCES} different analyses." } }.to_json
+  end
+  if selected_model_id.nil? || selected_model_id.to_s.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'selectedModelId is a required parameter.' } }.to_json
+  end
+  unless model_config_params.is_a?(Hash)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'modelConfigParams must be a JSON object.' } }.to_json
+  end
+
+  begin
+    source_analyses = PersistenceService.get_consensus_sources(analysis_ids.uniq)
+  rescue PersistenceService::AnalysisNotFoundError => e
+    halt 404, { error: { type: 'NotFoundError', message: e.message } }.to_json
+  rescue PersistenceService::PersistenceError => e
+    settings.logger.warn "Consensus sources unavailable: #{e.message}"
+    halt 422, { error: { type: 'InvalidParameterError', message: e.message } }.to_json
+  end
+
+  if source_analyses.map { |source| source[:user_query_text].to_s.strip }.uniq.length > 1
+    halt 422, { error: { type: 'InvalidParameterError', message: 'All analyses must be reports on the same query.' } }.to_json
+  end
+
+  stream_id = StreamRegistry.create
+  settings.logger.info "Registered stream #{stream_id} for a consensus of #{source_analyses.length} analyses."
+
+  Thread.new do
+    run_sift_generation(
+      stream_id,
+      generator: :generate_consensus_stream,
+      source_analyses: source_analyses,
+      selected_model_id: selected_model_id,
+      model_config_params: model_config_params.transform_keys(&:to_sym)
+    )
+  end
+
+  {
+    streamUrl: "#{request.base_url}/api/sift/stream/#{stream_id}",
+    streamId: stream_id
+  }.to_json
+end
+
+# Regenerate one section of a finished report, using the rest of the report as context.
+# Body: { "reportText": "...", "sectionHeading": "## 4. Source Usefulness", "userQuery": "...",
+#         "selectedModelId": "...", "modelConfigParams": {...} }
+# Streams only the new section body; the client splices it into the report it shows.
+post '/api/sift/section' do
+  settings.logger.info "POST /api/sift/section - Received request from #{request.ip}"
+  content_type :json
+
+  begin
+    request.body.rewind
+    params_data = JSON.parse(request.body.read)
+  rescue JSON::ParserError => e
+    settings.logger.error "Invalid JSON in request body: #{e.message}"
+    halt 400, { error: { type: 'InvalidJSONError', message: 'Invalid JSON in request body' } }.to_json
+  end
+  halt 400, { error: { type: 'InvalidJSONError', message: 'Request body must be a JSON object' } }.to_json unless params_data.is_a?(Hash)
+
+  report_text = params_data['reportText']
+  section_heading = params_data['sectionHeading']
+  user_query = params_data['userQuery']
+  selected_model_id = params_data['selectedModelId']
+  model_config_params = params_data['modelConfigParams'] || {}
+
+  unless report_text.is_a?(String) && !report_text.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'reportText is a required parameter.' } }.to_json
+  end
+  unless section_heading.is_a?(String) && section_heading.strip.match?(/\A###? \S/) &&
+         report_text.each_line.any? { |line| line.strip == section_heading.strip }
+    halt 400, { error: { type: 'InvalidParameterError', message: 'sectionHeading must be a heading line of reportText.' } }.to_json
+  end
+  unless user_query.nil? || user_query.is_a?(String)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'userQuery must be a string.' } }.to_json
+  end
+  if selected_model_id.nil? || selected_model_id.to_s.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'selectedModelId is a required parameter.' } }.to_json
+  end
+  unless model_config_params.is_a?(Hash)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'modelConfigParams must be a JSON object.' } }.to_json
+  end
+
+  stream_id = StreamRegistry.create
+  settings.logger.info "Registered stream #{stream_id} to regenerate section #{section_heading.strip.inspect}."
+
+  Thread.new do
+    run_sift_generation(
+      stream_id,
+      generator: :generate_section_stream,
+      report_text: report_text,
+      section_heading: section_heading,
+      user_query_text: user_query,
+      selected_model_id: selected_model_id,
+      model_config_params: model_config_params.transform_keys(&:to_sym)
+    )
+  end
+
+  {
+    streamUrl: "#{request.base_url}/api/sift/stream/#{stream_id}",
+    streamId: stream_id
+  }.to_json
+end
+
+# Ask the model for a shorter Community Note.
+# Body: { "noteText": "...", "maxChars": 600, "selectedModelId": "...", "modelConfigParams": {...} }
+# maxChars is the room left for the note's text once its sources are counted.
+post '/api/sift/community-note/shorten' do
+  settings.logger.info "POST /api/sift/community-note/shorten - Received request from #{request.ip}"
+  content_type :json
+
+  begin
+    request.body.rewind
+    params_data = JSON.parse(request.body.read)
+  rescue JSON::ParserError => e
+    settings.logger.error "Invalid JSON in request body: #{e.message}"
+    halt 400, { error: { type: 'InvalidJSONError', message: 'Invalid JSON in request body' } }.to_json
+  end
+  halt 400, { error: { type: 'InvalidJSONError', message: 'Request body must be a JSON object' } }.to_json unless params_data.is_a?(Hash)
+
+  note_text = params_data['noteText']
+  max_chars = params_data['maxChars']
+  selected_model_id = params_data['selectedModelId']
+  model_config_params = params_data['modelConfigParams'] || {}
+
+  unless note_text.is_a?(String) && !note_text.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'noteText is a required parameter.' } }.to_json
+  end
+  unless max_chars.is_a?(Integer) && max_chars.between?(1, AIService::COMMUNITY_NOTE_MAX_CHARS)
+    halt 400, { error: { type: 'InvalidParameterError',
+                         message: "maxChars must be an integer from 1 to #{AIService::COMMUNITY_NOTE_MAX_CHARS}." } }.to_json
+  end
+  if selected_model_id.nil? || selected_model_id.to_s.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'selectedModelId is a required parameter.' } }.to_json
+  end
+  unless model_config_params.is_a?(Hash)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'modelConfigParams must be a JSON object.' } }.to_json
+  end
+
+  begin
+    shortened = AIService.shorten_community_note(
+      note_text: note_text,
+      max_chars: max_chars,
+      selected_model_id: selected_model_id,
+      model_config_params: model_config_params
+    )
+  rescue AIService::CommunityNoteError => e
+    halt 422, { error: { type: 'CommunityNoteError', message: e.message } }.to_json
+  rescue StandardError => e
+    settings.logger.error "Community Note shortening failed: #{e.class.name} - #{e.message}"
+    halt 502, { error: { type: 'AIServiceError', message: "Shortening the note failed: #{e.message}" } }.to_json
+  end
+
+  { noteText: shortened }.to_json
+end
+
+# Serve a stored query image, e.g. to show the images of an analysis reopened from history
+get '/api/uploads/:upload_id' do
+  stored = UploadStore.find(params[:upload_id])
+  unless stored
+    content_type :json
+    halt 404, { error: { type: 'NotFoundError', message: "Upload not found: #{params[:upload_id]}" } }.to_json
+  end
+
+  cache_control :private, max_age: 86_400
+  send_file stored[:file_path], type: stored[:original_mime_type]
+end
+
+# Publish a stored query image at a public URL for reverse image search engines.
+# Goes through the configured upload proxy (IMAGE_PROXY_UPLOAD_URL) or PUBLIC_BASE_URL.
+post '/api/uploads/:upload_id/public-url' do
+  content_type :json
+  upload_id = params[:upload_id]
+  settings.logger.info "POST /api/uploads/#{upload_id}/public-url"
+
+  begin
+    { uploadId: upload_id, url: ImagePublisher.public_url(upload_id) }.to_json
+  rescue ImagePublisher::UploadNotFoundError => e
+    halt 404, { error: { type: 'NotFoundError', message: e.message } }.to_json
+  rescue ImagePublisher::NotConfiguredError => e
+    settings.logger.warn e.message
+    halt 503, { error: { type: 'ConfigurationError', message: e.message } }.to_json
+  rescue ImagePublisher::ProxyError => e
+    settings.logger.error "Publishing upload #{upload_id} failed: #{e.message}"
+    halt 502, { error: { type: 'UploadProxyError', message: e.message } }.to_json
+  end
+end
+
+# SSE endpoint for a registered SIFT generation stream.
+# Every event carries an `id:`; clients resume after a dropped connection by sending
+# the last id they saw as the Last-Event-ID header (or the lastEventId query param,
+# since EventSource cannot set headers on a manual reconnect).
+get '/api/sift/stream/:stream_id' do
+  stream_id = params[:stream_id]
+  last_event_id = (request.env['HTTP_LAST_EVENT_ID'] || params['lastEventId']).to_i
+  settings.logger.info "GET /api/sift/stream/#{stream_id} - Client: #{request.ip}, Last-Event-ID: #{last_event_id}"
+
+  unless StreamRegistry.exists?(stream_id)
+    settings.logger.warn "Stream not found: #{stream_id}"
+    halt 404, { 'Content-Type' => 'application/json' },
+         { error: { type: 'NotFoundError', message: "Stream not found: #{stream_id}" } }.to_json
+  end
+
   content_type 'text/event-stream'
   headers 'Cache-Control' => 'no-cache',
           'Connection' => 'keep-alive',
           'X-Accel-Buffering' => 'no' # Disable nginx buffering for immediate streaming
   stream(:keep_open) do |out|
-    settings.logger.info "SSE stream opened for /api/sift/initiate. Client: #{request.ip}"
     begin
-      called_service = false
-      if has_image
-        processed_image_successfully = false
-        ImageHandler.process_uploaded_image(user_image_file_data) do |image_details|
-          processed_image_successfully = true
-          settings.logger.info('Image processed successfully.')
-          settings.logger.info("Calling AIService.generate_sift_stream with user_input_text: #{has_text ? user_input_text : '[no text provided]'} and image.")
-          result = AIService.generate_sift_stream(
-            user_input_text: has_text ? user_input_text : nil,
-            image_file_details: image_details,
-            report_type: report_type,
-            selected_model_id: selected_model_id,
-            model_config_params: model_config_params,
-            chat_history: []
-          ) do |content_or_event|
-            if out.closed?
-              settings.logger.warn('Stream closed by client during AIService.generate_sift_stream with image')
-              break # Exit the loop if client disconnected
-            end
-
-            if content_or_event.start_with?('event:')
-              # This is an error event already formatted by AIService
-              settings.logger.debug("Streaming pre-formatted event from AIService: #{content_or_event.strip}")
-              out << content_or_event
-              out.flush if out.respond_to?(:flush)
-            elsif content_or_event.is_a?(String) && !content_or_event.strip.empty?
-              # This is raw content from AIService, needs formatting
-              send_sse_event(out, :data, { delta: content_or_event })
-              settings.logger.debug("Streaming data chunk to client: #{content_or_event.length} chars")
-            else
-              # Potentially empty string or unexpected content, log it but don't send
-              settings.logger.debug("Received empty or unexpected content from AIService: '#{content_or_event}' - not sending.")
-            end
-          end
-
-          # Send analysis_id if available for follow-up messages
-          if result && result[:persistence_result] && result[:persistence_result][:analysis_id]
-            analysis_id = result[:persistence_result][:analysis_id]
-            settings.logger.info("Sending analysis_id to client: #{analysis_id}")
-            send_sse_event(out, :event, { event: 'analysis_id', data: { analysis_id: analysis_id } })
-          end
-          called_service = true
-        end
-        unless processed_image_successfully
-          settings.logger.error('Failed to process uploaded image.')
-          raise MyCustomError, 'Failed to process uploaded image.'
-        end
-      else
-        settings.logger.info("Calling AIService.generate_sift_stream with user_input_text: #{user_input_text} and no image.")
-        result = AIService.generate_sift_stream(
-          user_input_text: user_input_text,
-          image_file_details: nil,
-          report_type: report_type,
-          selected_model_id: selected_model_id,
-          model_config_params: model_config_params,
-          chat_history: []
-        ) do |content_or_event|
-          if out.closed?
-            settings.logger.warn('Stream closed by client during AIService.generate_sift_stream without image')
-            break # Exit the loop if client disconnected
-          end
-
-          if content_or_event.start_with?('event:')
-            # This is an error event already formatted by AIService
-            settings.logger.debug("Streaming pre-formatted event from AIService: #{content_or_event.strip}")
-            out << content_or_event
-            out.flush if out.respond_to?(:flush)
-          elsif content_or_event.is_a?(String) && !content_or_event.strip.empty?
-            # This is raw content from AIService, needs formatting
-            send_sse_event(out, :data, { delta: content_or_event })
-            settings.logger.debug("Streaming data chunk to client: #{content_or_event.length} chars")
-          else
-            # Potentially empty string or unexpected content, log it but don't send
-            settings.logger.debug("Received empty or unexpected content from AIService: '#{content_or_event}' - not sending.")
-          end
+      StreamRegistry.each_event(stream_id, after_id: last_event_id) do |event|
+        if out.closed?
+          settings.logger.warn("SSE stream #{stream_id} closed by client.")
+          break
         end
 
-        # Send analysis_id if available for follow-up messages
-        if result && result[:persistence_result] && result[:persistence_result][:analysis_id]
-          analysis_id = result[:persistence_result][:analysis_id]
-          settings.logger.info("Sending analysis_id to client: #{analysis_id}")
-          send_sse_event(out, :event, { event: 'analysis_id', data: { analysis_id: analysis_id } })
+        if event.nil?
+          out << ": keepalive\n\n" # Comment line, ignored by EventSource
+          out.flush if out.respond_to?(:flush)
+        else
+          send_registry_event(out, event)
         end
-        called_service = true
-      end
-
-      if called_service && !out.closed?
-        settings.logger.info("AIService.generate_sift_stream completed. Sending 'complete' event.")
-        send_sse_event(out, :event, { event: 'complete', data: { message: 'Stream finished' } })
-      end
-    rescue MyCustomError => e
-      settings.logger.error("MyCustomError in /api/sift/initiate: #{e.message}")
-      unless out.closed?
-        send_sse_event(out, :event, { event: 'error', data: { type: e.class.name, message: e.message } })
-      end
-    rescue RubyLLM::Error => e
-      settings.logger.error("RubyLLM::Error in /api/sift/initiate: #{e.message} - Details: #{e.try(:response)&.body}")
-      unless out.closed?
-        send_sse_event(out, :event,
-                       { event: 'error', data: { type: e.class.name, message: e.message, details: e.try(:response)&.body } })
       end
+    rescue StreamRegistry::StreamNotFoundError => e
+      settings.logger.warn("Stream #{stream_id} expired while streaming: #{e.message}")
     rescue StandardError => e
-      settings.logger.error("Error in /api/sift/initiate: #{e.message}\n#{e.backtrace.join("\n")}")
-      unless out.closed?
-        send_sse_event(out, :event,
-                       { event: 'error', data: { type: 'StreamingError', message: "An error occurred while processing your request: #{e.message}" } })
-      end
+      settings.logger.error("Error streaming #{stream_id}: #{e.message}\n#{e.backtrace.join("\n")}")
     ensure
-      settings.logger.info("Closing stream for /api/sift/initiate for client: #{request.ip}")
-      # Sinatra's stream(:keep_open) handles closing the stream when the block exits.
+      settings.logger.info("Closing SSE connection for stream #{stream_id}")
+      out.close unless out.closed?
     end
-    settings.logger.info "SSE stream block finished for client: #{request.ip}"
   end
 end
 
@@ -585,6 +1057,7 @@ post '/api/sift/chat' do
   preprocessing_output_text = params['preprocessingOutputText'] # Optional
   system_instruction_override = params['systemInstructionOverride'] # Optional
   analysis_id = params['analysisId'] # Optional - for follow-up message persistence
+  another_round = params['anotherRound'] == true # Optional - set by the "another round" command
 
   settings.logger.info "Extracted params: newUserMessageText present: #{!new_user_message_text.to_s.empty?}, chatHistory items: #{chat_history.is_a?(Array) ? chat_history.length : 'N/A'}, selectedModelId: #{selected_model_id}"
   settings.logger.debug "ModelConfigParams: #{model_config_params.inspect}"
@@ -639,14 +1112,15 @@ post '/api/sift/chat' do
         next # or break, as the stream cannot proceed
       end
 
-      AIService.continue_sift_chat(
+      result = AIService.continue_sift_chat(
         new_user_message_text: new_user_message_text,
         chat_history: chat_history,
         selected_model_id: selected_model_id,
         model_config_params: model_config_params,
         system_instruction_override: system_instruction_override,
         analysis_id: analysis_id,
-        persist_conversation: true
+        persist_conversation: true,
+        another_round: another_round
       ) do |content_or_event|
         if out.closed?
           settings.logger.warn('SSE stream for /api/sift/chat closed by client.')
@@ -669,6 +1143,12 @@ post '/api/sift/chat' do
       end
       settings.logger.info "AIService.continue_sift_chat stream completed for client: #{request.ip}"
 
+      # An "another round" answer is stored as a new version of the report
+      version_number = result && result[:persistence_result] && result[:persistence_result][:version_number]
+      if version_number && !out.closed?
+        send_sse_event(out, :event, { event: 'report_version', data: { analysis_id: analysis_id, version_number: version_number } })
+      end
+
       # Send a completion event to signal the end of the stream
       unless out.closed?
         settings.logger.info("AIService.continue_sift_chat completed. Sending 'complete' event.")
@@ -696,11 +1176,10 @@ post '/api/sift/cancel/:stream_id' do
   content_type :json
 
   begin
-    # For now, we'll implement a simple response
-    # In the future, this could interact with a stream registry
-    # The frontend can use the abort controller to actually cancel the connection
-
-    settings.logger.info "Cancellation requested for stream: #{stream_id}"
+    # Registered SIFT generations stop at their next chunk. Chat streams are not
+    # registered; the frontend aborts those by closing the connection.
+    registered = StreamRegistry.cancel(stream_id)
+    settings.logger.info "Cancellation requested for stream: #{stream_id} (registered: #{registered})"
 
     {
       success: true,
@@ -768,6 +1247,108 @@ get '/api/sift/analyses/:analysis_id' do
   end
 end
 
+# List every stored version of an analysis's report, oldest first
+get '/api/sift/analyses/:analysis_id/versions' do
+  analysis_id = params[:analysis_id]
+  settings.logger.info "GET /api/sift/analyses/#{analysis_id}/versions - Retrieving report versions"
+  content_type :json
+
+  begin
+    require_relative 'app/services/persistence_service'
+    versions = PersistenceService.get_report_versions(analysis_id)
+    { versions: versions, count: versions.length }.to_json
+  rescue PersistenceService::AnalysisNotFoundError => e
+    halt 404, { error: { type: 'NotFoundError', message: e.message } }.to_json
+  rescue PersistenceService::PersistenceError => e
+    settings.logger.error "Error retrieving versions of analysis #{analysis_id}: #{e.message}"
+    status 500
+    { error: { type: 'DatabaseError', message: "Failed to retrieve report versions: #{e.message}" } }.to_json
+  end
+end
+
+# Store the report after one of its sections was regenerated (see POST /api/sift/section),
+# or after a regeneration was undone, as the next version of the analysis.
+# Body: { "reportText": "...", "modelId": "...", "kind": "section" | "section_undo" }
+post '/api/sift/analyses/:analysis_id/versions' do
+  analysis_id = params[:analysis_id]
+  settings.logger.info "POST /api/sift/analyses/#{analysis_id}/versions - Saving a report version"
+  content_type :json
+
+  begin
+    request.body.rewind
+    params_data = JSON.parse(request.body.read)
+  rescue JSON::ParserError => e
+    settings.logger.error "Invalid JSON in request body: #{e.message}"
+    halt 400, { error: { type: 'InvalidJSONError', message: 'Invalid JSON in request body' } }.to_json
+  end
+  halt 400, { error: { type: 'InvalidJSONError', message: 'Request body must be a JSON object' } }.to_json unless params_data.is_a?(Hash)
+
+  report_text = params_data['reportText']
+  model_id = params_data['modelId']
+  kind = params_data['kind'] || 'section'
+  unless report_text.is_a?(String) && !report_text.strip.empty?
+    halt 400, { error: { type: 'MissingParameterError', message: 'reportText is a required parameter.' } }.to_json
+  end
+  unless model_id.nil? || model_id.is_a?(String)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'modelId must be a string.' } }.to_json
+  end
+  unless %w[section section_undo].include?(kind)
+    halt 400, { error: { type: 'InvalidParameterError', message: 'kind must be "section" or "section_undo".' } }.to_json
+  end
+
+  begin
+    require_relative 'app/services/persistence_service'
+    result = PersistenceService.save_report_version(
+      analysis_id: analysis_id,
+      kind: kind,
+      report_text: report_text,
+      model_id_used: model_id
+    )
+    halt 503, { error: { type: 'DatabaseError', message: 'Report versions cannot be stored without a database.' } }.to_json unless result
+
+    status 201
+    { analysisId: result[:analysis_id], versionNumber: result[:version_number] }.to_json
+  rescue PersistenceService::AnalysisNotFoundError => e
+    halt 404, { error: { type: 'NotFoundError', message: e.message } }.to_json
+  rescue PersistenceService::PersistenceError => e
+    settings.logger.error "Error saving a version of analysis #{analysis_id}: #{e.message}"
+    status 500
+    { error: { type: 'DatabaseError', message: "Failed to save report version: #{e.message}" } }.to_json
+  end
+end
+
+# Export a SIFT analysis (report plus follow-up chat) as a PDF document
+get '/api/sift/analyses/:analysis_id/export.pdf' do
+  analysis_id = params[:analysis_id]
+  settings.logger.info "GET /api/sift/analyses/#{analysis_id}/export.pdf - Exporting analysis as PDF"
+
+  begin
+    require_relative 'app/services/persistence_service'
+    require_relative 'app/services/pdf_export_service'
+    analysis_data = PersistenceService.get_analysis_with_history(analysis_id)
+
+    unless analysis_data
+      content_type :json
+      halt 404, { error: { type: 'NotFoundError', message: "Analysis not found: #{analysis_id}" } }.to_json
+    end
+
+    pdf = PdfExportService.render(**analysis_data)
+    content_type 'application/pdf'
+    attachment PdfExportService.filename(analysis_data[:analysis])
+    pdf
+  rescue PdfExportService::ExportError => e
+    settings.logger.warn "PDF export failed for analysis #{analysis_id}: #{e.message}"
+    content_type :json
+    status 422
+    { error: { type: 'ExportError', message: e.message } }.to_json
+  rescue StandardError => e
+    settings.logger.error "Error exporting analysis #{analysis_id}: #{e.class.name} - #{e.message}"
+    content_type :json
+    status 500
+    { error: { type: 'ExportError', message: "Failed to export analysis: #{e.message}" } }.to_json
+  end
+end
+
 # URL Content Extraction Routes
 
 # Extract content from a URL
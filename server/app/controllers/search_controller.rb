@@ -0,0 +1,69 @@
+# frozen_string_literal: true
+
+require_relative '../services/semantic_search_service'
+
+# SearchController handles semantic search across processed URLs and SIFT analyses
+class SearchController
+  class << self
+    # Semantic search
+    # POST /api/search/semantic
+    def semantic(params, logger)
+      query = params['query'].is_a?(String) ? params['query'].strip : nil
+      limit = (params['limit'] || 10).to_i.clamp(1, 50)
+      types = params['types'].nil? ? SemanticSearchService::SEARCH_TYPES : Array(params['types']).map(&:to_s)
+
+      logger.debug "Query: #{query}"
+      logger.debug "Limit: #{limit}, types: #{types.join(', ')}"
+
+      if query.nil? || query.empty?
+        logger.warn 'Validation failed: query is required'
+        return {
+          status: 400,
+          body: { error: { type: 'MissingParameterError', message: 'Query parameter is required' } }
+        }
+      end
+
+      unknown_types = types - SemanticSearchService::SEARCH_TYPES
+      if types.empty? || unknown_types.any?
+        logger.warn "Invalid search types: #{types.inspect}"
+        return {
+          status: 400,
+          body: {
+            error: {
+              type: 'InvalidParameterError',
+              message: "types must be a non-empty subset of: #{SemanticSearchService::SEARCH_TYPES.join(', ')}"
+            }
+          }
+        }
+      end
+
+      begin
+        results = SemanticSearchService.search(query: query, limit: limit, types: types)
+        logger.info "Semantic search returned #{results[:urls].length} URLs and #{results[:analyses].length} analyses"
+
+        {
+          status: 200,
+          body: {
+            success: true,
+            query: query,
+            results: results,
+            total_results: results[:urls].length + results[:analyses].length
+          }
+        }
+      rescue SemanticSearchService::SearchError, EmbeddingService::EmbeddingError => e
+        logger.error "Embedding generation failed: #{e.message}"
+        {
+          status: 500,
+          body: { error: { type: 'EmbeddingError', message: 'Failed to process search query' } }
+        }
+      rescue StandardError => e
+        logger.error "Semantic search error: #{e.message}"
+        logger.debug e.backtrace.join("\n")
+        {
+          status: 500,
+          body: { error: { type: 'InternalError', message: 'Internal server error during search' } }
+        }
+      end
+    end
+  end
+end
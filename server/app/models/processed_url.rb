@@ -43,8 +43,10 @@ class ProcessedUrl < Sequel::Model(:processed_urls)
 
   def self.search_similar(query_embedding, limit = 10)
     # Using pgvector cosine similarity
-    # This requires the pgvector extension and proper indexing
+    # This requires the pgvector extension and proper indexing.
+    # `<=>` is cosine distance; each row also gets a `similarity` (1 - distance) column.
     where(Sequel.lit('content_embedding IS NOT NULL'))
+      .select_append(Sequel.lit('1 - (content_embedding <=> ?) AS similarity', query_embedding))
       .order(Sequel.lit('content_embedding <=> ?', query_embedding))
       .limit(limit)
   end
@@ -0,0 +1,60 @@
+# frozen_string_literal: true
+
+require 'json'
+require 'sequel'
+require_relative '../../config/database'
+
+# ReportVersion model for storing each numbered report generated for a SIFT analysis
+class ReportVersion < Sequel::Model(:report_versions)
+  # initial: the first report; restart: the report generated again from the same query;
+  # another_round: the answer to an "another round" follow-up; section: the report
+  # after one of its sections was regenerated; section_undo: the report after a
+  # section regeneration was undone
+  KINDS = %w[initial restart another_round section section_undo].freeze
+
+  # Associations
+  many_to_one :sift_analysis, key: :sift_analysis_id
+
+  # Validations
+  plugin :validation_helpers
+
+  def validate
+    super
+    validates_presence %i[sift_analysis_id version_number kind report_text]
+    validates_includes KINDS, :kind, message: "must be one of #{KINDS.join(', ')}"
+    validates_integer :version_number
+    validates_max_length 255, :model_id_used if model_id_used
+  end
+
+  # Hooks
+  def before_create
+    super
+    self.created_at ||= Time.now
+  end
+
+  # Class methods
+  def self.for_analysis(sift_analysis_id)
+    where(sift_analysis_id: sift_analysis_id).order(:version_number)
+  end
+
+  # Instance methods
+  # Sources the report cited, as stored by GroundingService; empty when none were recorded
+  def grounding_sources
+    stored = self[:grounding_sources_json]
+    stored = JSON.parse(stored) if stored.is_a?(String)
+    stored.is_a?(Array) ? stored : []
+  rescue JSON::ParserError
+    []
+  end
+
+  def to_hash
+    {
+      version_number: version_number,
+      kind: kind,
+      model_id_used: model_id_used,
+      report_text: report_text,
+      grounding_sources: grounding_sources,
+      created_at: created_at
+    }
+  end
+end
@@ -1,7 +1,9 @@
 # frozen_string_literal: true
 
+require 'json'
 require 'sequel'
 require_relative '../../config/database'
+require_relative '../services/agent_manager'
 
 # SiftAnalysis model for storing SIFT fact-checking analysis reports
 class SiftAnalysis < Sequel::Model(:sift_analyses)
@@ -10,6 +12,7 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
 
   # Associations
   one_to_many :chat_messages, key: :sift_analysis_id, order: :timestamp
+  one_to_many :report_versions, key: :sift_analysis_id, order: :version_number
 
   # Validations
   plugin :validation_helpers
@@ -17,7 +20,8 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
   def validate
     super
     validates_presence [:report_type]
-    validates_includes %w[FULL_CHECK SUMMARY IMAGE_ANALYSIS], :report_type, message: 'must be a valid report type'
+    # Report types come from the agent configs, so a new one needs no change here
+    validates_includes AgentManager.report_types.map { |type| type[:id] }, :report_type, message: 'must be a valid report type'
     validates_max_length 100, :report_type
     validates_max_length 255, :model_id_used
     validates_max_length 255, :user_image_filename if user_image_filename
@@ -36,11 +40,18 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
   end
 
   # Class methods
-  def self.create_from_sift_request(user_query_text:, report_type:, model_id_used:, user_image_filename: nil)
+  def self.create_from_sift_request(user_query_text:, report_type:, model_id_used:, user_image_filename: nil,
+                                    query_images: nil, consensus_source_ids: nil, url_context: nil,
+                                    selected_claims: nil, image_forensics: nil)
     create(
       user_query_text: user_query_text,
       user_image_filename: user_image_filename,
-      report_type: report_type.upcase,
+      query_images_json: query_images && !query_images.empty? ? query_images.to_json : nil,
+      consensus_source_ids_json: consensus_source_ids && !consensus_source_ids.empty? ? consensus_source_ids.to_json : nil,
+      url_context_json: url_context&.to_json,
+      selected_claims_json: selected_claims && !selected_claims.empty? ? selected_claims.to_json : nil,
+      image_forensics: image_forensics,
+      report_type: AgentManager.normalize_report_type_id(report_type),
       model_id_used: model_id_used
     )
   end
@@ -50,7 +61,15 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
   end
 
   def self.by_report_type(report_type)
-    where(report_type: report_type.upcase)
+    where(report_type: AgentManager.normalize_report_type_id(report_type))
+  end
+
+  # Analyses closest to a query embedding, with a `similarity` (1 - cosine distance) column
+  def self.search_similar(query_embedding, limit = 10)
+    where(Sequel.lit('report_embedding IS NOT NULL'))
+      .select_append(Sequel.lit('1 - (report_embedding <=> ?) AS similarity', query_embedding))
+      .order(Sequel.lit('report_embedding <=> ?', query_embedding))
+      .limit(limit)
   end
 
   # Instance methods
@@ -71,6 +90,18 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
     )
   end
 
+  # Stores the next numbered version of this analysis's report
+  def add_report_version(kind:, report_text:, model_id_used: nil, grounding_sources: nil)
+    ReportVersion.create(
+      sift_analysis_id: id,
+      version_number: (report_versions_dataset.max(:version_number) || 0) + 1,
+      kind: kind,
+      report_text: report_text,
+      model_id_used: model_id_used,
+      grounding_sources_json: grounding_sources&.to_json
+    )
+  end
+
   def initial_user_message
     chat_messages_dataset.where(sender_type: 'user').order(:timestamp).first
   end
@@ -79,6 +110,12 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
     chat_messages_dataset.where(sender_type: 'assistant').order(:timestamp).first
   end
 
+  # Deletes the follow-up messages, keeping the initial query and report
+  def clear_follow_up_messages
+    initial_ids = [initial_user_message&.id, initial_ai_message&.id].compact
+    chat_messages_dataset.exclude(id: initial_ids).delete
+  end
+
   def conversation_history
     chat_messages.map do |msg|
       {
@@ -92,7 +129,43 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
   end
 
   def has_image?
-    !user_image_filename.nil? && !user_image_filename.empty?
+    (!user_image_filename.nil? && !user_image_filename.empty?) || !query_images.empty?
+  end
+
+  # Images of the initial query in order, as [{ 'upload_id', 'mime_type', 'caption' }]
+  def query_images
+    stored = self[:query_images_json]
+    stored = JSON.parse(stored) if stored.is_a?(String)
+    stored.is_a?(Array) ? stored : []
+  rescue JSON::ParserError
+    []
+  end
+
+  # Ids of the analyses this consensus report was merged from; empty for ordinary analyses
+  def consensus_source_ids
+    stored = self[:consensus_source_ids_json]
+    stored = JSON.parse(stored) if stored.is_a?(String)
+    stored.is_a?(Array) ? stored : []
+  rescue JSON::ParserError
+    []
+  end
+
+  # Article the initial query was about in "Analyze URL" mode, as { 'url', 'final_url', 'title', 'content' }
+  def url_context
+    stored = self[:url_context_json]
+    stored = JSON.parse(stored) if stored.is_a?(String)
+    stored.is_a?(Hash) ? stored : nil
+  rescue JSON::ParserError
+    nil
+  end
+
+  # Claims the user picked for the initial report to check, in order
+  def selected_claims
+    stored = self[:selected_claims_json]
+    stored = JSON.parse(stored) if stored.is_a?(String)
+    stored.is_a?(Array) ? stored : []
+  rescue JSON::ParserError
+    []
   end
 
   def summary
@@ -102,7 +175,13 @@ class SiftAnalysis < Sequel::Model(:sift_analyses)
       report_type: report_type,
       model_used: model_id_used,
       has_image: has_image?,
+      query_images: query_images,
+      consensus_source_ids: consensus_source_ids,
+      url_context: url_context,
+      selected_claims: selected_claims,
+      image_forensics: image_forensics,
       message_count: chat_messages.count,
+      version_count: report_versions_dataset.count,
       created_at: created_at,
       updated_at: updated_at
     }
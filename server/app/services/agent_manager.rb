@@ -118,6 +118,67 @@ module AgentManager
     end
   end
 
+  # Get the report types offered by all agents. An agent lists the report types
+  # it can produce under `report_types`; each names the behavior whose directive
+  # starts the report. Agents whose configuration cannot be read are skipped.
+  # The configs are read once; call reload_report_types! after changing them.
+  #
+  # @return [Array<Hash>] Report types ordered by position, then label
+  def self.report_types
+    @report_types ||= load_report_types
+  end
+
+  # Re-read the report types from the agent configs
+  #
+  # @return [Array<Hash>] The reloaded report types
+  def self.reload_report_types!
+    @report_types = load_report_types
+  end
+
+  def self.load_report_types
+    available_agents.sort.flat_map do |agent_name|
+      entries = load_agent_config(agent_name).fetch('report_types')
+      Array(entries).select { |entry| entry.is_a?(Hash) && entry['id'] }.map { |entry| build_report_type(agent_name, entry).freeze }
+    rescue AgentNotFoundError
+      []
+    end.sort_by { |report_type| [report_type[:position], report_type[:label]] }.freeze
+  end
+  private_class_method :load_report_types
+
+  # Find a report type by id. Stored and legacy values such as "Full Check" or
+  # "full-check" resolve to the same id as "FULL_CHECK".
+  #
+  # @param report_type_id [String] The report type id or label
+  # @return [Hash, nil] The report type, or nil if no agent offers it
+  def self.find_report_type(report_type_id)
+    id = normalize_report_type_id(report_type_id)
+    report_types.find { |report_type| report_type[:id] == id }
+  end
+
+  # @param value [String] A report type id or label
+  # @return [String] The id form, e.g. "FULL_CHECK"
+  def self.normalize_report_type_id(value)
+    value.to_s.strip.upcase.gsub(/[^A-Z0-9]+/, '_').gsub(/\A_+|_+\z/, '')
+  end
+
+  def self.build_report_type(agent_name, entry)
+    id = normalize_report_type_id(entry['id'])
+    {
+      id: id,
+      label: entry['label'] || id.split('_').map(&:capitalize).join(' '),
+      description: entry['description'].to_s.strip,
+      agent: agent_name,
+      behavior: (entry['behavior'] || 'boot').to_s,
+      required_inputs: Array(entry['required_inputs']).map(&:to_s),
+      requires_vision: entry['requires_vision'] == true,
+      sections: Array(entry['sections']).map do |section|
+        section.is_a?(Hash) ? { title: section['title'].to_s, format: (section['format'] || 'text').to_s } : { title: section.to_s, format: 'text' }
+      end,
+      position: entry['position'].is_a?(Integer) ? entry['position'] : 100
+    }
+  end
+  private_class_method :build_report_type
+
   # Get configuration summary for an agent
   #
   # @param agent_name [String] The name of the agent
@@ -4,29 +4,54 @@ require 'json'
 require 'ruby_llm' # Assuming ruby_llm is loaded via Bundler or accessible
 require_relative 'prompt_manager'
 require_relative 'persistence_service'
+require_relative 'grounding_service'
 require_relative '../../lib/image_handler' # Adjust path if necessary
+require_relative '../../lib/model_parameters'
 
 module AIService
+  class ClaimExtractionError < StandardError; end
+  class CommunityNoteError < StandardError; end
+
+  # Most completed runs a consensus report can merge
+  MAX_CONSENSUS_SOURCES = 5
+  # Limits on the claims a user can pick for one report
+  MAX_SELECTED_CLAIMS = 25
+  MAX_CLAIM_CHARS = 500
+  # Community Notes are posted with at most this many characters, as X counts them
+  COMMUNITY_NOTE_MAX_CHARS = 700
+
   class << self
     # Unified streaming method to generate responses from an AI model via ruby_llm.
     #
     # @param chat_session_id [String, nil] Optional, for logging or future use.
     # @param user_input_text [String, nil] The user's text query.
     # @param image_file_details [Hash, nil] Processed image data (e.g., { path: "/path/to/image.jpg" }).
+    # @param image_files [Array<Hash>] Processed images in the order the model should see them
+    #   ({ file_path:, original_mime_type:, caption:, upload_id: }). Takes precedence over image_file_details.
+    # @param image_forensics [String, nil] Client-side forensics findings for the images (metadata, hashes).
+    # @param url_context [Hash, nil] Article extracted from the URL under analysis ({ url:, final_url:, title:, content: }).
+    # @param selected_claims [Array<String>, nil] Claims the user picked after #extract_claims; the report covers only these.
     # @param report_type [String] Type of report/prompt to use (e.g., "FULL_CHECK").
     # @param selected_model_id [String] The ID of the model to use (e.g., "gemini-1.5-pro-latest").
     # @param model_config_params [Hash] Configuration for the model (e.g., { temperature: 0.7 }).
     # @param chat_history [Array<Hash>] Array of previous messages [{role: :user, content: "..."}, ...].
     # @param persist_analysis [Boolean] Whether to save the analysis to database (default: true for initial requests)
+    # @param restart_of_analysis_id [String, nil] Analysis being restarted; the report is stored as its next version
+    #   instead of as a new analysis.
     # @param block [Proc] Block to yield SSE formatted chunks to.
     # @return [Hash] Hash containing final_message and optionally persistence_result, or nil if setup fails.
     def generate_sift_stream(
       report_type:, selected_model_id:, chat_session_id: nil,
       user_input_text: nil,
       image_file_details: nil,
+      image_files: [],
+      image_forensics: nil,
+      url_context: nil,
+      selected_claims: nil,
       model_config_params: {},
       chat_history: [],
       persist_analysis: true,
+      restart_of_analysis_id: nil,
       &block
     )
       unless block_given?
@@ -43,9 +68,7 @@ module AIService
         chat = RubyLLM.chat(model: selected_model_id)
 
         # 1. Apply model configurations
-        chat.with_temperature(model_config_params[:temperature].to_f) if model_config_params[:temperature]
-        # Add other common params like max_tokens, top_p, etc. as needed
-        # chat.with_max_tokens(model_config_params[:max_tokens]) if model_config_params[:max_tokens]
+        ModelParameters.apply(chat, model_config_params)
 
         # 2. Set system instructions (applies to the whole conversation)
         # This should ideally be set once if the chat object is long-lived.
@@ -62,14 +85,16 @@ module AIService
           end
         end
 
-        # 4. Prepare image if present
-        image_path = nil
-        if image_file_details && image_file_details[:file_path]
-          image_path = image_file_details[:file_path]
-          # We can keep the log line, or adjust it if :original_mime_type is also useful to log
-          puts "AIService: Using image file provided at path: #{image_path} (MIME: #{image_file_details[:original_mime_type]})"
-        else
+        # 4. Prepare images if present
+        images = Array(image_files).select { |image| image && image[:file_path] }
+        images = [image_file_details] if images.empty? && image_file_details && image_file_details[:file_path]
+        image_paths = images.map { |image| image[:file_path] }
+        if images.empty?
           puts 'AIService: No image file details provided or path is missing.'
+        else
+          images.each_with_index do |image, index|
+            puts "AIService: Using image #{index + 1} at path: #{image[:file_path]} (MIME: #{image[:original_mime_type]})"
+          end
         end
 
         # 5. Construct the current user prompt
@@ -85,6 +110,19 @@ module AIService
                                        user_input: user_input_text
                                      )
                                    end
+        if url_context && (chat_history.nil? || chat_history.empty?)
+          puts "AIService: Attaching extracted URL content from #{url_context[:final_url] || url_context[:url]}"
+          current_user_prompt_text = "#{current_user_prompt_text}\n#{PromptManager.url_context_section(url_context)}"
+        end
+        if images.length > 1 && (chat_history.nil? || chat_history.empty?)
+          current_user_prompt_text = "#{current_user_prompt_text}\n#{PromptManager.image_attachments_section(images)}"
+        end
+        if image_forensics && !images.empty? && (chat_history.nil? || chat_history.empty?)
+          current_user_prompt_text = "#{current_user_prompt_text}\n#{PromptManager.image_forensics_section(image_forensics)}"
+        end
+        if selected_claims && !selected_claims.empty? && (chat_history.nil? || chat_history.empty?)
+          current_user_prompt_text = "#{current_user_prompt_text}\n#{PromptManager.selected_claims_section(selected_claims)}"
+        end
 
         unless current_user_prompt_text && !current_user_prompt_text.strip.empty?
           # Handle cases where prompt might be empty if user_input_text is nil and not handled by PromptManager
@@ -98,13 +136,13 @@ data: #{{ error: 'Prompt generation failed', type: 'PromptError' }.to_json}
         end
 
         puts 'AIService: Asking LLM with prompt: ' # {current_user_prompt_text.lines.first.strip}...""
-        puts "AIService: With image: #{image_path || 'No'}"
+        puts "AIService: With images: #{image_paths.empty? ? 'No' : image_paths.join(', ')}"
 
         # 6. Make the streaming call
         # Collect streamed content for persistence
         collected_content = ''
 
-        final_message = chat.ask(current_user_prompt_text, with: image_path) do |chunk|
+        final_message = chat.ask(current_user_prompt_text, with: image_paths.empty? ? nil : image_paths) do |chunk|
           if chunk&.content&.is_a?(String) && !chunk.content.strip.empty?
             # Yield raw content instead of formatted SSE
             block.call(chunk.content)
@@ -117,25 +155,42 @@ data: #{{ error: 'Prompt generation failed', type: 'PromptError' }.to_json}
 
         puts "AIService: Streaming complete. Final message role: #{final_message&.role}"
 
+        grounding_sources = stream_grounding_sources(final_message, collected_content, &block)
+
         # Handle persistence for initial SIFT analysis
         persistence_result = nil
         if persist_analysis && final_message && PersistenceService.database_available?
           begin
             # Only persist for initial requests (no chat history)
-            if chat_history.empty? && user_input_text && !user_input_text.strip.empty?
-              image_filename = image_file_details ? File.basename(image_file_details[:file_path]) : nil
+            if restart_of_analysis_id && chat_history.empty?
+              persistence_result = PersistenceService.save_report_version(
+                analysis_id: restart_of_analysis_id,
+                kind: 'restart',
+                report_text: collected_content,
+                model_id_used: selected_model_id,
+                grounding_sources: grounding_sources.empty? ? nil : grounding_sources
+              )
+
+              puts "AIService: Persisted restart as version #{persistence_result[:version_number]} of #{restart_of_analysis_id}"
+            elsif chat_history.empty? && user_input_text && !user_input_text.strip.empty?
+              image_filename = images.first ? File.basename(images.first[:file_path]) : nil
 
               persistence_result = PersistenceService.save_initial_sift_analysis(
                 user_query_text: user_input_text,
                 report_type: report_type,
                 model_id_used: selected_model_id,
                 generated_report_text: collected_content,
-                user_image_filename: image_filename
+                user_image_filename: image_filename,
+                query_images: stored_query_images(images),
+                grounding_sources: grounding_sources.empty? ? nil : grounding_sources,
+                url_context: url_context,
+                selected_claims: selected_claims,
+                image_forensics: image_forensics
               )
 
               puts "AIService: Persisted initial SIFT analysis: #{persistence_result[:analysis_id]}"
             end
-          rescue PersistenceService::PersistenceError => e
+          rescue PersistenceService::PersistenceError, PersistenceService::AnalysisNotFoundError => e
             puts "AIService: Failed to persist analysis: #{e.message}"
             # Continue execution - persistence failure shouldn't break the response
           end
@@ -168,6 +223,179 @@ data: #{error_json}
       end
     end
 
+    # Splits the user's text (and any extracted article) into atomic claims the
+    # user can review before the report, so the report checks the claims they care about.
+    #
+    # @param user_input_text [String, nil] The text to decompose.
+    # @param selected_model_id [String] The ID of the model to use.
+    # @param model_config_params [Hash] Configuration for the model (e.g., { temperature: 0.7 }).
+    # @param url_context [Hash, nil] Article extracted from the URL under analysis ({ url:, final_url:, title:, content: }).
+    # @return [Array<String>] The claims, most important first.
+    # @raise [ClaimExtractionError] If the model's answer contains no claims.
+    def extract_claims(user_input_text:, selected_model_id:, model_config_params: {}, url_context: nil)
+      puts "AIService: Extracting claims with model #{selected_model_id}"
+
+      chat = RubyLLM.chat(model: selected_model_id)
+      ModelParameters.apply(chat, model_config_params)
+      response = chat.ask(PromptManager.claim_extraction_prompt(user_input_text, url_context: url_context))
+
+      claims = PromptManager.parse_claim_list(response&.content)
+      raise ClaimExtractionError, 'The model did not return any claims. Try again or start the report without picking claims.' if claims.empty?
+
+      claims.first(MAX_SELECTED_CLAIMS).map { |claim| claim[0, MAX_CLAIM_CHARS] }
+    end
+
+    # Asks the model for a shorter version of a Community Note's text. Nothing is stored.
+    #
+    # @param note_text [String] The note without its sources.
+    # @param max_chars [Integer] Length the new text must stay within, as X counts it.
+    # @param selected_model_id [String] The ID of the model that shortens the note.
+    # @param model_config_params [Hash] Configuration for the model (e.g., { temperature: 0.7 }).
+    # @return [String] The shortened note text
+    def shorten_community_note(note_text:, max_chars:, selected_model_id:, model_config_params: {})
+      puts "AIService: Shortening a Community Note to #{max_chars} characters with model #{selected_model_id}"
+
+      chat = RubyLLM.chat(model: selected_model_id)
+      ModelParameters.apply(chat, model_config_params)
+      response = chat.ask(PromptManager.community_note_shortening_prompt(note_text: note_text, max_chars: max_chars))
+
+      # Models sometimes fence the note or repeat its sources despite the prompt
+      shortened = response&.content.to_s.strip.sub(/\A```\w*\s*/, '').sub(/\s*```\z/, '')
+      shortened = shortened.sub(/\n\s*(?:\*\*)?Sources?:?(?:\*\*)?:?\s*\n.*\z/mi, '').strip
+      raise CommunityNoteError, 'The model did not return a shortened note. Try again or edit the note by hand.' if shortened.empty?
+
+      shortened
+    end
+
+    # Streams a Full Check merged from several completed analyses of the same query
+    # and stores it as its own analysis, linked to the analyses it was merged from.
+    #
+    # @param source_analyses [Array<Hash>] Completed analyses, as returned by PersistenceService.get_consensus_sources.
+    # @param selected_model_id [String] The ID of the model that merges the reports.
+    # @param model_config_params [Hash] Configuration for the model (e.g., { temperature: 0.7 }).
+    # @param block [Proc] Block to yield content chunks and SSE formatted error events to.
+    # @return [Hash] Hash containing final_message and optionally persistence_result, or nil if an error occurs.
+    def generate_consensus_stream(source_analyses:, selected_model_id:, model_config_params: {}, &block)
+      unless block_given?
+        puts 'AIService: Error (generate_consensus_stream) - No block provided for streaming.'
+        return nil
+      end
+
+      user_query_text = source_analyses.first[:user_query_text]
+      puts "AIService: Generating consensus of #{source_analyses.length} analyses with model #{selected_model_id}"
+
+      begin
+        chat = RubyLLM.chat(model: selected_model_id)
+        ModelParameters.apply(chat, model_config_params)
+        chat.with_instructions(PromptManager.get_sift_chat_system_prompt(user_query: user_query_text))
+
+        prompt = PromptManager.get_sift_analysis_prompt(report_type: 'FULL_CHECK', user_input: user_query_text)
+        prompt = "#{prompt}\n#{PromptManager.consensus_section(source_analyses)}"
+
+        collected_content = ''
+        final_message = chat.ask(prompt) do |chunk|
+          if chunk&.content.is_a?(String) && !chunk.content.strip.empty?
+            block.call(chunk.content)
+            collected_content += chunk.content
+          end
+        end
+
+        puts "AIService: Consensus streaming complete. Final message role: #{final_message&.role}"
+
+        grounding_sources = stream_grounding_sources(final_message, collected_content, &block)
+
+        persistence_result = nil
+        if final_message && PersistenceService.database_available?
+          begin
+            query_images = source_analyses.first[:query_images]
+            persistence_result = PersistenceService.save_initial_sift_analysis(
+              user_query_text: user_query_text,
+              report_type: 'FULL_CHECK',
+              model_id_used: selected_model_id,
+              generated_report_text: collected_content,
+              query_images: query_images.nil? || query_images.empty? ? nil : query_images,
+              grounding_sources: grounding_sources.empty? ? nil : grounding_sources,
+              consensus_source_ids: source_analyses.map { |source| source[:id] }
+            )
+
+            puts "AIService: Persisted consensus analysis: #{persistence_result[:analysis_id]}"
+          rescue PersistenceService::PersistenceError => e
+            puts "AIService: Failed to persist consensus analysis: #{e.message}"
+          end
+        end
+
+        {
+          final_message: final_message,
+          persistence_result: persistence_result
+        }
+      rescue RubyLLM::Error => e
+        puts "AIService: RubyLLM Error (generate_consensus_stream) - #{e.message}"
+        error_json = { error: e.message, type: e.class.name, details: e.try(:response)&.body }.to_json
+        block.call("event: error\ndata: #{error_json}\n\n")
+        nil
+      rescue StandardError => e
+        puts "AIService: Standard Error (generate_consensus_stream) - #{e.class.name}: #{e.message}\nBacktrace: #{e.backtrace.join("\n  ")}"
+        error_json = { error: e.message, type: e.class.name }.to_json
+        block.call("event: error\ndata: #{error_json}\n\n")
+        nil
+      end
+    end
+
+    # Streams a replacement for one section of a finished report. Nothing is
+    # persisted; the client splices the new section into the report it shows.
+    #
+    # @param report_text [String] The whole report as currently shown.
+    # @param section_heading [String] The heading line of the section to rewrite.
+    # @param user_query_text [String, nil] The query the report answers.
+    # @param selected_model_id [String] The ID of the model to use.
+    # @param model_config_params [Hash] Configuration for the model (e.g., { temperature: 0.7 }).
+    # @param block [Proc] Block to yield content chunks and SSE formatted error events to.
+    # @return [Hash] Hash containing final_message, or nil if an error occurs.
+    def generate_section_stream(report_text:, section_heading:, selected_model_id:, user_query_text: nil, model_config_params: {}, &block)
+      unless block_given?
+        puts 'AIService: Error (generate_section_stream) - No block provided for streaming.'
+        return nil
+      end
+
+      puts "AIService: Regenerating section #{section_heading.strip.inspect} with model #{selected_model_id}"
+
+      begin
+        chat = RubyLLM.chat(model: selected_model_id)
+        ModelParameters.apply(chat, model_config_params)
+        chat.with_instructions(PromptManager.get_sift_chat_system_prompt(user_query: user_query_text))
+
+        prompt = PromptManager.section_regeneration_prompt(
+          report_text: report_text,
+          section_heading: section_heading,
+          user_query: user_query_text
+        )
+
+        collected_content = ''
+        final_message = chat.ask(prompt) do |chunk|
+          if chunk&.content.is_a?(String) && !chunk.content.strip.empty?
+            block.call(chunk.content)
+            collected_content += chunk.content
+          end
+        end
+
+        puts "AIService: Section streaming complete. Final message role: #{final_message&.role}"
+
+        stream_grounding_sources(final_message, collected_content, &block)
+
+        { final_message: final_message }
+      rescue RubyLLM::Error => e
+        puts "AIService: RubyLLM Error (generate_section_stream) - #{e.message}"
+        error_json = { error: e.message, type: e.class.name, details: e.try(:response)&.body }.to_json
+        block.call("event: error\ndata: #{error_json}\n\n")
+        nil
+      rescue StandardError => e
+        puts "AIService: Standard Error (generate_section_stream) - #{e.class.name}: #{e.message}\nBacktrace: #{e.backtrace.join("\n  ")}"
+        error_json = { error: e.message, type: e.class.name }.to_json
+        block.call("event: error\ndata: #{error_json}\n\n")
+        nil
+      end
+    end
+
     # Method to continue a chat session, streaming the response.
     #
     # @param new_user_message_text [String] The new message text from the user.
@@ -177,6 +405,7 @@ data: #{error_json}
     # @param system_instruction_override [String, nil] Optional override for system instructions.
     # @param analysis_id [String, nil] Optional SIFT analysis ID for persistence
     # @param persist_conversation [Boolean] Whether to save the conversation to database (default: true)
+    # @param another_round [Boolean] Set by the "another round" command; the answer is stored as a new report version
     # @param block [Proc] Block to yield SSE formatted chunks to.
     # @return [Hash] Hash containing final_message and optionally persistence_result, or nil if an error occurs.
     def continue_sift_chat(
@@ -187,6 +416,7 @@ data: #{error_json}
       system_instruction_override: nil,
       analysis_id: nil,
       persist_conversation: true,
+      another_round: false,
       &block
     )
       unless block_given?
@@ -202,9 +432,7 @@ data: #{error_json}
         chat = RubyLLM.chat(model: selected_model_id)
 
         # 1. Apply model configurations
-        model_config_params.each do |k, v|
-          chat.send("with_#{k}", v) if chat.respond_to?("with_#{k}")
-        end
+        ModelParameters.apply(chat, model_config_params)
 
         # 2. Set system instructions
         if system_instruction_override && !system_instruction_override.strip.empty?
@@ -257,6 +485,8 @@ data: #{error_json}
 
         puts "AIService: Streaming complete (continue_sift_chat). Final message role: #{final_message&.role}"
 
+        grounding_sources = stream_grounding_sources(final_message, collected_content, &block)
+
         # Handle persistence for follow-up conversation
         persistence_result = nil
         if persist_conversation && analysis_id && final_message && PersistenceService.database_available?
@@ -265,11 +495,23 @@ data: #{error_json}
               analysis_id: analysis_id,
               user_message_text: new_user_message_text,
               ai_response_text: collected_content,
-              model_id_used: selected_model_id
+              model_id_used: selected_model_id,
+              grounding_sources: grounding_sources.empty? ? nil : grounding_sources
             )
 
             puts "AIService: Persisted follow-up conversation for analysis: #{analysis_id}"
-          rescue PersistenceService::PersistenceError => e
+
+            if another_round
+              version = PersistenceService.save_report_version(
+                analysis_id: analysis_id,
+                kind: 'another_round',
+                report_text: collected_content,
+                model_id_used: selected_model_id,
+                grounding_sources: grounding_sources.empty? ? nil : grounding_sources
+              )
+              persistence_result = persistence_result.merge(version) if persistence_result && version
+            end
+          rescue PersistenceService::PersistenceError, PersistenceService::AnalysisNotFoundError => e
             puts "AIService: Failed to persist follow-up conversation: #{e.message}"
             # Continue execution - persistence failure shouldn't break the response
           end
@@ -294,6 +536,34 @@ data: #{error_json}
         nil
       end
     end
+
+    private
+
+    # Collect the sources behind a finished response and yield them as a `sources` event.
+    #
+    # @param final_message [Object, nil] The final message returned by RubyLLM
+    # @param content [String] The full generated text
+    # @param block [Proc] Block to yield the SSE formatted event to
+    # @return [Array<Hash>] The sources, for persistence
+    def stream_grounding_sources(final_message, content, &block)
+      sources = GroundingService.collect(final_message: final_message, content: content)
+      unless sources.empty?
+        puts "AIService: Streaming #{sources.length} grounding sources"
+        block.call(GroundingService.sse_event(sources))
+      end
+      sources
+    end
+
+    # Describe the query images kept by UploadStore, for persistence with the analysis.
+    #
+    # @param images [Array<Hash>] Processed images, some with an :upload_id
+    # @return [Array<Hash>, nil] `[{ upload_id:, mime_type:, caption: }]`, or nil when none were stored
+    def stored_query_images(images)
+      stored = images.select { |image| image[:upload_id] }.map do |image|
+        { upload_id: image[:upload_id], mime_type: image[:original_mime_type], caption: image[:caption] }
+      end
+      stored.empty? ? nil : stored
+    end
   end
 end
 
@@ -0,0 +1,129 @@
+# frozen_string_literal: true
+
+require 'json'
+require 'uri'
+
+# GroundingService collects the web sources behind a generated response so they
+# can be streamed to the client as a `sources` SSE event and persisted with the
+# assistant message.
+#
+# Sources use the same shape as the client's GroundingChunk:
+#   { web: { uri: 'https://...', title: '...' } }
+module GroundingService
+  SSE_EVENT_NAME = 'sources'
+
+  MARKDOWN_LINK_REGEX = %r{\[([^\]]+)\]\((https?://[^\s)]+)\)}
+  BARE_URL_REGEX = %r{https?://[^\s<>()\[\]|"'`]+}
+  TRAILING_PUNCTUATION_REGEX = /[.,;:!?*_]+\z/
+
+  class << self
+    # Collect sources for a finished response, preferring provider grounding metadata
+    # and falling back to links cited in the generated text.
+    #
+    # @param final_message [Object, nil] The final message returned by RubyLLM
+    # @param content [String] The full generated text
+    # @return [Array<Hash>] Deduplicated sources in first-seen order
+    def collect(final_message:, content:)
+      merge(from_provider_metadata(final_message), from_text(content))
+    end
+
+    # Extract Gemini-style groundingMetadata.groundingChunks from the raw provider response
+    #
+    # @param message [Object, nil] A RubyLLM message, or a raw response Hash
+    # @return [Array<Hash>] Sources found in the metadata
+    def from_provider_metadata(message)
+      payload = raw_payload(message)
+      return [] unless payload.is_a?(Hash)
+
+      candidates = payload['candidates'] || []
+      chunks = candidates.flat_map { |candidate| candidate.dig('groundingMetadata', 'groundingChunks') || [] }
+      chunks.filter_map do |chunk|
+        web = chunk['web']
+        build_source(web['uri'], web['title']) if web.is_a?(Hash)
+      end
+    rescue StandardError => e
+      puts "GroundingService: Failed to read provider grounding metadata: #{e.message}"
+      []
+    end
+
+    # Extract markdown links and bare URLs cited in generated text
+    #
+    # @param text [String, nil] Generated markdown
+    # @return [Array<Hash>] Sources in order of appearance
+    def from_text(text)
+      return [] if text.nil? || text.empty?
+
+      found = []
+      text.scan(MARKDOWN_LINK_REGEX) do
+        match = Regexp.last_match
+        found << [match.begin(0), build_source(match[2], match[1])]
+      end
+
+      # Blank out markdown links so their URLs are not picked up again as bare URLs
+      without_links = text.gsub(MARKDOWN_LINK_REGEX) { |link| ' ' * link.length }
+      without_links.scan(BARE_URL_REGEX) do
+        match = Regexp.last_match
+        found << [match.begin(0), build_source(match[0])]
+      end
+
+      found.sort_by(&:first).filter_map(&:last)
+    end
+
+    # Merge source lists, keeping the first occurrence of each URI and the best title
+    #
+    # @param lists [Array<Array<Hash>>] Source lists
+    # @return [Array<Hash>] Deduplicated sources
+    def merge(*lists)
+      merged = {}
+      lists.flatten.compact.each do |source|
+        key = normalize_uri(source[:web][:uri])
+        existing = merged[key]
+        if existing.nil?
+          merged[key] = { web: source[:web].dup }
+        elsif existing[:web][:title] == existing[:web][:uri] && source[:web][:title] != source[:web][:uri]
+          existing[:web][:title] = source[:web][:title]
+        end
+      end
+      merged.values
+    end
+
+    # Format sources as a pre-formatted SSE event, like AIService's error events
+    #
+    # @param sources [Array<Hash>] Sources to send
+    # @return [String] SSE event text
+    def sse_event(sources)
+      "event: #{SSE_EVENT_NAME}\ndata: #{{ sources: sources }.to_json}\n\n"
+    end
+
+    # Key used to dedupe sources: scheme and host are case-insensitive, and
+    # trailing slashes and fragments don't identify a different page.
+    def normalize_uri(uri)
+      parsed = URI.parse(uri)
+      parsed.fragment = nil
+      parsed.scheme = parsed.scheme&.downcase
+      parsed.host = parsed.host&.downcase
+      parsed.to_s.sub(%r{/\z}, '')
+    rescue URI::InvalidURIError
+      uri.strip
+    end
+
+    private
+
+    def build_source(uri, title = nil)
+      uri = uri.to_s.strip.sub(TRAILING_PUNCTUATION_REGEX, '')
+      return nil unless uri.match?(%r{\Ahttps?://\S+\z}i)
+
+      title = title.to_s.strip
+      { web: { uri: uri, title: title.empty? ? uri : title } }
+    end
+
+    def raw_payload(message)
+      return message if message.is_a?(Hash)
+      return nil unless message.respond_to?(:raw) && message.raw
+
+      raw = message.raw
+      body = raw.respond_to?(:body) ? raw.body : raw
+      body.is_a?(String) ? JSON.parse(body) : body
+    end
+  end
+end
@@ -0,0 +1,287 @@
+# frozen_string_literal: true
+
+require 'time'
+require 'prawn'
+require 'prawn/table'
+require_relative 'report_markdown'
+
+# PdfExportService renders a stored SIFT analysis as a PDF document:
+# cover page, table of contents, the report itself (with pipe tables and
+# numbered, clickable citations), a reference list and the follow-up chat as an
+# appendix.
+module PdfExportService
+  class ExportError < StandardError; end
+
+  AI_WARNING = 'AI-Generated: This report was produced by an AI model and may contain errors. ' \
+               'Verify important claims against the cited sources before relying on them.'
+
+  # Prawn's built-in fonts only cover Windows-1252. A TrueType font is used when one
+  # is available (set PDF_FONT_PATH to choose it) so non-Latin text survives.
+  FONT_CANDIDATES = [
+    ENV.fetch('PDF_FONT_PATH', nil),
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    '/usr/share/fonts/dejavu/DejaVuSans.ttf',
+    '/usr/share/fonts/TTF/DejaVuSans.ttf'
+  ].compact.freeze
+
+  BRAND_COLOR = '0369A1'
+  MUTED_COLOR = '64748B'
+  TABLE_HEADER_COLOR = 'E0F2FE'
+  TOC_PAGE_NUMBER = 2
+
+  class << self
+    # Render an analysis as PDF
+    #
+    # @param analysis [Hash] Analysis summary (id, user_query, report_type, model_used, created_at, ...)
+    # @param conversation_history [Array<Hash>] Messages as returned by SiftAnalysis#conversation_history
+    # @return [String] The PDF document bytes
+    def render(analysis:, conversation_history:)
+      report_message = conversation_history.find { |msg| msg[:role] == 'assistant' }
+      raise ExportError, 'Analysis has no generated report to export' if report_message.nil?
+
+      follow_up = conversation_history.drop(conversation_history.index(report_message) + 1)
+      DocumentBuilder.new(analysis, report_message, follow_up).render
+    rescue Prawn::Errors::CannotFit, Prawn::Errors::IncompatibleStringEncoding => e
+      raise ExportError, "Failed to render PDF: #{e.message}"
+    end
+
+    # @param analysis [Hash] Analysis summary
+    # @return [String] Download filename, e.g. "SIFT_Report_FULL_CHECK_2026-10-19.pdf"
+    def filename(analysis)
+      date = analysis[:created_at].respond_to?(:strftime) ? analysis[:created_at].strftime('%Y-%m-%d') : 'undated'
+      report_type = analysis[:report_type].to_s.gsub(/[^A-Za-z0-9]+/, '_')
+      "SIFT_Report_#{report_type.empty? ? 'REPORT' : report_type}_#{date}.pdf"
+    end
+
+    def font_path
+      FONT_CANDIDATES.find { |path| File.file?(path) }
+    end
+  end
+
+  # Builds one document; kept separate so rendering state (citations, section
+  # pages) does not leak between exports.
+  class DocumentBuilder
+    def initialize(analysis, report_message, follow_up)
+      @analysis = analysis
+      @report_text = report_message[:content].to_s
+      @follow_up = follow_up
+      @sections = ReportMarkdown.parse_sections(@report_text)
+      @references = ReportMarkdown.collect_links(@report_text)
+      @citation_numbers = @references.each_with_index.to_h { |ref, index| [ref[:uri].sub(%r{/\z}, ''), index + 1] }
+      @toc_entries = []
+    end
+
+    def render
+      @pdf = Prawn::Document.new(page_size: 'A4', margin: 50, info: document_info)
+      setup_font
+
+      render_cover
+      @pdf.start_new_page # Reserved for the table of contents, filled in last
+      @pdf.start_new_page
+      render_report
+      render_references
+      render_appendix
+      render_table_of_contents
+      render_outline
+      render_page_numbers
+
+      @pdf.render
+    end
+
+    private
+
+    def document_info
+      {
+        Title: "SIFT Report: #{ReportMarkdown.plain_text(@analysis[:user_query]).slice(0, 80)}",
+        Creator: 'SIFT Toolbox',
+        CreationDate: Time.now
+      }
+    end
+
+    def setup_font
+      path = PdfExportService.font_path
+      return unless path
+
+      @pdf.font_families.update('ReportSans' => { normal: path, bold: path, italic: path, bold_italic: path })
+      @pdf.font 'ReportSans'
+      @unicode_font = true
+    end
+
+    # Text safe for the active font: with the built-in fonts, characters outside
+    # Windows-1252 (emoji status markers, mostly) are dropped.
+    def safe(text)
+      return text.to_s if @unicode_font
+
+      text.to_s.encode('Windows-1252', invalid: :replace, undef: :replace, replace: '').encode('UTF-8')
+    end
+
+    def markup(text)
+      safe(ReportMarkdown.inline_markup(text, @citation_numbers))
+    end
+
+    def render_cover
+      @pdf.move_down 120
+      @pdf.text 'SIFT Report', size: 30, style: :bold, color: BRAND_COLOR
+      @pdf.move_down 8
+      @pdf.text safe(@analysis[:report_type].to_s.tr('_', ' ').split.map(&:capitalize).join(' ')), size: 14, color: MUTED_COLOR
+      @pdf.move_down 30
+
+      query = @analysis[:user_query].to_s.strip
+      query = "#{query.slice(0, 600)}..." if query.length > 600
+      cover_field('Query', query.empty? ? '(Image-only query)' : query)
+      cover_field('Report type', @analysis[:report_type])
+      cover_field('Model', @analysis[:model_used] || 'Unknown')
+      cover_field('Date', format_time(@analysis[:created_at]))
+      cover_field('Analysis ID', @analysis[:id])
+
+      @pdf.move_down 30
+      @pdf.bounding_box([0, @pdf.cursor], width: @pdf.bounds.width) do
+        @pdf.pad(10) do
+          @pdf.indent(10, 10) { @pdf.text safe(AI_WARNING), size: 10, style: :italic, color: '92400E' }
+        end
+        @pdf.stroke_color 'F59E0B'
+        @pdf.stroke_bounds
+      end
+    end
+
+    def cover_field(label, value)
+      @pdf.text "<b>#{label}:</b> #{ReportMarkdown.escape(safe(value))}", inline_format: true, size: 11
+      @pdf.move_down 6
+    end
+
+    def render_report
+      @sections.each_with_index do |section, index|
+        add_section_destination("section-#{index}", section[:title], section[:level])
+        heading_size = section[:level] == 3 ? 13 : 15
+        @pdf.text safe(section[:title]), size: heading_size, style: :bold, color: BRAND_COLOR
+        @pdf.move_down 6
+        render_blocks(ReportMarkdown.blocks(section[:content]))
+        @pdf.move_down 12
+      end
+    end
+
+    def render_blocks(blocks)
+      blocks.each do |block|
+        case block[:type]
+        when :paragraph
+          @pdf.text markup(block[:text]), inline_format: true, size: 10, leading: 2
+          @pdf.move_down 6
+        when :heading
+          @pdf.text markup(block[:text]), inline_format: true, size: 11, style: :bold
+          @pdf.move_down 4
+        when :quote
+          @pdf.indent(14) { @pdf.text markup(block[:text]), inline_format: true, size: 10, style: :italic, color: MUTED_COLOR }
+          @pdf.move_down 6
+        when :list
+          render_list(block)
+        when :table
+          render_table(block)
+        when :rule
+          @pdf.stroke_color 'CBD5E1'
+          @pdf.stroke_horizontal_rule
+          @pdf.move_down 8
+        end
+      end
+    end
+
+    def render_list(block)
+      block[:items].each_with_index do |item, index|
+        bullet = block[:ordered] ? "#{index + 1}." : '•'
+        @pdf.indent(12 + (item[:indent] * 12)) do
+          @pdf.text "#{safe(bullet)} #{markup(item[:text])}", inline_format: true, size: 10, leading: 2
+        end
+      end
+      @pdf.move_down 6
+    end
+
+    def render_table(block)
+      data = [block[:headers].map { |header| markup(header) }]
+      data += block[:rows].map { |row| row.map { |cell| markup(cell) } }
+
+      @pdf.table(data, header: true, width: @pdf.bounds.width,
+                       cell_style: { inline_format: true, size: 8, padding: 4, border_color: 'CBD5E1' }) do |table|
+        table.row(0).font_style = :bold
+        table.row(0).background_color = TABLE_HEADER_COLOR
+      end
+      @pdf.move_down 10
+    end
+
+    def render_references
+      return if @references.empty?
+
+      @pdf.start_new_page
+      add_section_destination('references', 'References', 2)
+      @pdf.text 'References', size: 15, style: :bold, color: BRAND_COLOR
+      @pdf.move_down 8
+      @references.each_with_index do |ref, index|
+        link = "<color rgb='1A5FB4'><link href='#{ref[:uri].delete("'")}'>#{ReportMarkdown.escape(ref[:uri])}</link></color>"
+        @pdf.text safe("#{index + 1}. #{ReportMarkdown.escape(ref[:title])} — #{link}"), inline_format: true, size: 9
+        @pdf.move_down 3
+      end
+    end
+
+    def render_appendix
+      return if @follow_up.empty?
+
+      @pdf.start_new_page
+      add_section_destination('appendix', 'Appendix: Follow-up Chat', 2)
+      @pdf.text 'Appendix: Follow-up Chat', size: 15, style: :bold, color: BRAND_COLOR
+      @pdf.move_down 10
+
+      @follow_up.each do |message|
+        speaker = message[:role] == 'user' ? 'User' : "SIFT Assistant#{message[:model_id] ? " (#{message[:model_id]})" : ''}"
+        @pdf.text "<b>#{ReportMarkdown.escape(safe(speaker))}</b> <color rgb='#{MUTED_COLOR}'>#{format_time(message[:timestamp])}</color>",
+                  inline_format: true, size: 10
+        @pdf.move_down 4
+        @pdf.indent(10) { render_blocks(ReportMarkdown.blocks(message[:content])) }
+        @pdf.move_down 8
+      end
+    end
+
+    def add_section_destination(name, title, level)
+      @pdf.add_dest(name, @pdf.dest_xyz(@pdf.bounds.absolute_left, @pdf.y))
+      @toc_entries << { name: name, title: title, level: level, page: @pdf.page_number }
+    end
+
+    def render_table_of_contents
+      @pdf.go_to_page(TOC_PAGE_NUMBER)
+      @pdf.move_cursor_to @pdf.bounds.top
+      @pdf.text 'Contents', size: 18, style: :bold, color: BRAND_COLOR
+      @pdf.move_down 12
+
+      @toc_entries.each do |entry|
+        indent = entry[:level] == 3 ? 16 : 0
+        @pdf.indent(indent) do
+          @pdf.float do
+            @pdf.text "<link anchor='#{entry[:name]}'>#{ReportMarkdown.escape(safe(entry[:title]))}</link>",
+                      inline_format: true, size: 10
+          end
+          @pdf.text entry[:page].to_s, align: :right, size: 10, color: MUTED_COLOR
+        end
+        @pdf.move_down 4
+      end
+    end
+
+    def render_outline
+      entries = @toc_entries
+      sanitize = method(:safe)
+      @pdf.outline.define do
+        entries.each { |entry| page(title: sanitize.call(entry[:title]), destination: entry[:page]) }
+      end
+    end
+
+    def render_page_numbers
+      @pdf.number_pages '<page> / <total>', at: [@pdf.bounds.right - 100, -15], width: 100, align: :right,
+                                            size: 8, color: MUTED_COLOR, page_filter: ->(page) { page > 1 }
+    end
+
+    def format_time(value)
+      return '' if value.nil?
+
+      time = value.is_a?(String) ? Time.parse(value) : value
+      time.respond_to?(:strftime) ? time.strftime('%Y-%m-%d %H:%M %Z') : value.to_s
+    rescue ArgumentError
+      value.to_s
+    end
+  end
+end
@@ -3,6 +3,8 @@
 require_relative '../models/sift_analysis'
 require_relative '../models/chat_message'
 require_relative '../models/processed_url'
+require_relative '../models/report_version'
+require_relative 'embedding_service'
 
 # PersistenceService handles saving SIFT analyses and messages to the database
 module PersistenceService
@@ -16,8 +18,15 @@ module PersistenceService
     # @param report_type [String] The type of SIFT report (e.g., 'FULL_CHECK')
     # @param model_id_used [String] The AI model used for analysis
     # @param user_image_filename [String, nil] Optional image filename
+    # @param query_images [Array<Hash>, nil] Optional stored query images ({ upload_id:, mime_type:, caption: })
+    # @param consensus_source_ids [Array<String>, nil] Analyses a consensus report was merged from
+    # @param url_context [Hash, nil] Article the query was about ({ url:, final_url:, title:, content: })
+    # @param selected_claims [Array<String>, nil] Claims the user picked for the report to check
+    # @param image_forensics [String, nil] In-browser image forensics findings sent with the query
     # @return [SiftAnalysis] The created analysis record
-    def create_sift_analysis(user_query_text:, report_type:, model_id_used:, user_image_filename: nil)
+    def create_sift_analysis(user_query_text:, report_type:, model_id_used:, user_image_filename: nil,
+                             query_images: nil, consensus_source_ids: nil, url_context: nil,
+                             selected_claims: nil, image_forensics: nil)
       return nil unless DB # Guard against missing database connection
 
       begin
@@ -25,7 +34,12 @@ module PersistenceService
           user_query_text: user_query_text,
           report_type: report_type,
           model_id_used: model_id_used,
-          user_image_filename: user_image_filename
+          user_image_filename: user_image_filename,
+          query_images: query_images,
+          consensus_source_ids: consensus_source_ids,
+          url_context: url_context,
+          selected_claims: selected_claims,
+          image_forensics: image_forensics
         )
 
         puts "PersistenceService: Created SIFT analysis with ID: #{analysis.id}"
@@ -122,21 +136,32 @@ module PersistenceService
     # @param model_id_used [String] The AI model used
     # @param generated_report_text [String] The AI's response
     # @param user_image_filename [String, nil] Optional image filename
+    # @param query_images [Array<Hash>, nil] Optional stored query images ({ upload_id:, mime_type:, caption: })
     # @param grounding_sources [Hash, nil] Optional sources
-    # @return [Hash] Analysis and message IDs
+    # @param consensus_source_ids [Array<String>, nil] Analyses a consensus report was merged from
+    # @param url_context [Hash, nil] Article the query was about ({ url:, final_url:, title:, content: })
+    # @param selected_claims [Array<String>, nil] Claims the user picked for the report to check
+    # @param image_forensics [String, nil] In-browser image forensics findings sent with the query
+    # @return [Hash] Analysis and message IDs, and the report's version number
     def save_initial_sift_analysis(user_query_text:, report_type:, model_id_used:,
                                    generated_report_text:, user_image_filename: nil,
-                                   grounding_sources: nil)
+                                   query_images: nil, grounding_sources: nil, consensus_source_ids: nil,
+                                   url_context: nil, selected_claims: nil, image_forensics: nil)
       return nil unless DB
 
       begin
-        DB.transaction do
+        result = DB.transaction do
           # Create the analysis
           analysis = create_sift_analysis(
             user_query_text: user_query_text,
             report_type: report_type,
             model_id_used: model_id_used,
-            user_image_filename: user_image_filename
+            user_image_filename: user_image_filename,
+            query_images: query_images,
+            consensus_source_ids: consensus_source_ids,
+            url_context: url_context,
+            selected_claims: selected_claims,
+            image_forensics: image_forensics
           )
 
           # Save the user's initial message
@@ -159,20 +184,49 @@ module PersistenceService
             generated_report_text: generated_report_text
           )
 
+          # The first report is version 1; regenerations are added by #save_report_version
+          version = analysis.add_report_version(
+            kind: 'initial',
+            report_text: generated_report_text,
+            model_id_used: model_id_used,
+            grounding_sources: grounding_sources
+          )
+
           puts "PersistenceService: Successfully saved complete SIFT analysis #{analysis.id}"
 
           {
             analysis_id: analysis.id,
             user_message_id: user_message.id,
-            ai_message_id: ai_message.id
+            ai_message_id: ai_message.id,
+            version_number: version.version_number
           }
         end
+
+        store_report_embedding(result[:analysis_id], "#{user_query_text}\n\n#{generated_report_text}")
+        result
       rescue StandardError => e
         puts "PersistenceService: Error in transaction: #{e.message}"
         raise PersistenceError, "Failed to save initial SIFT analysis: #{e.message}"
       end
     end
 
+    # Embed an analysis for semantic search. Failures are logged and otherwise
+    # ignored: an analysis without an embedding is simply not searchable.
+    #
+    # @param analysis_id [String] The UUID of the analysis
+    # @param text [String] Query and report text to embed
+    # @return [Boolean] Whether an embedding was stored
+    def store_report_embedding(analysis_id, text)
+      embedding = EmbeddingService.generate_embedding(text: text)
+      return false unless embedding
+
+      SiftAnalysis.where(id: analysis_id).update(report_embedding: embedding)
+      true
+    rescue EmbeddingService::EmbeddingError, Sequel::DatabaseError => e
+      puts "PersistenceService: Warning - Failed to store report embedding for #{analysis_id}: #{e.message}"
+      false
+    end
+
     # Save a follow-up conversation message
     #
     # @param analysis_id [String] The UUID of the analysis
@@ -214,6 +268,69 @@ module PersistenceService
       end
     end
 
+    # Store a regenerated report as the next numbered version of an analysis.
+    # Restarts and section regenerations also replace the analysis's current
+    # report, which is what the thread reopens with; "another round" answers stay
+    # follow-up messages and are only added as a version. A restart also clears
+    # the follow-ups, which answered the replaced report, as the client does.
+    #
+    # @param analysis_id [String] The UUID of the analysis
+    # @param kind [String] One of ReportVersion::KINDS other than 'initial'
+    # @param report_text [String] The regenerated report
+    # @param model_id_used [String, nil] The AI model used
+    # @param grounding_sources [Array<Hash>, nil] Optional sources
+    # @return [Hash] `{ analysis_id:, version_number: }`
+    # @raise [AnalysisNotFoundError] If the analysis does not exist
+    def save_report_version(analysis_id:, kind:, report_text:, model_id_used: nil, grounding_sources: nil)
+      return nil unless DB
+
+      begin
+        DB.transaction do
+          analysis = SiftAnalysis[analysis_id]
+          raise AnalysisNotFoundError, "Analysis not found: #{analysis_id}" if analysis.nil?
+
+          version = analysis.add_report_version(
+            kind: kind,
+            report_text: report_text,
+            model_id_used: model_id_used,
+            grounding_sources: grounding_sources
+          )
+          unless kind == 'another_round'
+            analysis.update_report(report_text)
+            analysis.initial_ai_message&.update(message_text: report_text)
+          end
+          analysis.clear_follow_up_messages if kind == 'restart'
+
+          puts "PersistenceService: Saved #{kind} report as version #{version.version_number} of analysis #{analysis_id}"
+          { analysis_id: analysis.id, version_number: version.version_number }
+        end
+      rescue AnalysisNotFoundError
+        raise # Re-raise as-is
+      rescue Sequel::ValidationFailed => e
+        raise PersistenceError, "Failed to save report version: #{e.message}"
+      rescue StandardError => e
+        puts "PersistenceService: Error saving report version: #{e.message}"
+        raise PersistenceError, "Database error: #{e.message}"
+      end
+    end
+
+    # List every stored version of an analysis's report, oldest first
+    #
+    # @param analysis_id [String] The UUID of the analysis
+    # @return [Array<Hash>] `[{ version_number:, kind:, model_id_used:, report_text:, grounding_sources:, created_at: }]`
+    # @raise [AnalysisNotFoundError] If the analysis does not exist
+    # @raise [PersistenceError] If the database is unavailable
+    def get_report_versions(analysis_id)
+      raise PersistenceError, 'Database is not available' unless DB
+
+      analysis = SiftAnalysis[analysis_id]
+      raise AnalysisNotFoundError, "Analysis not found: #{analysis_id}" if analysis.nil?
+
+      analysis.report_versions.map(&:to_hash)
+    rescue Sequel::DatabaseError => e
+      raise PersistenceError, "Database error: #{e.message}"
+    end
+
     # Retrieve a SIFT analysis with its conversation history
     #
     # @param analysis_id [String] The UUID of the analysis
@@ -235,6 +352,35 @@ module PersistenceService
       end
     end
 
+    # Load the completed reports a consensus report is merged from, in the given order
+    #
+    # @param analysis_ids [Array<String>] UUIDs of the source analyses
+    # @return [Array<Hash>] `[{ id:, model_id_used:, user_query_text:, report_type:, report_text:, query_images: }]`
+    # @raise [AnalysisNotFoundError] If an analysis does not exist
+    # @raise [PersistenceError] If an analysis has no report yet or the database is unavailable
+    def get_consensus_sources(analysis_ids)
+      raise PersistenceError, 'Database is not available' unless DB
+
+      analysis_ids.map do |analysis_id|
+        analysis = SiftAnalysis[analysis_id]
+        raise AnalysisNotFoundError, "Analysis not found: #{analysis_id}" if analysis.nil?
+
+        report_text = analysis.generated_report_text.to_s
+        raise PersistenceError, "Analysis #{analysis_id} has no completed report" if report_text.strip.empty?
+
+        {
+          id: analysis.id,
+          model_id_used: analysis.model_id_used,
+          user_query_text: analysis.user_query_text,
+          report_type: analysis.report_type,
+          report_text: report_text,
+          query_images: analysis.query_images
+        }
+      end
+    rescue Sequel::DatabaseError => e
+      raise PersistenceError, "Database error: #{e.message}"
+    end
+
     # Get recent SIFT analyses
     #
     # @param limit [Integer] Number of analyses to retrieve
@@ -2,6 +2,7 @@
 
 require_relative 'agent_manager'
 require 'date'
+require 'json'
 
 # PromptManager provides a unified interface for managing YAML-based prompts with ERB templating
 # Integrates with AgentManager to provide structured prompt management for the SIFT application
@@ -9,6 +10,13 @@ module PromptManager
   class PromptNotFoundError < StandardError; end
   class InvalidPromptTypeError < StandardError; end
 
+  # Extracted articles can be long; keep analysis prompts within typical context windows
+  MAX_URL_CONTEXT_CHARS = 30_000
+  MAX_IMAGE_FORENSICS_CHARS = 8_000
+  MAX_CONSENSUS_REPORT_CHARS = 20_000
+  MAX_CLAIM_EXTRACTION_INPUT_CHARS = 30_000
+  MAX_SECTION_REGENERATION_REPORT_CHARS = 40_000
+
   class << self
     PROMPT_TYPE_MAPPING = {
       # System prompts
@@ -186,27 +194,35 @@ module PromptManager
 
     # Get a SIFT analysis prompt for the specified report type
     #
-    # @param report_type [String] The type of report ('FULL_CHECK', 'SUMMARY', 'IMAGE_ANALYSIS')
+    # Report types come from the agents' `report_types` (see AgentManager.report_types);
+    # an unknown report type falls back to the full check.
+    #
+    # @param report_type [String] The type of report (e.g., 'FULL_CHECK', 'SUMMARY', 'COMMUNITY_NOTE')
     # @param user_input [String] The content to analyze
     # @param additional_context [Hash] Additional context variables
     # @return [String] The processed analysis prompt
     def get_sift_analysis_prompt(report_type:, user_input: nil, **additional_context)
-      prompt_key = case report_type.to_s.upcase
-                   when 'FULL_CHECK'
-                     :sift_full_check_prompt
-                   when 'SUMMARY'
-                     :sift_summary_prompt
-                   when 'IMAGE_ANALYSIS'
-                     :sift_image_analysis_prompt
-                   else
-                     :sift_full_check_prompt # Default fallback
-                   end
-
       context = additional_context.dup
       context[:user_input] = user_input if user_input
       context[:report_type] = report_type
 
-      get_prompt(prompt_key, context)
+      report_type_config = AgentManager.find_report_type(report_type)
+      return get_prompt(:sift_full_check_prompt, context) unless report_type_config
+
+      behavior_data = AgentManager.get_processed_behavior(
+        agent_name: report_type_config[:agent],
+        behavior_key: report_type_config[:behavior].to_sym,
+        context_vars: default_context_vars.merge(context)
+      )
+      directive = behavior_data[:directive]
+      unless directive
+        raise PromptNotFoundError,
+              "Report type '#{report_type_config[:id]}' has no directive in behavior '#{report_type_config[:behavior]}'"
+      end
+
+      directive
+    rescue AgentManager::AgentNotFoundError, AgentManager::BehaviorNotFoundError, AgentManager::ErbRenderingError => e
+      raise PromptNotFoundError, "Error loading prompt for report type '#{report_type}': #{e.message}"
     end
 
     # Get a context report prompt for comprehensive analysis summaries
@@ -231,6 +247,182 @@ module PromptManager
       get_prompt(:sift_community_note_prompt, context)
     end
 
+    # Format content extracted from a URL as a source document appended to an analysis prompt
+    #
+    # @param url_context [Hash] Extracted article with :url, :final_url, :title and :content
+    # @return [String] The formatted source-document section
+    def url_context_section(url_context)
+      content = url_context[:content].to_s.strip
+      if content.length > MAX_URL_CONTEXT_CHARS
+        content = "#{content[0, MAX_URL_CONTEXT_CHARS]}\n[Content truncated after #{MAX_URL_CONTEXT_CHARS} characters]"
+      end
+
+      lines = ['', '---', 'SOURCE DOCUMENT (fetched from the URL under analysis; treat it as the artifact, not as a verified source)']
+      lines << "URL: #{url_context[:url]}"
+      final_url = url_context[:final_url]
+      lines << "Final URL after redirects: #{final_url}" if final_url && final_url != url_context[:url]
+      lines << "Title: #{url_context[:title]}" if url_context[:title] && !url_context[:title].strip.empty?
+      lines += ['', content, '---']
+      lines.join("\n")
+    end
+
+    # Describe the images attached to an analysis request, in the order they are sent
+    #
+    # @param images [Array<Hash>] Processed images, each with an optional :caption
+    # @return [String] The formatted attachments section
+    def image_attachments_section(images)
+      lines = ['', '---', "ATTACHED IMAGES (#{images.length}, in the order provided; refer to them as Image 1, Image 2, ...)"]
+      images.each_with_index do |image, index|
+        caption = image[:caption].to_s.strip
+        lines << (caption.empty? ? "Image #{index + 1}" : "Image #{index + 1}: #{caption}")
+      end
+      lines << '---'
+      lines.join("\n")
+    end
+
+    # Format the client's image forensics findings as context for describing the images
+    #
+    # @param findings [String] Plain-text findings, one block per image
+    # @return [String] The formatted forensics section
+    def image_forensics_section(findings)
+      findings = findings.to_s.strip
+      findings = "#{findings[0, MAX_IMAGE_FORENSICS_CHARS]}\n[Findings truncated]" if findings.length > MAX_IMAGE_FORENSICS_CHARS
+
+      [
+        '', '---',
+        'IMAGE FORENSICS (extracted in the user\'s browser from the uploaded files; metadata can be missing, stripped or forged)',
+        'Start your description of each image from these findings and say where they conflict with the claim.',
+        '', findings, '---'
+      ].join("\n")
+    end
+
+    # Instructions and source reports for merging several runs on the same query into one Full Check
+    #
+    # @param reports [Array<Hash>] Completed reports in order, each with :model_id_used and :report_text
+    # @return [String] The formatted consensus section
+    def consensus_section(reports)
+      run_count = reports.length
+      lines = [
+        '', '---',
+        "CONSENSUS TASK: #{run_count} independent runs have already produced a Full Check for this query (below).",
+        'Merge them into ONE Full Check in the same format instead of researching from scratch. Check sources again only to settle disagreements.',
+        "- Begin the third column of every Verified Facts and Errors and Corrections row with how many runs agreed, as `[agreed/#{run_count} runs]`.",
+        '- Keep a claim in those tables only when a majority of runs agreed on it.',
+        '- Add a section `## Disputed Claims` right after Errors and Corrections with the table',
+        '  | Claim | Positions by Run | Why the Runs Differ | Confidence (1–5) |',
+        '  listing every claim the runs disagreed on, with each run\'s verdict (e.g. "Run 1: ✅ Correct; Run 2: ❌ Incorrect").',
+        '- Write "None" under Disputed Claims if the runs agreed on everything.'
+      ]
+      reports.each_with_index do |report, index|
+        text = report[:report_text].to_s.strip
+        text = "#{text[0, MAX_CONSENSUS_REPORT_CHARS]}\n[Report truncated]" if text.length > MAX_CONSENSUS_REPORT_CHARS
+        lines += ['', "RUN #{index + 1} (model: #{report[:model_id_used] || 'unknown'})", text]
+      end
+      lines << '---'
+      lines.join("\n")
+    end
+
+    # Prompt asking a model to split the user's text into atomic, checkable claims
+    #
+    # @param user_input [String] The text to decompose
+    # @param url_context [Hash, nil] Extracted article to decompose as well, see #url_context_section
+    # @return [String] The claim extraction prompt
+    def claim_extraction_prompt(user_input, url_context: nil)
+      text = user_input.to_s.strip
+      if text.length > MAX_CLAIM_EXTRACTION_INPUT_CHARS
+        text = "#{text[0, MAX_CLAIM_EXTRACTION_INPUT_CHARS]}\n[Text truncated]"
+      end
+
+      lines = [
+        'Break the material below into the individual factual claims it makes, so each can be fact-checked on its own.',
+        '- Each claim must be atomic: one checkable statement about who, what, when, where or how much.',
+        '- Rewrite each claim so it stands alone, replacing pronouns with the names they refer to.',
+        '- Leave out opinions, questions and predictions that cannot be checked.',
+        '- List the most important claims first.',
+        'Respond with only a JSON array of strings, e.g. ["The bridge collapsed in March 2019", "Repairs cost $2 million"].',
+        '', 'TEXT:', text.empty? ? '(none)' : text
+      ]
+      lines << url_context_section(url_context) if url_context
+      lines.join("\n")
+    end
+
+    # Reads the claims from a model's answer to #claim_extraction_prompt. Models
+    # sometimes wrap the JSON in a code fence or answer with a bulleted list instead.
+    #
+    # @param response_text [String] The model's answer
+    # @return [Array<String>] The claims, without blanks or duplicates
+    def parse_claim_list(response_text)
+      text = response_text.to_s.strip.sub(/\A```(?:json)?\s*/, '').sub(/\s*```\z/, '')
+      json_array = text[/\[.*\]/m]
+      claims =
+        begin
+          parsed = json_array && JSON.parse(json_array)
+          parsed.is_a?(Array) ? parsed.grep(String) : nil
+        rescue JSON::ParserError
+          nil
+        end
+      claims ||= text.lines.filter_map { |line| line[/\A\s*(?:[-*•]|\d+[.)])\s+(.+)/, 1] }
+      claims.map(&:strip).reject(&:empty?).uniq
+    end
+
+    # Restricts the report to the claims the user picked after claim extraction
+    #
+    # @param claims [Array<String>] The selected claims in the user's order
+    # @return [String] The formatted claims section
+    def selected_claims_section(claims)
+      lines = [
+        '', '---',
+        "CLAIMS TO CHECK: the user selected these #{claims.length} claims from the material above.",
+        'Check exactly these claims. Give each one its own row in Verified Facts or Errors and Corrections, in this order,',
+        'and do not add rows for other claims. Other parts of the report may still draw on the whole material.'
+      ]
+      claims.each_with_index { |claim, index| lines << "#{index + 1}. #{claim}" }
+      lines << '---'
+      lines.join("\n")
+    end
+
+    # Prompt asking a model to rewrite one section of a finished report, with the
+    # rest of the report as context
+    #
+    # @param report_text [String] The whole report as currently shown
+    # @param section_heading [String] The section's heading line, e.g. "## 4. Source Usefulness"
+    # @param user_query [String, nil] The query the report answers
+    # @return [String] The section regeneration prompt
+    def section_regeneration_prompt(report_text:, section_heading:, user_query: nil)
+      text = report_text.to_s.strip
+      if text.length > MAX_SECTION_REGENERATION_REPORT_CHARS
+        text = "#{text[0, MAX_SECTION_REGENERATION_REPORT_CHARS]}\n[Report truncated]"
+      end
+      query = user_query.to_s.strip
+
+      [
+        "Rewrite only the section \"#{section_heading.strip}\" of the report below; the reader found it too thin or vague.",
+        '- Make it more specific and complete: research again where needed and cite sources as full URLs.',
+        '- Keep the section\'s format, including every table\'s columns and the emoji and rating conventions.',
+        '- Stay consistent with the other sections unless you find them wrong; then say so in the section.',
+        '- Respond with only the new body of the section: no heading, no other sections and no commentary.',
+        '', 'QUERY:', query.empty? ? '(the query was an image; see the report)' : query,
+        '', 'REPORT:', text
+      ].join("\n")
+    end
+
+    # Asks for a shorter Community Note. Only the note's text is rewritten; its
+    # sources are posted after it and stay as they are.
+    #
+    # @param note_text [String] The note without its sources
+    # @param max_chars [Integer] Length the new text must stay within, as X counts it
+    # @return [String] The shortening prompt
+    def community_note_shortening_prompt(note_text:, max_chars:)
+      [
+        "Shorten the Community Note below to at most #{max_chars} characters, counting every link as 23 characters.",
+        '- Keep the context without which the post is likely to be misread; drop finer details first.',
+        '- Do not add claims or links. The note\'s sources are posted separately and must not be repeated.',
+        '- Keep the neutral, plainly worded tone of a Community Note.',
+        '- Respond with only the new note text: no heading, no sources and no commentary.',
+        '', 'NOTE:', note_text.to_s.strip
+      ].join("\n")
+    end
+
     # List all available prompt keys
     #
     # @return [Array<Symbol>] Array of available prompt keys
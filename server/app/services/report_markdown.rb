@@ -0,0 +1,210 @@
+# frozen_string_literal: true
+
+# ReportMarkdown turns SIFT report markdown into simple blocks for document
+# exports (PDF today). It mirrors the client's reportParser: sections split on
+# "##"/"###" headings, with the "Generated ... / AI-Generated: ..." preamble kept
+# as its own section.
+#
+# Inline markup is emitted in Prawn's inline format (<b>, <i>, <link>, <sup>).
+module ReportMarkdown
+  PREAMBLE_REGEX = /\A(Generated .*?\nAI-Generated: .*?\n)/m
+  SECTION_HEADING_REGEX = /^(\#{2,3})\s+(.*?):?\s*$/
+  TABLE_ROW_REGEX = /\A\s*\|.*\|?\s*\z/
+  TABLE_SEPARATOR_REGEX = /\A\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*\z/
+  LIST_ITEM_REGEX = /\A\s*(?:([-*+])|(\d+)[.)])\s+(.*)\z/
+  MARKDOWN_LINK_REGEX = %r{\[([^\]]+)\]\((https?://[^\s)]+)\)}
+  # "([sitename](URL))", possibly several citations in one pair of parentheses
+  INLINE_CITATION_GROUP_REGEX = %r{\s?\(\s*((?:\[[^\]]+\]\(https?://[^\s)]+\)\s*[,;]?\s*)+)\)}
+  PLACEHOLDER_REGEX = /\u0000(\d+)\u0000/
+
+  class << self
+    # Split a report into titled sections
+    #
+    # @param text [String] Report markdown
+    # @return [Array<Hash>] Sections as { title:, level:, content: }
+    def parse_sections(text)
+      sections = []
+      remaining = text.to_s.gsub("\r\n", "\n")
+
+      if (preamble = remaining.match(PREAMBLE_REGEX))
+        sections << { title: 'Report Information', level: 0, content: preamble[0].strip }
+        remaining = remaining[preamble[0].length..].strip
+      end
+
+      remaining.split(/(?=^\#{2,3} )/).each do |part|
+        next if part.strip.empty?
+
+        heading = part.match(SECTION_HEADING_REGEX)
+        if heading && part.start_with?(heading[0])
+          title = heading[2].strip.sub(/:\z/, '').strip
+          sections << { title: title.empty? ? 'Untitled Section' : title,
+                        level: heading[1].length,
+                        content: part[heading[0].length..].strip }
+        elsif sections.any?
+          sections.last[:content] += "\n\n#{part.strip}"
+        else
+          sections << { title: 'Miscellaneous', level: 0, content: part.strip }
+        end
+      end
+
+      sections.reject { |section| section[:content].strip.empty? && section[:title] != 'Report Information' }
+    end
+
+    # Split section content into renderable blocks
+    #
+    # @param content [String] Section markdown
+    # @return [Array<Hash>] Blocks: :paragraph, :heading, :list, :table, :quote or :rule
+    def blocks(content)
+      lines = content.to_s.split("\n")
+      blocks = []
+      paragraph = []
+      flush = lambda do
+        blocks << { type: :paragraph, text: paragraph.join(' ') } if paragraph.any?
+        paragraph = []
+      end
+
+      i = 0
+      while i < lines.length
+        line = lines[i]
+        stripped = line.strip
+
+        if stripped.empty?
+          flush.call
+          i += 1
+        elsif table_start?(lines, i)
+          flush.call
+          headers = split_table_row(line)
+          rows = []
+          i += 2
+          while i < lines.length && lines[i].match?(TABLE_ROW_REGEX) && !lines[i].strip.empty?
+            rows << normalize_row(split_table_row(lines[i]), headers.length)
+            i += 1
+          end
+          blocks << { type: :table, headers: headers, rows: rows }
+        elsif (heading = stripped.match(/\A(\#{1,6})\s+(.*)\z/))
+          flush.call
+          blocks << { type: :heading, level: heading[1].length, text: heading[2] }
+          i += 1
+        elsif stripped.match?(/\A(-{3,}|\*{3,}|_{3,})\z/)
+          flush.call
+          blocks << { type: :rule }
+          i += 1
+        elsif stripped.start_with?('>')
+          flush.call
+          quote = []
+          while i < lines.length && lines[i].strip.start_with?('>')
+            quote << lines[i].strip.sub(/\A>\s?/, '')
+            i += 1
+          end
+          blocks << { type: :quote, text: quote.join(' ') }
+        elsif (item = stripped.match(LIST_ITEM_REGEX))
+          flush.call
+          ordered = !item[2].nil?
+          items = []
+          while i < lines.length && (item = lines[i].strip.match(LIST_ITEM_REGEX))
+            items << { text: item[3], indent: lines[i][/\A\s*/].length / 2 }
+            i += 1
+          end
+          blocks << { type: :list, ordered: ordered, items: items }
+        else
+          paragraph << stripped
+          i += 1
+        end
+      end
+      flush.call
+      blocks
+    end
+
+    # Every linked URL in the text, in order of first appearance
+    #
+    # @param text [String] Markdown
+    # @return [Array<Hash>] Unique links as { uri:, title: }
+    def collect_links(text)
+      seen = {}
+      text.to_s.scan(MARKDOWN_LINK_REGEX).each do |title, uri|
+        key = uri.sub(%r{/\z}, '')
+        seen[key] ||= { uri: uri, title: title.strip }
+      end
+      seen.values
+    end
+
+    # Convert inline markdown to Prawn inline format
+    #
+    # @param text [String] Markdown
+    # @param citation_numbers [Hash{String=>Integer}] URL => reference number; "([site](url))"
+    #   citations for these URLs become numbered superscript links
+    # @return [String] Prawn-formatted text
+    def inline_markup(text, citation_numbers = {})
+      tokens = []
+      placeholder = lambda do |markup|
+        tokens << markup
+        "\u0000#{tokens.length - 1}\u0000"
+      end
+
+      working = text.to_s.gsub(INLINE_CITATION_GROUP_REGEX) do |group|
+        links = Regexp.last_match(1).scan(MARKDOWN_LINK_REGEX)
+        numbers = links.map { |_title, uri| citation_numbers[uri.sub(%r{/\z}, '')] }
+        if numbers.all?
+          links.zip(numbers).map { |(_title, uri), number| placeholder.call(citation_markup(uri, number)) }.join
+        else
+          group
+        end
+      end
+      working = working.gsub(MARKDOWN_LINK_REGEX) do
+        placeholder.call(link_markup(Regexp.last_match(2), emphasis(escape(Regexp.last_match(1)))))
+      end
+      working = working.gsub(/`([^`]+)`/) { placeholder.call("<font name='Courier'>#{escape(Regexp.last_match(1))}</font>") }
+
+      emphasis(escape(working)).gsub(PLACEHOLDER_REGEX) { tokens[Regexp.last_match(1).to_i] }
+    end
+
+    # Strip markdown down to plain text (for outlines and table-of-contents entries)
+    #
+    # @param text [String] Markdown
+    # @return [String] Plain text
+    def plain_text(text)
+      text.to_s
+          .gsub(MARKDOWN_LINK_REGEX) { Regexp.last_match(1) }
+          .gsub(/\*\*|__|\*|`/, '')
+          .strip
+    end
+
+    def escape(text)
+      text.to_s.gsub('&', '&amp;').gsub('<', '&lt;').gsub('>', '&gt;')
+    end
+
+    def split_table_row(line)
+      row = line.strip
+      row = row[1..] if row.start_with?('|')
+      row = row[0...-1] if row.end_with?('|') && !row.end_with?('\\|')
+      row.split(/(?<!\\)\|/).map { |cell| cell.gsub('\\|', '|').strip }
+    end
+
+    private
+
+    def table_start?(lines, index)
+      lines[index].match?(TABLE_ROW_REGEX) && index + 1 < lines.length && lines[index + 1].match?(TABLE_SEPARATOR_REGEX)
+    end
+
+    # Pad or fold rows so every row has the header's column count
+    def normalize_row(cells, column_count)
+      return cells + ([''] * (column_count - cells.length)) if cells.length <= column_count
+
+      cells[0...(column_count - 1)] + [cells[(column_count - 1)..].join(' | ')]
+    end
+
+    def emphasis(text)
+      text.gsub(/\*\*(.+?)\*\*/, '<b>\1</b>')
+          .gsub(/__(.+?)__/, '<b>\1</b>')
+          .gsub(/(?<![*\w])\*(?!\s)(.+?)(?<!\s)\*(?![*\w])/, '<i>\1</i>')
+    end
+
+    def link_markup(uri, label)
+      "<color rgb='1A5FB4'><link href='#{uri.delete("'")}'>#{label}</link></color>"
+    end
+
+    def citation_markup(uri, number)
+      "<sup>#{link_markup(uri, "[#{number}]")}</sup>"
+    end
+  end
+end
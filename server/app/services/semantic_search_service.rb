@@ -0,0 +1,112 @@
+# frozen_string_literal: true
+
+require_relative 'embedding_service'
+require_relative 'report_markdown'
+require_relative '../models/processed_url'
+require_relative '../models/sift_analysis'
+
+# SemanticSearchService runs one embedding query against processed URLs and
+# stored SIFT analyses, returning each group ranked by cosine similarity with a
+# short snippet around the passage that best matches the query terms.
+module SemanticSearchService
+  class SearchError < StandardError; end
+
+  SEARCH_TYPES = %w[urls analyses].freeze
+  SNIPPET_LENGTH = 240
+
+  class << self
+    # Search processed URLs and/or analyses
+    #
+    # @param query [String] Free-text search query
+    # @param limit [Integer] Maximum results per type
+    # @param types [Array<String>] Any of SEARCH_TYPES
+    # @return [Hash] { urls: [...], analyses: [...] }, each sorted by similarity
+    def search(query:, limit: 10, types: SEARCH_TYPES)
+      query_embedding = EmbeddingService.generate_embedding(text: query)
+      raise SearchError, 'Failed to generate embedding for query' if query_embedding.nil?
+
+      {
+        urls: types.include?('urls') ? search_urls(query_embedding, query, limit) : [],
+        analyses: types.include?('analyses') ? search_analyses(query_embedding, query, limit) : []
+      }
+    end
+
+    # The passage of text that contains the most distinct query terms
+    #
+    # @param text [String] Plain text or markdown to excerpt
+    # @param query [String] Search query
+    # @param length [Integer] Approximate snippet length in characters
+    # @return [String, nil] Snippet with leading/trailing ellipses where truncated
+    def snippet(text, query, length: SNIPPET_LENGTH)
+      plain = ReportMarkdown.plain_text(text).gsub(/[|#>]+/, ' ').gsub(/\s+/, ' ').strip
+      return nil if plain.empty?
+      return plain if plain.length <= length
+
+      start = best_window_start(plain.downcase, query_terms(query), length)
+      start = (plain.rindex(' ', start) || -1) + 1 if start.positive? # Don't cut a word in half
+      excerpt = plain[start, length]
+      excerpt = excerpt.sub(/\s+\S*\z/, '') if start + length < plain.length
+
+      "#{start.positive? ? '…' : ''}#{excerpt.strip}#{start + excerpt.length < plain.length ? '…' : ''}"
+    end
+
+    # Distinct query words worth matching (three or more characters)
+    #
+    # @param query [String] Search query
+    # @return [Array<String>] Lowercased terms
+    def query_terms(query)
+      query.to_s.downcase.scan(/[[:alnum:]]{3,}/).uniq
+    end
+
+    private
+
+    def search_urls(query_embedding, query, limit)
+      ProcessedUrl.search_similar(query_embedding, limit).map do |url|
+        {
+          id: url.id,
+          url: url.original_url,
+          title: url.extracted_title,
+          snippet: snippet(url.extracted_content, query),
+          processed_at: url.processed_at,
+          similarity_score: url[:similarity]&.to_f
+        }
+      end
+    end
+
+    def search_analyses(query_embedding, query, limit)
+      SiftAnalysis.search_similar(query_embedding, limit).map do |analysis|
+        {
+          id: analysis.id,
+          user_query: analysis.user_query_text,
+          report_type: analysis.report_type,
+          model_used: analysis.model_id_used,
+          snippet: snippet(analysis.generated_report_text, query),
+          created_at: analysis.created_at,
+          similarity_score: analysis[:similarity]&.to_f
+        }
+      end
+    end
+
+    # Start offset of the window of `length` characters covering the most distinct terms
+    def best_window_start(text, terms, length)
+      positions = terms.flat_map do |term|
+        offsets = []
+        index = text.index(term)
+        while index
+          offsets << [index, term]
+          index = text.index(term, index + term.length)
+        end
+        offsets
+      end.sort
+      return 0 if positions.empty?
+
+      lead = length / 4 # Show a little context before the first match
+      best = positions.max_by do |position, _term|
+        window_start = [position - lead, 0].max
+        in_window = positions.select { |other, _| other >= window_start && other < window_start + length }
+        [in_window.map(&:last).uniq.length, in_window.length]
+      end
+      [[best.first - lead, 0].max, [text.length - length, 0].max].min
+    end
+  end
+end
@@ -0,0 +1,161 @@
+# frozen_string_literal: true
+
+require 'securerandom'
+
+# StreamRegistry buffers the events of in-flight SIFT generations so that SSE
+# clients can reconnect with Last-Event-ID and receive only what they missed.
+#
+# Every event gets a monotonically increasing integer id per stream. Streams are
+# kept in memory for STREAM_TTL seconds after they finish, then pruned.
+module StreamRegistry
+  class StreamNotFoundError < StandardError; end
+
+  STREAM_TTL = 15 * 60 # seconds
+  HEARTBEAT_INTERVAL = 15 # seconds
+
+  StreamState = Struct.new(:events, :finished, :cancelled, :finished_at, :condition, keyword_init: true)
+
+  @streams = {}
+  @mutex = Mutex.new
+
+  class << self
+    # Register a new stream
+    #
+    # @param stream_id [String] Optional id, a UUID is generated when omitted
+    # @return [String] The stream id
+    def create(stream_id = SecureRandom.uuid)
+      prune_expired
+
+      @mutex.synchronize do
+        @streams[stream_id] = StreamState.new(
+          events: [], finished: false, cancelled: false, finished_at: nil,
+          condition: ConditionVariable.new
+        )
+      end
+      stream_id
+    end
+
+    # Check whether a stream is registered
+    #
+    # @param stream_id [String] The stream id
+    # @return [Boolean] True if the stream exists
+    def exists?(stream_id)
+      @mutex.synchronize { @streams.key?(stream_id) }
+    end
+
+    # Append an event to a stream and wake up any waiting readers
+    #
+    # @param stream_id [String] The stream id
+    # @param event [String] Event name ('delta', 'analysis_id', 'error', 'complete', ...)
+    # @param data [Hash] Event payload
+    # @return [Integer] The id assigned to the event
+    def append(stream_id, event, data)
+      @mutex.synchronize do
+        state = fetch_state(stream_id)
+        id = state.events.length + 1
+        state.events << { id: id, event: event, data: data }
+        state.condition.broadcast
+        id
+      end
+    end
+
+    # Mark a stream as finished; no further events will be appended
+    #
+    # @param stream_id [String] The stream id
+    def finish(stream_id)
+      @mutex.synchronize do
+        state = @streams[stream_id]
+        next unless state
+
+        state.finished = true
+        state.finished_at = Time.now
+        state.condition.broadcast
+      end
+    end
+
+    # Flag a stream as cancelled so the producer can stop generating
+    #
+    # @param stream_id [String] The stream id
+    # @return [Boolean] True if the stream existed
+    def cancel(stream_id)
+      @mutex.synchronize do
+        state = @streams[stream_id]
+        return false unless state
+
+        state.cancelled = true
+        true
+      end
+    end
+
+    # @param stream_id [String] The stream id
+    # @return [Boolean] True if the stream was cancelled
+    def cancelled?(stream_id)
+      @mutex.synchronize { @streams[stream_id]&.cancelled || false }
+    end
+
+    # @param stream_id [String] The stream id
+    # @return [Boolean] True if the stream has finished
+    def finished?(stream_id)
+      @mutex.synchronize { fetch_state(stream_id).finished }
+    end
+
+    # Events with an id greater than after_id
+    #
+    # @param stream_id [String] The stream id
+    # @param after_id [Integer] Last event id the client has seen (0 for all)
+    # @return [Array<Hash>] Buffered events
+    def events_after(stream_id, after_id = 0)
+      @mutex.synchronize { fetch_state(stream_id).events.drop([after_id.to_i, 0].max) }
+    end
+
+    # Replay buffered events after after_id, then follow live events until the
+    # stream finishes. Yields nil every heartbeat_interval seconds without events
+    # so callers can keep the connection alive.
+    #
+    # @param stream_id [String] The stream id
+    # @param after_id [Integer] Last event id the client has seen
+    # @param heartbeat_interval [Numeric] Seconds to wait before yielding a heartbeat
+    # @yield [Hash, nil] Each event, or nil as a heartbeat
+    def each_event(stream_id, after_id: 0, heartbeat_interval: HEARTBEAT_INTERVAL)
+      last_id = [after_id.to_i, 0].max
+
+      loop do
+        pending, finished = @mutex.synchronize do
+          state = fetch_state(stream_id)
+          state.condition.wait(@mutex, heartbeat_interval) if state.events.length <= last_id && !state.finished
+          [state.events.drop(last_id), state.finished]
+        end
+
+        if pending.empty?
+          break if finished
+
+          yield nil
+          next
+        end
+
+        pending.each do |event|
+          yield event
+          last_id = event[:id]
+        end
+      end
+    end
+
+    # Remove finished streams older than STREAM_TTL
+    def prune_expired(now = Time.now)
+      @mutex.synchronize do
+        @streams.delete_if { |_id, state| state.finished && state.finished_at && now - state.finished_at > STREAM_TTL }
+      end
+    end
+
+    # Remove every stream (used by tests)
+    def reset!
+      @mutex.synchronize { @streams.clear }
+    end
+
+    private
+
+    def fetch_state(stream_id)
+      @streams[stream_id] || raise(StreamNotFoundError, "Stream not found: #{stream_id}")
+    end
+  end
+end
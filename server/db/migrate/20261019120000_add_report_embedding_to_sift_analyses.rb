@@ -0,0 +1,12 @@
+Sequel.migration do
+  up do
+    # Embedding of the query and generated report, used by /api/search/semantic
+    DB.run %{
+      ALTER TABLE sift_analyses ADD COLUMN report_embedding vector(1536);
+    }
+  end
+
+  down do
+    DB.run %( ALTER TABLE sift_analyses DROP COLUMN IF EXISTS report_embedding; )
+  end
+end
@@ -0,0 +1,13 @@
+Sequel.migration do
+  up do
+    # Ordered images of the initial query ([{ upload_id, mime_type, caption }]),
+    # referring to durable copies kept by UploadStore
+    DB.run %{
+      ALTER TABLE sift_analyses ADD COLUMN query_images_json JSONB;
+    }
+  end
+
+  down do
+    DB.run %( ALTER TABLE sift_analyses DROP COLUMN IF EXISTS query_images_json; )
+  end
+end
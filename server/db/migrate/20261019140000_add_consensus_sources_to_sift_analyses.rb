@@ -0,0 +1,13 @@
+Sequel.migration do
+  up do
+    # Ids of the analyses a consensus report was merged from, in the order they
+    # were given to the model; NULL for ordinary analyses
+    DB.run %{
+      ALTER TABLE sift_analyses ADD COLUMN consensus_source_ids_json JSONB;
+    }
+  end
+
+  down do
+    DB.run %( ALTER TABLE sift_analyses DROP COLUMN IF EXISTS consensus_source_ids_json; )
+  end
+end
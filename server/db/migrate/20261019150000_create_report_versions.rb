@@ -0,0 +1,31 @@
+Sequel.migration do
+  up do
+    # Every report generated for an analysis, numbered from 1: the initial report,
+    # restarts, "another round" answers and section regenerations
+    DB.run %{
+      CREATE TABLE report_versions (
+        id SERIAL PRIMARY KEY,
+        sift_analysis_id UUID NOT NULL REFERENCES sift_analyses(id) ON DELETE CASCADE,
+        version_number INTEGER NOT NULL,
+        kind VARCHAR(50) NOT NULL,
+        report_text TEXT NOT NULL,
+        model_id_used VARCHAR(255),
+        grounding_sources_json JSONB,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (sift_analysis_id, version_number)
+      );
+    }
+
+    # Existing reports become version 1 of their analysis
+    DB.run %{
+      INSERT INTO report_versions (sift_analysis_id, version_number, kind, report_text, model_id_used, created_at)
+      SELECT id, 1, 'initial', generated_report_text, model_id_used, created_at
+      FROM sift_analyses
+      WHERE generated_report_text IS NOT NULL AND generated_report_text <> '';
+    }
+  end
+
+  down do
+    DB.run %( DROP TABLE IF EXISTS report_versions; )
+  end
+end
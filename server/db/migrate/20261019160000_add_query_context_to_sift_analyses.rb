@@ -0,0 +1,21 @@
+Sequel.migration do
+  up do
+    # What the initial query carried besides its text and images, kept so a
+    # restart resends the same request: the extracted article of "Analyze URL"
+    # mode ({ url, final_url, title, content }), the claims the user picked and
+    # the in-browser image forensics findings
+    DB.run %{
+      ALTER TABLE sift_analyses ADD COLUMN url_context_json JSONB;
+      ALTER TABLE sift_analyses ADD COLUMN selected_claims_json JSONB;
+      ALTER TABLE sift_analyses ADD COLUMN image_forensics TEXT;
+    }
+  end
+
+  down do
+    DB.run %(
+      ALTER TABLE sift_analyses DROP COLUMN IF EXISTS image_forensics;
+      ALTER TABLE sift_analyses DROP COLUMN IF EXISTS selected_claims_json;
+      ALTER TABLE sift_analyses DROP COLUMN IF EXISTS url_context_json;
+    )
+  end
+end
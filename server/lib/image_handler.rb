@@ -4,6 +4,9 @@ require 'securerandom'
 require 'tempfile' # Ensure Tempfile class is explicitly available
 
 module ImageHandler
+  # Most images accepted for a single analysis request
+  MAX_IMAGES_PER_QUERY = 6
+
   # Processes an uploaded image file from Sinatra params.
   #
   # If a block is provided, it yields a hash containing the path to a
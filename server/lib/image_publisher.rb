@@ -0,0 +1,90 @@
+# sift_backend/lib/image_publisher.rb
+require 'json'
+require 'net/http'
+require 'uri'
+require_relative 'upload_store'
+
+# Gives stored query images a publicly reachable URL, which reverse image
+# search engines need because they fetch the image themselves.
+#
+# Configure one of:
+#   IMAGE_PROXY_UPLOAD_URL - an upload proxy that accepts a multipart `file` field
+#                            and responds with JSON `{ "url": "https://..." }`
+#   PUBLIC_BASE_URL        - the public address of this server (e.g. a tunnel);
+#                            images are then served from /api/uploads/:upload_id
+module ImagePublisher
+  class NotConfiguredError < StandardError; end
+  class UploadNotFoundError < StandardError; end
+  class ProxyError < StandardError; end
+
+  PROXY_TIMEOUT_SECONDS = 30
+
+  @public_urls = {}
+  @mutex = Mutex.new
+
+  # Publishes a stored image, reusing the URL from an earlier call for the same upload.
+  #
+  # @param upload_id [String] An id returned by UploadStore.store.
+  # @return [String] The image's public URL.
+  # @raise [UploadNotFoundError] If the upload is not stored.
+  # @raise [NotConfiguredError] If neither IMAGE_PROXY_UPLOAD_URL nor PUBLIC_BASE_URL is set.
+  # @raise [ProxyError] If the upload proxy fails or returns no URL.
+  def self.public_url(upload_id)
+    stored = UploadStore.find(upload_id)
+    raise UploadNotFoundError, "Upload not found: #{upload_id}" unless stored
+
+    cached = @mutex.synchronize { @public_urls[upload_id] }
+    return cached if cached
+
+    url =
+      if proxy_upload_url
+        upload_to_proxy(stored)
+      elsif public_base_url
+        "#{public_base_url.chomp('/')}/api/uploads/#{upload_id}"
+      else
+        raise NotConfiguredError,
+              'Image publishing is not configured. Set IMAGE_PROXY_UPLOAD_URL or PUBLIC_BASE_URL on the server.'
+      end
+
+    @mutex.synchronize { @public_urls[upload_id] = url }
+  end
+
+  def self.proxy_upload_url
+    ENV['IMAGE_PROXY_UPLOAD_URL'].to_s.strip.then { |value| value.empty? ? nil : value }
+  end
+
+  def self.public_base_url
+    ENV['PUBLIC_BASE_URL'].to_s.strip.then { |value| value.empty? ? nil : value }
+  end
+
+  def self.upload_to_proxy(stored)
+    uri = URI(proxy_upload_url)
+    request = Net::HTTP::Post.new(uri)
+
+    response = File.open(stored[:file_path], 'rb') do |file|
+      request.set_form(
+        [['file', file, { filename: File.basename(stored[:file_path]), content_type: stored[:original_mime_type] }]],
+        'multipart/form-data'
+      )
+      Net::HTTP.start(uri.host, uri.port, use_ssl: uri.scheme == 'https',
+                                          open_timeout: PROXY_TIMEOUT_SECONDS, read_timeout: PROXY_TIMEOUT_SECONDS) do |http|
+        http.request(request)
+      end
+    end
+
+    raise ProxyError, "Upload proxy responded with HTTP #{response.code}" unless response.is_a?(Net::HTTPSuccess)
+
+    url = begin
+      JSON.parse(response.body.to_s)['url']
+    rescue JSON::ParserError
+      nil
+    end
+    raise ProxyError, 'Upload proxy response did not include a URL' unless url.is_a?(String) && url.match?(%r{\Ahttps?://})
+
+    url
+  rescue SystemCallError, IOError, Timeout::Error, SocketError => e
+    raise ProxyError, "Upload proxy request failed: #{e.message}"
+  end
+
+  private_class_method :proxy_upload_url, :public_base_url, :upload_to_proxy
+end
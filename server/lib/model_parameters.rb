@@ -0,0 +1,86 @@
+# sift_backend/lib/model_parameters.rb
+
+# Applies the parameters a user set in the sidebar (see GET /api/models/config)
+# to a RubyLLM chat. Temperature has its own setter; everything else is sent as
+# extra request fields, named the way each provider's API expects them.
+#
+# Blank values mean "use the provider's default" and are left out.
+module ModelParameters
+  class UnsupportedError < StandardError; end
+
+  REASONING_EFFORTS = %w[low medium high].freeze
+  # OpenAI accepts at most four stop sequences
+  MAX_STOP_SEQUENCES = 4
+  MAX_SEED = 2_147_483_647
+
+  # @param chat [RubyLLM::Chat] The chat to configure.
+  # @param params [Hash] UI parameter values by key (string or symbol keys).
+  # @param provider [String, nil] RubyLLM provider slug; defaults to the chat model's provider.
+  # @return [RubyLLM::Chat] The same chat.
+  # @raise [UnsupportedError] If the chat cannot send extra request fields (ruby_llm < 1.4).
+  def self.apply(chat, params, provider: nil)
+    params = (params || {}).transform_keys(&:to_s)
+    provider ||= chat.model&.provider if chat.respond_to?(:model)
+
+    temperature = present(params['temperature'])
+    chat.with_temperature(temperature.to_f) if temperature
+
+    extra = request_params(params, provider: provider)
+    return chat if extra.empty?
+
+    unless chat.respond_to?(:with_params)
+      raise UnsupportedError, "This ruby_llm version cannot send #{extra.keys.join(', ')}; ruby_llm 1.4 or later is required."
+    end
+
+    chat.with_params(**extra)
+    chat
+  end
+
+  # Maps UI parameter values to the provider's request fields.
+  #
+  # @param params [Hash] UI parameter values by key (string keys).
+  # @param provider [String, nil] RubyLLM provider slug, e.g. "openai" or "gemini".
+  # @return [Hash] Request fields to merge into the provider payload.
+  def self.request_params(params, provider:)
+    top_p = present(params['topP'])&.to_f
+    top_k = present(params['topK'])&.to_i
+    max_tokens = present(params['max_tokens'])&.to_i
+    stop = stop_sequences(params['stop_sequences'])
+    seed = seed(params['seed'])
+    reasoning_effort = present(params['reasoning_effort'])&.to_s
+    reasoning_effort = nil unless REASONING_EFFORTS.include?(reasoning_effort)
+
+    fields =
+      case provider.to_s
+      when 'gemini', 'google'
+        generation_config = {
+          topP: top_p, topK: top_k, maxOutputTokens: max_tokens, stopSequences: stop, seed: seed
+        }.compact
+        generation_config.empty? ? {} : { generationConfig: generation_config }
+      when 'anthropic', 'bedrock'
+        { top_p: top_p, top_k: top_k, max_tokens: max_tokens, stop_sequences: stop }
+      when 'openrouter'
+        { top_p: top_p, top_k: top_k, max_tokens: max_tokens, stop: stop, seed: seed, reasoning_effort: reasoning_effort }
+      else # OpenAI and OpenAI-compatible APIs, which reject top_k
+        { top_p: top_p, max_tokens: max_tokens, stop: stop, seed: seed, reasoning_effort: reasoning_effort }
+      end
+    fields.compact
+  end
+
+  # Stop sequences are entered as one comma-separated text field.
+  def self.stop_sequences(value)
+    sequences = value.to_s.split(',').map(&:strip).reject(&:empty?).first(MAX_STOP_SEQUENCES)
+    sequences.empty? ? nil : sequences
+  end
+
+  def self.seed(value)
+    seed = Integer(present(value).to_s, exception: false)
+    seed if seed && seed.between?(0, MAX_SEED)
+  end
+
+  def self.present(value)
+    value.nil? || value.to_s.strip.empty? ? nil : value
+  end
+
+  private_class_method :stop_sequences, :seed, :present
+end
@@ -0,0 +1,95 @@
+# sift_backend/lib/upload_store.rb
+require 'fileutils'
+require 'securerandom'
+require 'tmpdir'
+
+# Keeps a durable copy of every image uploaded with an analysis request so the
+# exact same query can be re-run later (restart, reopening from history) by
+# referring to its upload id instead of re-sending the file. Images older than
+# the retention period are pruned, oldest first once the store outgrows its size
+# cap; analyses whose images were pruned can no longer be restarted.
+module UploadStore
+  UPLOAD_DIR = ENV.fetch('SIFT_UPLOAD_DIR', File.expand_path('../storage/uploads', __dir__))
+  UPLOAD_ID_FORMAT = /\A[0-9a-f]{32}\z/
+  # 0 turns either limit off
+  RETENTION_DAYS = Integer(ENV.fetch('SIFT_UPLOAD_RETENTION_DAYS', '30'))
+  MAX_TOTAL_BYTES = Integer(ENV.fetch('SIFT_UPLOAD_MAX_MB', '500')) * 1024 * 1024
+
+  MIME_TYPES_BY_EXTENSION = {
+    '.jpg' => 'image/jpeg',
+    '.jpeg' => 'image/jpeg',
+    '.png' => 'image/png',
+    '.gif' => 'image/gif',
+    '.webp' => 'image/webp'
+  }.freeze
+
+  # Copies a processed image into the store.
+  #
+  # @param file_path [String] Path of the image to keep (e.g. from ImageHandler.process_uploaded_image).
+  # @param mime_type [String] The image's MIME type; determines the stored file extension.
+  # @return [String] The new upload id.
+  def self.store(file_path, mime_type)
+    upload_id = SecureRandom.hex(16)
+    extension = MIME_TYPES_BY_EXTENSION.key(mime_type.to_s.downcase) || File.extname(file_path).downcase
+    FileUtils.mkdir_p(UPLOAD_DIR)
+    FileUtils.copy_file(file_path, File.join(UPLOAD_DIR, "#{upload_id}#{extension}"))
+    prune(keep: upload_id)
+    upload_id
+  end
+
+  # Deletes images older than the retention period, then the oldest images
+  # until the store fits in the size cap.
+  #
+  # @param now [Time] The current time.
+  # @param keep [String, nil] An upload id that is never deleted, e.g. the one just stored.
+  # @param retention_days [Integer] Maximum age of an image in days; 0 keeps images of any age.
+  # @param max_total_bytes [Integer] Maximum size of the store; 0 for no cap.
+  # @return [Array<String>] The ids of the deleted images.
+  def self.prune(now: Time.now, keep: nil, retention_days: RETENTION_DAYS, max_total_bytes: MAX_TOTAL_BYTES)
+    files = Dir.glob(File.join(UPLOAD_DIR, '*')).select { |path| File.file?(path) }.map do |path|
+      { id: File.basename(path, '.*'), path: path, mtime: File.mtime(path), size: File.size(path) }
+    end
+    kept, candidates = files.sort_by { |file| file[:mtime] }.partition { |file| file[:id] == keep }
+
+    expired = retention_days.positive? ? candidates.select { |file| now - file[:mtime] > retention_days * 86_400 } : []
+    remaining = candidates - expired
+    total = (kept + remaining).sum { |file| file[:size] }
+    while max_total_bytes.positive? && total > max_total_bytes && !remaining.empty?
+      oldest = remaining.shift
+      expired << oldest
+      total -= oldest[:size]
+    end
+
+    expired.each { |file| FileUtils.rm_f(file[:path]) }
+    expired.map { |file| file[:id] }
+  end
+
+  # Looks up a stored image.
+  #
+  # @param upload_id [String] An id returned by `store`.
+  # @return [Hash, nil] `{ file_path: String, original_mime_type: String }`, or `nil` if the id
+  #   is malformed or no longer stored.
+  def self.find(upload_id)
+    return nil unless upload_id.is_a?(String) && upload_id.match?(UPLOAD_ID_FORMAT)
+
+    file_path = Dir.glob(File.join(UPLOAD_DIR, "#{upload_id}.*")).first
+    return nil unless file_path
+
+    mime_type = MIME_TYPES_BY_EXTENSION.fetch(File.extname(file_path).downcase, 'application/octet-stream')
+    { file_path: file_path, original_mime_type: mime_type }
+  end
+
+  # Copies a stored image to a temporary file, in the same shape as
+  # ImageHandler.process_uploaded_image. The CALLER IS RESPONSIBLE for deleting it.
+  #
+  # @param upload_id [String] An id returned by `store`.
+  # @return [Hash, nil] `{ file_path:, original_mime_type:, upload_id: }`, or `nil` if not found.
+  def self.checkout(upload_id)
+    stored = find(upload_id)
+    return nil unless stored
+
+    temp_path = File.join(Dir.tmpdir, "sift_image_#{SecureRandom.hex(8)}#{File.extname(stored[:file_path])}")
+    FileUtils.copy_file(stored[:file_path], temp_path)
+    stored.merge(file_path: temp_path, upload_id: upload_id)
+  end
+end
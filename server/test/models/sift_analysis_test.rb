@@ -56,6 +56,24 @@ class SiftAnalysisTest < Minitest::Test
     assert analysis.errors.key?(:report_type)
   end
 
+  def test_every_configured_report_type_can_be_saved
+    skip unless DB
+
+    report_type_ids = AgentManager.report_types.map { |type| type[:id] }
+    assert_includes report_type_ids, 'COMMUNITY_NOTE'
+
+    report_type_ids.each do |report_type_id|
+      analysis = SiftAnalysis.create_from_sift_request(
+        user_query_text: "Query for #{report_type_id}",
+        report_type: report_type_id,
+        model_id_used: 'test-model'
+      )
+
+      assert analysis.valid?, "#{report_type_id} should be a valid report type"
+      assert_equal report_type_id, analysis.report_type
+    end
+  end
+
   def test_update_report
     skip unless DB
 
@@ -201,6 +219,25 @@ class SiftAnalysisTest < Minitest::Test
     assert summary[:updated_at]
   end
 
+  def test_stores_query_context_for_restarts
+    skip unless DB
+
+    analysis = SiftAnalysis.create_from_sift_request(
+      user_query_text: 'https://example.com/story',
+      report_type: 'FULL_CHECK',
+      model_id_used: 'test-model',
+      url_context: { url: 'https://example.com/story', final_url: 'https://example.com/story', title: 'Story', content: 'Body' },
+      selected_claims: ['The bridge opened in 1932'],
+      image_forensics: 'No EXIF data'
+    )
+    summary = SiftAnalysis[analysis.id].summary
+
+    assert_equal 'Story', summary[:url_context]['title']
+    assert_equal ['The bridge opened in 1932'], summary[:selected_claims]
+    assert_equal 'No EXIF data', summary[:image_forensics]
+    assert_nil create_test_analysis.url_context
+  end
+
   def test_class_methods
     skip unless DB
 
@@ -114,6 +114,32 @@ class AgentManagerEnhancedTest < Minitest::Test
     refute_empty agents
   end
 
+  def test_report_types_come_from_agent_configs
+    report_types = AgentManager.report_types
+
+    assert_equal 'FULL_CHECK', report_types.first[:id]
+    image_analysis = report_types.find { |report_type| report_type[:id] == 'IMAGE_ANALYSIS' }
+    assert_equal 'sift_image_analysis', image_analysis[:agent]
+    assert_equal ['image'], image_analysis[:required_inputs]
+    assert image_analysis[:requires_vision]
+    assert_equal({ title: 'Visual Description', format: 'text' }, image_analysis[:sections].first)
+  end
+
+  def test_report_types_are_read_once_until_reloaded
+    report_types = AgentManager.report_types
+
+    assert_same report_types, AgentManager.report_types
+    reloaded = AgentManager.reload_report_types!
+    refute_same report_types, reloaded
+    assert_equal report_types, reloaded
+    assert_same reloaded, AgentManager.report_types
+  end
+
+  def test_find_report_type_accepts_labels
+    assert_equal 'community_note', AgentManager.find_report_type('Community Note')[:behavior]
+    assert_nil AgentManager.find_report_type('Hot Take')
+  end
+
   def test_get_agent_summary
     summary = AgentManager.get_agent_summary(@test_agent)
 
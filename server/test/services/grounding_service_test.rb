@@ -0,0 +1,69 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require_relative '../../app/services/grounding_service'
+
+# Test source extraction and deduplication for the `sources` SSE event
+class GroundingServiceTest < Minitest::Test
+  def test_from_text_extracts_markdown_links_and_bare_urls_in_order
+    text = <<~MARKDOWN
+      | Source | Usefulness Assessment | Notes | Rating |
+      | [Reuters](https://www.reuters.com/world/article-1) | High | Wire report | 5 |
+      See also https://apnews.com/article/xyz.
+    MARKDOWN
+
+    sources = GroundingService.from_text(text)
+
+    assert_equal ['https://www.reuters.com/world/article-1', 'https://apnews.com/article/xyz'],
+                 sources.map { |source| source[:web][:uri] }
+    assert_equal 'Reuters', sources.first[:web][:title]
+    assert_equal 'https://apnews.com/article/xyz', sources.last[:web][:title]
+  end
+
+  def test_from_text_returns_empty_array_without_links
+    assert_equal [], GroundingService.from_text('No links here.')
+    assert_equal [], GroundingService.from_text(nil)
+  end
+
+  def test_from_provider_metadata_reads_gemini_grounding_chunks
+    raw = {
+      'candidates' => [{
+        'groundingMetadata' => {
+          'groundingChunks' => [
+            { 'web' => { 'uri' => 'https://example.org/a', 'title' => 'example.org' } },
+            { 'retrievedContext' => {} }
+          ]
+        }
+      }]
+    }
+
+    assert_equal [{ web: { uri: 'https://example.org/a', title: 'example.org' } }],
+                 GroundingService.from_provider_metadata(raw)
+  end
+
+  def test_from_provider_metadata_ignores_messages_without_raw_response
+    assert_equal [], GroundingService.from_provider_metadata(nil)
+    assert_equal [], GroundingService.from_provider_metadata(Object.new)
+  end
+
+  def test_merge_dedupes_by_normalized_uri_and_keeps_best_title
+    merged = GroundingService.merge(
+      [{ web: { uri: 'https://Example.org/page/', title: 'https://Example.org/page/' } }],
+      [{ web: { uri: 'https://example.org/page#section', title: 'Example Page' } },
+       { web: { uri: 'https://example.org/other', title: 'Other' } }]
+    )
+
+    assert_equal 2, merged.length
+    assert_equal 'Example Page', merged.first[:web][:title]
+    assert_equal 'https://Example.org/page/', merged.first[:web][:uri]
+  end
+
+  def test_sse_event_formats_sources_payload
+    event = GroundingService.sse_event([{ web: { uri: 'https://example.org', title: 'Example' } }])
+
+    assert event.start_with?("event: sources\ndata: ")
+    assert event.end_with?("\n\n")
+    payload = JSON.parse(event.lines[1].delete_prefix('data: '))
+    assert_equal 'https://example.org', payload['sources'].first['web']['uri']
+  end
+end
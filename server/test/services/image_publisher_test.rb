@@ -0,0 +1,42 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require 'tmpdir'
+ENV['SIFT_UPLOAD_DIR'] ||= Dir.mktmpdir('sift_uploads_test')
+require_relative '../../lib/image_publisher'
+
+# Test public URLs for stored query images
+class ImagePublisherTest < Minitest::Test
+  def setup
+    @saved_env = ENV.to_h.slice('IMAGE_PROXY_UPLOAD_URL', 'PUBLIC_BASE_URL')
+    ENV.delete('IMAGE_PROXY_UPLOAD_URL')
+    ENV.delete('PUBLIC_BASE_URL')
+
+    source = File.join(Dir.tmpdir, "image_publisher_source_#{SecureRandom.hex(4)}.bin")
+    File.binwrite(source, 'image bytes')
+    @upload_id = UploadStore.store(source, 'image/png')
+    FileUtils.rm_f(source)
+  end
+
+  def teardown
+    ENV.delete('IMAGE_PROXY_UPLOAD_URL')
+    ENV.delete('PUBLIC_BASE_URL')
+    @saved_env.each { |key, value| ENV[key] = value }
+  end
+
+  def test_serves_from_public_base_url_when_no_proxy_is_configured
+    ENV['PUBLIC_BASE_URL'] = 'https://sift.example.org/'
+
+    assert_equal "https://sift.example.org/api/uploads/#{@upload_id}", ImagePublisher.public_url(@upload_id)
+  end
+
+  def test_requires_configuration
+    assert_raises(ImagePublisher::NotConfiguredError) { ImagePublisher.public_url(@upload_id) }
+  end
+
+  def test_rejects_unknown_uploads
+    ENV['PUBLIC_BASE_URL'] = 'https://sift.example.org'
+
+    assert_raises(ImagePublisher::UploadNotFoundError) { ImagePublisher.public_url(SecureRandom.hex(16)) }
+  end
+end
@@ -0,0 +1,67 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require_relative '../../lib/model_parameters'
+
+# Test mapping of sidebar parameters to provider request fields
+class ModelParametersTest < Minitest::Test
+  # Records what ModelParameters.apply sets on a chat
+  class FakeChat
+    attr_reader :temperature, :params
+
+    def with_temperature(temperature)
+      @temperature = temperature
+      self
+    end
+
+    def with_params(**params)
+      @params = params
+      self
+    end
+  end
+
+  def test_maps_openai_parameters_and_drops_blank_values
+    fields = ModelParameters.request_params(
+      {
+        'topP' => 0.9, 'topK' => 40, 'max_tokens' => '2048', 'stop_sequences' => 'END, ###,,',
+        'seed' => '42', 'reasoning_effort' => 'high'
+      },
+      provider: 'openai'
+    )
+
+    assert_equal({ top_p: 0.9, max_tokens: 2048, stop: ['END', '###'], seed: 42, reasoning_effort: 'high' }, fields)
+    assert_empty ModelParameters.request_params({ 'stop_sequences' => ' ', 'seed' => '' }, provider: 'openai')
+  end
+
+  def test_nests_gemini_parameters_in_generation_config
+    fields = ModelParameters.request_params(
+      { 'topK' => 40, 'stop_sequences' => 'END', 'seed' => 7, 'reasoning_effort' => 'low' },
+      provider: 'gemini'
+    )
+
+    assert_equal({ generationConfig: { topK: 40, stopSequences: ['END'], seed: 7 } }, fields)
+  end
+
+  def test_ignores_invalid_seed_and_reasoning_effort
+    fields = ModelParameters.request_params({ 'seed' => 'abc', 'reasoning_effort' => 'maximum' }, provider: 'openrouter')
+    assert_empty fields
+
+    assert_empty ModelParameters.request_params({ 'seed' => -1 }, provider: 'openrouter')
+  end
+
+  def test_apply_sets_temperature_and_extra_fields_with_symbol_keys
+    chat = FakeChat.new
+    ModelParameters.apply(chat, { temperature: '0.2', seed: 3 }, provider: 'openai')
+
+    assert_in_delta 0.2, chat.temperature
+    assert_equal({ seed: 3 }, chat.params)
+  end
+
+  def test_apply_raises_when_the_chat_cannot_send_extra_fields
+    chat = Struct.new(:temperature) { def with_temperature(value) = tap { self.temperature = value } }.new
+
+    error = assert_raises(ModelParameters::UnsupportedError) { ModelParameters.apply(chat, { 'seed' => 3 }, provider: 'openai') }
+    assert_includes error.message, 'seed'
+    assert_same chat, ModelParameters.apply(chat, { 'temperature' => 0.5 }, provider: 'openai')
+  end
+end
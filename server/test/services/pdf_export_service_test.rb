@@ -0,0 +1,86 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require 'minitest/mock'
+require_relative '../../app/services/pdf_export_service'
+
+# Test the PDF rendering of a stored analysis: cover, contents, report,
+# references and the follow-up appendix
+class PdfExportServiceTest < Minitest::Test
+  REPORT = <<~MARKDOWN
+    Generated 19 October 2026
+
+    ## 1. Verified Facts:
+
+    | Statement | Status | Clarification | Confidence |
+    |---|---|---|---|
+    | Photo shows *Paris* | ✅ Correct | Taken in 2019 ([Reuters](https://www.reuters.com/a)) | 4–5 |
+    | The crowd was 10,000 | ❌ Incorrect | About 2,000 ([AP](https://apnews.com/b)) | 3–4 |
+
+    ## 2. Verdict
+    The photo is **old** but genuine 📷; see [AP](https://apnews.com/b).
+    - first point
+    - second point
+  MARKDOWN
+
+  def setup
+    @analysis = {
+      id: 'analysis-1',
+      user_query: 'Is this photo of the Paris protest from last week? 🤔',
+      report_type: 'FULL_CHECK',
+      model_used: 'gemini-2.5-pro',
+      created_at: Time.utc(2026, 10, 19, 12, 0)
+    }
+    @history = [
+      { role: 'user', content: @analysis[:user_query], timestamp: Time.utc(2026, 10, 19, 12, 0) },
+      { role: 'assistant', content: REPORT, timestamp: Time.utc(2026, 10, 19, 12, 1), model_id: 'gemini-2.5-pro' },
+      { role: 'user', content: 'Who took it?', timestamp: Time.utc(2026, 10, 19, 12, 2) },
+      { role: 'assistant', content: 'A **Reuters** photographer 📸.', timestamp: Time.utc(2026, 10, 19, 12, 3), model_id: 'gemini-2.5-pro' }
+    ]
+  end
+
+  def test_render_report_with_tables_links_emoji_and_follow_ups
+    pdf = PdfExportService.render(analysis: @analysis, conversation_history: @history)
+
+    assert pdf.start_with?('%PDF')
+    # Cover, contents, report, references and the follow-up appendix
+    assert_equal 5, page_count(pdf)
+  end
+
+  def test_render_with_built_in_fonts_drops_unsupported_characters
+    pdf = PdfExportService.stub(:font_path, nil) do
+      PdfExportService.render(analysis: @analysis, conversation_history: @history)
+    end
+
+    assert pdf.start_with?('%PDF')
+    assert_equal 5, page_count(pdf)
+  end
+
+  def test_render_without_follow_ups_or_links_leaves_out_their_pages
+    history = [
+      { role: 'user', content: 'Is this true?', timestamp: Time.utc(2026, 10, 19, 12, 0) },
+      { role: 'assistant', content: "## Verdict\nNo sources were found.", timestamp: Time.utc(2026, 10, 19, 12, 1) }
+    ]
+
+    assert_equal 3, page_count(PdfExportService.render(analysis: @analysis, conversation_history: history))
+  end
+
+  def test_render_requires_an_assistant_message
+    error = assert_raises(PdfExportService::ExportError) do
+      PdfExportService.render(analysis: @analysis, conversation_history: @history.take(1))
+    end
+
+    assert_equal 'Analysis has no generated report to export', error.message
+  end
+
+  def test_filename_uses_report_type_and_date
+    assert_equal 'SIFT_Report_FULL_CHECK_2026-10-19.pdf', PdfExportService.filename(@analysis)
+    assert_equal 'SIFT_Report_REPORT_undated.pdf', PdfExportService.filename({ report_type: nil, created_at: nil })
+  end
+
+  private
+
+  def page_count(pdf)
+    pdf.scan(%r{/Type /Page\b}).length
+  end
+end
@@ -210,6 +210,47 @@ class PersistenceServiceTest < Minitest::Test
     assert_equal 'Certainly, let me explain in more detail...', ai_msg.message_text
   end
 
+  def test_save_report_version_numbers_versions_and_replaces_the_report
+    skip unless DB
+
+    result = PersistenceService.save_initial_sift_analysis(
+      user_query_text: 'Check this claim about bridges',
+      report_type: 'FULL_CHECK',
+      model_id_used: 'test-model',
+      generated_report_text: '## 1. Verified Facts\nFirst run'
+    )
+    @test_analysis_id = result[:analysis_id]
+    assert_equal 1, result[:version_number]
+    PersistenceService.save_followup_conversation(
+      analysis_id: result[:analysis_id], user_message_text: 'Why 1932?', ai_response_text: 'Because...', model_id_used: 'test-model'
+    )
+
+    restart = PersistenceService.save_report_version(
+      analysis_id: result[:analysis_id], kind: 'restart', report_text: '## 1. Verified Facts\nSecond run', model_id_used: 'test-model'
+    )
+    another_round = PersistenceService.save_report_version(
+      analysis_id: result[:analysis_id], kind: 'another_round', report_text: 'Post-round update', model_id_used: 'test-model'
+    )
+
+    assert_equal 2, restart[:version_number]
+    assert_equal 3, another_round[:version_number]
+    assert_equal %w[initial restart another_round], PersistenceService.get_report_versions(result[:analysis_id]).map { |v| v[:kind] }
+    assert_equal '## 1. Verified Facts\nSecond run', SiftAnalysis[result[:analysis_id]].generated_report_text
+    history = SiftAnalysis[result[:analysis_id]].conversation_history
+    assert_equal %w[user assistant], history.map { |message| message[:role] }
+    assert_equal '## 1. Verified Facts\nSecond run', history.last[:content]
+  end
+
+  def test_save_report_version_not_found
+    skip unless DB
+
+    assert_raises(PersistenceService::AnalysisNotFoundError) do
+      PersistenceService.save_report_version(
+        analysis_id: '00000000-0000-0000-0000-000000000000', kind: 'restart', report_text: 'Report'
+      )
+    end
+  end
+
   def test_get_analysis_with_history
     skip unless DB
 
@@ -183,4 +183,97 @@ class PromptManagerTest < Minitest::Test
     assert_includes context.keys, :environment
     assert_equal '1.0', context[:version]
   end
+
+  def test_url_context_section
+    section = PromptManager.url_context_section(
+      url: 'http://example.com/a', final_url: 'https://example.com/a', title: 'Headline', content: 'Body text'
+    )
+
+    assert_includes section, 'URL: http://example.com/a'
+    assert_includes section, 'Final URL after redirects: https://example.com/a'
+    assert_includes section, 'Title: Headline'
+    assert_includes section, 'Body text'
+  end
+
+  def test_url_context_section_truncates_long_content
+    long_content = 'x' * (PromptManager::MAX_URL_CONTEXT_CHARS + 10)
+    section = PromptManager.url_context_section(url: 'https://example.com', content: long_content)
+
+    assert_includes section, 'Content truncated'
+    refute_includes section, 'Final URL'
+  end
+
+  def test_image_attachments_section_lists_images_in_order
+    section = PromptManager.image_attachments_section(
+      [{ file_path: '/tmp/a.png', caption: 'Original post' }, { file_path: '/tmp/b.png', caption: '  ' }]
+    )
+
+    assert_includes section, 'ATTACHED IMAGES (2'
+    assert_includes section, "Image 1: Original post\nImage 2\n"
+  end
+
+  def test_image_forensics_section_truncates_long_findings
+    section = PromptManager.image_forensics_section('x' * (PromptManager::MAX_IMAGE_FORENSICS_CHARS + 10))
+
+    assert_includes section, 'IMAGE FORENSICS'
+    assert_includes section, '[Findings truncated]'
+  end
+
+  def test_consensus_section_numbers_runs_and_asks_for_agreement_counts
+    section = PromptManager.consensus_section([
+                                                { model_id_used: 'gemini-2.5-pro', report_text: '## 1. Verified Facts' },
+                                                { model_id_used: 'gpt-4o', report_text: 'y' * (PromptManager::MAX_CONSENSUS_REPORT_CHARS + 1) }
+                                              ])
+
+    assert_includes section, 'RUN 1 (model: gemini-2.5-pro)'
+    assert_includes section, 'RUN 2 (model: gpt-4o)'
+    assert_includes section, '[agreed/2 runs]'
+    assert_includes section, '## Disputed Claims'
+    assert_includes section, '[Report truncated]'
+  end
+
+  def test_claim_extraction_prompt_includes_text_and_article
+    prompt = PromptManager.claim_extraction_prompt(
+      'The mayor resigned after the bridge collapsed.',
+      url_context: { url: 'https://example.com/a', content: 'Article body' }
+    )
+
+    assert_includes prompt, 'JSON array of strings'
+    assert_includes prompt, 'The mayor resigned after the bridge collapsed.'
+    assert_includes prompt, 'URL: https://example.com/a'
+  end
+
+  def test_parse_claim_list_reads_fenced_json_and_bullets
+    fenced = "```json\n[\"The bridge collapsed in 2019\", \" \", \"The bridge collapsed in 2019\", 4]\n```"
+    assert_equal ['The bridge collapsed in 2019'], PromptManager.parse_claim_list(fenced)
+
+    bullets = "Here are the claims:\n- The mayor resigned\n2. Repairs cost $2 million\n"
+    assert_equal ['The mayor resigned', 'Repairs cost $2 million'], PromptManager.parse_claim_list(bullets)
+  end
+
+  def test_selected_claims_section_numbers_claims_in_order
+    section = PromptManager.selected_claims_section(['The mayor resigned', 'Repairs cost $2 million'])
+
+    assert_includes section, 'CLAIMS TO CHECK'
+    assert_includes section, "1. The mayor resigned\n2. Repairs cost $2 million"
+  end
+
+  def test_section_regeneration_prompt_names_the_section_and_includes_the_report
+    prompt = PromptManager.section_regeneration_prompt(
+      report_text: "## 1. Verified Facts\nNone\n\n## 4. Source Usefulness\nThin",
+      section_heading: '## 4. Source Usefulness ',
+      user_query: 'Did the bridge collapse?'
+    )
+
+    assert_includes prompt, 'Rewrite only the section "## 4. Source Usefulness"'
+    assert_includes prompt, "QUERY:\nDid the bridge collapse?"
+    assert_includes prompt, "REPORT:\n## 1. Verified Facts"
+  end
+
+  def test_community_note_shortening_prompt_states_the_limit_and_includes_the_note
+    prompt = PromptManager.community_note_shortening_prompt(note_text: "  The photo is from 2015.\n", max_chars: 620)
+
+    assert_includes prompt, 'at most 620 characters'
+    assert_match(/NOTE:\nThe photo is from 2015\.\z/, prompt)
+  end
 end
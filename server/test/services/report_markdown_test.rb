@@ -0,0 +1,67 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require_relative '../../app/services/report_markdown'
+
+# Test the markdown-to-blocks conversion used by document exports
+class ReportMarkdownTest < Minitest::Test
+  REPORT = <<~MARKDOWN
+    Generated 19 October 2026
+    AI-Generated: Verify before relying on this report.
+
+    ## 1. Verified Facts:
+
+    | Statement | Status | Clarification | Confidence |
+    |---|---|---|---|
+    | Photo shows *Paris* | ✅ Correct | Taken in 2019 \\| archive | 4–5 |
+    | Short row | ❌ Incorrect |
+
+    ### Notes
+    The photo is **old** ([Reuters](https://www.reuters.com/a)); see [AP](https://apnews.com/b).
+    - first point
+    - second point
+  MARKDOWN
+
+  def test_parse_sections_splits_preamble_and_headings
+    sections = ReportMarkdown.parse_sections(REPORT)
+
+    assert_equal ['Report Information', '1. Verified Facts', 'Notes'], sections.map { |s| s[:title] }
+    assert_equal [0, 2, 3], sections.map { |s| s[:level] }
+  end
+
+  def test_blocks_parse_tables_and_pad_short_rows
+    table = ReportMarkdown.blocks(ReportMarkdown.parse_sections(REPORT)[1][:content]).first
+
+    assert_equal :table, table[:type]
+    assert_equal %w[Statement Status Clarification Confidence], table[:headers]
+    assert_equal 'Taken in 2019 | archive', table[:rows][0][2]
+    assert_equal ['Short row', '❌ Incorrect', '', ''], table[:rows][1]
+  end
+
+  def test_blocks_separate_paragraphs_and_lists
+    blocks = ReportMarkdown.blocks(ReportMarkdown.parse_sections(REPORT)[2][:content])
+
+    assert_equal %i[paragraph list], blocks.map { |b| b[:type] }
+    assert_equal ['first point', 'second point'], blocks[1][:items].map { |item| item[:text] }
+  end
+
+  def test_collect_links_dedupes_in_order
+    links = ReportMarkdown.collect_links("#{REPORT}\n[Reuters again](https://www.reuters.com/a/)")
+
+    assert_equal ['https://www.reuters.com/a', 'https://apnews.com/b'], links.map { |link| link[:uri] }
+  end
+
+  def test_inline_markup_numbers_citations_and_escapes_text
+    markup = ReportMarkdown.inline_markup('A & B are **old** ([Reuters](https://www.reuters.com/a?x=1&y=2)).',
+                                          { 'https://www.reuters.com/a?x=1&y=2' => 3 })
+
+    assert_equal "A &amp; B are <b>old</b><sup><color rgb='1A5FB4'><link href='https://www.reuters.com/a?x=1&y=2'>[3]</link></color></sup>.",
+                 markup
+  end
+
+  def test_inline_markup_keeps_unnumbered_links_as_links
+    markup = ReportMarkdown.inline_markup('See [AP](https://apnews.com/b) and *this*.')
+
+    assert_equal "See <color rgb='1A5FB4'><link href='https://apnews.com/b'>AP</link></color> and <i>this</i>.", markup
+  end
+end
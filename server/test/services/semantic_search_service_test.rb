@@ -0,0 +1,41 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require_relative '../../app/services/semantic_search_service'
+
+# Test snippet selection for semantic search results
+class SemanticSearchServiceTest < Minitest::Test
+  FILLER_BEFORE = 'lorem ipsum dolor sit amet ' * 30
+  FILLER_AFTER = 'unrelated closing words ' * 30
+
+  def test_snippet_centres_on_the_passage_matching_most_terms
+    text = "#{FILLER_BEFORE}Floodwater covered downtown Miami after Hurricane Ian made landfall. #{FILLER_AFTER}"
+    snippet = SemanticSearchService.snippet(text, 'Miami hurricane flooding')
+
+    assert_includes snippet, 'downtown Miami after Hurricane Ian'
+    assert snippet.start_with?('…')
+    assert snippet.end_with?('…')
+    assert_operator snippet.length, :<=, SemanticSearchService::SNIPPET_LENGTH + 2
+  end
+
+  def test_snippet_strips_markdown_and_keeps_short_text_whole
+    snippet = SemanticSearchService.snippet("## Verdict\n| **Claim** | [Source](https://example.org) |", 'claim')
+
+    assert_equal 'Verdict Claim Source', snippet
+  end
+
+  def test_snippet_without_matches_starts_at_the_beginning
+    snippet = SemanticSearchService.snippet("#{FILLER_BEFORE}#{FILLER_AFTER}", 'zebra')
+
+    assert snippet.start_with?('lorem ipsum')
+    assert snippet.end_with?('…')
+  end
+
+  def test_snippet_of_blank_text_is_nil
+    assert_nil SemanticSearchService.snippet(nil, 'anything')
+  end
+
+  def test_query_terms_ignores_short_words_and_duplicates
+    assert_equal %w[the flood miami], SemanticSearchService.query_terms('The flood in Miami, the FLOOD')
+  end
+end
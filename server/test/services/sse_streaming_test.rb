@@ -1,128 +1,131 @@
 # frozen_string_literal: true
 
+ENV['RACK_ENV'] = 'test'
+
 require 'minitest/autorun'
+require 'rack/test'
 require 'json'
+require_relative '../../app'
 
-# Test SSE streaming functionality and format consistency
+# Test the app's SSE helpers and the /api/sift/stream route, including
+# Last-Event-ID replay of the events buffered in StreamRegistry
 class SSEStreamingTest < Minitest::Test
+  include Rack::Test::Methods
+
+  def app
+    Sinatra::Application
+  end
+
+  def setup
+    StreamRegistry.reset!
+    @stream_id = StreamRegistry.create
+  end
+
   def test_sse_helper_method_data_event
-    # Mock output stream
     mock_output = MockOutputStream.new
 
-    # Create a simple app instance to test the helper
-    app = create_app_instance
-
-    # Test data event formatting
-    app.send_sse_event(mock_output, :data, { delta: 'test content' })
+    helpers.send_sse_event(mock_output, :data, { delta: 'test content' })
 
-    expected = "data: {\"delta\":\"test content\"}\n\n"
-    assert_equal expected, mock_output.last_message
+    assert_equal "data: {\"delta\":\"test content\"}\n\n", mock_output.last_message
     assert mock_output.flushed?, 'Stream should be flushed after sending'
   end
 
   def test_sse_helper_method_named_event
     mock_output = MockOutputStream.new
-    app = create_app_instance
 
-    # Test named event formatting
-    app.send_sse_event(mock_output, :event, { event: 'complete', data: { message: 'done' } })
+    helpers.send_sse_event(mock_output, :event, { event: 'complete', data: { message: 'done' } })
+
+    assert_equal "event: complete\ndata: {\"message\":\"done\"}\n\n", mock_output.last_message
+  end
+
+  def test_sse_helper_prefixes_event_id
+    mock_output = MockOutputStream.new
+
+    helpers.send_sse_event(mock_output, :data, { delta: 'chunk' }, id: 7)
+    assert_equal "id: 7\ndata: {\"delta\":\"chunk\"}\n\n", mock_output.last_message
 
-    expected = "event: complete\ndata: {\"message\":\"done\"}\n\n"
-    assert_equal expected, mock_output.last_message
+    helpers.send_sse_event(mock_output, :event, { event: 'complete', data: { message: 'done' } }, id: 8)
+    assert_equal "id: 8\nevent: complete\ndata: {\"message\":\"done\"}\n\n", mock_output.last_message
   end
 
   def test_sse_helper_handles_closed_stream
     mock_output = MockOutputStream.new
     mock_output.close!
-    app = create_app_instance
 
-    # Should not raise error when stream is closed
-    app.send_sse_event(mock_output, :data, { delta: 'test' })
+    helpers.send_sse_event(mock_output, :data, { delta: 'test' })
 
     assert_empty mock_output.messages, 'Should not send to closed stream'
   end
 
-  def test_sse_event_format_consistency
-    mock_output = MockOutputStream.new
-    app = create_app_instance
-
-    # Test various event types use consistent formatting
-    app.send_sse_event(mock_output, :data, { delta: 'chunk1' })
-    app.send_sse_event(mock_output, :event, { event: 'error', data: { type: 'TestError', message: 'test error' } })
-    app.send_sse_event(mock_output, :event, { event: 'complete', data: { message: 'finished' } })
+  def test_sse_helper_swallows_write_errors
+    helpers.send_sse_event(ErrorOutputStream.new, :data, { test: 'data' })
+  end
 
-    # All messages should end with double newline
-    mock_output.messages.each do |message|
-      assert message.end_with?("\n\n"), "SSE message should end with double newline: #{message.inspect}"
-    end
+  def test_recorded_ai_service_output_is_numbered_in_order
+    helpers.record_ai_service_output(@stream_id, 'First chunk')
+    helpers.record_ai_service_output(@stream_id, '   ')
+    helpers.record_ai_service_output(@stream_id, "event: error\ndata: {\"type\":\"TestError\",\"message\":\"boom\"}\n\n")
 
-    # Data events should start with 'data: '
-    data_messages = mock_output.messages.select { |msg| msg.start_with?('data: ') }
-    assert_equal 1, data_messages.length
+    events = StreamRegistry.events_after(@stream_id)
 
-    # Event messages should have both 'event:' and 'data:' lines
-    event_messages = mock_output.messages.reject { |msg| msg.start_with?('data: ') }
-    event_messages.each do |message|
-      assert message.include?('event: '), "Event message should contain event line: #{message}"
-      assert message.include?('data: '), "Event message should contain data line: #{message}"
-    end
+    assert_equal [1, 2], events.map { |event| event[:id] }
+    assert_equal %w[delta error], events.map { |event| event[:event] }
+    assert_equal 'boom', events.last[:data]['message']
   end
 
-  def test_json_serialization_in_sse_events
-    mock_output = MockOutputStream.new
-    app = create_app_instance
+  def test_stream_route_sends_every_event_with_its_id
+    record_finished_stream
 
-    # Test with special characters and unicode
-    test_data = {
-      message: "Test with special chars: <>&\"'",
-      unicode: 'Unicode: 🚀 ñoño',
-      nested: { array: [1, 2, 3], null_value: nil }
-    }
+    get "/api/sift/stream/#{@stream_id}"
+
+    assert_equal 200, last_response.status
+    assert last_response.content_type.start_with?('text/event-stream')
+    assert_equal [
+      "id: 1\ndata: {\"delta\":\"Verified \"}\n\n",
+      "id: 2\ndata: {\"delta\":\"Facts\"}\n\n",
+      "id: 3\nevent: complete\ndata: {\"message\":\"Stream finished\"}\n\n"
+    ].join, last_response.body
+  end
 
-    app.send_sse_event(mock_output, :data, test_data)
+  def test_stream_route_replays_events_after_last_event_id
+    record_finished_stream
 
-    # Should be valid JSON
-    message = mock_output.last_message
-    json_part = message.gsub(/^data: /, '').gsub(/\n\n$/, '')
-    parsed = JSON.parse(json_part)
+    get "/api/sift/stream/#{@stream_id}", {}, { 'HTTP_LAST_EVENT_ID' => '1' }
 
-    assert_equal test_data[:message], parsed['message']
-    assert_equal test_data[:unicode], parsed['unicode']
-    assert_equal test_data[:nested][:array], parsed['nested']['array']
+    assert_equal [2, 3], event_ids(last_response.body)
+    refute_includes last_response.body, 'Verified '
   end
 
-  def test_error_handling_in_sse_helper
-    # Mock output that raises error on write
-    error_output = ErrorOutputStream.new
-    app = create_app_instance
+  def test_stream_route_accepts_last_event_id_query_param
+    record_finished_stream
 
-    # Should not raise error, but should log it
-    app.send_sse_event(error_output, :data, { test: 'data' })
+    get "/api/sift/stream/#{@stream_id}?lastEventId=2"
 
-    # Verify error was caught (implementation detail - would need logger mock in real test)
-    assert true, 'Should handle output stream errors gracefully'
+    assert_equal [3], event_ids(last_response.body)
   end
 
-  private
+  def test_stream_route_rejects_unknown_streams
+    get '/api/sift/stream/missing-stream'
 
-  def create_app_instance
-    # Create minimal app instance with the helper methods
-    app_class = Class.new do
-      include SSEHelpers
+    assert_equal 404, last_response.status
+    assert_equal 'NotFoundError', JSON.parse(last_response.body)['error']['type']
+  end
 
-      def initialize
-        @logger = MockLogger.new
-      end
+  private
 
-      attr_reader :logger
+  def helpers
+    @helpers ||= Sinatra::Application.new!
+  end
 
-      # Mock settings for the helper
-      def settings
-        self
-      end
-    end
+  def record_finished_stream
+    StreamRegistry.append(@stream_id, 'delta', { delta: 'Verified ' })
+    StreamRegistry.append(@stream_id, 'delta', { delta: 'Facts' })
+    StreamRegistry.append(@stream_id, 'complete', { message: 'Stream finished' })
+    StreamRegistry.finish(@stream_id)
+  end
 
-    app_class.new
+  def event_ids(body)
+    body.scan(/^id: (\d+)$/).flatten.map(&:to_i)
   end
 
   # Mock output stream for testing
@@ -143,10 +146,6 @@ class SSEStreamingTest < Minitest::Test
       @flushed = true
     end
 
-    def respond_to?(method)
-      method == :flush || super
-    end
-
     def closed?
       @closed
     end
@@ -174,46 +173,8 @@ class SSEStreamingTest < Minitest::Test
       raise StandardError, 'Mock flush error'
     end
 
-    def respond_to?(method)
-      method == :flush || super
-    end
-
     def closed?
       false
     end
   end
-
-  # Mock logger for testing
-  class MockLogger
-    attr_reader :errors
-
-    def initialize
-      @errors = []
-    end
-
-    def error(message)
-      @errors << message
-    end
-  end
-
-  # Include the SSE helpers for testing
-  module SSEHelpers
-    def send_sse_event(out, event_type, data)
-      return if out.closed?
-
-      sse_message = case event_type
-                    when :data
-                      "data: #{data.to_json}\n\n"
-                    when :event
-                      "event: #{data[:event]}\ndata: #{data[:data].to_json}\n\n"
-                    else
-                      "#{event_type}: #{data}\n\n"
-                    end
-
-      out << sse_message
-      out.flush if out.respond_to?(:flush) # Ensure immediate transmission
-    rescue StandardError => e
-      settings.logger.error "Error sending SSE event: #{e.message}"
-    end
-  end
 end
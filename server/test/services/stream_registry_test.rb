@@ -0,0 +1,78 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require_relative '../../app/services/stream_registry'
+
+# Test event buffering and Last-Event-ID replay for SIFT generation streams
+class StreamRegistryTest < Minitest::Test
+  def setup
+    StreamRegistry.reset!
+    @stream_id = StreamRegistry.create
+  end
+
+  def test_append_assigns_sequential_ids
+    first = StreamRegistry.append(@stream_id, 'delta', { delta: 'a' })
+    second = StreamRegistry.append(@stream_id, 'delta', { delta: 'b' })
+
+    assert_equal 1, first
+    assert_equal 2, second
+  end
+
+  def test_events_after_returns_only_missing_events
+    StreamRegistry.append(@stream_id, 'delta', { delta: 'a' })
+    StreamRegistry.append(@stream_id, 'delta', { delta: 'b' })
+    StreamRegistry.append(@stream_id, 'complete', { message: 'done' })
+
+    missing = StreamRegistry.events_after(@stream_id, 1)
+
+    assert_equal [2, 3], missing.map { |event| event[:id] }
+    assert_equal 'b', missing.first[:data][:delta]
+  end
+
+  def test_each_event_replays_and_stops_when_finished
+    StreamRegistry.append(@stream_id, 'delta', { delta: 'a' })
+    StreamRegistry.append(@stream_id, 'delta', { delta: 'b' })
+    StreamRegistry.finish(@stream_id)
+
+    received = []
+    StreamRegistry.each_event(@stream_id, after_id: 1, heartbeat_interval: 0.01) { |event| received << event }
+
+    assert_equal [2], received.map { |event| event[:id] }
+  end
+
+  def test_each_event_follows_live_events
+    producer = Thread.new do
+      sleep 0.05
+      StreamRegistry.append(@stream_id, 'delta', { delta: 'live' })
+      StreamRegistry.finish(@stream_id)
+    end
+
+    received = []
+    StreamRegistry.each_event(@stream_id, heartbeat_interval: 0.01) { |event| received << event }
+    producer.join
+
+    assert_includes received, nil, 'Should yield heartbeats while waiting'
+    assert_equal ['live'], received.compact.map { |event| event[:data][:delta] }
+  end
+
+  def test_cancel_flags_stream
+    refute StreamRegistry.cancelled?(@stream_id)
+    assert StreamRegistry.cancel(@stream_id)
+    assert StreamRegistry.cancelled?(@stream_id)
+    refute StreamRegistry.cancel('missing-stream')
+  end
+
+  def test_unknown_stream_raises
+    refute StreamRegistry.exists?('missing-stream')
+    assert_raises(StreamRegistry::StreamNotFoundError) do
+      StreamRegistry.append('missing-stream', 'delta', { delta: 'x' })
+    end
+  end
+
+  def test_prune_expired_removes_old_finished_streams
+    StreamRegistry.finish(@stream_id)
+    StreamRegistry.prune_expired(Time.now + StreamRegistry::STREAM_TTL + 1)
+
+    refute StreamRegistry.exists?(@stream_id)
+  end
+end
@@ -0,0 +1,73 @@
+# frozen_string_literal: true
+
+require 'minitest/autorun'
+require 'tmpdir'
+ENV['SIFT_UPLOAD_DIR'] ||= Dir.mktmpdir('sift_uploads_test')
+require_relative '../../lib/upload_store'
+
+# Test durable storage of query images
+class UploadStoreTest < Minitest::Test
+  def setup
+    @source = File.join(Dir.tmpdir, "upload_store_source_#{SecureRandom.hex(4)}.bin")
+    File.binwrite(@source, 'image bytes')
+  end
+
+  def teardown
+    FileUtils.rm_f(@source)
+  end
+
+  def test_store_and_find_round_trip
+    upload_id = UploadStore.store(@source, 'image/png')
+    stored = UploadStore.find(upload_id)
+
+    assert_match UploadStore::UPLOAD_ID_FORMAT, upload_id
+    assert_equal 'image/png', stored[:original_mime_type]
+    assert_equal '.png', File.extname(stored[:file_path])
+    assert_equal 'image bytes', File.binread(stored[:file_path])
+  end
+
+  def test_checkout_returns_a_temporary_copy
+    upload_id = UploadStore.store(@source, 'image/jpeg')
+    copy = UploadStore.checkout(upload_id)
+
+    refute_equal UploadStore.find(upload_id)[:file_path], copy[:file_path]
+    assert_equal upload_id, copy[:upload_id]
+    assert_equal 'image/jpeg', copy[:original_mime_type]
+    assert_equal 'image bytes', File.binread(copy[:file_path])
+  ensure
+    FileUtils.rm_f(copy[:file_path]) if copy
+  end
+
+  def test_prune_deletes_images_past_retention_and_keeps_the_newest
+    old_id = UploadStore.store(@source, 'image/png')
+    File.utime(Time.now - (3 * 86_400), Time.now - (3 * 86_400), UploadStore.find(old_id)[:file_path])
+    recent_id = UploadStore.store(@source, 'image/png')
+
+    pruned = UploadStore.prune(keep: recent_id, retention_days: 2, max_total_bytes: 0)
+
+    assert_equal [old_id], pruned
+    assert_nil UploadStore.find(old_id)
+    refute_nil UploadStore.find(recent_id)
+  end
+
+  def test_prune_deletes_the_oldest_images_beyond_the_size_cap
+    ids = Array.new(3) { UploadStore.store(@source, 'image/png') }
+    ids.each_with_index do |id, index|
+      File.utime(Time.now - (10 - index), Time.now - (10 - index), UploadStore.find(id)[:file_path])
+    end
+    other_bytes = (Dir.glob(File.join(UploadStore::UPLOAD_DIR, '*')) - ids.map { |id| UploadStore.find(id)[:file_path] })
+                  .sum { |path| File.size(path) }
+
+    UploadStore.prune(keep: ids.last, retention_days: 0, max_total_bytes: other_bytes + (2 * 'image bytes'.bytesize))
+
+    assert_nil UploadStore.find(ids.first)
+    refute_nil UploadStore.find(ids[1])
+    refute_nil UploadStore.find(ids.last)
+  end
+
+  def test_find_rejects_unknown_and_malformed_ids
+    assert_nil UploadStore.find(SecureRandom.hex(16))
+    assert_nil UploadStore.find('../../etc/passwd')
+    assert_nil UploadStore.find(nil)
+  end
+end